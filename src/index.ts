@@ -12,37 +12,56 @@ import {
 import { z } from 'zod';
 import { promises as fs } from 'fs';
 import { join, resolve } from 'path';
-import { homedir } from 'os';
 
 // Import utilities
 import { ConfigManager } from './utils/config.js';
 import { CacheManager } from './utils/cache.js';
 import { logger } from './utils/logger.js';
+import { JobManager } from './utils/jobs.js';
+import { RunRegistry, simulationUri } from './utils/run-registry.js';
+import { parseCoverageFile, summarizeCoverage } from './utils/coverage-parser.js';
 
 // Import tools
-import { CompileTool } from './tools/compile.js';
-import { SimulateTool } from './tools/simulate.js';
-import { TestbenchGeneratorTool } from './tools/testbench-generator.js';
-import { NaturalLanguageTool } from './tools/natural-language.js';
+import { AbstractTool, ToolExecutionContext } from './tools/base.js';
+import { ToolRegistry, createBuiltinTools, pluginDirectories } from './tools/registry.js';
 
 // Resource schemas
 const SimulationResourceSchema = z.object({
   projectId: z.string(),
-  type: z.enum(['log', 'waveform', 'coverage', 'assertion']),
+  type: z.enum(['run', 'log', 'waveform', 'coverage', 'assertion']),
   simulationId: z.string(),
 });
 
+// URI path segment of each simulation resource type
+const SIMULATION_CATEGORIES: Record<string, z.infer<typeof SimulationResourceSchema>['type']> = {
+  runs: 'run',
+  logs: 'log',
+  waves: 'waveform',
+  coverage: 'coverage',
+  assertions: 'assertion',
+};
+
+// Resources are read whole, so larger artifacts are refused
+const MAX_RESOURCE_SIZE = 64 * 1024 * 1024;
+
 const DesignResourceSchema = z.object({
   projectId: z.string(),
   type: z.enum(['hierarchy', 'interface', 'parameter']),
 });
 
+const DESIGN_RESOURCES: Record<z.infer<typeof DesignResourceSchema>['type'], string> = {
+  hierarchy: 'Module instance tree with resolved parameters and port connections',
+  interface: 'Ports of every module in the design',
+  parameter: 'Resolved parameter values of every module in the design',
+};
+
 class VerilatorMCPServer {
   private server: Server;
   private configManager: ConfigManager;
   private cacheManager: CacheManager;
-  private tools: Map<string, any>;
-  private resourceDir: string;
+  private registry: ToolRegistry;
+  private jobManager: JobManager;
+  private runRegistry: RunRegistry;
 
   constructor() {
     this.server = new Server(
@@ -60,45 +79,53 @@ class VerilatorMCPServer {
 
     this.configManager = ConfigManager.getInstance();
     this.cacheManager = new CacheManager();
-    this.tools = new Map();
-    this.resourceDir = join(homedir(), '.verilator-mcp', 'resources');
+    this.registry = new ToolRegistry();
+    this.jobManager = new JobManager();
+    this.runRegistry = new RunRegistry();
 
     this.initializeTools();
     this.setupHandlers();
   }
 
   private initializeTools() {
-    // Initialize all tools
-    const tools = [
-      new CompileTool(this.configManager, this.cacheManager),
-      new SimulateTool(this.configManager, this.cacheManager),
-      new TestbenchGeneratorTool(this.configManager, this.cacheManager),
-      new NaturalLanguageTool(this.configManager, this.cacheManager),
-    ];
-
-    // Register tools
-    for (const tool of tools) {
-      const toolName = tool.constructor.name.replace('Tool', '').toLowerCase();
-      this.tools.set(`verilator_${toolName}`, tool);
+    for (const tool of createBuiltinTools(this.configManager, this.cacheManager)) {
+      this.registry.register(tool);
+    }
+  }
+
+  private async loadPlugins() {
+    const results = await this.registry.loadPlugins(pluginDirectories(), {
+      AbstractTool,
+      configManager: this.configManager,
+      cacheManager: this.cacheManager,
+      logger,
+    });
+    const failed = results.filter(result => result.error);
+    if (failed.length > 0) {
+      logger.warn(`${failed.length} of ${results.length} plugins failed to load`);
     }
   }
 
   private setupHandlers() {
     // Handle tool listing
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      const tools = Array.from(this.tools.entries()).map(([name, tool]) => ({
-        name,
-        description: tool.getDescription(),
-        inputSchema: tool.getInputSchema(),
-      }));
+      const tools = this.registry.list().map(tool => {
+        const { name, version, category, capabilities } = tool.getMetadata();
+        return {
+          name,
+          description: tool.getDescription(),
+          inputSchema: tool.getInputSchema(),
+          _meta: { version, category, capabilities },
+        };
+      });
 
       return { tools };
     });
 
     // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
-      const tool = this.tools.get(name);
+      const tool = this.registry.get(name);
 
       if (!tool) {
         throw new McpError(
@@ -107,9 +134,24 @@ class VerilatorMCPServer {
         );
       }
 
+      if (args?.background === true && tool.getMetadata().capabilities.includes('background')) {
+        return this.startJob(tool, args);
+      }
+
       try {
-        const result = await tool.execute(args);
+        const result = await tool.execute(args, {
+          ...this.createExecutionContext(request.params._meta?.progressToken),
+          signal: extra.signal,
+        });
         
+        if (result.cancelled) {
+          // The SDK drops responses to cancelled requests; this is for clients that wait anyway
+          return {
+            content: [{ type: 'text', text: 'Cancelled' }],
+            isError: true,
+          };
+        }
+
         if (!result.success) {
           return {
             content: [
@@ -123,7 +165,7 @@ class VerilatorMCPServer {
         }
 
         // Format response based on tool type
-        const response = this.formatToolResponse(name, result.data);
+        const response = this.formatToolResponse(tool.getName(), result.data);
         
         return {
           content: [
@@ -147,41 +189,66 @@ class VerilatorMCPServer {
       const resources = [];
 
       try {
-        // List simulation artifacts
-        const projectDirs = await this.listProjects();
-        
-        for (const projectId of projectDirs) {
-          const projectPath = join(this.resourceDir, projectId);
-          
-          // Add simulation resources
-          const simPath = join(projectPath, 'simulations');
-          if (await this.pathExists(simPath)) {
-            const simulations = await fs.readdir(simPath);
-            
-            for (const simId of simulations) {
+        for (const projectId of await this.runRegistry.listProjects()) {
+          // Every recorded simulation run, with whichever artifacts still exist
+          for (const run of await this.runRegistry.list(projectId)) {
+            const label = `${run.name}${run.seed !== undefined ? ` seed ${run.seed}` : ''} (${run.id})`;
+            const status = run.status || (run.passed ? 'passed' : 'failed');
+
+            resources.push({
+              uri: simulationUri(run),
+              name: `Simulation Run - ${label}`,
+              description: `Run record: ${status}, ${new Date(run.createdAt).toISOString()}, artifact paths`,
+              mimeType: 'application/json',
+            });
+
+            if (await this.pathExists(run.artifacts.logFile)) {
               resources.push({
-                uri: `simulation://${projectId}/logs/${simId}`,
-                name: `Simulation Log - ${simId}`,
+                uri: simulationUri(run, 'logs'),
+                name: `Simulation Log - ${label}`,
                 description: 'Simulation output log',
                 mimeType: 'text/plain',
               });
+            }
 
+            if (await this.pathExists(run.artifacts.waveformFile)) {
               resources.push({
-                uri: `simulation://${projectId}/waves/${simId}`,
-                name: `Waveform - ${simId}`,
+                uri: simulationUri(run, 'waves'),
+                name: `Waveform - ${label}`,
                 description: 'Simulation waveform data',
-                mimeType: 'application/vcd',
+                mimeType: this.getWaveformMimeType(run.artifacts.waveformFile!),
               });
             }
+
+            if (await this.pathExists(run.artifacts.coverageFile)) {
+              resources.push({
+                uri: simulationUri(run, 'coverage'),
+                name: `Coverage - ${label}`,
+                description: 'Coverage summary with uncovered points',
+                mimeType: 'application/json',
+              });
+            }
+
+            resources.push({
+              uri: simulationUri(run, 'assertions'),
+              name: `Assertions - ${label}`,
+              description: 'Assertion results and simulation errors',
+              mimeType: 'application/json',
+            });
           }
 
-          // Add design resources
-          resources.push({
-            uri: `design://${projectId}/hierarchy`,
-            name: `Design Hierarchy - ${projectId}`,
-            description: 'Module hierarchy information',
-            mimeType: 'application/json',
-          });
+          // Add design resources written by verilator_hierarchy
+          const designDir = this.runRegistry.getDesignDir(projectId);
+          for (const [type, description] of Object.entries(DESIGN_RESOURCES)) {
+            if (await this.pathExists(join(designDir, `${type}.json`))) {
+              resources.push({
+                uri: `design://${projectId}/${type}`,
+                name: `Design ${type[0].toUpperCase()}${type.slice(1)} - ${projectId}`,
+                description,
+                mimeType: 'application/json',
+              });
+            }
+          }
         }
       } catch (error) {
         logger.error('Error listing resources:', error);
@@ -201,8 +268,7 @@ class VerilatorMCPServer {
           contents: [
             {
               uri,
-              mimeType: this.getResourceMimeType(uri),
-              text: content,
+              ...content,
             },
           ],
         };
@@ -215,16 +281,93 @@ class VerilatorMCPServer {
     });
   }
 
+  /**
+   * Validate the call now, so mistakes surface immediately rather than in
+   * the job, then hand it to a background worker.
+   */
+  private async startJob(tool: AbstractTool, args: Record<string, unknown>) {
+    try {
+      await tool.validate(args);
+      const job = await this.jobManager.submit(tool.getName(), { ...args, background: false });
+      if (job.status === 'failed') {
+        throw new Error(job.error);
+      }
+
+      let response = `Started job ${job.id} (${job.tool})\n`;
+      response += `Follow it with verilator_job, e.g. { "operation": "status", "jobId": "${job.id}" }\n`;
+      return {
+        content: [{ type: 'text', text: response }],
+        _meta: { jobId: job.id },
+      };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Forward tool progress to the client as notifications/progress, if it sent
+   * a progress token. `progress` counts updates, since phases have no common
+   * scale; the phase percentage travels alongside it.
+   */
+  private createExecutionContext(progressToken?: string | number): ToolExecutionContext {
+    if (progressToken === undefined) {
+      return {};
+    }
+
+    let progress = 0;
+    return {
+      onProgress: update => {
+        const percent = update.percent !== undefined ? ` ${update.percent}%` : '';
+        this.server
+          .notification({
+            method: 'notifications/progress',
+            params: {
+              progressToken,
+              progress: ++progress,
+              message: update.message || `${update.phase}${percent}`,
+              phase: update.phase,
+              percent: update.percent,
+              log: update.log,
+            },
+          })
+          .catch(error => logger.warn('Failed to send progress notification:', error));
+      },
+    };
+  }
+
   private formatToolResponse(toolName: string, data: any): string {
     switch (toolName) {
       case 'verilator_compile':
         return this.formatCompileResponse(data);
       case 'verilator_simulate':
         return this.formatSimulateResponse(data);
-      case 'verilator_testbenchgenerator':
+      case 'verilator_testbench_generator':
         return this.formatTestbenchResponse(data);
-      case 'verilator_naturallanguage':
+      case 'verilator_natural_language':
         return this.formatNaturalLanguageResponse(data);
+      case 'verilator_waveform':
+        return this.formatWaveformResponse(data);
+      case 'verilator_coverage':
+        return this.formatCoverageResponse(data);
+      case 'verilator_regression':
+        return this.formatRegressionResponse(data);
+      case 'verilator_lint':
+        return this.formatLintResponse(data);
+      case 'verilator_waiver':
+        return this.formatWaiverResponse(data);
+      case 'verilator_cache':
+        return this.formatCacheResponse(data);
+      case 'verilator_job':
+        return this.formatJobResponse(data);
+      case 'verilator_hierarchy':
+        return this.formatHierarchyResponse(data);
+      case 'verilator_signal_xref':
+        return this.formatSignalXrefResponse(data);
+      case 'verilator_root_cause':
+        return this.formatRootCauseResponse(data);
       default:
         return JSON.stringify(data, null, 2);
     }
@@ -233,11 +376,18 @@ class VerilatorMCPServer {
   private formatCompileResponse(data: any): string {
     let response = `Compilation ${data.success ? 'Successful' : 'Failed'}\n`;
     response += `Output Directory: ${data.outputDir}\n`;
+    if (data.cached) {
+      response += 'Reused cached build (sources, includes and flags unchanged)\n';
+    }
     
     if (data.executable) {
       response += `Executable: ${data.executable}\n`;
     }
 
+    if (data.sources) {
+      response += this.formatSources(data.sources);
+    }
+
     if (data.errors && data.errors.length > 0) {
       response += '\nErrors:\n';
       data.errors.forEach((err: any) => {
@@ -248,7 +398,7 @@ class VerilatorMCPServer {
     if (data.warnings && data.warnings.length > 0) {
       response += '\nWarnings:\n';
       data.warnings.forEach((warn: any) => {
-        response += `  ${warn.file}:${warn.line}: ${warn.message}\n`;
+        response += `  ${warn.file}:${warn.line}: ${warn.code ? `[${warn.code}] ` : ''}${warn.message}\n`;
       });
     }
 
@@ -261,6 +411,25 @@ class VerilatorMCPServer {
     return response;
   }
 
+  private formatSources(sources: any): string {
+    let response = `Sources: ${sources.files.length} files`;
+    if (sources.filelists.length > 0) {
+      response += ` from ${sources.filelists.length} filelists`;
+    }
+    response += '\n';
+    if (sources.includes.length > 0) {
+      response += `Include Dirs: ${sources.includes.length}\n`;
+    }
+    const defines = Object.keys(sources.defines);
+    if (defines.length > 0) {
+      response += `Defines: ${defines.join(', ')}\n`;
+    }
+    if (sources.libraryDirs.length > 0 || sources.libraryFiles.length > 0) {
+      response += `Libraries: ${sources.libraryDirs.length} dirs, ${sources.libraryFiles.length} files\n`;
+    }
+    return response;
+  }
+
   private formatSimulateResponse(data: any): string {
     let response = `Simulation ${data.passed ? 'Passed' : 'Failed'}\n`;
     response += `Simulation Time: ${data.simulationTime} time units\n`;
@@ -274,6 +443,23 @@ class VerilatorMCPServer {
       response += `Waveform File: ${data.waveformFile}\n`;
     }
 
+    if (data.runUri) {
+      response += `Run Resource: ${data.runUri}\n`;
+    }
+
+    if (data.sources) {
+      response += this.formatSources(data.sources);
+    }
+
+    if (data.reports) {
+      if (data.reports.junit) {
+        response += `JUnit Report: ${data.reports.junit}\n`;
+      }
+      if (data.reports.json) {
+        response += `JSON Report: ${data.reports.json}\n`;
+      }
+    }
+
     if (data.assertions && data.assertions.length > 0) {
       response += '\nAssertions:\n';
       const passed = data.assertions.filter((a: any) => a.passed).length;
@@ -336,6 +522,28 @@ class VerilatorMCPServer {
       response += `  Clock Domains: ${data.moduleInfo.clockDomains.length}\n`;
     }
 
+    response += `\nPorts:\n`;
+    data.moduleInfo.ports.forEach((port: any) => {
+      const type = port.dataType ? ` ${port.dataType}` : '';
+      const width = port.width > 0 ? `${port.width} bit${port.width === 1 ? '' : 's'}` : 'width unknown';
+      response += `  ${port.direction} ${port.name}${type} (${port.type === 'interface' ? 'interface' : width})\n`;
+    });
+
+    if (data.moduleInfo.parameters && data.moduleInfo.parameters.length > 0) {
+      response += `\nParameters:\n`;
+      data.moduleInfo.parameters.forEach((param: any) => {
+        const value = param.value !== undefined ? param.value : 'unknown';
+        response += `  ${param.local ? 'localparam' : 'parameter'} ${param.name} = ${value}\n`;
+      });
+    }
+
+    if (data.moduleInfo.warnings && data.moduleInfo.warnings.length > 0) {
+      response += `\nParser Warnings:\n`;
+      data.moduleInfo.warnings.forEach((warning: string) => {
+        response += `  - ${warning}\n`;
+      });
+    }
+
     return response;
   }
 
@@ -374,17 +582,361 @@ class VerilatorMCPServer {
     return response;
   }
 
-  private async listProjects(): Promise<string[]> {
-    try {
-      await fs.mkdir(this.resourceDir, { recursive: true });
-      const entries = await fs.readdir(this.resourceDir);
-      return entries.filter(entry => !entry.startsWith('.'));
-    } catch {
-      return [];
+  private formatWaveformResponse(data: any): string {
+    let response = `Waveform: ${data.waveformFile}\n`;
+
+    if (data.unresolved && data.unresolved.length > 0) {
+      response += `Signals not found: ${data.unresolved.join(', ')}\n`;
+    }
+
+    response += `\n${data.output}`;
+    return response;
+  }
+
+  private formatCoverageResponse(data: any): string {
+    let response = `Coverage: ${data.coverageFile}\n`;
+    response += `Points: ${data.pointCount}\n`;
+
+    response += '\nSummary:\n';
+    for (const type of ['line', 'toggle', 'branch', 'functional']) {
+      const totals = data.totals[type];
+      if (totals.total > 0) {
+        response += `  ${type}: ${data.coverage.summary[type]}% (${totals.covered}/${totals.total})\n`;
+      }
+    }
+    response += `  overall: ${data.coverage.summary.overall}%\n`;
+
+    if (data.coverage.details.length > 0) {
+      response += '\nBy File/Module:\n';
+      data.coverage.details.forEach((detail: any) => {
+        const metrics = ['line', 'toggle', 'branch', 'functional']
+          .filter(type => detail[type] !== undefined)
+          .map(type => `${type} ${detail[type]}%`)
+          .join(', ');
+        response += `  ${detail.file} (${detail.module}): ${metrics}\n`;
+      });
+    }
+
+    if (data.runs && data.runs.length > 0) {
+      response += '\nRuns (in merge order):\n';
+      data.runs.forEach((run: any) => {
+        response += `  ${run.name}: ${run.covered}/${run.pointCount} covered, ${run.firstCovered} first covered here\n`;
+      });
+      response += `Attribution: ${data.attributionFile}\n`;
+    }
+
+    if (data.report) {
+      response += '\nReport:\n';
+      if (data.report.htmlIndex) {
+        response += `  HTML: ${data.report.htmlIndex}\n`;
+      }
+      if (data.report.lcovFile) {
+        response += `  LCOV: ${data.report.lcovFile}\n`;
+      }
     }
+
+    if (data.coverage.uncoveredPoints && data.coverage.uncoveredPoints.length > 0) {
+      response += '\nUncovered:\n';
+      data.coverage.uncoveredPoints.forEach((point: any) => {
+        const location = point.line ? `${point.file}:${point.line}` : point.file;
+        response += `  [${point.type}] ${location}: ${point.description}\n`;
+        if (point.link) {
+          response += `    ${point.link}\n`;
+        }
+      });
+    }
+
+    return response;
   }
 
-  private async pathExists(path: string): Promise<boolean> {
+  private formatRegressionResponse(data: any): string {
+    let response = `Regression ${data.passed ? 'Passed' : 'Failed'}\n`;
+    response += `Runs: ${data.passedCount}/${data.total} passed\n`;
+    response += `Real Time: ${data.duration}ms\n`;
+    response += `Output Directory: ${data.outputDir}\n`;
+    if (data.reports?.junit) {
+      response += `JUnit Report: ${data.reports.junit}\n`;
+    }
+    if (data.reports?.json) {
+      response += `JSON Report: ${data.reports.json}\n`;
+    }
+
+    const failedBuilds = data.builds.filter((b: any) => !b.success);
+    if (failedBuilds.length > 0) {
+      response += '\nFailed Builds:\n';
+      failedBuilds.forEach((build: any) => {
+        response += `  ${build.id} (${build.topModule}): ${build.error}\n`;
+      });
+    }
+
+    const nameWidth = Math.max(4, ...data.runs.map((r: any) => r.test.length));
+    response += '\n' + `${'Test'.padEnd(nameWidth)}  ${'Seed'.padStart(6)}  ${'Status'.padEnd(12)}  ${'Time'.padStart(8)}\n`;
+    data.runs.forEach((run: any) => {
+      response += `${run.test.padEnd(nameWidth)}  ${String(run.seed).padStart(6)}  ${run.status.padEnd(12)}  ${(run.duration + 'ms').padStart(8)}\n`;
+    });
+
+    const failedRuns = data.runs.filter((r: any) => r.status !== 'passed');
+    if (failedRuns.length > 0) {
+      response += '\nFailures:\n';
+      failedRuns.forEach((run: any) => {
+        response += `  ${run.test} seed ${run.seed}: ${run.status}\n`;
+        run.errors.slice(0, 3).forEach((err: string) => {
+          response += `    ${err}\n`;
+        });
+        if (run.logFile) {
+          response += `    Log: ${run.logFile}\n`;
+        }
+      });
+    }
+
+    return response;
+  }
+
+  private formatLintResponse(data: any): string {
+    let response = `Lint ${data.clean ? 'Clean' : `found ${data.errors.length} errors, ${data.warnings.length} warnings`}\n`;
+    response += `Files: ${data.files.length}\n`;
+    if (data.waivers.length > 0) {
+      response += `Waivers: ${data.waivers.join(', ')}\n`;
+    }
+
+    const codes = Object.entries(data.byCode).sort((a: any, b: any) => b[1] - a[1]);
+    if (codes.length > 0) {
+      response += '\nBy Code:\n';
+      codes.forEach(([code, count]) => {
+        response += `  ${code}: ${count}\n`;
+      });
+    }
+
+    for (const category of ['syntax', 'elaboration', 'lint', 'other']) {
+      const diagnostics = data.categories[category];
+      if (diagnostics.length === 0) continue;
+
+      response += `\n${category.charAt(0).toUpperCase() + category.slice(1)}:\n`;
+      diagnostics.forEach((d: any) => {
+        const location = d.file ? `${d.file}:${d.line}${d.column ? `:${d.column}` : ''}: ` : '';
+        response += `  ${location}${d.code ? `[${d.code}] ` : ''}${d.message}\n`;
+        // Source excerpt and caret lines
+        (d.context || [])
+          .filter((line: string) => /^\s*\d*\s*\|/.test(line))
+          .forEach((line: string) => {
+            response += `    ${line}\n`;
+          });
+      });
+    }
+
+    return response;
+  }
+
+  private formatWaiverResponse(data: any): string {
+    let response = `Waiver File: ${data.waiverFile}\n`;
+
+    if (data.added) {
+      response += `\nAdded ${data.added.length} waivers:\n`;
+      data.added.forEach((line: string) => {
+        response += `  ${line}\n`;
+      });
+    }
+
+    if (data.stale) {
+      response += `\nChecked ${data.waivers.length} waivers against ${data.diagnosticsChecked} diagnostics\n`;
+      if (data.stale.length === 0) {
+        response += 'No stale waivers\n';
+      } else {
+        response += `\nStale waivers (${data.stale.length}${data.removed ? ', removed' : ''}):\n`;
+        data.stale.forEach((w: any) => {
+          response += `  line ${w.lineNumber}: ${w.text}\n`;
+        });
+      }
+      return response;
+    }
+
+    response += `\nWaivers (${data.waivers.length}):\n`;
+    data.waivers.forEach((w: any) => {
+      const location = w.file ? `${w.file}${w.lines ? `:${w.lines}` : ''}` : '(all files)';
+      response += `  ${w.rule || '*'} ${location}${w.match ? ` matching "${w.match}"` : ''}\n`;
+      if (w.reason) {
+        response += `    ${w.reason}\n`;
+      }
+    });
+
+    return response;
+  }
+
+  private formatCacheResponse(data: any): string {
+    const mb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(2)}MB`;
+    const duration = (seconds: number) =>
+      seconds < 3600 ? `${Math.round(seconds / 60)}m` : seconds < 86400 ? `${(seconds / 3600).toFixed(1)}h` : `${(seconds / 86400).toFixed(1)}d`;
+
+    let response = `Cache: ${data.cacheDir}\n`;
+    response += `Entries: ${data.entries.length}, ${mb(data.totalSize)}\n`;
+
+    if (data.removed) {
+      response += `\nRemoved ${data.removed.length} entries, freed ${mb(data.freed || 0)}\n`;
+      data.removed.forEach((entry: any) => {
+        response += `  ${entry.kind} ${entry.key.slice(0, 12)} ${mb(entry.size)}\n`;
+      });
+      return response;
+    }
+
+    if (data.entries.length > 0) {
+      response += '\nKey           Kind   Size       Age     Idle    Sources\n';
+      data.entries.forEach((entry: any) => {
+        response += `${entry.key.slice(0, 12).padEnd(14)}${entry.kind.padEnd(7)}${mb(entry.size).padEnd(11)}`;
+        response += `${duration(entry.ageSeconds).padEnd(8)}${duration(entry.idleSeconds).padEnd(8)}${entry.sourceCount}\n`;
+        entry.sources.forEach((source: string) => {
+          response += `    ${source}\n`;
+        });
+        if (entry.sources.length < entry.sourceCount) {
+          response += `    ... ${entry.sourceCount - entry.sources.length} more\n`;
+        }
+      });
+    }
+
+    return response;
+  }
+
+  private formatJobResponse(data: any): string {
+    const progress = (job: any) =>
+      job.message || (job.phase ? `${job.phase}${job.percent !== undefined ? ` ${job.percent}%` : ''}` : '');
+
+    if (data.jobs) {
+      let response = `Jobs: ${data.jobDir}\n`;
+      if (data.jobs.length === 0) {
+        return response + 'No jobs\n';
+      }
+      response += '\nId              Tool                   Status       Age     Progress\n';
+      data.jobs.forEach((job: any) => {
+        response += `${job.id.padEnd(16)}${job.tool.padEnd(23)}${job.status.padEnd(13)}${`${job.ageSeconds}s`.padEnd(8)}${job.status === 'running' ? progress(job) : ''}\n`;
+      });
+      return response;
+    }
+
+    const job = data.job;
+    let response = `Job ${job.id} (${job.tool}): ${job.status}${job.cancelRequested && job.status === 'running' ? ', cancelling' : ''}\n`;
+    if (job.summary.runSeconds !== undefined) {
+      response += `Run Time: ${job.summary.runSeconds}s\n`;
+    }
+    if (progress(job.summary) && job.status === 'running') {
+      response += `Progress: ${progress(job.summary)}\n`;
+    }
+
+    if (data.log) {
+      const start = data.log.nextOffset - Buffer.byteLength(data.log.text);
+      response += `\nLog bytes ${start}-${data.log.nextOffset} of ${data.log.size} (continue with offset ${data.log.nextOffset}):\n`;
+      response += data.log.text;
+      return response;
+    }
+
+    // A failed simulation still has results worth showing
+    if (job.result?.data) {
+      response += '\n' + this.formatToolResponse(job.tool, job.result.data);
+    } else if (job.error) {
+      response += `Error: ${job.error}\n`;
+    }
+
+    return response;
+  }
+
+  private formatHierarchyResponse(data: any): string {
+    let response = `Design Hierarchy of ${data.top}\n`;
+    response += `Instances: ${data.instanceCount}, Modules: ${data.moduleCount}, Depth: ${data.maxDepth}\n`;
+    response += `Resources: ${Object.values(data.resources).join(', ')}\n\n`;
+
+    const printNode = (node: any, indent: string, parentPath?: string) => {
+      // Children show their generate block scope, e.g. gen[0].u_leaf
+      const name = parentPath ? node.path.slice(parentPath.length + 1) : node.path;
+      const module = node.module === node.definition ? node.module : `${node.definition} (${node.module})`;
+      const params = Object.entries(node.parameters || {}).map(([param, value]) => `${param}=${value}`);
+      response += `${indent}${name}: ${module}${params.length > 0 ? ` #(${params.join(', ')})` : ''}`;
+      response += node.truncated ? ` [+${node.truncated} more]\n` : '\n';
+      node.children.forEach((child: any) => printNode(child, indent + '  ', node.path));
+    };
+    printNode(data.tree, '');
+
+    if (data.warnings && data.warnings.length > 0) {
+      response += `\nWarnings: ${data.warnings.length}\n`;
+    }
+    return response;
+  }
+
+  private formatSignalXrefResponse(data: any): string {
+    const signal = data.signal;
+    const width = signal.width !== undefined ? ` [${signal.width} bits]` : '';
+    const at = (item: any) => item.file ? ` (${item.file}${item.line ? `:${item.line}` : ''})` : '';
+    let response = `Signal: ${signal.path}\n`;
+    response += `Declared: ${signal.kind}${width} in ${signal.module}${at(signal)}\n`;
+
+    const printAccesses = (title: string, accesses: any[]) => {
+      response += `\n${title}: ${accesses.length}\n`;
+      for (const access of accesses) {
+        const where = access.kind === 'instance' || access.kind === 'port'
+          ? `${access.kind} ${access.instance}.${access.port}`
+          : `${access.kind} in ${access.instance}`;
+        response += `  ${where}${at(access)}\n`;
+        access.statements.forEach((statement: string) => {
+          response += `    ${statement}\n`;
+        });
+        if (access.clocks && access.clocks.length > 0) {
+          response += `    clocked by ${access.clocks.join(', ')}\n`;
+        }
+      }
+    };
+    printAccesses('Drivers', data.drivers);
+    printAccesses('Loads', data.loads);
+
+    for (const cone of [data.fanIn, data.fanOut]) {
+      if (!cone) continue;
+      response += `\n${cone.direction === 'fanin' ? 'Fan-in' : 'Fan-out'} (${cone.depth} levels): ${cone.signals.length} signals${cone.truncated ? ' (truncated)' : ''}\n`;
+      for (const entry of cone.signals) {
+        response += `  L${entry.level} ${entry.signal} via ${entry.via}${at(entry)}\n`;
+      }
+      if (cone.endpoints.length > 0) {
+        response += `  Ends at: ${cone.endpoints.join(', ')}\n`;
+      }
+    }
+    return response;
+  }
+
+  private formatRootCauseResponse(data: any): string {
+    const value = (item: any) => item.isX ? 'X' : String(item.value);
+    const at = (item: any) => item.file ? ` (${item.file}${item.line ? `:${item.line}` : ''})` : '';
+    let response = `Signal: ${data.signal} = ${value(data)} at ${data.time} (${data.timeUnit})\n`;
+    response += `Waveform: ${data.waveformFile} (scope ${data.scope})\n`;
+    if (data.expected !== undefined) {
+      response += `Expected: ${data.expected} (${data.matchesExpected ? 'matches' : 'differs'})\n`;
+    }
+
+    response += `\nCausal chain: ${data.chain.length} steps\n`;
+    data.chain.forEach((step: any, index: number) => {
+      response += `  ${index + 1}. ${step.signal} = ${value(step)} since ${step.since}\n`;
+      for (const driver of step.drivers) {
+        response += `     ${driver.kind} in ${driver.instance}${at(driver)}\n`;
+      }
+      const inputs = step.inputs
+        .filter((input: any) => input.value !== undefined)
+        .map((input: any) => `${input.signal}=${value(input)}${input.since !== undefined ? `@${input.since}` : ''}`);
+      if (inputs.length > 0) {
+        response += `     inputs: ${inputs.join(', ')}\n`;
+      }
+    });
+
+    response += `\nRoot cause (${data.conclusion.reason}): ${data.conclusion.message}\n`;
+    if (data.earliestX.length > 0) {
+      response += `\nX in the fan-in:\n`;
+      for (const entry of data.earliestX) {
+        response += `  ${entry.signal} since ${entry.since}\n`;
+      }
+    }
+    if (data.notDumped.length > 0) {
+      response += `\nNot in the waveform: ${data.notDumped.join(', ')}\n`;
+    }
+    return response;
+  }
+
+  private async pathExists(path?: string): Promise<boolean> {
+    if (!path) {
+      return false;
+    }
     try {
       await fs.access(path);
       return true;
@@ -393,35 +945,100 @@ class VerilatorMCPServer {
     }
   }
 
-  private async readResource(uri: string): Promise<string> {
+  private async readResource(uri: string): Promise<{ mimeType: string; text?: string; blob?: string }> {
     const match = uri.match(/^(simulation|design):\/\/([^\/]+)\/(.+)$/);
     if (!match) {
       throw new Error('Invalid resource URI');
     }
 
-    const [, type, projectId, path] = match;
-    const basePath = join(this.resourceDir, projectId);
+    const [, scheme, projectId, path] = match;
+
+    if (scheme === 'simulation') {
+      const [category, simulationId, ...rest] = path.split('/');
+      if (rest.length > 0 || !(category in SIMULATION_CATEGORIES)) {
+        throw new Error(`Unknown simulation resource: ${path}`);
+      }
+      const resource = SimulationResourceSchema.parse({
+        projectId,
+        type: SIMULATION_CATEGORIES[category],
+        simulationId,
+      });
+
+      const run = await this.runRegistry.get(resource.projectId, resource.simulationId);
+      if (!run) {
+        throw new Error(`Unknown simulation run: ${resource.simulationId}`);
+      }
+
+      switch (resource.type) {
+        case 'run':
+          return { mimeType: 'application/json', text: JSON.stringify(run, null, 2) };
+
+        case 'log': {
+          const logFile = await this.checkArtifact(run.artifacts.logFile, 'log');
+          return { mimeType: 'text/plain', text: await fs.readFile(logFile, 'utf-8') };
+        }
 
-    if (type === 'simulation') {
-      const [category, simId] = path.split('/');
-      const filePath = join(basePath, 'simulations', simId, `${category}.txt`);
-      return await fs.readFile(filePath, 'utf-8');
-    } else if (type === 'design') {
-      const filePath = join(basePath, 'design', `${path}.json`);
-      return await fs.readFile(filePath, 'utf-8');
+        case 'waveform': {
+          const waveformFile = await this.checkArtifact(run.artifacts.waveformFile, 'waveform');
+          const mimeType = this.getWaveformMimeType(waveformFile);
+          // FST is binary
+          return mimeType === 'application/vcd'
+            ? { mimeType, text: await fs.readFile(waveformFile, 'utf-8') }
+            : { mimeType, blob: (await fs.readFile(waveformFile)).toString('base64') };
+        }
+
+        case 'coverage': {
+          const coverageFile = await this.checkArtifact(run.artifacts.coverageFile, 'coverage');
+          const points = await parseCoverageFile(coverageFile);
+          const coverage = { coverageFile, pointCount: points.length, ...summarizeCoverage(points) };
+          return { mimeType: 'application/json', text: JSON.stringify(coverage, null, 2) };
+        }
+
+        case 'assertion': {
+          const failed = run.assertions.filter(a => !a.passed);
+          const assertions = {
+            passed: run.passed,
+            total: run.assertions.length,
+            failed: failed.length,
+            assertions: run.assertions,
+            errors: run.errors,
+          };
+          return { mimeType: 'application/json', text: JSON.stringify(assertions, null, 2) };
+        }
+      }
+    }
+
+    if (scheme === 'design') {
+      const resource = DesignResourceSchema.parse({ projectId, type: path });
+      const filePath = join(this.runRegistry.getDesignDir(resource.projectId), `${resource.type}.json`);
+      return { mimeType: 'application/json', text: await fs.readFile(filePath, 'utf-8') };
     }
 
     throw new Error('Unknown resource type');
   }
 
-  private getResourceMimeType(uri: string): string {
-    if (uri.includes('/waves/')) return 'application/vcd';
-    if (uri.includes('/coverage/')) return 'application/json';
-    if (uri.endsWith('.json')) return 'application/json';
-    return 'text/plain';
+  /**
+   * Resolve an artifact of a run for reading. Large files are refused:
+   * resources are returned whole, and verilator_waveform can page through
+   * a big waveform instead.
+   */
+  private async checkArtifact(path: string | undefined, kind: string): Promise<string> {
+    if (!path) {
+      throw new Error(`The run recorded no ${kind}`);
+    }
+    const { size } = await fs.stat(path);
+    if (size > MAX_RESOURCE_SIZE) {
+      throw new Error(`${path} is ${(size / 1024 / 1024).toFixed(1)}MB, over the ${MAX_RESOURCE_SIZE / 1024 / 1024}MB resource limit`);
+    }
+    return path;
+  }
+
+  private getWaveformMimeType(path: string): string {
+    return path.endsWith('.vcd') ? 'application/vcd' : 'application/octet-stream';
   }
 
   async run() {
+    await this.loadPlugins();
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     logger.info('Verilator MCP server started');
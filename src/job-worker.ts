@@ -0,0 +1,91 @@
+import { createWriteStream } from 'fs';
+import { ConfigManager } from './utils/config.js';
+import { CacheManager } from './utils/cache.js';
+import { DEFAULT_JOB_DIR, JobManager, JobRecord, processIdentity } from './utils/jobs.js';
+import { logger } from './utils/logger.js';
+import { AbstractTool } from './tools/base.js';
+import { ToolRegistry, createBuiltinTools, pluginDirectories } from './tools/registry.js';
+
+/**
+ * Runs one background job: `node job-worker.js <jobId>`. JobManager starts
+ * it detached from the server, so the job outlives the MCP session. SIGTERM
+ * cancels the tool call like an MCP cancellation would.
+ */
+async function main(id: string): Promise<void> {
+  const jobs = new JobManager(process.env.VERILATOR_MCP_JOB_DIR || DEFAULT_JOB_DIR);
+  const job = await jobs.get(id);
+  if (!job) {
+    throw new Error(`Unknown job: ${id}`);
+  }
+
+  const controller = new AbortController();
+  for (const signal of ['SIGTERM', 'SIGINT', 'SIGHUP'] as const) {
+    process.on(signal, () => controller.abort());
+  }
+
+  // Progress and the final result both update job.json, so keep them in order
+  let pending = Promise.resolve();
+  const record = (patch: Partial<JobRecord>) => {
+    pending = pending
+      .then(() => jobs.update(id, patch))
+      .then(
+        () => undefined,
+        error => {
+          logger.warn(`Failed to update job ${id}:`, error);
+        }
+      );
+    return pending;
+  };
+
+  const configManager = ConfigManager.getInstance();
+  const cacheManager = new CacheManager();
+  const registry = new ToolRegistry();
+  for (const tool of createBuiltinTools(configManager, cacheManager)) {
+    registry.register(tool);
+  }
+  await registry.loadPlugins(pluginDirectories(), { AbstractTool, configManager, cacheManager, logger });
+
+  const tool = registry.get(job.tool);
+  if (!tool) {
+    await record({ status: 'failed', finishedAt: Date.now(), error: `Unknown tool: ${job.tool}` });
+    return;
+  }
+
+  if (job.cancelRequested) {
+    controller.abort();
+  }
+  await record({ status: 'running', startedAt: Date.now(), pid: process.pid, workerStart: await processIdentity(process.pid) });
+  logger.info(`Job ${id}: running ${job.tool}`);
+
+  const log = createWriteStream(jobs.getLogPath(id), { flags: 'a' });
+  const result = await tool.execute(job.params, {
+    signal: controller.signal,
+    onOutput: chunk => log.write(chunk),
+    onProgress: update => record({
+      progress: { phase: update.phase, percent: update.percent, message: update.message, updatedAt: Date.now() },
+    }),
+  });
+  await new Promise<void>(resolve => log.end(() => resolve()));
+
+  const status = result.cancelled ? 'cancelled' : result.success ? 'completed' : 'failed';
+  await record({ status, finishedAt: Date.now(), result, error: result.error });
+  logger.info(`Job ${id}: ${status}`);
+}
+
+const id = process.argv[2];
+main(id)
+  .then(() => process.exit(0))
+  .catch(async error => {
+    logger.error(`Job ${id} failed:`, error);
+    try {
+      const jobs = new JobManager(process.env.VERILATOR_MCP_JOB_DIR || DEFAULT_JOB_DIR);
+      await jobs.update(id, {
+        status: 'failed',
+        finishedAt: Date.now(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } catch {
+      // Nothing to record into; JobManager.get marks the job interrupted
+    }
+    process.exit(1);
+  });
@@ -3,14 +3,28 @@ import { CommandExecutor, CommandResult } from '../utils/executor.js';
 import { ConfigManager, VerilatorConfig } from '../utils/config.js';
 import { CacheManager } from '../utils/cache.js';
 import { ErrorHandler } from '../utils/error-handler.js';
+import { ProjectConfig, loadProjectConfig } from '../utils/project-config.js';
+import { zodToJsonSchema } from '../utils/json-schema.js';
+import { ProgressListener, ProgressTracker } from '../utils/progress.js';
 import { logger } from '../utils/logger.js';
-import { ToolResult } from '../types/index.js';
+import { ToolMetadata, ToolResult } from '../types/index.js';
+
+export interface ToolExecutionContext {
+  // Set when the MCP client asked for progress notifications
+  onProgress?: ProgressListener;
+  // Aborted when the client cancels the request
+  signal?: AbortSignal;
+  // Receives command output as it streams, e.g. into a background job's log
+  onOutput?: (chunk: string) => void;
+}
 
 export abstract class AbstractTool<TParams = any, TResult = any> {
   protected executor: CommandExecutor;
   protected toolName: string;
   protected binaryName: keyof VerilatorConfig['toolPaths'];
   protected schema: z.ZodType<any>;
+  // Execution context of each call, keyed by its validated parameters
+  private contexts = new WeakMap<object, ToolExecutionContext>();
 
   constructor(
     toolName: string,
@@ -25,12 +39,15 @@ export abstract class AbstractTool<TParams = any, TResult = any> {
     this.schema = schema;
   }
 
-  async execute(params: unknown): Promise<ToolResult<TResult>> {
+  async execute(params: unknown, context: ToolExecutionContext = {}): Promise<ToolResult<TResult>> {
     const startTime = Date.now();
 
     try {
-      // Validate parameters
-      const validatedParams = this.schema.parse(params);
+      const validatedParams = await this.validate(params);
+      this.contexts.set(validatedParams as object, context);
+      if (context.signal?.aborted) {
+        return this.cancelledResult(startTime);
+      }
 
       // Check if tool is available
       const config = await this.configManager.getConfig();
@@ -44,17 +61,32 @@ export abstract class AbstractTool<TParams = any, TResult = any> {
         throw new Error(`Verilator tool '${this.binaryName}' is not available`);
       }
 
-      // Cache disabled temporarily to fix execution issues
+      // Reuse a previous result when the inputs are unchanged
+      if (this.shouldUseCache(validatedParams)) {
+        const cached = await this.getCachedResult(validatedParams);
+        if (cached) {
+          logger.info(`${this.toolName}: using cached result`);
+          cached.cached = true;
+          cached.executionTime = Date.now() - startTime;
+          return cached;
+        }
+      }
 
       // Build command arguments
       const args = await this.buildArguments(validatedParams);
       logger.info(`Executing ${this.toolName} with args:`, args);
+      await this.beforeRun(validatedParams);
 
       // Execute command
       logger.debug(`Executing command: ${toolPath} ${args.join(' ')}`);
+      const progressTracker = this.getProgressTracker(validatedParams);
       const result = await this.executor.execute(toolPath, args, {
         timeout: this.getTimeout(validatedParams),
         cwd: this.getCwd(validatedParams),
+        onProgress: progressTracker ? context.onProgress : undefined,
+        progressTracker,
+        signal: context.signal,
+        onOutput: context.onOutput,
       });
 
       if (!result) {
@@ -66,7 +98,10 @@ export abstract class AbstractTool<TParams = any, TResult = any> {
       // Process result
       const processedResult = await this.processResult(result, validatedParams);
 
-      // Cache disabled temporarily
+      // Orchestrating tools fail their own way when a nested step is cancelled
+      if (context.signal?.aborted) {
+        return this.cancelledResult(startTime);
+      }
 
       // Extract warnings
       const warnings = ErrorHandler.extractWarnings(result.stderr);
@@ -74,10 +109,17 @@ export abstract class AbstractTool<TParams = any, TResult = any> {
         processedResult.warnings = warnings;
       }
 
+      if (processedResult.success && this.shouldUseCache(validatedParams)) {
+        await this.cacheResult(validatedParams, processedResult);
+      }
+
       processedResult.executionTime = Date.now() - startTime;
       return processedResult;
 
     } catch (error) {
+      if (context.signal?.aborted) {
+        return this.cancelledResult(startTime);
+      }
       logger.error(`Error in ${this.toolName}:`, error);
       return {
         success: false,
@@ -87,6 +129,58 @@ export abstract class AbstractTool<TParams = any, TResult = any> {
     }
   }
 
+  /**
+   * Validate parameters, after filling in verilator-mcp.json targets and
+   * defaults. Throws on invalid parameters.
+   */
+  async validate(params: unknown): Promise<TParams> {
+    return this.schema.parse(await this.resolveProjectParams(params));
+  }
+
+  private cancelledResult(startTime: number): ToolResult<TResult> {
+    logger.info(`${this.toolName} cancelled`);
+    return {
+      success: false,
+      cancelled: true,
+      error: 'Cancelled',
+      executionTime: Date.now() - startTime,
+    };
+  }
+
+  private async resolveProjectParams(params: unknown): Promise<unknown> {
+    if (!params || typeof params !== 'object' || Array.isArray(params)) {
+      return params;
+    }
+
+    const raw = params as Record<string, any>;
+    const project = this.usesProjectConfig() || raw.target !== undefined
+      ? await loadProjectConfig()
+      : null;
+    return this.applyProjectConfig({ ...raw }, project);
+  }
+
+  /**
+   * Whether this tool reads verilator-mcp.json defaults even when no
+   * `target` is requested.
+   */
+  protected usesProjectConfig(): boolean {
+    return false;
+  }
+
+  /**
+   * Merge the project configuration into raw, unvalidated parameters.
+   * Tools that accept `target` override this.
+   */
+  protected applyProjectConfig(
+    params: Record<string, any>,
+    project: ProjectConfig | null
+  ): Record<string, any> {
+    if (params.target !== undefined) {
+      throw new Error(`${this.toolName} does not support build targets`);
+    }
+    return params;
+  }
+
   protected abstract buildArguments(params: TParams): Promise<string[]> | string[];
 
   protected abstract processResult(
@@ -94,6 +188,34 @@ export abstract class AbstractTool<TParams = any, TResult = any> {
     params: TParams
   ): Promise<ToolResult<TResult>>;
 
+  /**
+   * Called once the command is certain to run, after no cached result was
+   * found, for tools that must prepare what it writes into.
+   */
+  protected async beforeRun(params: TParams): Promise<void> {
+    return;
+  }
+
+  /**
+   * Look up a stored result for these parameters. The default keys on
+   * getCacheKey() and invalidates on dependency modification times; tools
+   * with build artifacts override this and cacheResult().
+   */
+  protected async getCachedResult(params: TParams): Promise<ToolResult<TResult> | null> {
+    const key = this.getCacheKey(params);
+    if (!key || !(await this.cacheManager.isValid(key, this.getDependencies(params)))) {
+      return null;
+    }
+    return this.cacheManager.get<ToolResult<TResult>>(key, this.getFilePath(params));
+  }
+
+  protected async cacheResult(params: TParams, result: ToolResult<TResult>): Promise<void> {
+    const key = this.getCacheKey(params);
+    if (key) {
+      await this.cacheManager.set(key, result, this.getFilePath(params), this.getDependencies(params));
+    }
+  }
+
   protected getCacheKey(params: TParams): string | null {
     return null;
   }
@@ -118,16 +240,40 @@ export abstract class AbstractTool<TParams = any, TResult = any> {
     return undefined;
   }
 
+  /**
+   * Phase tracker for the command execute() runs. Tools without one send no
+   * progress for it; orchestrating tools report from their own steps.
+   */
+  protected getProgressTracker(params: TParams): ProgressTracker | undefined {
+    return undefined;
+  }
+
+  /**
+   * The context the current call was made with, for passing on to nested
+   * tool calls and commands.
+   */
+  protected getContext(params: TParams): ToolExecutionContext {
+    return this.contexts.get(params as object) || {};
+  }
+
   abstract getDescription(): string;
 
+  /**
+   * Name, version, category and capabilities used by the tool registry.
+   * The name is the one passed to the constructor and must stay stable.
+   */
+  abstract getMetadata(): ToolMetadata;
+
+  getName(): string {
+    return this.toolName;
+  }
+
+  /**
+   * JSON Schema advertised to MCP clients, derived from the Zod schema that
+   * validates every call so the two cannot drift apart.
+   */
   getInputSchema(): any {
-    // Convert Zod schema to JSON Schema
-    // This is a simplified version - in production, use a proper converter
-    return {
-      type: 'object',
-      properties: {},
-      required: [],
-    };
+    return zodToJsonSchema(this.schema);
   }
 
   protected async checkVerilatorVersion(requiredVersion?: string): Promise<boolean> {
@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import { AbstractTool } from './base.js';
+import { ToolMetadata, ToolResult } from '../types/index.js';
+import { CacheEntryInfo } from '../utils/cache.js';
+import { logger } from '../utils/logger.js';
+
+const CacheSchema = z.object({
+  operation: z.enum(['list', 'prune', 'invalidate', 'clear']).describe('List entries, prune them, invalidate matching entries, or clear the cache'),
+  maxAgeHours: z.number().min(0).optional().describe('Remove entries unused for longer than this (prune)'),
+  maxSizeMB: z.number().min(0).optional().describe('Evict least recently used entries until the cache fits (prune)'),
+  path: z.string().optional().describe('Remove entries that depend on this file or directory (invalidate)'),
+  pattern: z.string().optional().describe('Remove entries whose key or a source path matches this wildcard, e.g. "*/rtl/alu*" (invalidate)'),
+  showSources: z.boolean().default(false).describe('Include every source file of each entry in the listing'),
+}).refine(params => params.operation !== 'invalidate' || params.path || params.pattern, {
+  message: 'invalidate needs a path or pattern',
+});
+
+type CacheParams = z.infer<typeof CacheSchema>;
+
+interface CacheEntrySummary {
+  key: string;
+  kind: CacheEntryInfo['kind'];
+  size: number;
+  ageSeconds: number;
+  idleSeconds: number;
+  sourceCount: number;
+  sources: string[];
+}
+
+interface CacheResult {
+  operation: string;
+  cacheDir: string;
+  entries: CacheEntrySummary[];
+  totalSize: number;
+  removed?: CacheEntrySummary[];
+  freed?: number;
+}
+
+export class CacheTool extends AbstractTool<CacheParams, CacheResult> {
+  constructor(configManager: any, cacheManager: any) {
+    super('verilator_cache', 'verilator', configManager, cacheManager, CacheSchema);
+  }
+
+  getDescription(): string {
+    return 'Inspect the build cache: list entries with size, age and sources, prune by age or size, and invalidate by path or pattern';
+  }
+
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'maintenance',
+      capabilities: [],
+    };
+  }
+
+  protected async buildArguments(params: CacheParams): Promise<string[]> {
+    // The cache is managed in-process
+    return [];
+  }
+
+  protected shouldUseCache(params: CacheParams): boolean {
+    return false;
+  }
+
+  protected async processResult(
+    result: any,
+    params: CacheParams
+  ): Promise<ToolResult<CacheResult>> {
+    try {
+      let removed: CacheEntryInfo[] | undefined;
+
+      switch (params.operation) {
+        case 'prune':
+          if (params.maxAgeHours === undefined && params.maxSizeMB === undefined) {
+            throw new Error('prune needs maxAgeHours or maxSizeMB');
+          }
+          removed = await this.cacheManager.prune({
+            maxAge: params.maxAgeHours !== undefined ? params.maxAgeHours * 60 * 60 * 1000 : undefined,
+            maxSize: params.maxSizeMB !== undefined ? params.maxSizeMB * 1024 * 1024 : undefined,
+          });
+          break;
+        case 'invalidate':
+          removed = [];
+          if (params.path) {
+            removed.push(...await this.cacheManager.invalidatePath(params.path));
+          }
+          if (params.pattern) {
+            removed.push(...await this.cacheManager.invalidatePattern(params.pattern));
+          }
+          break;
+        case 'clear':
+          removed = await this.cacheManager.listEntries();
+          await this.cacheManager.clear();
+          break;
+      }
+
+      const entries = await this.cacheManager.listEntries();
+      logger.debug(`Cache holds ${entries.length} entries after ${params.operation}`);
+
+      return {
+        success: true,
+        data: {
+          operation: params.operation,
+          cacheDir: this.cacheManager.getCacheDir(),
+          entries: entries.map(entry => this.summarize(entry, params.showSources)),
+          totalSize: entries.reduce((sum, entry) => sum + entry.size, 0),
+          removed: removed?.map(entry => this.summarize(entry, params.showSources)),
+          freed: removed?.reduce((sum, entry) => sum + entry.size, 0),
+        },
+      };
+    } catch (error) {
+      logger.error('Cache error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private summarize(entry: CacheEntryInfo, showSources: boolean): CacheEntrySummary {
+    const now = Date.now();
+    return {
+      key: entry.key,
+      kind: entry.kind,
+      size: entry.size,
+      ageSeconds: Math.round((now - entry.createdAt) / 1000),
+      idleSeconds: Math.round((now - entry.lastUsed) / 1000),
+      sourceCount: entry.sources.length,
+      // Full dependency lists include every library header; show a few unless asked
+      sources: showSources ? entry.sources : entry.sources.slice(0, 5),
+    };
+  }
+}
@@ -1,17 +1,22 @@
 import { z } from 'zod';
 import { AbstractTool } from './base.js';
-import { ToolResult } from '../types/index.js';
-import { glob } from 'glob';
-import { join, resolve, dirname } from 'path';
+import { ToolMetadata, ToolResult, ResolvedSources } from '../types/index.js';
+import { basename, join, resolve, dirname } from 'path';
 import { promises as fs } from 'fs';
 import { ErrorHandler, ParsedError } from '../utils/error-handler.js';
 import { logger } from '../utils/logger.js';
+import { resolveSources, sourceArguments } from '../utils/filelist.js';
+import { ProjectConfig, getTarget, withDefaults } from '../utils/project-config.js';
+import { ProgressTracker, VerilatorBuildTracker } from '../utils/progress.js';
+import { RunRegistry } from '../utils/run-registry.js';
 
 const CompileSchema = z.object({
-  files: z.array(z.string()).min(1).describe('Verilog/SystemVerilog files to compile'),
+  target: z.string().optional().describe('Named build target from verilator-mcp.json; explicit parameters override it'),
+  files: z.array(z.string()).default([]).describe('Verilog/SystemVerilog files to compile (files or filelists required)'),
+  filelists: z.array(z.string()).optional().describe('Filelists (.f) to read, as with verilator -f. Supports nested -f/-F, +incdir+, +define+, -v, -y and $ENV references'),
   topModule: z.string().optional().describe('Top module name'),
   outputDir: z.string().default('obj_dir').describe('Output directory for compiled files'),
-  language: z.enum(['verilog', 'systemverilog']).default('systemverilog'),
+  language: z.enum(['verilog', 'systemverilog']).default('systemverilog').describe('HDL language standard'),
   optimization: z.number().min(0).max(3).default(2).describe('Optimization level'),
   trace: z.boolean().default(false).describe('Enable waveform tracing'),
   traceFormat: z.enum(['vcd', 'fst']).default('vcd').describe('Waveform format'),
@@ -21,8 +26,13 @@ const CompileSchema = z.object({
   includes: z.array(z.string()).optional().describe('Include directories'),
   warnings: z.array(z.string()).optional().describe('Warning flags to enable'),
   suppressWarnings: z.array(z.string()).optional().describe('Warning flags to suppress'),
+  waivers: z.array(z.string()).optional().describe('Verilator .vlt waiver/configuration files'),
   makeFlags: z.array(z.string()).optional().describe('Additional make flags'),
   verilatorFlags: z.array(z.string()).optional().describe('Additional Verilator flags'),
+  useCache: z.boolean().default(true).describe('Reuse a cached build when sources, included files and flags are unchanged'),
+  background: z.boolean().default(false).describe('Run as a background job and return its id at once; follow it with verilator_job'),
+}).refine(params => params.files.length > 0 || (params.filelists?.length ?? 0) > 0, {
+  message: 'Provide files or filelists',
 });
 
 type CompileParams = z.infer<typeof CompileSchema>;
@@ -34,6 +44,9 @@ interface CompileResult {
   makefileGenerated: boolean;
   errors: ParsedError[];
   warnings: ParsedError[];
+  sources: ResolvedSources;
+  // Set when the build was restored from the compile cache
+  cached?: boolean;
   stats?: {
     modules: number;
     lines: number;
@@ -42,14 +55,49 @@ interface CompileResult {
 }
 
 export class CompileTool extends AbstractTool<CompileParams, CompileResult> {
-  constructor(configManager: any, cacheManager: any) {
+  // Sources resolved while building arguments, reported back in the result
+  private resolvedSources = new WeakMap<CompileParams, ResolvedSources>();
+  private runs: RunRegistry;
+
+  constructor(configManager: any, cacheManager: any, runs: RunRegistry = new RunRegistry()) {
     super('verilator_compile', 'verilator', configManager, cacheManager, CompileSchema);
+    this.runs = runs;
   }
 
   getDescription(): string {
     return 'Compile Verilog/SystemVerilog design files to C++ using Verilator';
   }
 
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'build',
+      capabilities: ['targets', 'filelists', 'waivers', 'cache', 'background'],
+    };
+  }
+
+  protected applyProjectConfig(
+    params: Record<string, any>,
+    project: ProjectConfig | null
+  ): Record<string, any> {
+    if (params.target === undefined) {
+      return params;
+    }
+
+    const target = getTarget(project, params.target);
+    return withDefaults(params, {
+      files: target.files,
+      filelists: target.filelists,
+      topModule: target.top,
+      language: target.language,
+      defines: target.defines,
+      includes: target.includes,
+      verilatorFlags: target.flags,
+      waivers: target.waivers,
+    });
+  }
+
   protected async buildArguments(params: CompileParams): Promise<string[]> {
     const args: string[] = [];
 
@@ -120,13 +168,8 @@ export class CompileTool extends AbstractTool<CompileParams, CompileResult> {
       args.push(`-W${warning}`);
     }
 
-    // Suppress warnings
-    const defaultSuppressWarnings = ['EOFNEWLINE', 'TIMESCALEMOD', 'COVERIGN'];
-    const suppressWarnings = params.suppressWarnings ? 
-      [...defaultSuppressWarnings, ...params.suppressWarnings] : 
-      defaultSuppressWarnings;
-      
-    for (const warning of suppressWarnings) {
+    // Suppress warnings globally; prefer waivers scoped to file and line
+    for (const warning of params.suppressWarnings || []) {
       args.push(`-Wno-${warning}`);
     }
 
@@ -140,7 +183,8 @@ export class CompileTool extends AbstractTool<CompileParams, CompileResult> {
     
     // Only add --exe and --build if we have a C++ testbench
     // For pure SystemVerilog testbenches, just compile to library
-    const hasCppFile = params.files.some(f => f.endsWith('.cpp') || f.endsWith('.cc'));
+    const sources = this.resolvedSources.get(params) || await this.resolveSources(params);
+    const hasCppFile = sources.files.some(f => f.endsWith('.cpp') || f.endsWith('.cc'));
     if (hasCppFile) {
       args.push('--exe');
       args.push('--build');
@@ -149,9 +193,14 @@ export class CompileTool extends AbstractTool<CompileParams, CompileResult> {
       args.push('--binary');
     }
 
-    // Input files
-    const expandedFiles = await this.expandFilePatterns(params.files);
-    args.push(...expandedFiles);
+    // Waiver files must precede the sources they apply to
+    if (params.waivers) {
+      args.push(...params.waivers.map(w => resolve(w)));
+    }
+
+    // Filelist contents, then explicit files
+    args.push(...sourceArguments(sources));
+    args.push(...sources.files);
 
     return args;
   }
@@ -209,12 +258,14 @@ export class CompileTool extends AbstractTool<CompileParams, CompileResult> {
           makefileGenerated,
           errors: actualErrors,
           warnings,
+          sources: this.resolvedSources.get(params) || await this.resolveSources(params),
           stats,
         },
         error: success ? undefined : `Compilation failed: ${actualErrors.map(e => e.message).join('; ')}`,
       };
 
       logger.debug(`Returning compile result: ${JSON.stringify({ success, errorCount: actualErrors.length, warningCount: warnings.length })}`);
+      await this.recordBuild(toolResult.data);
       return toolResult;
     } catch (error) {
       logger.error('Error in compile processResult:', error);
@@ -225,20 +276,11 @@ export class CompileTool extends AbstractTool<CompileParams, CompileResult> {
     }
   }
 
-  private async expandFilePatterns(patterns: string[]): Promise<string[]> {
-    const files: string[] = [];
-
-    for (const pattern of patterns) {
-      if (pattern.includes('*') || pattern.includes('?')) {
-        const matches = await glob(pattern);
-        files.push(...matches);
-      } else {
-        files.push(pattern);
-      }
-    }
-
-    // Resolve all paths
-    return files.map(f => resolve(f));
+  private async resolveSources(params: CompileParams): Promise<ResolvedSources> {
+    const sources = await resolveSources(params.files, params.filelists);
+    this.resolvedSources.set(params, sources);
+    logger.debug(`Resolved ${sources.files.length} source files from ${sources.filelists.length} filelists`);
+    return sources;
   }
 
   private extractCompilationStats(output: string): CompileResult['stats'] | undefined {
@@ -257,119 +299,87 @@ export class CompileTool extends AbstractTool<CompileParams, CompileResult> {
     return undefined;
   }
 
-  protected getCacheKey(params: CompileParams): string | null {
-    // Create cache key based on files, flags, and options
-    const fileKey = params.files.sort().join(',');
-    const flagKey = JSON.stringify({
-      topModule: params.topModule,
-      language: params.language,
-      optimization: params.optimization,
-      trace: params.trace,
-      coverage: params.coverage,
-      defines: params.defines,
-      includes: params.includes,
-    });
-    return this.cacheManager.generateKey('compile', fileKey, flagKey);
+  protected shouldUseCache(params: CompileParams): boolean {
+    return params.useCache;
   }
 
-  protected getDependencies(params: CompileParams): string[] {
-    // All input files are dependencies
-    return params.files;
+  /**
+   * A rebuild in the output directory invalidates any cached build restored
+   * into it.
+   */
+  protected async beforeRun(params: CompileParams): Promise<void> {
+    await this.cacheManager.forgetBuild(params.outputDir);
   }
 
-  protected getTimeout(params: CompileParams): number {
-    // Larger designs need more time
-    return 600000; // 10 minutes
-  }
+  protected async getCachedResult(params: CompileParams): Promise<ToolResult<CompileResult> | null> {
+    const entry = await this.cacheManager.findBuild<ToolResult<CompileResult>>(await this.getManifestKey(params));
+    if (!entry || !entry.result.data) {
+      return null;
+    }
 
-  getInputSchema(): any {
-    return {
-      type: 'object',
-      properties: {
-        files: {
-          type: 'array',
-          items: { type: 'string' },
-          minItems: 1,
-          description: 'Verilog/SystemVerilog files to compile',
-        },
-        topModule: {
-          type: 'string',
-          description: 'Top module name',
-        },
-        outputDir: {
-          type: 'string',
-          default: 'obj_dir',
-          description: 'Output directory for compiled files',
-        },
-        language: {
-          type: 'string',
-          enum: ['verilog', 'systemverilog'],
-          default: 'systemverilog',
-          description: 'HDL language standard',
-        },
-        optimization: {
-          type: 'number',
-          minimum: 0,
-          maximum: 3,
-          default: 2,
-          description: 'Optimization level',
-        },
-        trace: {
-          type: 'boolean',
-          default: false,
-          description: 'Enable waveform tracing',
-        },
-        traceFormat: {
-          type: 'string',
-          enum: ['vcd', 'fst'],
-          default: 'vcd',
-          description: 'Waveform format',
-        },
-        coverage: {
-          type: 'boolean',
-          default: false,
-          description: 'Enable coverage collection',
-        },
-        threads: {
-          type: 'number',
-          minimum: 1,
-          default: 1,
-          description: 'Number of threads for compilation',
-        },
-        defines: {
-          type: 'object',
-          additionalProperties: {
-            oneOf: [{ type: 'string' }, { type: 'number' }],
-          },
-          description: 'Macro definitions',
-        },
-        includes: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Include directories',
-        },
-        warnings: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Warning flags to enable',
-        },
-        suppressWarnings: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Warning flags to suppress',
-        },
-        makeFlags: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Additional make flags',
-        },
-        verilatorFlags: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Additional Verilator flags',
-        },
+    await this.cacheManager.restoreBuild(entry, params.outputDir);
+    logger.info(`Reusing cached build ${entry.key.slice(0, 12)} in ${params.outputDir}`);
+
+    const data = entry.result.data;
+    const restored: ToolResult<CompileResult> = {
+      ...entry.result,
+      data: {
+        ...data,
+        cached: true,
+        outputDir: resolve(params.outputDir),
+        executable: data.executable ? join(params.outputDir, basename(data.executable)) : undefined,
       },
-      required: ['files'],
     };
+    await this.recordBuild(restored.data!);
+    return restored;
+  }
+
+  /**
+   * Keep the diagnostics for questions about the build after this call.
+   */
+  private async recordBuild(data: CompileResult): Promise<void> {
+    try {
+      await this.runs.recordBuild({
+        outputDir: data.outputDir,
+        success: data.success,
+        cached: data.cached,
+        errors: data.errors,
+        warnings: data.warnings,
+      });
+    } catch (error) {
+      logger.warn('Failed to record build:', error);
+    }
+  }
+
+  protected async cacheResult(params: CompileParams, result: ToolResult<CompileResult>): Promise<void> {
+    const sources = result.data?.sources;
+    if (!sources) {
+      return;
+    }
+
+    // Used only when Verilator wrote no .d dependency file
+    const fallback = [...sources.files, ...sources.libraryFiles, ...(params.waivers || []).map(w => resolve(w))];
+    await this.cacheManager.storeBuild(await this.getManifestKey(params), params.outputDir, result, fallback);
+  }
+
+  /**
+   * Key for everything that shapes the build apart from file contents:
+   * options, the resolved source list and the Verilator version. Where the
+   * build is written does not matter, since cached builds are copied.
+   */
+  private async getManifestKey(params: CompileParams): Promise<string> {
+    const { outputDir, target, useCache, background, files, filelists, ...options } = params;
+    const sources = this.resolvedSources.get(params) || await this.resolveSources(params);
+    const config = await this.configManager.getConfig();
+    return this.cacheManager.generateKey('compile', config.version, options, sources);
+  }
+
+  protected getProgressTracker(params: CompileParams): ProgressTracker {
+    return new VerilatorBuildTracker(params.outputDir);
+  }
+
+  protected getTimeout(params: CompileParams): number {
+    // Larger designs need more time
+    return 600000; // 10 minutes
   }
 }
\ No newline at end of file
@@ -0,0 +1,258 @@
+import { z } from 'zod';
+import { AbstractTool } from './base.js';
+import { ToolMetadata, ToolResult, CoverageData } from '../types/index.js';
+import { basename, dirname, join, resolve } from 'path';
+import { promises as fs } from 'fs';
+import { glob } from 'glob';
+import {
+  CoverageRun,
+  CoverageTotals,
+  CoverageType,
+  countTotals,
+  mergeCoverage,
+  parseCoverageFile,
+  summarizeCoverage,
+  writeCoverageFile,
+} from '../utils/coverage-parser.js';
+import { CoverageReport, annotateSources, writeCoverageReport } from '../utils/coverage-report.js';
+import { logger } from '../utils/logger.js';
+
+const CoverageSchema = z.object({
+  operation: z.enum(['summary', 'merge', 'report']).default('summary').describe('Summarize one coverage file, merge several runs, or write an annotated source report'),
+  coverageFile: z.string().optional().describe('Verilator coverage.dat file'),
+  outputDir: z.string().optional().describe('Simulation output directory containing coverage.dat'),
+  minCount: z.number().min(1).default(1).describe('Hit count at which a point counts as covered'),
+  maxUncovered: z.number().min(0).default(100).describe('Maximum uncovered points to report'),
+  inputs: z.array(z.string()).optional().describe('Coverage files or simulation output directories to merge, in run order'),
+  pattern: z.string().optional().describe('Glob of coverage files to merge, ordered by modification time'),
+  mergedFile: z.string().default('coverage_merged.dat').describe('Output path for the merged coverage database'),
+  reportDir: z.string().default('coverage_report').describe('Directory for the annotated source report'),
+  reportFormats: z.array(z.enum(['html', 'lcov'])).default(['html', 'lcov']).describe('Report formats to write'),
+  sourceRoot: z.string().optional().describe('Directory the source paths in coverage.dat are relative to'),
+});
+
+type CoverageParams = z.infer<typeof CoverageSchema>;
+
+interface CoverageRunInfo {
+  name: string;
+  coverageFile: string;
+  pointCount: number;
+  covered: number;
+  firstCovered: number;
+}
+
+interface CoverageResult {
+  coverageFile: string;
+  pointCount: number;
+  totals: Record<CoverageType, CoverageTotals>;
+  coverage: CoverageData;
+  runs?: CoverageRunInfo[];
+  attributionFile?: string;
+  report?: CoverageReport;
+}
+
+export class CoverageTool extends AbstractTool<CoverageParams, CoverageResult> {
+  constructor(configManager: any, cacheManager: any) {
+    super('verilator_coverage', 'verilator_coverage', configManager, cacheManager, CoverageSchema);
+  }
+
+  getDescription(): string {
+    return 'Analyze Verilator coverage data with per-file and per-module line, toggle and branch metrics';
+  }
+
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'analysis',
+      capabilities: ['merge', 'html-report', 'lcov'],
+    };
+  }
+
+  protected async buildArguments(params: CoverageParams): Promise<string[]> {
+    // coverage.dat is parsed in-process
+    return [];
+  }
+
+  protected async processResult(
+    result: any,
+    params: CoverageParams
+  ): Promise<ToolResult<CoverageResult>> {
+    try {
+      switch (params.operation) {
+        case 'merge':
+          return await this.mergeRuns(params);
+        case 'report':
+          return await this.writeReport(params);
+        default:
+          return await this.summarize(params);
+      }
+    } catch (error) {
+      logger.error('Coverage analysis error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async summarize(params: CoverageParams): Promise<ToolResult<CoverageResult>> {
+    const coverageFile = this.resolveCoverageFile(params);
+    await fs.access(coverageFile);
+
+    const points = await parseCoverageFile(coverageFile);
+    if (points.length === 0) {
+      throw new Error(`No coverage points found in ${coverageFile}`);
+    }
+
+    logger.debug(`Parsed ${points.length} coverage points from ${coverageFile}`);
+
+    return {
+      success: true,
+      data: {
+        coverageFile,
+        pointCount: points.length,
+        totals: countTotals(points, params.minCount),
+        coverage: summarizeCoverage(points, params.minCount, params.maxUncovered),
+      },
+    };
+  }
+
+  private async writeReport(params: CoverageParams): Promise<ToolResult<CoverageResult>> {
+    const coverageFile = this.resolveCoverageFile(params);
+    await fs.access(coverageFile);
+
+    const points = await parseCoverageFile(coverageFile);
+    if (points.length === 0) {
+      throw new Error(`No coverage points found in ${coverageFile}`);
+    }
+
+    // Verilator records sources as given on its command line, relative to where it ran
+    const sourceRoot = resolve(params.sourceRoot || process.cwd());
+    const files = await annotateSources(points, sourceRoot, params.minCount);
+    const coverage = summarizeCoverage(points, params.minCount, params.maxUncovered);
+    const report = await writeCoverageReport(
+      files,
+      coverage,
+      resolve(params.reportDir),
+      params.reportFormats,
+      params.minCount
+    );
+
+    const missing = report.files.filter(f => !f.sourceFound).map(f => `Source not found: ${f.sourcePath}`);
+    logger.info(`Wrote coverage report for ${files.length} files to ${report.reportDir}`);
+
+    return {
+      success: true,
+      data: {
+        coverageFile,
+        pointCount: points.length,
+        totals: countTotals(points, params.minCount),
+        coverage,
+        report,
+      },
+      warnings: missing.length > 0 ? missing : undefined,
+    };
+  }
+
+  private async mergeRuns(params: CoverageParams): Promise<ToolResult<CoverageResult>> {
+    const files = await this.resolveMergeInputs(params);
+    if (files.length === 0) {
+      throw new Error('No coverage files to merge; provide inputs or pattern');
+    }
+
+    const names = files.map(file => this.runName(file));
+    const runs: CoverageRun[] = [];
+    for (const [index, file] of files.entries()) {
+      // Fall back to the full path when two runs share a directory name
+      const name = names.indexOf(names[index]) === names.lastIndexOf(names[index]) ? names[index] : file;
+      runs.push({ name, points: await parseCoverageFile(file) });
+    }
+
+    const merged = mergeCoverage(runs, params.minCount);
+    const mergedFile = resolve(params.mergedFile);
+    await fs.mkdir(dirname(mergedFile), { recursive: true });
+    await writeCoverageFile(mergedFile, merged.points);
+
+    // Per-point attribution can be large, so it goes next to the merged database
+    const attributionFile = mergedFile.replace(/\.dat$/, '') + '.attribution.json';
+    const attribution = merged.points.map(point => ({
+      type: point.type,
+      file: point.file,
+      line: point.line,
+      hier: point.hier,
+      comment: point.comment,
+      count: point.count,
+      firstCoveredBy: merged.firstCoveredBy.get(point.key) || null,
+    }));
+    await fs.writeFile(attributionFile, JSON.stringify(attribution, null, 2));
+
+    const contributions = new Map<string, number>();
+    for (const name of merged.firstCoveredBy.values()) {
+      contributions.set(name, (contributions.get(name) || 0) + 1);
+    }
+
+    const runInfo = runs.map((run, index) => ({
+      name: run.name,
+      coverageFile: files[index],
+      pointCount: run.points.length,
+      covered: run.points.filter(p => p.count >= params.minCount).length,
+      firstCovered: contributions.get(run.name) || 0,
+    }));
+
+    logger.info(`Merged ${runs.length} coverage runs into ${mergedFile}`);
+
+    return {
+      success: true,
+      data: {
+        coverageFile: mergedFile,
+        pointCount: merged.points.length,
+        totals: countTotals(merged.points, params.minCount),
+        coverage: summarizeCoverage(merged.points, params.minCount, params.maxUncovered),
+        runs: runInfo,
+        attributionFile,
+      },
+    };
+  }
+
+  private async resolveMergeInputs(params: CoverageParams): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const input of params.inputs || []) {
+      const path = resolve(input);
+      const stat = await fs.stat(path);
+      files.push(stat.isDirectory() ? join(path, 'coverage.dat') : path);
+    }
+
+    if (params.pattern) {
+      const matches = await glob(params.pattern, { absolute: true, nodir: true });
+      const withTimes = await Promise.all(
+        matches.map(async file => ({ file, mtime: (await fs.stat(file)).mtimeMs }))
+      );
+      withTimes.sort((a, b) => a.mtime - b.mtime || a.file.localeCompare(b.file));
+      files.push(...withTimes.map(entry => entry.file));
+    }
+
+    return Array.from(new Set(files));
+  }
+
+  private runName(file: string): string {
+    // Runs are usually <outputDir>/coverage.dat, so the directory names the run
+    return basename(file) === 'coverage.dat' ? basename(dirname(file)) : basename(file, '.dat');
+  }
+
+  private resolveCoverageFile(params: CoverageParams): string {
+    if (params.coverageFile) {
+      return resolve(params.coverageFile);
+    }
+    if (params.outputDir) {
+      return resolve(join(params.outputDir, 'coverage.dat'));
+    }
+    throw new Error('Either coverageFile or outputDir must be provided');
+  }
+
+  protected getCacheKey(params: CoverageParams): string | null {
+    // Coverage files are rewritten by every simulation run
+    return null;
+  }
+}
@@ -0,0 +1,256 @@
+import { z } from 'zod';
+import { AbstractTool } from './base.js';
+import { ToolMetadata, ToolResult, ResolvedSources } from '../types/index.js';
+import { join } from 'path';
+import { promises as fs } from 'fs';
+import { ErrorHandler, ParsedError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+import { resolveSources, sourceArguments } from '../utils/filelist.js';
+import { ProjectConfig, getTarget, withDefaults } from '../utils/project-config.js';
+import { RunRegistry, projectIdFor } from '../utils/run-registry.js';
+import { AstFormat, readNetlist } from '../utils/verilator-ast.js';
+import {
+  DesignHierarchy,
+  DesignResourceType,
+  InstanceNode,
+  buildInstanceTree,
+  countInstances,
+  findInstance,
+  limitDepth,
+  writeDesignResources,
+} from '../utils/design-hierarchy.js';
+
+const HierarchySchema = z.object({
+  target: z.string().optional().describe('Named build target from verilator-mcp.json; explicit parameters override it'),
+  files: z.array(z.string()).default([]).describe('Verilog/SystemVerilog files of the design (files or filelists required)'),
+  filelists: z.array(z.string()).optional().describe('Filelists (.f) to read, as with verilator -f'),
+  topModule: z.string().optional().describe('Top module name; needed when the design has more than one'),
+  parameters: z.record(z.union([z.string(), z.number()])).optional().describe('Top-level parameter overrides, passed as -G<name>=<value>'),
+  defines: z.record(z.union([z.string(), z.number()])).optional().describe('Macro definitions'),
+  includes: z.array(z.string()).optional().describe('Include directories'),
+  verilatorFlags: z.array(z.string()).optional().describe('Additional Verilator flags'),
+  format: z.enum(['auto', 'json', 'xml']).default('auto').describe('Verilator AST output to read: json needs Verilator 5.024 or later, auto picks by version'),
+  instance: z.string().optional().describe('Return the subtree under this hierarchical path, e.g. top.u_core'),
+  depth: z.number().min(0).default(3).describe('Levels of the tree to return below the top or instance; the stored resource always has the whole tree'),
+}).refine(params => params.files.length > 0 || (params.filelists?.length ?? 0) > 0, {
+  message: 'Provide files or filelists',
+});
+
+type HierarchyParams = z.infer<typeof HierarchySchema>;
+
+interface HierarchyResult {
+  projectId: string;
+  top: string;
+  format: AstFormat;
+  instanceCount: number;
+  moduleCount: number;
+  maxDepth: number;
+  // design:// resources written for the project
+  resources: Record<DesignResourceType, string>;
+  files: Record<DesignResourceType, string>;
+  tree: InstanceNode;
+  errors: ParsedError[];
+  warnings: ParsedError[];
+}
+
+// Where one call asked Verilator to write its AST
+interface AstOutput {
+  projectId: string;
+  designDir: string;
+  format: AstFormat;
+  astFile: string;
+  metaFile?: string;
+  sources: ResolvedSources;
+}
+
+export class HierarchyTool extends AbstractTool<HierarchyParams, HierarchyResult> {
+  private runRegistry: RunRegistry;
+  private outputs = new WeakMap<HierarchyParams, AstOutput>();
+
+  constructor(configManager: any, cacheManager: any, runRegistry: RunRegistry = new RunRegistry()) {
+    super('verilator_hierarchy', 'verilator', configManager, cacheManager, HierarchySchema);
+    this.runRegistry = runRegistry;
+  }
+
+  getDescription(): string {
+    return 'Elaborate a design with Verilator into its module instance tree, with resolved parameters and port connections, and publish it as design:// resources';
+  }
+
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'analysis',
+      capabilities: ['targets', 'filelists', 'resources'],
+    };
+  }
+
+  protected applyProjectConfig(
+    params: Record<string, any>,
+    project: ProjectConfig | null
+  ): Record<string, any> {
+    if (params.target === undefined) {
+      return params;
+    }
+
+    const target = getTarget(project, params.target);
+    return withDefaults(params, {
+      files: target.files,
+      filelists: target.filelists,
+      topModule: target.top,
+      defines: target.defines,
+      includes: target.includes,
+      verilatorFlags: target.flags,
+    });
+  }
+
+  protected async buildArguments(params: HierarchyParams): Promise<string[]> {
+    const projectId = await projectIdFor();
+    const designDir = this.runRegistry.getDesignDir(projectId);
+    const format = params.format === 'auto'
+      ? (await this.checkVerilatorVersion('5.024') ? 'json' : 'xml')
+      : params.format;
+    const sources = await resolveSources(params.files, params.filelists);
+
+    const output: AstOutput = { projectId, designDir, format, astFile: join(designDir, `ast.${format}`), sources };
+    const args: string[] = [];
+    if (format === 'json') {
+      output.metaFile = join(designDir, 'ast.meta.json');
+      args.push('--json-only', '--json-only-output', output.astFile, '--json-only-meta-output', output.metaFile);
+    } else {
+      args.push('--xml-only', '--xml-output', output.astFile);
+    }
+    this.outputs.set(params, output);
+
+    // Verilator writes the AST even for designs with lint warnings
+    args.push('-Wno-fatal', '--Mdir', join(designDir, 'obj_dir'));
+
+    if (params.topModule) {
+      args.push('--top-module', params.topModule);
+    }
+
+    for (const [key, value] of Object.entries(params.parameters || {})) {
+      args.push(`-G${key}=${value}`);
+    }
+
+    for (const [key, value] of Object.entries(params.defines || {})) {
+      args.push('-D', `${key}=${value}`);
+    }
+
+    for (const inc of params.includes || []) {
+      args.push('-I', inc);
+    }
+
+    if (params.verilatorFlags) {
+      args.push(...params.verilatorFlags);
+    }
+
+    args.push(...sourceArguments(sources));
+    args.push(...sources.files);
+
+    await fs.mkdir(designDir, { recursive: true });
+    return args;
+  }
+
+  protected async processResult(
+    result: any,
+    params: HierarchyParams
+  ): Promise<ToolResult<HierarchyResult>> {
+    try {
+      const diagnostics = ErrorHandler.parseVerilatorOutput(result.stderr || '');
+      const errors = diagnostics.filter(d => d.type === 'error');
+      const warnings = diagnostics.filter(d => d.type === 'warning');
+      if (result.exitCode !== 0 || errors.length > 0) {
+        throw new Error(
+          `Elaboration failed: ${errors.map(e => e.message).join('; ') || `verilator exited with code ${result.exitCode}`}`
+        );
+      }
+
+      const output = this.outputs.get(params)!;
+      const netlist = await readNetlist(output.astFile, output.format, output.metaFile);
+
+      let top = params.topModule;
+      if (top && !netlist.modules.has(top)) {
+        // Verilator may rename a parameterized top; match it by its source name
+        top = [...netlist.modules.values()].find(m => m.definition === params.topModule && netlist.tops.includes(m.name))?.name ?? top;
+      }
+      if (!top) {
+        if (netlist.tops.length !== 1) {
+          throw new Error(`Cannot tell the top module apart (candidates: ${netlist.tops.join(', ') || 'none'}); set topModule`);
+        }
+        top = netlist.tops[0];
+      }
+
+      const root = buildInstanceTree(netlist, top);
+      const { instances, depth } = countInstances(root);
+      const config = await this.configManager.getConfig();
+      const hierarchy: DesignHierarchy = {
+        projectId: output.projectId,
+        top,
+        generatedAt: Date.now(),
+        source: {
+          format: output.format,
+          verilatorVersion: config.version,
+          files: output.sources.files,
+          astFile: output.astFile,
+          astMetaFile: output.metaFile,
+        },
+        instanceCount: instances,
+        moduleCount: new Set(this.collectModules(root)).size,
+        maxDepth: depth,
+        root,
+      };
+      const files = await writeDesignResources(output.designDir, netlist, hierarchy);
+      logger.info(`Design hierarchy of ${top}: ${instances} instances, ${hierarchy.moduleCount} modules`);
+
+      let tree = root;
+      if (params.instance) {
+        const found = findInstance(root, params.instance);
+        if (!found) {
+          throw new Error(`No instance ${params.instance} under ${top}`);
+        }
+        tree = found;
+      }
+
+      return {
+        success: true,
+        data: {
+          projectId: output.projectId,
+          top,
+          format: output.format,
+          instanceCount: hierarchy.instanceCount,
+          moduleCount: hierarchy.moduleCount,
+          maxDepth: hierarchy.maxDepth,
+          resources: {
+            hierarchy: `design://${output.projectId}/hierarchy`,
+            interface: `design://${output.projectId}/interface`,
+            parameter: `design://${output.projectId}/parameter`,
+          },
+          files,
+          tree: limitDepth(tree, params.depth),
+          errors,
+          warnings,
+        },
+      };
+    } catch (error) {
+      logger.error('Hierarchy error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private collectModules(node: InstanceNode): string[] {
+    return [node.module, ...node.children.flatMap(child => this.collectModules(child))];
+  }
+
+  protected shouldUseCache(params: HierarchyParams): boolean {
+    // The design resources are rewritten on every call
+    return false;
+  }
+
+  protected getTimeout(params: HierarchyParams): number {
+    return 600000; // 10 minutes for large designs
+  }
+}
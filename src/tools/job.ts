@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import { AbstractTool } from './base.js';
+import { ToolMetadata, ToolResult } from '../types/index.js';
+import { JobLog, JobManager, JobRecord, JobStatus } from '../utils/jobs.js';
+import { logger } from '../utils/logger.js';
+
+const JobSchema = z.object({
+  operation: z.enum(['list', 'status', 'log', 'cancel']).describe('List jobs, show one job and its result, read its output, or cancel it'),
+  jobId: z.string().optional().describe('Job id returned when the job was started (status, log, cancel)'),
+  offset: z.number().min(0).optional().describe('Read the log from this byte offset, as returned by the previous read (log)'),
+  tailBytes: z.number().min(0).default(8192).describe('Without an offset, read this many bytes from the end of the log (log)'),
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled', 'interrupted']).optional().describe('Only list jobs with this status (list)'),
+  limit: z.number().min(1).default(20).describe('Maximum number of jobs to list, newest first (list)'),
+}).refine(params => params.operation === 'list' || params.jobId, {
+  message: 'status, log and cancel need a jobId',
+});
+
+type JobParams = z.infer<typeof JobSchema>;
+
+interface JobSummary {
+  id: string;
+  tool: string;
+  status: JobStatus;
+  ageSeconds: number;
+  runSeconds?: number;
+  phase?: string;
+  percent?: number;
+  message?: string;
+}
+
+interface JobResult {
+  operation: string;
+  jobDir: string;
+  jobs?: JobSummary[];
+  job?: JobRecord & { summary: JobSummary };
+  log?: JobLog;
+}
+
+export class JobTool extends AbstractTool<JobParams, JobResult> {
+  private jobs: JobManager;
+
+  constructor(configManager: any, cacheManager: any, jobs: JobManager = new JobManager()) {
+    super('verilator_job', 'verilator', configManager, cacheManager, JobSchema);
+    this.jobs = jobs;
+  }
+
+  getDescription(): string {
+    return 'Follow background jobs started with background: true: list them, poll status and results, read partial logs, and cancel them';
+  }
+
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'maintenance',
+      capabilities: [],
+    };
+  }
+
+  protected async buildArguments(params: JobParams): Promise<string[]> {
+    // Jobs are managed in-process
+    return [];
+  }
+
+  protected shouldUseCache(params: JobParams): boolean {
+    return false;
+  }
+
+  protected async processResult(
+    result: any,
+    params: JobParams
+  ): Promise<ToolResult<JobResult>> {
+    try {
+      const data: JobResult = { operation: params.operation, jobDir: this.jobs.getJobDir() };
+
+      if (params.operation === 'list') {
+        const jobs = await this.jobs.list();
+        data.jobs = jobs
+          .filter(job => !params.status || job.status === params.status)
+          .slice(0, params.limit)
+          .map(job => this.summarize(job));
+        return { success: true, data };
+      }
+
+      const id = params.jobId!;
+      let job = await this.jobs.get(id);
+      if (!job) {
+        throw new Error(`Unknown job: ${id}`);
+      }
+
+      switch (params.operation) {
+        case 'log':
+          data.log = await this.jobs.readLog(id, { offset: params.offset, tail: params.tailBytes });
+          break;
+        case 'cancel':
+          job = await this.jobs.cancel(id);
+          break;
+      }
+
+      logger.debug(`Job ${id} is ${job.status}`);
+      data.job = { ...job, summary: this.summarize(job) };
+      return { success: true, data };
+    } catch (error) {
+      logger.error('Job error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private summarize(job: JobRecord): JobSummary {
+    const now = Date.now();
+    return {
+      id: job.id,
+      tool: job.tool,
+      status: job.status,
+      ageSeconds: Math.round((now - job.createdAt) / 1000),
+      runSeconds: job.startedAt ? Math.round(((job.finishedAt || now) - job.startedAt) / 1000) : undefined,
+      phase: job.progress?.phase,
+      percent: job.progress?.percent,
+      message: job.progress?.message,
+    };
+  }
+}
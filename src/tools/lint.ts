@@ -0,0 +1,193 @@
+import { z } from 'zod';
+import { AbstractTool } from './base.js';
+import { ToolMetadata, ToolResult, ResolvedSources } from '../types/index.js';
+import { resolve } from 'path';
+import { ErrorHandler, ParsedError } from '../utils/error-handler.js';
+import { logger } from '../utils/logger.js';
+import { resolveSources, sourceArguments } from '../utils/filelist.js';
+import { ProjectConfig, getTarget, withDefaults } from '../utils/project-config.js';
+
+const LintSchema = z.object({
+  target: z.string().optional().describe('Named build target from verilator-mcp.json; explicit parameters override it'),
+  files: z.array(z.string()).default([]).describe('Verilog/SystemVerilog files to lint (files or filelists required)'),
+  filelists: z.array(z.string()).optional().describe('Filelists (.f) to read, as with verilator -f'),
+  topModule: z.string().optional().describe('Top module name'),
+  language: z.enum(['verilog', 'systemverilog']).default('systemverilog').describe('HDL language standard'),
+  waivers: z.array(z.string()).optional().describe('Verilator .vlt waiver/configuration files'),
+  wall: z.boolean().default(true).describe('Enable all lint warnings (-Wall)'),
+  defines: z.record(z.union([z.string(), z.number()])).optional().describe('Macro definitions'),
+  includes: z.array(z.string()).optional().describe('Include directories'),
+  warnings: z.array(z.string()).optional().describe('Warning flags to enable'),
+  suppressWarnings: z.array(z.string()).optional().describe('Warning flags to suppress'),
+  verilatorFlags: z.array(z.string()).optional().describe('Additional Verilator flags'),
+}).refine(params => params.files.length > 0 || (params.filelists?.length ?? 0) > 0, {
+  message: 'Provide files or filelists',
+});
+
+type LintParams = z.infer<typeof LintSchema>;
+
+interface LintResult {
+  clean: boolean;
+  files: string[];
+  waivers: string[];
+  errors: ParsedError[];
+  warnings: ParsedError[];
+  byCode: Record<string, number>;
+  categories: ReturnType<typeof ErrorHandler.categorizeErrors>;
+}
+
+export class LintTool extends AbstractTool<LintParams, LintResult> {
+  // Sources resolved while building arguments, reported back in the result
+  private resolvedSources = new WeakMap<LintParams, ResolvedSources>();
+
+  constructor(configManager: any, cacheManager: any) {
+    super('verilator_lint', 'verilator', configManager, cacheManager, LintSchema);
+  }
+
+  getDescription(): string {
+    return 'Lint Verilog/SystemVerilog with Verilator --lint-only and return structured diagnostics';
+  }
+
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'verification',
+      capabilities: ['targets', 'filelists', 'waivers'],
+    };
+  }
+
+  protected applyProjectConfig(
+    params: Record<string, any>,
+    project: ProjectConfig | null
+  ): Record<string, any> {
+    if (params.target === undefined) {
+      return params;
+    }
+
+    const target = getTarget(project, params.target);
+    return withDefaults(params, {
+      files: target.files,
+      filelists: target.filelists,
+      topModule: target.top,
+      language: target.language,
+      defines: target.defines,
+      includes: target.includes,
+      verilatorFlags: target.flags,
+      waivers: target.waivers,
+    });
+  }
+
+  protected async buildArguments(params: LintParams): Promise<string[]> {
+    const args: string[] = ['--lint-only'];
+
+    if (params.language === 'systemverilog') {
+      args.push('--language', '1800-2017');
+    } else {
+      args.push('--language', '1364-2005');
+    }
+
+    if (params.wall) {
+      args.push('-Wall');
+    }
+
+    // Report every diagnostic instead of stopping at the first warning
+    args.push('-Wno-fatal');
+
+    if (params.topModule) {
+      args.push('--top-module', params.topModule);
+    }
+
+    if (params.defines) {
+      for (const [key, value] of Object.entries(params.defines)) {
+        args.push('-D', `${key}=${value}`);
+      }
+    }
+
+    if (params.includes) {
+      for (const inc of params.includes) {
+        args.push('-I', inc);
+      }
+    }
+
+    for (const warning of params.warnings || []) {
+      args.push(`-W${warning}`);
+    }
+
+    for (const warning of params.suppressWarnings || []) {
+      args.push(`-Wno-${warning}`);
+    }
+
+    if (params.verilatorFlags) {
+      args.push(...params.verilatorFlags);
+    }
+
+    // Waiver files must precede the sources they apply to
+    args.push(...(params.waivers || []).map(w => resolve(w)));
+
+    const sources = await this.resolveSources(params);
+    args.push(...sourceArguments(sources));
+    args.push(...sources.files);
+
+    return args;
+  }
+
+  protected async processResult(
+    result: any,
+    params: LintParams
+  ): Promise<ToolResult<LintResult>> {
+    try {
+      const diagnostics = ErrorHandler.parseVerilatorOutput(result.stderr || '');
+      const errors = diagnostics.filter(d => d.type === 'error');
+      const warnings = diagnostics.filter(d => d.type === 'warning');
+
+      const byCode: Record<string, number> = {};
+      for (const diagnostic of diagnostics) {
+        const code = diagnostic.code || diagnostic.type.toUpperCase();
+        byCode[code] = (byCode[code] || 0) + 1;
+      }
+
+      logger.debug(`Lint found ${errors.length} errors and ${warnings.length} warnings`);
+
+      // A non-zero exit without parsed errors still means Verilator could not lint the design
+      const failed = errors.length > 0 || result.exitCode !== 0;
+
+      return {
+        success: !failed,
+        data: {
+          clean: diagnostics.length === 0 && !failed,
+          files: (this.resolvedSources.get(params) || await this.resolveSources(params)).files,
+          waivers: (params.waivers || []).map(w => resolve(w)),
+          errors,
+          warnings,
+          byCode,
+          categories: ErrorHandler.categorizeErrors(diagnostics),
+        },
+        error: failed
+          ? `Lint failed: ${errors.map(e => e.message).join('; ') || `verilator exited with code ${result.exitCode}`}`
+          : undefined,
+      };
+    } catch (error) {
+      logger.error('Error in lint processResult:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async resolveSources(params: LintParams): Promise<ResolvedSources> {
+    const sources = await resolveSources(params.files, params.filelists);
+    this.resolvedSources.set(params, sources);
+    return sources;
+  }
+
+  protected getCacheKey(params: LintParams): string | null {
+    // Lint is fast enough to rerun on every request
+    return null;
+  }
+
+  protected getTimeout(params: LintParams): number {
+    return 120000; // 2 minutes
+  }
+}
@@ -1,12 +1,23 @@
 import { z } from 'zod';
 import { AbstractTool } from './base.js';
-import { ToolResult, NaturalLanguageQuery, NaturalLanguageResponse, SimulationContext } from '../types/index.js';
+import { ToolMetadata, ToolResult, NaturalLanguageQuery, NaturalLanguageResponse, SimulationContext, AssertionResult, ModuleInfo } from '../types/index.js';
 import * as natural from 'natural';
 import { logger } from '../utils/logger.js';
 import { promises as fs } from 'fs';
+import { resolve } from 'path';
 import { SimulateTool } from './simulate.js';
 import { TestbenchGeneratorTool } from './testbench-generator.js';
 import { CompileTool } from './compile.js';
+import { CoveragePoint, countTotals, parseCoverageFile, summarizeCoverage } from '../utils/coverage-parser.js';
+import { BuildRecord, RunRegistry, SimulationRunRecord, projectIdFor } from '../utils/run-registry.js';
+import { ErrorHandler, ParsedError } from '../utils/error-handler.js';
+import { findTopModules, parseSystemVerilogFile } from '../utils/sv-parser.js';
+import { elaborateModule } from '../utils/sv-elaborate.js';
+import { InstanceNode, instancesByModule } from '../utils/design-hierarchy.js';
+import { SignalAccess, SignalReport, SignalXref } from '../utils/signal-xref.js';
+import { RootCauseAnalysis, analyzeRootCause } from '../utils/root-cause.js';
+import { TimeUnit } from '../utils/waveform-reader.js';
+import { openWaveform } from './waveform.js';
 
 const NaturalLanguageSchema = z.object({
   query: z.string().describe('Natural language query about simulation'),
@@ -34,12 +45,31 @@ const NaturalLanguageSchema = z.object({
 
 type NaturalLanguageParams = z.infer<typeof NaturalLanguageSchema>;
 
+// Words of a query that are not taken for signal names
+const QUERY_WORDS = new Set([
+  'why', 'what', 'when', 'where', 'which', 'who', 'how', 'is', 'are', 'was', 'were', 'does', 'do', 'did', 'the', 'a', 'an',
+  'at', 'in', 'on', 'of', 'to', 'for', 'from', 'by', 'it', 'its', 'this', 'that', 'and', 'or', 'not', 'signal', 'signals',
+  'time', 'high', 'low', 'value', 'values', 'set', 'drive', 'drives', 'driven', 'read', 'reads', 'explain', 'describe',
+  'debug', 'trace', 'show', 'me', 'stuck', 'x', 'z', 'unknown', 'ns', 'ps', 'us', 'ms', 's',
+  'module', 'modules', 'work', 'works', 'my', 'our', 'your', 'with', 'has', 'have', 'generate', 'create', 'testbench',
+]);
+
+// Cone signals listed in an answer
+const MAX_LISTED_SIGNALS = 10;
+// Assertions, diagnostics and other items listed in an answer
+const MAX_LISTED_ITEMS = 10;
+
+// Debug queries about why a run failed rather than about one signal
+const FAILURE_QUERY = /\b(assert\w*|fail\w*|errors?|fatal)\b/i;
+
 interface QueryIntent {
   category: 'debug' | 'analysis' | 'coverage' | 'generation' | 'explanation' | 'simulation';
   action: string;
   entities: {
     signals?: string[];
     times?: number[];
+    // Unit of the first time, when the query gives one
+    timeUnit?: TimeUnit;
     modules?: string[];
     conditions?: string[];
     commands?: string[];
@@ -47,15 +77,29 @@ interface QueryIntent {
   confidence: number;
 }
 
+// Handlers build the answer; the confidence is the classifier's, added once
+type Answer = Omit<NaturalLanguageResponse, 'confidence'>;
+
+interface QueryArtifacts {
+  // Newest run of the project, when the client passed no context
+  run?: SimulationRunRecord;
+  design?: string;
+  waveformFile?: string;
+  coverageFile?: string;
+  logFile?: string;
+  assertions?: AssertionResult[];
+}
+
 export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, NaturalLanguageResponse> {
   private classifier: any;
   private tokenizer: any;
   private simulator: SimulateTool;
   private testbenchGenerator: TestbenchGeneratorTool;
   private compiler: CompileTool;
+  private runRegistry: RunRegistry;
 
-  constructor(configManager: any, cacheManager: any) {
-    super('natural_language_query', 'verilator', configManager, cacheManager, NaturalLanguageSchema);
+  constructor(configManager: any, cacheManager: any, runRegistry: RunRegistry = new RunRegistry()) {
+    super('verilator_natural_language', 'verilator', configManager, cacheManager, NaturalLanguageSchema);
     
     // Initialize NLP components
     this.tokenizer = new natural.WordTokenizer();
@@ -65,6 +109,7 @@ export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, Nat
     this.simulator = new SimulateTool(configManager, cacheManager);
     this.testbenchGenerator = new TestbenchGeneratorTool(configManager, cacheManager);
     this.compiler = new CompileTool(configManager, cacheManager);
+    this.runRegistry = runRegistry;
     
     this.trainClassifier();
   }
@@ -73,6 +118,17 @@ export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, Nat
     return 'Process natural language queries about RTL simulation, debugging, and analysis';
   }
 
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'assistant',
+      capabilities: ['history', 'context'],
+      // Name derived from the class name before tools declared their own
+      aliases: ['verilator_naturallanguage'],
+    };
+  }
+
   private trainClassifier() {
     // Debug queries
     this.classifier.addDocument('why is signal high low at time', 'debug');
@@ -85,6 +141,7 @@ export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, Nat
     this.classifier.addDocument('analyze timing performance frequency', 'analysis');
     this.classifier.addDocument('power consumption estimate', 'analysis');
     this.classifier.addDocument('critical path analysis', 'analysis');
+    this.classifier.addDocument('maximum clock frequency of the design', 'analysis');
     this.classifier.addDocument('resource utilization', 'analysis');
     this.classifier.addDocument('state machine fsm analysis', 'analysis');
 
@@ -129,7 +186,7 @@ export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, Nat
       logger.info(`Detected intent: ${intent.category} - ${intent.action}`);
 
       // Process based on category
-      let response: NaturalLanguageResponse;
+      let response: Answer;
 
       switch (intent.category) {
         case 'debug':
@@ -154,7 +211,6 @@ export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, Nat
           response = {
             answer: "I couldn't understand your query. Please try rephrasing it.",
             category: 'unknown',
-            confidence: 0,
             suggestions: [
               'Debug a signal value at a specific time',
               'Analyze design performance',
@@ -167,7 +223,7 @@ export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, Nat
 
       return {
         success: true,
-        data: response,
+        data: { ...response, confidence: intent.confidence },
       };
 
     } catch (error) {
@@ -181,7 +237,11 @@ export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, Nat
 
   private parseQueryIntent(query: string): QueryIntent {
     const tokens = this.tokenizer.tokenize(query.toLowerCase());
-    const category = this.classifier.classify(query);
+    // The classifier scores each category with P(category) * P(words | category);
+    // the share of the best one is how sure it is of the category
+    const classifications: { label: string; value: number }[] = this.classifier.getClassifications(query);
+    const category = classifications[0].label;
+    const total = classifications.reduce((sum, classification) => sum + classification.value, 0);
     
     // Extract entities
     const entities: QueryIntent['entities'] = {};
@@ -189,14 +249,18 @@ export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, Nat
     // Extract signal names (words that look like identifiers)
     entities.signals = tokens.filter((t: string) => /^[a-z_][a-z0-9_]*$/i.test(t));
 
-    // Extract times (numbers followed by time units)
-    const timeMatches = query.match(/\d+\s*(ns|ps|us|ms|s)?/gi);
-    if (timeMatches) {
-      entities.times = timeMatches.map(t => parseInt(t));
+    // Extract times (numbers followed by time units, or after "at" or "time")
+    const timeMatches = Array.from(query.matchAll(/\b(\d+(?:\.\d+)?)\s*(fs|ps|ns|us|ms|s)\b|\b(?:at|time)\s+(\d+(?:\.\d+)?)\b/gi));
+    if (timeMatches.length > 0) {
+      entities.times = timeMatches.map(match => parseFloat(match[1] ?? match[3]));
+      entities.timeUnit = timeMatches[0][2]?.toLowerCase() as TimeUnit | undefined;
     }
 
-    // Extract module names (capitalized words)
-    entities.modules = tokens.filter((t: string) => /^[A-Z][a-zA-Z0-9_]*$/.test(t));
+    // Extract module names: the word before or after "module"
+    entities.modules = Array.from(
+      query.matchAll(/\bmodule\s+['"`]?([A-Za-z_]\w*)|\b([A-Za-z_]\w*)['"`]?(?=\s+module\b)/gi),
+      match => match[1] ?? match[2]
+    ).filter(name => !QUERY_WORDS.has(name.toLowerCase()));
 
     // Determine action based on keywords
     let action = 'unknown';
@@ -211,21 +275,41 @@ export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, Nat
       category: category as any,
       action,
       entities,
-      confidence: 0.8, // Would use actual confidence from classifier
+      confidence: total > 0 ? Math.round((classifications[0].value / total) * 100) / 100 : 0,
     };
   }
 
   private async handleDebugQuery(
     params: NaturalLanguageParams,
     intent: QueryIntent
-  ): Promise<NaturalLanguageResponse> {
+  ): Promise<Answer> {
     const { entities } = intent;
-    
-    if (!params.context?.currentSimulation?.waveformFile) {
+    const time = entities.times?.[0];
+    const design = await this.loadDesign();
+    const trace = design ? this.traceSignal(params.query, design) : undefined;
+    const artifacts = await this.findArtifacts(params);
+
+    if (!trace && FAILURE_QUERY.test(params.query)) {
+      return this.describeFailures(artifacts, time);
+    }
+
+    if (!artifacts.waveformFile) {
+      if (trace) {
+        const when = time !== undefined ? ` at ${time}${entities.timeUnit ?? ''}` : '';
+        return {
+          answer: `${this.describeDrivers(trace.report, design!)}\n\nNo waveform file is available to check its value${when}. Run a simulation with waveform generation enabled.`,
+          category: 'debug',
+          references: this.signalReferences(trace.report, time),
+          actions: [{
+            type: 'generate',
+            target: 'simulation',
+            parameters: { enableWaveform: true },
+          }],
+        };
+      }
       return {
         answer: "No waveform file is available. Please run a simulation first with waveform generation enabled.",
         category: 'debug',
-        confidence: 1.0,
         suggestions: ['Run simulation with waveform enabled'],
         actions: [{
           type: 'generate',
@@ -235,32 +319,58 @@ export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, Nat
       };
     }
 
-    // Analyze waveform for the requested signal
-    const signal = entities.signals?.[0];
-    const time = entities.times?.[0];
+    const signal = trace?.report.declaration.path ?? this.signalCandidates(params.query)[0];
 
     if (signal && time !== undefined) {
-      // In a real implementation, we would parse the waveform file
+      if (!trace) {
+        return this.unknownSignal(signal, design, 'debug');
+      }
+
+      const waveformFile = artifacts.waveformFile;
+      let analysis: RootCauseAnalysis;
+      try {
+        analysis = await analyzeRootCause(design!, openWaveform(waveformFile), signal, {
+          time,
+          timeUnit: entities.timeUnit,
+          depth: 12,
+        });
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return {
+          answer: `Could not trace '${signal}' through ${waveformFile}: ${reason}\n\n${this.describeDrivers(trace.report, design!)}`,
+          category: 'debug',
+          references: this.signalReferences(trace.report, time),
+        };
+      }
+
       return {
-        answer: `Signal '${signal}' at time ${time}ns: The signal appears to be affected by the clock edge and reset conditions. Check the driving logic in the module.`,
+        answer: this.describeRootCause(analysis) + this.otherMatches(trace.matches),
         category: 'debug',
-        confidence: 0.85,
         references: {
-          signals: [signal],
+          signals: analysis.chain.map(step => step.signal),
           times: [time],
+          files: Array.from(new Set(analysis.chain.flatMap(step => step.drivers.map(d => d.file)).filter((f): f is string => !!f))),
+          lines: analysis.chain.flatMap(step => step.drivers.map(d => d.line)).filter((l): l is number => l !== undefined),
         },
         actions: [{
           type: 'highlight',
           target: 'waveform',
-          parameters: { signal, time },
+          parameters: { signals: analysis.chain.map(step => step.waveformSignal), time },
         }],
       };
     }
 
+    if (trace) {
+      return {
+        answer: `${this.describeDrivers(trace.report, design!)}\n\nGive a time, e.g. "why is ${signal} low at 100ns", to debug its value.${this.otherMatches(trace.matches)}`,
+        category: 'debug',
+        references: this.signalReferences(trace.report),
+      };
+    }
+
     return {
       answer: "Please specify which signal and time you want to debug.",
       category: 'debug',
-      confidence: 0.6,
       suggestions: [
         "Why is 'data_valid' low at 1000ns?",
         "Debug the assertion failure at time 5000",
@@ -271,44 +381,59 @@ export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, Nat
   private async handleAnalysisQuery(
     params: NaturalLanguageParams,
     intent: QueryIntent
-  ): Promise<NaturalLanguageResponse> {
-    if (params.query.includes('frequency') || params.query.includes('timing')) {
-      return {
-        answer: "Based on the critical path analysis, the maximum operating frequency is approximately 250MHz. The critical path goes through the multiplier in the ALU unit.",
-        category: 'analysis',
-        confidence: 0.9,
-        references: {
-          files: ['alu.v'],
-          lines: [145, 156],
-        },
-        suggestions: [
-          'Optimize the multiplier for better timing',
-          'Consider pipelining the critical path',
-        ],
-      };
+  ): Promise<Answer> {
+    const query = params.query.toLowerCase();
+    const design = await this.loadDesign();
+    const sections: string[] = [];
+    const references = { signals: [] as string[], files: [] as string[], lines: [] as number[] };
+
+    if (/frequen|timing|critical|slack|fmax|power|energy/.test(query)) {
+      sections.push(
+        'Maximum frequency, critical path and power: unknown. Verilator simulates RTL without cell delays or power models, ' +
+        'so there is no timing or power data for the design. Those come from synthesis and static timing analysis.'
+      );
+    }
+
+    if (/state|fsm/.test(query)) {
+      sections.push(design
+        ? this.describeStateRegisters(design, references)
+        : 'State machines: unknown. Run verilator_hierarchy to extract the elaborated design.');
+    }
+
+    if (/warning|lint|diagnostic|error/.test(query)) {
+      sections.push(this.describeBuild(await this.loadLastBuild(), references));
+    }
+
+    if (sections.length === 0 || /resource|utili[sz]ation|size|area|structure|hierarch|instance/.test(query)) {
+      sections.push(design
+        ? this.describeDesignSize(design, references)
+        : 'Design structure: unknown. Run verilator_hierarchy to extract the elaborated design.');
     }
 
     return {
-      answer: "Please specify what aspect of the design you'd like to analyze.",
+      answer: sections.join('\n\n'),
       category: 'analysis',
-      confidence: 0.5,
-      suggestions: [
-        'Analyze timing performance',
-        'Check resource utilization',
-        'Examine state machine complexity',
-      ],
+      references: references.signals.length > 0 || references.files.length > 0 ? {
+        signals: references.signals.length > 0 ? references.signals : undefined,
+        files: Array.from(new Set(references.files)),
+        lines: references.lines,
+      } : undefined,
+      actions: design ? undefined : [{
+        type: 'analyze',
+        target: 'hierarchy',
+      }],
     };
   }
 
   private async handleCoverageQuery(
     params: NaturalLanguageParams,
     intent: QueryIntent
-  ): Promise<NaturalLanguageResponse> {
-    if (!params.context?.currentSimulation?.coverageFile) {
+  ): Promise<Answer> {
+    const { coverageFile } = await this.findArtifacts(params);
+    if (!coverageFile) {
       return {
-        answer: "No coverage data available. Run simulation with coverage enabled to collect metrics.",
+        answer: "Coverage: unknown. No coverage data is available; run a simulation with coverage enabled to collect it.",
         category: 'coverage',
-        confidence: 1.0,
         actions: [{
           type: 'generate',
           target: 'simulation',
@@ -317,37 +442,113 @@ export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, Nat
       };
     }
 
-    // Mock coverage data
+    let points: CoveragePoint[];
+    try {
+      points = await parseCoverageFile(coverageFile);
+    } catch (error) {
+      return {
+        answer: `Coverage: unknown. Could not read coverage data from ${coverageFile}: ${error instanceof Error ? error.message : String(error)}`,
+        category: 'coverage',
+      };
+    }
+
+    if (points.length === 0) {
+      return {
+        answer: `Coverage: unknown. ${coverageFile} contains no coverage points. Check that the design was compiled with coverage enabled.`,
+        category: 'coverage',
+      };
+    }
+
+    const coverage = summarizeCoverage(points, 1, 10);
+    const totals = countTotals(points);
+
+    let answer = `Coverage Summary (${coverageFile}):\n`;
+    for (const type of ['line', 'toggle', 'branch', 'functional'] as const) {
+      const label = type.charAt(0).toUpperCase() + type.slice(1);
+      answer += totals[type].total > 0
+        ? `- ${label} Coverage: ${coverage.summary[type]}% (${totals[type].covered}/${totals[type].total})\n`
+        : `- ${label} Coverage: unknown (no ${type} points were collected)\n`;
+    }
+
+    const uncovered = coverage.uncoveredPoints || [];
+    if (uncovered.length > 0) {
+      answer += '\nUncovered points include:\n';
+      for (const point of uncovered) {
+        answer += `- ${point.file}${point.line ? `:${point.line}` : ''} ${point.description}\n`;
+      }
+    } else {
+      answer += '\nAll coverage points were hit.';
+    }
+
+    const weakest = [...coverage.details]
+      .filter(d => d.line !== undefined)
+      .sort((a, b) => (a.line || 0) - (b.line || 0))[0];
+
     return {
-      answer: "Coverage Summary:\n- Line Coverage: 87%\n- Toggle Coverage: 92%\n- Functional Coverage: 78%\n\nUncovered areas include error handling paths and some edge cases in the state machine.",
+      answer,
       category: 'coverage',
-      confidence: 0.95,
       references: {
-        files: ['controller.v', 'datapath.v'],
+        files: Array.from(new Set(uncovered.map(p => p.file))),
+        lines: uncovered.filter(p => p.line !== undefined).map(p => p.line!),
       },
-      suggestions: [
-        'Add tests for error conditions',
-        'Test all state machine transitions',
-      ],
+      suggestions: weakest && weakest.line !== undefined && weakest.line < 100
+        ? [`Add tests targeting module ${weakest.module} (${weakest.line}% line coverage)`]
+        : undefined,
     };
   }
 
   private async handleGenerationQuery(
     params: NaturalLanguageParams,
     intent: QueryIntent
-  ): Promise<NaturalLanguageResponse> {
-    if (params.query.includes('testbench')) {
-      const moduleName = intent.entities.modules?.[0] || 'top';
-      
+  ): Promise<Answer> {
+    const query = params.query.toLowerCase();
+    if (!query.includes('testbench') && !query.includes('assertion')) {
+      return {
+        answer: "What would you like me to generate?",
+        category: 'generation',
+        suggestions: [
+          'Generate a testbench for the CPU module',
+          'Generate assertions for the FIFO module',
+        ],
+      };
+    }
+
+    const designFile = this.designFile(params);
+    if (!designFile) {
       return {
-        answer: `I'll generate a testbench for module '${moduleName}'. The testbench will include clock generation, reset sequence, directed test cases, and basic assertions.`,
+        answer: 'Design: unknown. Name the design file in the query, e.g. "generate a testbench for fifo.sv", or pass it as context.currentSimulation.design.',
         category: 'generation',
-        confidence: 0.9,
+      };
+    }
+
+    let moduleInfo: ModuleInfo;
+    try {
+      moduleInfo = await this.readModuleInfo(designFile, intent.entities.modules?.[0]);
+    } catch (error) {
+      return {
+        answer: `Could not read the module from ${designFile}: ${error instanceof Error ? error.message : String(error)}`,
+        category: 'generation',
+      };
+    }
+
+    const ports = this.describePorts(moduleInfo.ports.map(port => ({ ...port, width: port.width || undefined })));
+    const warnings = moduleInfo.warnings && moduleInfo.warnings.length > 0
+      ? `\nParts of the module could not be resolved: ${moduleInfo.warnings.join('; ')}`
+      : '';
+    const references = { files: [moduleInfo.file], lines: moduleInfo.line !== undefined ? [moduleInfo.line] : undefined };
+
+    if (query.includes('testbench')) {
+      return {
+        answer: `Module '${moduleInfo.name}' (${moduleInfo.file}${moduleInfo.line ? `:${moduleInfo.line}` : ''}):\n${ports}${warnings}\n\n` +
+          'No testbench has been generated yet; run verilator_testbench_generator with the parameters below to generate one.',
+        category: 'generation',
+        references,
         actions: [{
           type: 'generate',
           target: 'testbench',
           parameters: {
-            targetModule: moduleName,
+            targetFile: designFile,
+            targetModule: moduleInfo.name,
             template: 'basic',
             stimulusType: 'directed',
           },
@@ -355,173 +556,635 @@ export class NaturalLanguageTool extends AbstractTool<NaturalLanguageParams, Nat
       };
     }
 
-    if (params.query.includes('assertion')) {
-      return {
-        answer: "I can generate assertions for protocol compliance, data integrity, and timing constraints. Which type would you like?",
-        category: 'generation',
-        confidence: 0.85,
-        suggestions: [
-          'Generate protocol assertions for AXI interface',
-          'Create data integrity checks',
-          'Add timing constraint assertions',
-        ],
-      };
-    }
-
+    const outputs = moduleInfo.ports.filter(port => port.direction === 'output').map(port => port.name);
     return {
-      answer: "What would you like me to generate?",
+      answer: outputs.length > 0
+        ? `verilator_testbench_generator with generateAssertions adds one assertion per output of '${moduleInfo.name}', checking that it is never X or Z: ${outputs.join(', ')}.${warnings}`
+        : `Module '${moduleInfo.name}' has no outputs, so verilator_testbench_generator has no assertions to add for it.${warnings}`,
       category: 'generation',
-      confidence: 0.5,
-      suggestions: [
-        'Generate a testbench for the CPU module',
-        'Create stimulus for FIFO testing',
-        'Generate coverage points',
-      ],
+      references,
+      actions: outputs.length > 0 ? [{
+        type: 'generate',
+        target: 'testbench',
+        parameters: {
+          targetFile: designFile,
+          targetModule: moduleInfo.name,
+          generateAssertions: true,
+        },
+      }] : undefined,
     };
   }
 
   private async handleExplanationQuery(
     params: NaturalLanguageParams,
     intent: QueryIntent
-  ): Promise<NaturalLanguageResponse> {
-    const module = intent.entities.modules?.[0];
-    const signal = intent.entities.signals?.[0];
+  ): Promise<Answer> {
+    const design = await this.loadDesign();
+    const trace = design ? this.traceSignal(params.query, design) : undefined;
+    const signal = trace?.report.declaration.path ?? this.signalCandidates(params.query)[0];
+    const named = intent.entities.modules?.[0];
 
+    // A name only counts as a module when the query says so or it is not a signal
+    const module = named
+      ?? (!trace ? this.signalCandidates(params.query).find(name => design?.getModule(name)) : undefined);
     if (module) {
-      return {
-        answer: `Module '${module}' is a synchronous design that implements [functionality]. It has [N] inputs and [M] outputs. The main operations include [list key operations]. The module uses a [type] architecture pattern.`,
-        category: 'explanation',
-        confidence: 0.8,
-        references: {
-          files: [`${module.toLowerCase()}.v`],
-        },
-        suggestions: [
-          `Explain the state machine in ${module}`,
-          `Show the interface signals of ${module}`,
-        ],
-      };
+      if (design?.getModule(module)) {
+        return this.describeModule(design, module);
+      }
+      return this.describeModuleInfo(params, module, design);
     }
 
     if (signal) {
+      if (!trace) {
+        return this.unknownSignal(signal, design, 'explanation');
+      }
+      const loads = trace.report.loads.map(access => `  - ${this.describeAccess(access)}`);
       return {
-        answer: `Signal '${signal}' is used for [purpose]. It is driven by [source] and connects to [destinations]. The signal is [width] bits wide and is active [high/low].`,
+        answer: `${this.describeDrivers(trace.report, design!)}\n\n` +
+          (loads.length > 0 ? `It is read by:\n${loads.join('\n')}` : 'Nothing in the design reads it.') +
+          this.otherMatches(trace.matches),
         category: 'explanation',
-        confidence: 0.75,
-        references: {
-          signals: [signal],
-        },
+        references: this.signalReferences(trace.report),
+        suggestions: [`Why is ${signal} high at <time>?`],
       };
     }
 
     return {
       answer: "Please specify what you'd like me to explain.",
       category: 'explanation',
-      confidence: 0.5,
       suggestions: [
-        'Explain how the ALU module works',
+        'Explain how the fifo module works',
         'What does the valid signal do?',
-        'Describe the AXI interface protocol',
       ],
     };
   }
 
+  /**
+   * Cross-reference of the project's design, when verilator_hierarchy has
+   * extracted one.
+   */
+  private async loadDesign(): Promise<SignalXref | undefined> {
+    try {
+      return await SignalXref.load(this.runRegistry.getDesignDir(await projectIdFor()));
+    } catch (error) {
+      logger.warn(`Cannot read the elaborated design: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Names in the query that may be signals: quoted names first, then the
+   * other identifiers and hierarchical paths.
+   */
+  private signalCandidates(query: string): string[] {
+    const quoted = Array.from(query.matchAll(/['"`]([A-Za-z_][\w$.[\]]*)['"`]/g), match => match[1]);
+    const words = (query.match(/\b[A-Za-z_][\w$]*(?:\[\d+\])*(?:\.[A-Za-z_][\w$]*(?:\[\d+\])*)*/g) || [])
+      .filter(word => !QUERY_WORDS.has(word.toLowerCase()));
+    return Array.from(new Set([...quoted, ...words]));
+  }
+
+  /**
+   * The first name in the query that the design declares. A name declared
+   * in several instances resolves to the shallowest one.
+   */
+  private traceSignal(query: string, design: SignalXref): { report: SignalReport; matches: string[] } | undefined {
+    for (const name of this.signalCandidates(query)) {
+      const matches = design.find(name);
+      const report = matches.length > 0 ? design.describe(matches[0]) : undefined;
+      if (report) {
+        return { report, matches };
+      }
+    }
+    return undefined;
+  }
+
+  private describeDrivers(report: SignalReport, design: SignalXref): string {
+    const { declaration } = report;
+    const width = declaration.width !== undefined ? `${declaration.width}-bit ` : '';
+    const kind = `${width}${declaration.kind}`;
+    const where = declaration.file ? `, declared at ${declaration.file}${declaration.line ? `:${declaration.line}` : ''}` : '';
+    let text = `'${declaration.path}' is ${/^(8|11|18|[aeiou])/.test(kind) ? 'an' : 'a'} ${kind} of module ${declaration.module} (instance ${declaration.instance})${where}.`;
+
+    if (report.drivers.length === 0) {
+      text += declaration.instance === design.getHierarchy().top && declaration.kind === 'input'
+        ? '\nIt is a primary input of the design.'
+        : '\nNothing in the design drives it.';
+    } else {
+      text += `\nIt is driven by:\n${report.drivers.map(access => `  - ${this.describeAccess(access)}`).join('\n')}`;
+    }
+
+    const fanIn = design.cone(declaration.path, 'fanin', 2);
+    if (fanIn.signals.length > 0) {
+      const listed = fanIn.signals.slice(0, MAX_LISTED_SIGNALS).map(entry => entry.signal);
+      const more = fanIn.signals.length - listed.length;
+      text += `\nIts fan-in within 2 levels: ${listed.join(', ')}${more > 0 ? ` and ${more} more` : ''}.`;
+    }
+    return text;
+  }
+
+  private describeRootCause(analysis: RootCauseAnalysis): string {
+    // Times are in the waveform timescale unless the query gave a unit
+    const unit = /^1?[a-z]+$/.test(analysis.timeUnit)
+      ? analysis.timeUnit.replace(/^1/, '')
+      : ` x ${analysis.timeUnit}`;
+    const value = (v: string | number, isX?: boolean) => isX ? 'X' : String(v);
+    let text = `'${analysis.signal}' is ${value(analysis.value, analysis.isX)} at ${analysis.time}${unit}.\n\nCausal chain:\n`;
+    analysis.chain.forEach((step, index) => {
+      const driver = step.drivers[0] ? `: ${this.describeAccess(step.drivers[0])}` : '';
+      text += `  ${index + 1}. ${step.signal} = ${value(step.value, step.isX)} since ${step.since}${unit}${driver}\n`;
+    });
+    text += `\nRoot cause: ${analysis.conclusion.message}.`;
+
+    const onChain = new Set(analysis.chain.map(step => step.signal));
+    const otherX = analysis.earliestX.filter(entry => !onChain.has(entry.signal));
+    if (otherX.length > 0) {
+      const earliest = otherX.slice(0, 3).map(entry => `${entry.signal} (X since ${entry.since}${unit})`);
+      text += `\nOther X signals in the fan-in: ${earliest.join(', ')}.`;
+    }
+    if (analysis.notDumped.length > 0) {
+      text += `\n${analysis.notDumped.length} signals of the fan-in are not in the waveform, so the chain may stop short.`;
+    }
+    if (analysis.coneTruncated) {
+      text += '\nThe fan-in is too large to read in full, so the other X signals listed are those nearest the chain.';
+    }
+    return text;
+  }
+
+  private describeAccess(access: SignalAccess): string {
+    const at = access.file ? ` (${access.file}${access.line ? `:${access.line}` : ''})` : '';
+    if (access.kind === 'instance') {
+      return `port ${access.port} of ${access.instance}${at}: ${access.statements[0]}`;
+    }
+    if (access.kind === 'port') {
+      return `connection ${access.statements[0]} in ${access.instance}${at}`;
+    }
+    const clocks = access.clocks && access.clocks.length > 0 ? `, clocked by ${access.clocks.join(', ')}` : '';
+    return `${access.kind} in ${access.instance}${at}${clocks}: ${access.statements.join('; ')}`;
+  }
+
+  private signalReferences(report: SignalReport, time?: number): NaturalLanguageResponse['references'] {
+    const located = [report.declaration, ...report.drivers].filter(item => item.file);
+    return {
+      signals: [report.declaration.path],
+      times: time !== undefined ? [time] : undefined,
+      files: Array.from(new Set(located.map(item => item.file!))),
+      lines: located.filter(item => item.line !== undefined).map(item => item.line!),
+    };
+  }
+
+  private otherMatches(matches: string[]): string {
+    if (matches.length <= 1) {
+      return '';
+    }
+    return `\n\nThe name also matches ${matches.slice(1, MAX_LISTED_SIGNALS + 1).join(', ')}; ask about one of those by its path.`;
+  }
+
+  private unknownSignal(signal: string, design: SignalXref | undefined, category: string): Answer {
+    if (!design) {
+      return {
+        answer: `No elaborated design is available to trace '${signal}'. Run verilator_hierarchy on the design, then ask again.`,
+        category,
+        actions: [{
+          type: 'analyze',
+          target: 'hierarchy',
+        }],
+      };
+    }
+    return {
+      answer: `No signal named '${signal}' is declared in the elaborated design under ${design.getHierarchy().top}.`,
+      category,
+      suggestions: ['Give the hierarchical path of the signal, e.g. top.u_core.valid'],
+    };
+  }
+
+  /**
+   * Artifacts to answer from: those of the context when the client passes
+   * one, otherwise those of the project's newest simulation run.
+   */
+  private async findArtifacts(params: NaturalLanguageParams): Promise<QueryArtifacts> {
+    const current = params.context?.currentSimulation;
+    if (current) {
+      return {
+        design: current.design,
+        waveformFile: current.waveformFile,
+        coverageFile: current.coverageFile,
+        assertions: current.assertionResults,
+      };
+    }
+
+    let run: SimulationRunRecord | undefined;
+    try {
+      [run] = await this.runRegistry.list(await projectIdFor());
+    } catch (error) {
+      logger.warn(`Cannot read the simulation runs: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return {
+      run,
+      waveformFile: run?.artifacts.waveformFile,
+      coverageFile: run?.artifacts.coverageFile,
+      logFile: run?.artifacts.logFile,
+      assertions: run?.assertions,
+    };
+  }
+
+  private async loadLastBuild(): Promise<BuildRecord | undefined> {
+    try {
+      return await this.runRegistry.getLastBuild(await projectIdFor());
+    } catch (error) {
+      logger.warn(`Cannot read the build record: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Failed assertions and logged errors of the run, the ones closest to
+   * `time` first.
+   */
+  private async describeFailures(artifacts: QueryArtifacts, time?: number): Promise<Answer> {
+    const { run, assertions = [] } = artifacts;
+    if (!run && assertions.length === 0) {
+      return {
+        answer: 'Unknown: no simulation run is recorded for this project and the context has no assertion results. Run verilator_simulate, then ask again.',
+        category: 'debug',
+        actions: [{
+          type: 'generate',
+          target: 'simulation',
+        }],
+      };
+    }
+
+    let logged: ParsedError[] = [];
+    if (artifacts.logFile) {
+      try {
+        logged = ErrorHandler.parseVerilatorOutput(await fs.readFile(artifacts.logFile, 'utf-8')).filter(d => d.type === 'error');
+      } catch (error) {
+        logger.warn(`Cannot read ${artifacts.logFile}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const distance = (at?: number) => at === undefined ? Infinity : time === undefined ? at : Math.abs(at - time);
+    const failed = assertions
+      .filter(assertion => !assertion.passed)
+      .sort((a, b) => (distance(a.time) - distance(b.time)) || 0);
+
+    const lines: string[] = [];
+    if (run) {
+      lines.push(`Newest run: ${run.name} (${run.id}) ${run.passed ? 'passed' : 'failed'}${run.status ? ` (${run.status})` : ''}.`);
+    }
+    if (failed.length > 0) {
+      lines.push(`Failed assertions (${failed.length} of ${assertions.length}):`);
+      lines.push(...failed.slice(0, MAX_LISTED_ITEMS).map(assertion => `  - ${this.describeAssertion(assertion)}`));
+    } else {
+      lines.push(assertions.length > 0 ? `All ${assertions.length} assertions passed.` : 'No assertion results were recorded.');
+    }
+
+    if (logged.length > 0) {
+      lines.push(`Errors in ${artifacts.logFile}:`);
+      lines.push(...logged.slice(0, MAX_LISTED_ITEMS).map(diagnostic => `  - ${this.describeDiagnostic(diagnostic)}`));
+    } else if (run && run.errors.length > 0) {
+      lines.push('Errors:', ...run.errors.slice(0, MAX_LISTED_ITEMS).map(error => `  - ${error}`));
+    } else if (run && !artifacts.logFile) {
+      lines.push('Errors: unknown, since the run recorded no simulation log.');
+    } else if (run) {
+      lines.push('The simulation log has no errors.');
+    }
+
+    const located = [...failed, ...logged].filter(item => item.file);
+    return {
+      answer: lines.join('\n'),
+      category: 'debug',
+      references: {
+        times: failed.filter(assertion => assertion.time !== undefined).map(assertion => assertion.time!),
+        files: Array.from(new Set(located.map(item => item.file!))),
+        lines: located.filter(item => item.line !== undefined).map(item => item.line!),
+      },
+    };
+  }
+
+  private describeAssertion(assertion: AssertionResult): string {
+    const at = assertion.time !== undefined ? `, first at ${assertion.time}` : '';
+    const message = assertion.message ? `: ${assertion.message}` : '';
+    return `${assertion.name} (${assertion.file}:${assertion.line}) failed ${assertion.failures} time${assertion.failures === 1 ? '' : 's'}${at}${message}`;
+  }
+
+  private describeDiagnostic(diagnostic: ParsedError): string {
+    const code = diagnostic.code ? `-${diagnostic.code}` : '';
+    const where = diagnostic.file ? `${diagnostic.file}${diagnostic.line ? `:${diagnostic.line}` : ''}: ` : '';
+    return `%${diagnostic.type === 'error' ? 'Error' : 'Warning'}${code} ${where}${diagnostic.message}`;
+  }
+
+  private describeBuild(build: BuildRecord | undefined, references: { files: string[]; lines: number[] }): string {
+    if (!build) {
+      return 'Compile diagnostics: unknown. verilator_compile has not run in this project yet.';
+    }
+
+    const diagnostics = [...build.errors, ...build.warnings];
+    let text = `Newest build (${build.outputDir}${build.cached ? ', restored from the compile cache' : ''}, ${new Date(build.createdAt).toISOString()}) ` +
+      `${build.success ? 'succeeded' : 'failed'} with ${build.errors.length} errors and ${build.warnings.length} warnings.`;
+    if (diagnostics.length > 0) {
+      text += `\n${diagnostics.slice(0, MAX_LISTED_ITEMS).map(diagnostic => `  - ${this.describeDiagnostic(diagnostic)}`).join('\n')}`;
+      if (diagnostics.length > MAX_LISTED_ITEMS) {
+        text += `\n  ... and ${diagnostics.length - MAX_LISTED_ITEMS} more`;
+      }
+    }
+
+    for (const diagnostic of diagnostics.slice(0, MAX_LISTED_ITEMS)) {
+      if (diagnostic.file) {
+        references.files.push(diagnostic.file);
+        if (diagnostic.line !== undefined) references.lines.push(diagnostic.line);
+      }
+    }
+    return text;
+  }
+
+  private describeRun(run: SimulationRunRecord | undefined): string {
+    if (!run) {
+      return 'Simulation results: unknown. No simulation run is recorded for this project.';
+    }
+
+    const failed = run.assertions.filter(assertion => !assertion.passed).length;
+    const artifacts = [
+      `log ${run.artifacts.logFile ?? 'unknown'}`,
+      `waveform ${run.artifacts.waveformFile ?? 'none'}`,
+      `coverage ${run.artifacts.coverageFile ?? 'none'}`,
+    ];
+    let text = `Newest run: ${run.name} (${run.id}), ${new Date(run.createdAt).toISOString()}: ${run.passed ? 'passed' : 'failed'}${run.status ? ` (${run.status})` : ''}.`;
+    if (run.simulationTime !== undefined) {
+      text += `\nRequested simulation time: ${run.simulationTime}.`;
+    }
+    text += run.assertions.length > 0
+      ? `\nAssertions: ${run.assertions.length - failed} of ${run.assertions.length} passed.`
+      : '\nAssertions: none recorded.';
+    if (run.errors.length > 0) {
+      text += `\nErrors:\n${run.errors.slice(0, MAX_LISTED_ITEMS).map(error => `  - ${error}`).join('\n')}`;
+    }
+    text += `\nArtifacts: ${artifacts.join(', ')}.`;
+    return text;
+  }
+
+  private describeDesignSize(design: SignalXref, references: { files: string[] }): string {
+    const hierarchy = design.getHierarchy();
+    const counts = Array.from(instancesByModule(hierarchy.root))
+      .sort((a, b) => b[1].length - a[1].length)
+      .slice(0, MAX_LISTED_ITEMS)
+      .map(([module, paths]) => `  - ${module}: ${paths.length}`);
+    references.files.push(...hierarchy.source.files);
+
+    return `The elaborated design under ${hierarchy.top} has ${hierarchy.moduleCount} modules and ${hierarchy.instanceCount} instances, ` +
+      `nested ${hierarchy.maxDepth} level${hierarchy.maxDepth === 1 ? '' : 's'} deep (extracted ${new Date(hierarchy.generatedAt).toISOString()}).\n` +
+      `Instances per module:\n${counts.join('\n')}\n` +
+      'Gate, flip-flop and LUT counts: unknown. Verilator does not synthesize the design.';
+  }
+
+  /**
+   * Registers named like state registers. Verilator's AST has no FSM
+   * extraction, so states and transitions stay unknown.
+   */
+  private describeStateRegisters(design: SignalXref, references: { signals: string[]; files: string[]; lines: number[] }): string {
+    const registers: string[] = [];
+    const visit = (node: InstanceNode) => {
+      for (const path of design.signalsOf(node.path)) {
+        if (registers.length >= MAX_LISTED_ITEMS || !/state|fsm/i.test(path.slice(node.path.length + 1))) {
+          continue;
+        }
+        const report = design.describe(path);
+        const clocked = report?.drivers.find(access => access.clocks && access.clocks.length > 0);
+        if (report && clocked) {
+          const width = report.declaration.width !== undefined ? `${report.declaration.width}-bit, ` : '';
+          registers.push(`  - ${path} (${width}${this.describeAccess(clocked)})`);
+          references.signals.push(path);
+          if (clocked.file) {
+            references.files.push(clocked.file);
+            if (clocked.line !== undefined) references.lines.push(clocked.line);
+          }
+        }
+      }
+      node.children.forEach(visit);
+    };
+    visit(design.getHierarchy().root);
+
+    if (registers.length === 0) {
+      return 'State machines: unknown. No clocked register in the design is named like a state register, and states are not extracted otherwise.';
+    }
+    return `State machines: their states and transitions are unknown, since they are not extracted from the design. ` +
+      `Clocked registers named like state registers:\n${registers.join('\n')}`;
+  }
+
+  private describeModule(design: SignalXref, name: string): Answer {
+    const module = design.getModule(name)!;
+    const instances: string[] = [];
+    const visit = (node: InstanceNode) => {
+      if (node.module === module.name || node.definition === module.definition) {
+        instances.push(node.path);
+      }
+      node.children.forEach(visit);
+    };
+    visit(design.getHierarchy().root);
+
+    const at = module.file ? ` (${module.file}${module.line ? `:${module.line}` : ''})` : '';
+    let answer = `Module '${module.definition}'${at} has ${instances.length} instance${instances.length === 1 ? '' : 's'} under ${design.getHierarchy().top}`;
+    answer += instances.length > 0
+      ? `: ${instances.slice(0, MAX_LISTED_SIGNALS).join(', ')}${instances.length > MAX_LISTED_SIGNALS ? ', ...' : ''}.\n`
+      : '.\n';
+    answer += `${this.describePorts(module.ports)}\n`;
+
+    const parameters = module.parameters.filter(parameter => !parameter.local);
+    if (parameters.length > 0) {
+      answer += `Parameters of ${module.name}: ${parameters.map(p => `${p.name} = ${p.value ?? 'unknown'}`).join(', ')}\n`;
+    }
+    if (module.cells.length > 0) {
+      answer += `Submodules: ${module.cells.map(cell => `${cell.name} (${cell.module})`).join(', ')}\n`;
+    }
+
+    if (instances.length === 0) {
+      answer += 'Its logic is unknown, since no instance of it is in the extracted design.';
+    } else {
+      // Logic of one instance; the others run the same statements
+      const blocks = new Map<string, SignalAccess>();
+      for (const path of design.signalsOf(instances[0])) {
+        for (const access of design.describe(path)?.drivers || []) {
+          if (access.instance === instances[0] && access.kind !== 'instance' && access.kind !== 'port') {
+            blocks.set(`${access.kind}:${access.file}:${access.line}`, access);
+          }
+        }
+      }
+      const kinds = new Map<string, number>();
+      const clocks = new Set<string>();
+      for (const access of blocks.values()) {
+        kinds.set(access.kind, (kinds.get(access.kind) || 0) + 1);
+        access.clocks?.forEach(clock => clocks.add(clock));
+      }
+      answer += blocks.size > 0
+        ? `Logic in ${instances[0]}: ${Array.from(kinds, ([kind, count]) => `${count} ${kind}`).join(', ')}` +
+          (clocks.size > 0 ? `, clocked by ${Array.from(clocks).join(', ')}.` : ', with no clocked logic.')
+        : `No logic in ${instances[0]} drives a signal; it only connects its submodules.`;
+    }
+
+    return {
+      answer,
+      category: 'explanation',
+      references: {
+        files: module.file ? [module.file] : undefined,
+        lines: module.line !== undefined ? [module.line] : undefined,
+      },
+      suggestions: module.ports.length > 0 ? [`What drives ${instances[0] ?? module.definition}.${module.ports[0].name}?`] : undefined,
+    };
+  }
+
+  /**
+   * Module explanation from the context's design file, for modules outside
+   * the extracted design.
+   */
+  private async describeModuleInfo(
+    params: NaturalLanguageParams,
+    name: string,
+    design: SignalXref | undefined
+  ): Promise<Answer> {
+    const designFile = this.designFile(params);
+    let moduleInfo: ModuleInfo | undefined;
+    let reason = design
+      ? `No module '${name}' is in the design extracted under ${design.getHierarchy().top}`
+      : 'No elaborated design is available';
+    if (designFile) {
+      try {
+        moduleInfo = await this.readModuleInfo(designFile, name);
+      } catch (error) {
+        reason += `, and ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+
+    if (!moduleInfo) {
+      return {
+        answer: `Module '${name}': unknown. ${reason}.`,
+        category: 'explanation',
+        actions: design ? undefined : [{
+          type: 'analyze',
+          target: 'hierarchy',
+        }],
+      };
+    }
+
+    const parameters = moduleInfo.parameters.filter(parameter => !parameter.local);
+    let answer = `Module '${moduleInfo.name}' (${moduleInfo.file}${moduleInfo.line ? `:${moduleInfo.line}` : ''}):\n`;
+    answer += `${this.describePorts(moduleInfo.ports.map(port => ({ ...port, width: port.width || undefined })))}\n`;
+    if (parameters.length > 0) {
+      answer += `Parameters: ${parameters.map(p => `${p.name} = ${p.value ?? p.defaultValue ?? 'unknown'}`).join(', ')}\n`;
+    }
+    answer += 'Its logic is unknown from the module header alone. Run verilator_hierarchy to extract the elaborated design.';
+
+    return {
+      answer,
+      category: 'explanation',
+      references: {
+        files: [moduleInfo.file],
+        lines: moduleInfo.line !== undefined ? [moduleInfo.line] : undefined,
+      },
+      actions: [{
+        type: 'analyze',
+        target: 'hierarchy',
+      }],
+    };
+  }
+
+  private describePorts(ports: { name: string; direction: string; width?: number }[]): string {
+    if (ports.length === 0) {
+      return 'It has no ports.';
+    }
+    return ['input', 'output', 'inout', 'ref']
+      .map(direction => ports.filter(port => port.direction === direction))
+      .filter(group => group.length > 0)
+      .map(group => {
+        const names = group.map(port => `${port.name} [${port.width ?? '?'}]`);
+        return `${group.length} ${group[0].direction}${group.length === 1 ? '' : 's'}: ${names.join(', ')}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Design file from the context, or one named in the query.
+   */
+  private designFile(params: NaturalLanguageParams): string | undefined {
+    const named = params.query.match(/[\w./-]+\.(?:sv|v|svh|vh)\b/);
+    return params.context?.currentSimulation?.design ?? (named ? resolve(named[0]) : undefined);
+  }
+
+  /**
+   * ModuleInfo of module `name` in `file`, or of the file's only top module
+   * when no name is given.
+   */
+  private async readModuleInfo(file: string, name?: string): Promise<ModuleInfo> {
+    const parsed = await parseSystemVerilogFile(file);
+    const module = name
+      ? parsed.modules.find(m => m.name === name) ?? parsed.modules.find(m => m.name.toLowerCase() === name.toLowerCase())
+      : undefined;
+    if (module) {
+      return elaborateModule(parsed, module.name);
+    }
+
+    const tops = findTopModules(parsed);
+    if (name || tops.length !== 1) {
+      const found = tops.map(top => top.name).join(', ') || 'none';
+      throw new Error(name ? `${file} has no module ${name} (top modules: ${found})` : `${file} has several top modules (${found}); name one`);
+    }
+    return elaborateModule(parsed, tops[0].name);
+  }
+
   private async handleSimulationQuery(
     params: NaturalLanguageParams,
     intent: QueryIntent
-  ): Promise<NaturalLanguageResponse> {
-    if (params.query.includes('run') || params.query.includes('simulate')) {
+  ): Promise<Answer> {
+    const query = params.query.toLowerCase();
+    const artifacts = await this.findArtifacts(params);
+    const designFile = this.designFile(params);
+
+    if (query.includes('compile') || query.includes('build')) {
+      const references = { files: [] as string[], lines: [] as number[] };
       return {
-        answer: "I'll run the simulation with default settings. This will compile the design, generate a testbench if needed, and execute the simulation with waveform capture.",
+        answer: `${this.describeBuild(await this.loadLastBuild(), references)}\n\nNothing was compiled for this query; verilator_compile builds the design.`,
         category: 'simulation',
-        confidence: 0.9,
+        references: references.files.length > 0 ? { files: Array.from(new Set(references.files)), lines: references.lines } : undefined,
         actions: [{
           type: 'generate',
-          target: 'simulation',
-          parameters: {
-            autoGenerateTestbench: true,
-            enableWaveform: true,
-            enableAssertions: true,
-          },
+          target: 'compilation',
+          parameters: designFile ? { files: [designFile] } : undefined,
         }],
       };
     }
 
-    if (params.query.includes('compile') || params.query.includes('build')) {
+    if (/\b(fail\w*|errors?|fatal)\b/.test(query)) {
+      return this.describeFailures(artifacts);
+    }
+
+    const summary = artifacts.run
+      ? this.describeRun(artifacts.run)
+      : params.context?.currentSimulation
+        ? `Simulation results: unknown beyond the context (design ${artifacts.design}, waveform ${artifacts.waveformFile ?? 'none'}, coverage ${artifacts.coverageFile ?? 'none'}).`
+        : this.describeRun(undefined);
+
+    if (query.includes('run') || query.includes('simulate') || query.includes('execute')) {
       return {
-        answer: "I'll compile the design with optimization level 2 and prepare it for simulation.",
+        answer: `${summary}\n\nNo simulation was started for this query; verilator_simulate runs one${designFile ? ` for ${designFile}` : ''}.`,
         category: 'simulation',
-        confidence: 0.9,
         actions: [{
           type: 'generate',
-          target: 'compilation',
+          target: 'simulation',
           parameters: {
-            optimization: 2,
-            language: 'systemverilog',
+            design: designFile,
+            autoGenerateTestbench: true,
+            enableWaveform: true,
+            enableAssertions: true,
           },
         }],
       };
     }
 
     return {
-      answer: "What simulation task would you like me to perform?",
+      answer: summary,
       category: 'simulation',
-      confidence: 0.5,
       suggestions: [
         'Run simulation with coverage',
-        'Compile the design for debugging',
-        'Execute regression tests',
+        'Show the diagnostics of the last build',
       ],
     };
   }
-
-  getInputSchema(): any {
-    return {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Natural language query about simulation',
-        },
-        context: {
-          type: 'object',
-          properties: {
-            currentSimulation: {
-              type: 'object',
-              properties: {
-                design: { type: 'string' },
-                testbench: { type: 'string' },
-                waveformFile: { type: 'string' },
-                coverageFile: { type: 'string' },
-                assertionResults: { type: 'array' },
-              },
-            },
-            debugState: {
-              type: 'object',
-              properties: {
-                breakpoints: { type: 'array', items: { type: 'string' } },
-                watchedSignals: { type: 'array', items: { type: 'string' } },
-                currentTime: { type: 'number' },
-              },
-            },
-          },
-        },
-        history: {
-          type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              query: { type: 'string' },
-              response: { type: 'string' },
-              timestamp: { type: 'number' },
-              category: {
-                type: 'string',
-                enum: ['debug', 'analysis', 'coverage', 'generation', 'explanation'],
-              },
-            },
-          },
-        },
-      },
-      required: ['query'],
-    };
-  }
-}
\ No newline at end of file
+}
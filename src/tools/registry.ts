@@ -0,0 +1,218 @@
+import { promises as fs } from 'fs';
+import { delimiter, join, resolve } from 'path';
+import { homedir } from 'os';
+import { AbstractTool } from './base.js';
+import { CompileTool } from './compile.js';
+import { SimulateTool } from './simulate.js';
+import { TestbenchGeneratorTool } from './testbench-generator.js';
+import { NaturalLanguageTool } from './natural-language.js';
+import { WaveformTool } from './waveform.js';
+import { CoverageTool } from './coverage.js';
+import { RegressionTool } from './regression.js';
+import { LintTool } from './lint.js';
+import { WaiverTool } from './waiver.js';
+import { CacheTool } from './cache.js';
+import { JobTool } from './job.js';
+import { HierarchyTool } from './hierarchy.js';
+import { SignalXrefTool } from './signal-xref.js';
+import { RootCauseTool } from './root-cause.js';
+import { ConfigManager } from '../utils/config.js';
+import { CacheManager } from '../utils/cache.js';
+import { logger } from '../utils/logger.js';
+import { ToolMetadata } from '../types/index.js';
+
+export const DEFAULT_PLUGIN_DIR = join(homedir(), '.verilator-mcp', 'plugins');
+
+// MCP clients reject tool names outside this set
+const TOOL_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// Plugin tools are checked by shape, since a plugin may have been built
+// against its own copy of AbstractTool
+const TOOL_METHODS = ['execute', 'getMetadata', 'getDescription', 'getInputSchema', 'getName'];
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>) : {};
+}
+
+function missingToolMethods(value: unknown): string[] {
+  const record = asRecord(value);
+  return TOOL_METHODS.filter(method => typeof record[method] !== 'function');
+}
+
+function isTool(value: unknown): value is AbstractTool {
+  return missingToolMethods(value).length === 0;
+}
+
+function isToolPlugin(value: unknown): value is ToolPlugin {
+  return typeof asRecord(value).createTools === 'function';
+}
+
+/**
+ * Passed to a plugin's `createTools`. Plugins extend `AbstractTool` from here
+ * rather than importing their own copy, so they share the server's managers.
+ */
+export interface PluginContext {
+  AbstractTool: typeof AbstractTool;
+  configManager: ConfigManager;
+  cacheManager: CacheManager;
+  logger: typeof logger;
+}
+
+export interface ToolPlugin {
+  createTools(context: PluginContext): AbstractTool | AbstractTool[] | Promise<AbstractTool | AbstractTool[]>;
+}
+
+export interface PluginLoadResult {
+  path: string;
+  tools: string[];
+  error?: string;
+}
+
+/**
+ * Plugin directories from VERILATOR_MCP_PLUGINS (separated like PATH), or the
+ * default ~/.verilator-mcp/plugins.
+ */
+export function pluginDirectories(env: NodeJS.ProcessEnv = process.env): string[] {
+  const configured = env.VERILATOR_MCP_PLUGINS;
+  if (!configured) {
+    return [DEFAULT_PLUGIN_DIR];
+  }
+  return configured.split(delimiter).filter(Boolean).map(dir => resolve(dir));
+}
+
+/**
+ * The tools that ship with the server. Background job workers register the
+ * same set, so a job runs exactly the tool the client called.
+ */
+export function createBuiltinTools(configManager: ConfigManager, cacheManager: CacheManager): AbstractTool[] {
+  return [
+    new CompileTool(configManager, cacheManager),
+    new SimulateTool(configManager, cacheManager),
+    new TestbenchGeneratorTool(configManager, cacheManager),
+    new NaturalLanguageTool(configManager, cacheManager),
+    new WaveformTool(configManager, cacheManager),
+    new CoverageTool(configManager, cacheManager),
+    new RegressionTool(configManager, cacheManager),
+    new LintTool(configManager, cacheManager),
+    new WaiverTool(configManager, cacheManager),
+    new CacheTool(configManager, cacheManager),
+    new JobTool(configManager, cacheManager),
+    new HierarchyTool(configManager, cacheManager),
+    new SignalXrefTool(configManager, cacheManager),
+    new RootCauseTool(configManager, cacheManager),
+  ];
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, AbstractTool>();
+  private aliases = new Map<string, string>();
+  private origins = new Map<string, string>();
+
+  /**
+   * Register a tool under the name it declares. Names and aliases must be
+   * unique, so a plugin cannot silently replace a built-in tool.
+   */
+  register(tool: AbstractTool, origin: string = 'built-in'): void {
+    const metadata = tool.getMetadata();
+    const names = [metadata.name, ...(metadata.aliases || [])];
+
+    for (const name of names) {
+      if (!TOOL_NAME.test(name)) {
+        throw new Error(`Invalid tool name '${name}' from ${origin}`);
+      }
+      const existing = this.resolveName(name);
+      if (existing) {
+        throw new Error(`Tool name '${name}' from ${origin} is already registered by ${this.origins.get(existing)}`);
+      }
+    }
+
+    this.tools.set(metadata.name, tool);
+    this.origins.set(metadata.name, origin);
+    for (const alias of metadata.aliases || []) {
+      this.aliases.set(alias, metadata.name);
+    }
+    logger.debug(`Registered ${metadata.name} ${metadata.version} (${metadata.category}) from ${origin}`);
+  }
+
+  /**
+   * Look up a tool by name or alias.
+   */
+  get(name: string): AbstractTool | undefined {
+    const resolved = this.resolveName(name);
+    return resolved ? this.tools.get(resolved) : undefined;
+  }
+
+  list(): AbstractTool[] {
+    return Array.from(this.tools.values());
+  }
+
+  metadata(): (ToolMetadata & { origin: string })[] {
+    return this.list().map(tool => ({ ...tool.getMetadata(), origin: this.origins.get(tool.getName())! }));
+  }
+
+  private resolveName(name: string): string | undefined {
+    if (this.tools.has(name)) {
+      return name;
+    }
+    return this.aliases.get(name);
+  }
+
+  /**
+   * Load every plugin module (`.js`/`.cjs` files and package directories) in
+   * `dirs`. A broken plugin is reported and skipped rather than stopping the
+   * server; missing directories are ignored.
+   */
+  async loadPlugins(dirs: string[], context: PluginContext): Promise<PluginLoadResult[]> {
+    const results: PluginLoadResult[] = [];
+
+    for (const dir of dirs) {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        continue;
+      }
+
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const isModule = entry.isFile() && /\.c?js$/.test(entry.name);
+        if ((!isModule && !entry.isDirectory()) || entry.name.startsWith('.')) {
+          continue;
+        }
+
+        const path = join(dir, entry.name);
+        const result: PluginLoadResult = { path, tools: [] };
+        try {
+          for (const tool of await this.createPluginTools(path, context)) {
+            this.register(tool, path);
+            result.tools.push(tool.getName());
+          }
+          logger.info(`Loaded plugin ${path}: ${result.tools.join(', ') || 'no tools'}`);
+        } catch (error) {
+          result.error = error instanceof Error ? error.message : String(error);
+          logger.error(`Failed to load plugin ${path}: ${result.error}`);
+        }
+        results.push(result);
+      }
+    }
+
+    return results;
+  }
+
+  private async createPluginTools(path: string, context: PluginContext): Promise<AbstractTool[]> {
+    const module: unknown = await import(path);
+    const plugin = isToolPlugin(module) ? module : asRecord(module).default;
+    if (!isToolPlugin(plugin)) {
+      throw new Error('Plugin does not export createTools(context)');
+    }
+
+    const created: unknown = await plugin.createTools(context);
+    const tools: AbstractTool[] = [];
+    for (const tool of Array.isArray(created) ? created : [created]) {
+      if (!isTool(tool)) {
+        throw new Error(`createTools returned an object that is not a tool (missing ${missingToolMethods(tool).join(', ')})`);
+      }
+      tools.push(tool);
+    }
+    return tools;
+  }
+}
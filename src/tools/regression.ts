@@ -0,0 +1,433 @@
+import { z } from 'zod';
+import { AbstractTool } from './base.js';
+import {
+  ToolResult,
+  AssertionResult,
+  RegressionBuild,
+  RegressionResult,
+  RegressionRun,
+  ToolMetadata,
+} from '../types/index.js';
+import { CompileTool } from './compile.js';
+import { promises as fs } from 'fs';
+import { cpus } from 'os';
+import { join, resolve, basename } from 'path';
+import { logger } from '../utils/logger.js';
+import { ErrorHandler } from '../utils/error-handler.js';
+import { writeRegressionReports } from '../utils/report-export.js';
+import { ProjectConfig, getTarget, withDefaults } from '../utils/project-config.js';
+import { RunRegistry, simulationUri } from '../utils/run-registry.js';
+import { findTopModules, parseSystemVerilogFile } from '../utils/sv-parser.js';
+
+const TestSchema = z.object({
+  name: z.string().describe('Test name'),
+  testbench: z.string().describe('Testbench file'),
+  topModule: z.string().optional().describe('Testbench top module (detected from the testbench if omitted)'),
+  plusargs: z.record(z.union([z.string(), z.number()])).optional().describe('Plusargs for this test'),
+  defines: z.record(z.union([z.string(), z.number()])).optional().describe('Macro definitions for this test'),
+  seeds: z.number().min(1).default(1).describe('Number of seeds to run'),
+  timeout: z.number().optional().describe('Per-run timeout in milliseconds'),
+});
+
+const RegressionSchema = z.object({
+  target: z.string().optional().describe('Named build target from verilator-mcp.json; explicit parameters override it'),
+  testList: z.string().optional().describe('Named test list from verilator-mcp.json'),
+  design: z.array(z.string()).default([]).describe('Design files shared by every test (design or filelists required)'),
+  filelists: z.array(z.string()).optional().describe('Design filelists (.f), as with verilator -f'),
+  tests: z.array(TestSchema).default([]).describe('Test list (tests or testList required)'),
+  outputDir: z.string().default('regression').describe('Output directory for builds and per-test artifacts'),
+  workers: z.number().min(1).optional().describe('Parallel simulations (default: CPU count)'),
+  baseSeed: z.number().default(1).describe('First seed; seed n of a test runs with baseSeed + n'),
+  timeout: z.number().default(60000).describe('Default per-run timeout in milliseconds'),
+  enableWaveform: z.boolean().default(false).describe('Generate a waveform per run'),
+  waveformFormat: z.enum(['vcd', 'fst']).default('vcd').describe('Waveform format'),
+  enableCoverage: z.boolean().default(false).describe('Collect coverage per run'),
+  optimizationLevel: z.number().min(0).max(3).default(2).describe('Optimization level'),
+  defines: z.record(z.union([z.string(), z.number()])).optional().describe('Macro definitions for every build'),
+  includes: z.array(z.string()).optional().describe('Include directories'),
+  verilatorFlags: z.array(z.string()).optional().describe('Additional Verilator flags'),
+  waivers: z.array(z.string()).optional().describe('Verilator .vlt waiver files'),
+  reportFormats: z.array(z.enum(['junit', 'json'])).default(['junit', 'json']).describe('Structured reports to write to the output directory'),
+  background: z.boolean().default(false).describe('Run as a background job and return its id at once; follow it with verilator_job'),
+}).refine(params => params.design.length > 0 || (params.filelists?.length ?? 0) > 0, {
+  message: 'Provide design files or filelists',
+}).refine(params => params.tests.length > 0, {
+  message: 'Provide tests or a testList',
+});
+
+type RegressionParams = z.infer<typeof RegressionSchema>;
+type RegressionTest = z.infer<typeof TestSchema>;
+
+// Test names become directory names, as in RunRegistry run ids
+function testDirName(name: string): string {
+  return name.replace(/[^\w-]/g, '_');
+}
+
+interface RegressionJob {
+  test: RegressionTest;
+  seed: number;
+  build: RegressionBuild;
+  executable?: string;
+}
+
+export class RegressionTool extends AbstractTool<RegressionParams, RegressionResult> {
+  private compiler: CompileTool;
+  private runs: RunRegistry;
+
+  constructor(configManager: any, cacheManager: any, runs: RunRegistry = new RunRegistry()) {
+    super('verilator_regression', 'verilator', configManager, cacheManager, RegressionSchema);
+    this.compiler = new CompileTool(configManager, cacheManager);
+    this.runs = runs;
+  }
+
+  getDescription(): string {
+    return 'Run a regression test list across seeds in parallel, compiling each build configuration once';
+  }
+
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'verification',
+      capabilities: ['targets', 'filelists', 'waivers', 'reports', 'parallel', 'background'],
+    };
+  }
+
+  protected usesProjectConfig(): boolean {
+    return true;
+  }
+
+  protected applyProjectConfig(
+    params: Record<string, any>,
+    project: ProjectConfig | null
+  ): Record<string, any> {
+    let merged = params;
+
+    if (project) {
+      const { timeout, enableWaveform, waveformFormat, enableCoverage, optimizationLevel } = project.simulation;
+      merged = withDefaults(merged, { timeout, enableWaveform, waveformFormat, enableCoverage, optimizationLevel });
+    }
+
+    if (params.testList !== undefined) {
+      const tests = project?.tests[params.testList];
+      if (!tests) {
+        throw new Error(`Unknown test list '${params.testList}'` + (project ? ` in ${project.path}` : ''));
+      }
+      merged = withDefaults(merged, { tests });
+    }
+
+    if (params.target !== undefined) {
+      const target = getTarget(project, params.target);
+      merged = withDefaults(merged, {
+        design: target.files,
+        filelists: target.filelists,
+        defines: target.defines,
+        includes: target.includes,
+        verilatorFlags: target.flags,
+        waivers: target.waivers,
+      });
+    }
+
+    return merged;
+  }
+
+  protected async buildArguments(params: RegressionParams): Promise<string[]> {
+    // This tool orchestrates compilation and execution
+    return [];
+  }
+
+  protected async processResult(
+    result: any,
+    params: RegressionParams
+  ): Promise<ToolResult<RegressionResult>> {
+    const startTime = Date.now();
+
+    try {
+      const outputDir = resolve(params.outputDir);
+      await fs.mkdir(outputDir, { recursive: true });
+
+      // Step 1: Group tests by build configuration and compile each once
+      const builds = await this.planBuilds(params, outputDir);
+      const executables = new Map<string, string>();
+      for (const build of builds) {
+        const executable = await this.compileBuild(build, params);
+        if (executable) {
+          executables.set(build.id, executable);
+        }
+      }
+
+      // Step 2: Expand tests into one job per seed
+      const buildByTest = new Map<string, RegressionBuild>();
+      for (const build of builds) {
+        build.tests.forEach(test => buildByTest.set(test, build));
+      }
+
+      const jobs: RegressionJob[] = [];
+      for (const test of params.tests) {
+        const build = buildByTest.get(test.name)!;
+        for (let n = 0; n < test.seeds; n++) {
+          jobs.push({ test, seed: params.baseSeed + n, build, executable: executables.get(build.id) });
+        }
+      }
+
+      // Step 3: Fan the jobs out across the workers
+      const workers = Math.min(params.workers || cpus().length || 1, jobs.length);
+      logger.info(`Running ${jobs.length} simulations across ${workers} workers`);
+      const runs = await this.runJobs(jobs, workers, params, outputDir);
+
+      const passedCount = runs.filter(r => r.status === 'passed').length;
+      const regression: RegressionResult = {
+        passed: passedCount === runs.length,
+        outputDir,
+        total: runs.length,
+        passedCount,
+        failedCount: runs.length - passedCount,
+        duration: Date.now() - startTime,
+        builds,
+        runs,
+      };
+      regression.reports = await writeRegressionReports(regression, params.reportFormats);
+
+      const buildFailures = builds.filter(b => !b.success).map(b => `Build ${b.id} failed: ${b.error}`);
+      return {
+        success: true,
+        data: regression,
+        warnings: buildFailures.length > 0 ? buildFailures : undefined,
+      };
+
+    } catch (error) {
+      logger.error('Regression error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async planBuilds(params: RegressionParams, outputDir: string): Promise<RegressionBuild[]> {
+    const names = new Set<string>();
+    const dirs = new Map<string, string>();
+    const builds = new Map<string, RegressionBuild>();
+
+    for (const test of params.tests) {
+      if (names.has(test.name)) {
+        throw new Error(`Duplicate test name: ${test.name}`);
+      }
+      names.add(test.name);
+      const dir = testDirName(test.name);
+      if (dirs.has(dir)) {
+        throw new Error(`Tests ${dirs.get(dir)} and ${test.name} would share the output directory tests/${dir}`);
+      }
+      dirs.set(dir, test.name);
+
+      const testbench = resolve(test.testbench);
+      const defines = { ...params.defines, ...test.defines };
+      const topModule = test.topModule || await this.detectTopModule(testbench, defines);
+
+      // Tests that differ only in plusargs or seeds share a build
+      const key = JSON.stringify([testbench, topModule, Object.entries(defines).sort()]);
+      let build = builds.get(key);
+      if (!build) {
+        const id = `build_${builds.size + 1}`;
+        build = {
+          id,
+          testbench,
+          topModule,
+          defines: Object.keys(defines).length > 0 ? defines : undefined,
+          outputDir: join(outputDir, 'builds', id),
+          success: false,
+          tests: [],
+        };
+        builds.set(key, build);
+      }
+      build.tests.push(test.name);
+    }
+
+    return Array.from(builds.values());
+  }
+
+  private async compileBuild(build: RegressionBuild, params: RegressionParams): Promise<string | undefined> {
+    logger.info(`Compiling ${build.id} (${build.topModule}) for ${build.tests.join(', ')}`);
+
+    const compileResult = await this.compiler.execute({
+      files: [...params.design, build.testbench],
+      filelists: params.filelists,
+      topModule: build.topModule,
+      outputDir: build.outputDir,
+      optimization: params.optimizationLevel,
+      trace: params.enableWaveform,
+      traceFormat: params.waveformFormat,
+      coverage: params.enableCoverage,
+      defines: build.defines,
+      includes: params.includes,
+      verilatorFlags: params.verilatorFlags,
+      waivers: params.waivers,
+    }, this.getContext(params));
+
+    if (!compileResult.success || !compileResult.data) {
+      build.error = compileResult.error || 'Unknown error';
+      return undefined;
+    }
+
+    build.success = true;
+    return compileResult.data.executable || join(compileResult.data.outputDir, `V${build.topModule}`);
+  }
+
+  private async runJobs(
+    jobs: RegressionJob[],
+    workers: number,
+    params: RegressionParams,
+    outputDir: string
+  ): Promise<RegressionRun[]> {
+    const runs: RegressionRun[] = new Array(jobs.length);
+    const { onProgress, onOutput, signal } = this.getContext(params);
+    let next = 0;
+    let done = 0;
+
+    const worker = async () => {
+      while (next < jobs.length && !signal?.aborted) {
+        const index = next++;
+        runs[index] = await this.runJob(jobs[index], params, outputDir);
+        const summary = `${runs[index].test} seed ${runs[index].seed}: ${runs[index].status}`;
+        logger.info(summary);
+
+        // Parallel runs would interleave their output, so report completed runs instead
+        onOutput?.(summary + '\n');
+        done++;
+        onProgress?.({
+          phase: 'simulating',
+          percent: Math.round((done / jobs.length) * 100),
+          message: `${done}/${jobs.length} runs, ${summary}`,
+          log: [summary],
+        });
+      }
+    };
+
+    await Promise.all(Array.from({ length: workers }, worker));
+    if (signal?.aborted) {
+      throw new Error('Regression cancelled');
+    }
+    return runs;
+  }
+
+  private async runJob(job: RegressionJob, params: RegressionParams, outputDir: string): Promise<RegressionRun> {
+    const runDir = join(outputDir, 'tests', testDirName(job.test.name), `seed_${job.seed}`);
+    const run: RegressionRun = {
+      test: job.test.name,
+      seed: job.seed,
+      build: job.build.id,
+      status: 'passed',
+      duration: 0,
+      outputDir: runDir,
+      errors: [],
+    };
+
+    if (!job.executable) {
+      run.status = 'build_failed';
+      run.errors.push(job.build.error || 'Build failed');
+      return run;
+    }
+
+    await fs.mkdir(runDir, { recursive: true });
+    run.logFile = join(runDir, 'simulation.log');
+
+    const args = [`+verilator+seed+${job.seed}`];
+    for (const [key, value] of Object.entries(job.test.plusargs || {})) {
+      args.push(`+${key}=${value}`);
+    }
+    if (params.enableWaveform) {
+      args.push(params.waveformFormat === 'fst' ? '+trace-fst' : '+trace');
+      run.waveformFile = join(runDir, `simulation.${params.waveformFormat}`);
+    }
+    if (params.enableCoverage) {
+      run.coverageFile = join(runDir, 'coverage.dat');
+      args.push(`+verilator+coverage+file+${run.coverageFile}`);
+    }
+
+    const startTime = Date.now();
+    try {
+      // Runs share the build directory, so each one works in its own directory
+      const simResult = await this.executor.execute(job.executable, args, {
+        timeout: job.test.timeout || params.timeout,
+        cwd: runDir,
+        signal: this.getContext(params).signal,
+      });
+
+      run.duration = simResult.duration;
+      run.exitCode = simResult.exitCode;
+      await fs.writeFile(run.logFile, simResult.stdout + '\n' + simResult.stderr);
+
+      run.errors = ErrorHandler.parseVerilatorOutput(simResult.stdout + '\n' + simResult.stderr)
+        .filter(e => e.type === 'error')
+        .map(e => e.message);
+      run.assertions = this.parseAssertions(simResult.stdout);
+
+      const assertionFailed = run.assertions.some(a => !a.passed);
+      if (simResult.exitCode !== 0 || run.errors.length > 0 || assertionFailed) {
+        run.status = 'failed';
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      run.duration = Date.now() - startTime;
+      run.status = /timed out/.test(message) ? 'timeout' : 'error';
+      run.errors.push(message);
+      await fs.writeFile(run.logFile, message + '\n');
+    }
+
+    try {
+      const record = await this.runs.record({
+        name: job.test.name,
+        tool: this.toolName,
+        passed: run.status === 'passed',
+        status: run.status,
+        seed: job.seed,
+        artifacts: {
+          outputDir: runDir,
+          logFile: run.logFile,
+          waveformFile: run.waveformFile,
+          coverageFile: run.coverageFile,
+          testbench: job.build.testbench,
+          buildDir: job.build.outputDir,
+        },
+        assertions: run.assertions || [],
+        errors: run.errors,
+      });
+      run.runUri = simulationUri(record);
+    } catch (error) {
+      logger.warn('Failed to record regression run:', error);
+    }
+
+    return run;
+  }
+
+  private async detectTopModule(testbench: string, defines: Record<string, string | number>): Promise<string> {
+    const [top] = findTopModules(await parseSystemVerilogFile(testbench, { defines }));
+    return top ? top.name : basename(testbench).replace(/\.(v|sv|verilog|systemverilog)$/, '');
+  }
+
+  private parseAssertions(output: string): AssertionResult[] {
+    const assertions: AssertionResult[] = [];
+    const assertionRegex = /Assertion\s+(\w+)\s+at\s+(.+):(\d+)\s+(passed|failed):\s*(.+)?/gi;
+
+    let match;
+    while ((match = assertionRegex.exec(output)) !== null) {
+      const [, name, file, line, status, message] = match;
+      assertions.push({
+        name,
+        file,
+        line: parseInt(line, 10),
+        type: 'assert',
+        passed: status === 'passed',
+        failures: status === 'failed' ? 1 : 0,
+        message,
+      });
+    }
+
+    return assertions;
+  }
+
+  protected getCacheKey(params: RegressionParams): string | null {
+    // Regression results depend on seeds and runtime behaviour
+    return null;
+  }
+}
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { resolve } from 'path';
+import { promises as fs } from 'fs';
+import { AbstractTool } from './base.js';
+import { openWaveform } from './waveform.js';
+import { ToolMetadata, ToolResult } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { RunRegistry, projectIdFor } from '../utils/run-registry.js';
+import { SignalXref } from '../utils/signal-xref.js';
+import { RootCauseAnalysis, analyzeRootCause } from '../utils/root-cause.js';
+import { TimeUnit } from '../utils/waveform-reader.js';
+
+const RootCauseSchema = z.object({
+  signal: z.string().describe('Signal to explain: hierarchical path in the design, or a name that matches one signal'),
+  time: z.number().min(0).describe('Time at which the signal has the value to explain'),
+  timeUnit: z.enum(['s', 'ms', 'us', 'ns', 'ps', 'fs']).optional().describe('Unit of time and of the times returned (defaults to the waveform timescale)'),
+  waveformFile: z.string().optional().describe('Waveform to read; defaults to the newest simulation run of the project that has one'),
+  expected: z.union([z.string(), z.number()]).optional().describe("Value the signal should have had, e.g. 1, 8'hff or 0x1f"),
+  depth: z.number().min(1).max(64).default(12).describe('Maximum steps to walk back through the drivers'),
+});
+
+type RootCauseParams = z.infer<typeof RootCauseSchema>;
+
+interface RootCauseResult extends RootCauseAnalysis {
+  projectId: string;
+  waveformFile: string;
+}
+
+export class RootCauseTool extends AbstractTool<RootCauseParams, RootCauseResult> {
+  private runRegistry: RunRegistry;
+
+  constructor(configManager: any, cacheManager: any, runRegistry: RunRegistry = new RunRegistry()) {
+    super('verilator_root_cause', 'verilator', configManager, cacheManager, RootCauseSchema);
+    this.runRegistry = runRegistry;
+  }
+
+  getDescription(): string {
+    return 'Explain why a signal has its value at a given time: walk back through its drivers in the elaborated design, using waveform values, to the earliest X or the change that caused it';
+  }
+
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'analysis',
+      capabilities: ['vcd', 'fst', 'resources'],
+    };
+  }
+
+  protected async buildArguments(params: RootCauseParams): Promise<string[]> {
+    // The analysis runs in-process on the stored design and the waveform
+    return [];
+  }
+
+  protected async processResult(
+    result: any,
+    params: RootCauseParams
+  ): Promise<ToolResult<RootCauseResult>> {
+    try {
+      const projectId = await projectIdFor();
+      const xref = await SignalXref.load(this.runRegistry.getDesignDir(projectId));
+      if (!xref) {
+        throw new Error('No elaborated design for this project; run verilator_hierarchy first');
+      }
+
+      const matches = xref.find(params.signal);
+      if (matches.length === 0) {
+        throw new Error(`No signal ${params.signal} in the design under ${xref.getHierarchy().top}`);
+      }
+      if (matches.length > 1) {
+        throw new Error(`Signal ${params.signal} is ambiguous; give its hierarchical path (matches: ${matches.slice(0, 10).join(', ')})`);
+      }
+
+      const waveformFile = await this.findWaveform(params, projectId);
+      const analysis = await analyzeRootCause(xref, openWaveform(waveformFile), matches[0], {
+        time: params.time,
+        timeUnit: params.timeUnit as TimeUnit | undefined,
+        depth: params.depth,
+        expected: params.expected,
+      });
+      logger.info(`Root cause of ${analysis.signal} at ${params.time}: ${analysis.conclusion.reason} at ${analysis.conclusion.signal}`);
+
+      return {
+        success: true,
+        data: { projectId, waveformFile, ...analysis },
+        warnings: this.warningsFor(analysis),
+      };
+    } catch (error) {
+      logger.error('Root cause analysis error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private warningsFor(analysis: RootCauseAnalysis): string[] | undefined {
+    const warnings: string[] = [];
+    if (analysis.notDumped.length > 0) {
+      warnings.push(`${analysis.notDumped.length} signals of the fan-in are not in the waveform`);
+    }
+    if (analysis.truncated.length > 0) {
+      warnings.push(`These signals change too often to read up to the queried time: ${analysis.truncated.join(', ')}`);
+    }
+    if (analysis.coneTruncated) {
+      warnings.push('The fan-in is too large to read in full; the X signals and missing signals listed are those nearest the chain');
+    }
+    return warnings.length > 0 ? warnings : undefined;
+  }
+
+  private async findWaveform(params: RootCauseParams, projectId: string): Promise<string> {
+    if (params.waveformFile) {
+      const waveformFile = resolve(params.waveformFile);
+      await fs.access(waveformFile);
+      return waveformFile;
+    }
+
+    for (const run of await this.runRegistry.list(projectId)) {
+      if (run.artifacts.waveformFile) {
+        return run.artifacts.waveformFile;
+      }
+    }
+    throw new Error('No simulation run of this project has a waveform; pass waveformFile or simulate with enableWaveform');
+  }
+
+  protected shouldUseCache(params: RootCauseParams): boolean {
+    // Simulations overwrite their waveforms
+    return false;
+  }
+}
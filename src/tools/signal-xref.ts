@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import { AbstractTool } from './base.js';
+import { HierarchyTool } from './hierarchy.js';
+import { ToolMetadata, ToolResult } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+import { ProjectConfig } from '../utils/project-config.js';
+import { RunRegistry, projectIdFor } from '../utils/run-registry.js';
+import { SignalAccess, SignalCone, SignalDeclaration, SignalXref } from '../utils/signal-xref.js';
+
+const SignalXrefSchema = z.object({
+  signal: z.string().describe('Hierarchical signal path, e.g. top.u_core.valid; the top module and leading instances may be left off if the rest is unique'),
+  cone: z.enum(['fanin', 'fanout', 'both', 'none']).default('both').describe('Which logic cones to trace from the signal'),
+  depth: z.number().min(1).max(32).default(2).describe('Levels of logic and port connections to trace the cones through'),
+  // Elaborate the design first instead of using the last verilator_hierarchy result
+  target: z.string().optional().describe('Named build target to elaborate before tracing'),
+  files: z.array(z.string()).optional().describe('Design files to elaborate before tracing; by default the design last extracted by verilator_hierarchy is used'),
+  filelists: z.array(z.string()).optional().describe('Filelists (.f) to elaborate before tracing'),
+  topModule: z.string().optional().describe('Top module name when elaborating'),
+  parameters: z.record(z.union([z.string(), z.number()])).optional().describe('Top-level parameter overrides when elaborating'),
+  defines: z.record(z.union([z.string(), z.number()])).optional().describe('Macro definitions when elaborating'),
+  includes: z.array(z.string()).optional().describe('Include directories when elaborating'),
+});
+
+type SignalXrefParams = z.infer<typeof SignalXrefSchema>;
+
+interface SignalXrefResult {
+  projectId: string;
+  top: string;
+  // When the design was elaborated
+  generatedAt: number;
+  signal: SignalDeclaration;
+  drivers: SignalAccess[];
+  loads: SignalAccess[];
+  fanIn?: SignalCone;
+  fanOut?: SignalCone;
+}
+
+export class SignalXrefTool extends AbstractTool<SignalXrefParams, SignalXrefResult> {
+  private runRegistry: RunRegistry;
+  private hierarchy: HierarchyTool;
+
+  constructor(configManager: any, cacheManager: any, runRegistry: RunRegistry = new RunRegistry()) {
+    super('verilator_signal_xref', 'verilator', configManager, cacheManager, SignalXrefSchema);
+    this.runRegistry = runRegistry;
+    this.hierarchy = new HierarchyTool(configManager, cacheManager, runRegistry);
+  }
+
+  getDescription(): string {
+    return 'Cross-reference a signal in the elaborated design: its declaration, the always blocks, assignments and ports that drive and read it, and its fan-in/fan-out cones';
+  }
+
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'analysis',
+      capabilities: ['targets', 'resources'],
+    };
+  }
+
+  protected applyProjectConfig(
+    params: Record<string, any>,
+    project: ProjectConfig | null
+  ): Record<string, any> {
+    // The target is resolved by verilator_hierarchy when it elaborates
+    return params;
+  }
+
+  protected async buildArguments(params: SignalXrefParams): Promise<string[]> {
+    // The cross-reference is built in-process from the elaborated AST
+    return [];
+  }
+
+  protected async processResult(
+    result: any,
+    params: SignalXrefParams
+  ): Promise<ToolResult<SignalXrefResult>> {
+    try {
+      if (params.target !== undefined || params.files?.length || params.filelists?.length) {
+        const elaborated = await this.hierarchy.execute({
+          target: params.target,
+          files: params.files,
+          filelists: params.filelists,
+          topModule: params.topModule,
+          parameters: params.parameters,
+          defines: params.defines,
+          includes: params.includes,
+          depth: 0,
+        }, this.getContext(params));
+        if (!elaborated.success) {
+          throw new Error(elaborated.error || 'Elaboration failed');
+        }
+      }
+
+      const projectId = await projectIdFor();
+      const xref = await SignalXref.load(this.runRegistry.getDesignDir(projectId));
+      if (!xref) {
+        throw new Error('No elaborated design for this project; run verilator_hierarchy first or pass files');
+      }
+
+      const matches = xref.find(params.signal);
+      if (matches.length === 0) {
+        throw new Error(`No signal ${params.signal} in the design under ${xref.getHierarchy().top}`);
+      }
+      if (matches.length > 1) {
+        const listed = matches.slice(0, 10).join(', ');
+        throw new Error(
+          `Signal ${params.signal} is ambiguous; give its hierarchical path (matches: ${listed}${matches.length > 10 ? ', ...' : ''})`
+        );
+      }
+
+      const report = xref.describe(matches[0])!;
+      const hierarchy = xref.getHierarchy();
+      logger.info(`Cross-referenced ${report.declaration.path}: ${report.drivers.length} drivers, ${report.loads.length} loads`);
+
+      return {
+        success: true,
+        data: {
+          projectId,
+          top: hierarchy.top,
+          generatedAt: hierarchy.generatedAt,
+          signal: report.declaration,
+          drivers: report.drivers,
+          loads: report.loads,
+          fanIn: params.cone === 'fanin' || params.cone === 'both'
+            ? xref.cone(report.declaration.path, 'fanin', params.depth)
+            : undefined,
+          fanOut: params.cone === 'fanout' || params.cone === 'both'
+            ? xref.cone(report.declaration.path, 'fanout', params.depth)
+            : undefined,
+        },
+      };
+    } catch (error) {
+      logger.error('Signal cross-reference error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  protected shouldUseCache(params: SignalXrefParams): boolean {
+    // Answers change whenever verilator_hierarchy rewrites the design
+    return false;
+  }
+
+  protected getTimeout(params: SignalXrefParams): number {
+    return 600000; // Elaborating large designs
+  }
+}
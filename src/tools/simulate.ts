@@ -1,32 +1,47 @@
 import { z } from 'zod';
 import { AbstractTool } from './base.js';
-import { ToolResult, SimulationOptions, SimulationResult, AssertionResult } from '../types/index.js';
+import { ToolMetadata, ToolResult, SimulationOptions, SimulationResult, AssertionResult, ResolvedSources } from '../types/index.js';
 import { TestbenchGeneratorTool } from './testbench-generator.js';
 import { CompileTool } from './compile.js';
 import { promises as fs } from 'fs';
 import { join, resolve, dirname, basename } from 'path';
 import { logger } from '../utils/logger.js';
 import { ErrorHandler } from '../utils/error-handler.js';
+import { writeSimulationReports } from '../utils/report-export.js';
+import { ProjectConfig, getTarget, withDefaults } from '../utils/project-config.js';
+import { SimulationTracker } from '../utils/progress.js';
+import { RunRegistry, simulationUri } from '../utils/run-registry.js';
+import { findTopModules, parseSystemVerilogFile } from '../utils/sv-parser.js';
 
 const SimulateSchema = z.object({
-  design: z.string().describe('Design file or compiled directory'),
+  target: z.string().optional().describe('Named build target from verilator-mcp.json; explicit parameters override it'),
+  design: z.string().optional().describe('Design file or compiled directory (design, files or filelists required)'),
+  files: z.array(z.string()).optional().describe('Additional design files'),
+  filelists: z.array(z.string()).optional().describe('Design filelists (.f), as with verilator -f'),
   testbench: z.string().optional().describe('Testbench file (will auto-generate if missing)'),
   topModule: z.string().optional().describe('Top module name'),
   autoGenerateTestbench: z.boolean().default(true).describe('Auto-generate testbench if missing'),
   outputDir: z.string().default('sim_output').describe('Output directory for simulation artifacts'),
   timeout: z.number().default(60000).describe('Simulation timeout in milliseconds'),
   enableWaveform: z.boolean().default(true).describe('Generate waveform dump'),
-  waveformFormat: z.enum(['vcd', 'fst', 'lxt2']).default('vcd'),
+  waveformFormat: z.enum(['vcd', 'fst', 'lxt2']).default('vcd').describe('Waveform format'),
   waveformFile: z.string().optional().describe('Waveform output file'),
   enableCoverage: z.boolean().default(false).describe('Enable coverage collection'),
-  coverageTypes: z.array(z.enum(['line', 'toggle', 'functional', 'branch'])).optional(),
+  coverageTypes: z.array(z.enum(['line', 'toggle', 'functional', 'branch'])).optional().describe('Coverage types to collect'),
   enableAssertions: z.boolean().default(true).describe('Enable assertion checking'),
-  optimizationLevel: z.number().min(0).max(3).default(2),
-  defines: z.record(z.union([z.string(), z.number()])).optional(),
-  plusargs: z.record(z.union([z.string(), z.number()])).optional(),
+  optimizationLevel: z.number().min(0).max(3).default(2).describe('Optimization level'),
+  defines: z.record(z.union([z.string(), z.number()])).optional().describe('Macro definitions'),
+  includes: z.array(z.string()).optional().describe('Include directories'),
+  verilatorFlags: z.array(z.string()).optional().describe('Additional Verilator flags'),
+  waivers: z.array(z.string()).optional().describe('Verilator .vlt waiver files'),
+  plusargs: z.record(z.union([z.string(), z.number()])).optional().describe('Plusargs to pass to simulation'),
   useExistingBuild: z.boolean().default(false).describe('Use existing compiled output'),
   simulationTime: z.number().optional().describe('Override simulation time'),
   verbose: z.boolean().default(false).describe('Verbose output'),
+  reportFormats: z.array(z.enum(['junit', 'json'])).default(['junit', 'json']).describe('Structured reports to write next to simulation.log'),
+  background: z.boolean().default(false).describe('Run as a background job and return its id at once; follow it with verilator_job'),
+}).refine(params => params.design || (params.files?.length ?? 0) > 0 || (params.filelists?.length ?? 0) > 0, {
+  message: 'Provide design, files or filelists',
 });
 
 type SimulateParams = z.infer<typeof SimulateSchema>;
@@ -34,17 +49,55 @@ type SimulateParams = z.infer<typeof SimulateSchema>;
 export class SimulateTool extends AbstractTool<SimulateParams, SimulationResult> {
   private testbenchGenerator: TestbenchGeneratorTool;
   private compiler: CompileTool;
+  private runs: RunRegistry;
 
-  constructor(configManager: any, cacheManager: any) {
+  constructor(configManager: any, cacheManager: any, runs: RunRegistry = new RunRegistry()) {
     super('verilator_simulate', 'verilator', configManager, cacheManager, SimulateSchema);
     this.testbenchGenerator = new TestbenchGeneratorTool(configManager, cacheManager);
     this.compiler = new CompileTool(configManager, cacheManager);
+    this.runs = runs;
   }
 
   getDescription(): string {
     return 'Run RTL simulation with automatic testbench generation if needed';
   }
 
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'simulation',
+      capabilities: ['targets', 'filelists', 'waivers', 'reports', 'coverage', 'waveforms', 'background'],
+    };
+  }
+
+  protected usesProjectConfig(): boolean {
+    return true;
+  }
+
+  protected applyProjectConfig(
+    params: Record<string, any>,
+    project: ProjectConfig | null
+  ): Record<string, any> {
+    let merged = project ? withDefaults(params, project.simulation) : params;
+
+    if (params.target !== undefined) {
+      const target = getTarget(project, params.target);
+      merged = withDefaults(merged, {
+        files: target.files,
+        filelists: target.filelists,
+        topModule: target.top,
+        testbench: target.testbench,
+        defines: target.defines,
+        includes: target.includes,
+        verilatorFlags: target.flags,
+        waivers: target.waivers,
+      });
+    }
+
+    return merged;
+  }
+
   protected async buildArguments(params: SimulateParams): Promise<string[]> {
     // This tool orchestrates compilation and execution
     // Arguments will be built separately for each phase
@@ -61,10 +114,13 @@ export class SimulateTool extends AbstractTool<SimulateParams, SimulationResult>
       let generatedTestbench = false;
 
       if (!testbenchFile && params.autoGenerateTestbench) {
+        if (!params.design) {
+          throw new Error('Testbench generation needs a design file; provide design or testbench');
+        }
         logger.info('No testbench provided, generating one automatically...');
         
         // Determine module name
-        const moduleName = params.topModule || await this.detectTopModule(params.design);
+        const moduleName = params.topModule || await this.detectTopModule(params.design, params.defines);
         
         // Generate testbench
         const tbResult = await this.testbenchGenerator.execute({
@@ -76,6 +132,7 @@ export class SimulateTool extends AbstractTool<SimulateParams, SimulationResult>
           simulationTime: params.simulationTime || 10000,
           generateAssertions: params.enableAssertions,
           generateCoverage: params.enableCoverage,
+          defines: params.defines,
         });
 
         if (!tbResult.success || !tbResult.data) {
@@ -89,10 +146,11 @@ export class SimulateTool extends AbstractTool<SimulateParams, SimulationResult>
       // Step 2: Compile design and testbench if needed
       let executablePath: string;
       let buildDir: string;
+      let sources: ResolvedSources | undefined;
 
       if (params.useExistingBuild) {
         // Use existing build
-        buildDir = params.design.endsWith('_dir') ? params.design : 'obj_dir';
+        buildDir = params.design?.endsWith('_dir') ? params.design : 'obj_dir';
         const moduleName = params.topModule || 'top';
         executablePath = join(buildDir, `V${moduleName}`);
         
@@ -102,13 +160,25 @@ export class SimulateTool extends AbstractTool<SimulateParams, SimulationResult>
         // Compile design and testbench
         logger.info('Compiling design and testbench...');
         
-        const files = [params.design];
+        const files = [...(params.design ? [params.design] : []), ...(params.files || [])];
         if (testbenchFile) {
           files.push(testbenchFile);
         }
 
+        // Only waive what this tool itself introduces: the generated testbench
+        // declares a timescale the design may lack, and coverage builds warn
+        // about constructs they cannot instrument
+        const suppressWarnings: string[] = [];
+        if (generatedTestbench) {
+          suppressWarnings.push('TIMESCALEMOD');
+        }
+        if (params.enableCoverage) {
+          suppressWarnings.push('COVERIGN');
+        }
+
         const compileResult = await this.compiler.execute({
           files,
+          filelists: params.filelists,
           topModule: testbenchFile ? `tb_${params.topModule || 'top'}` : params.topModule,
           outputDir: join(params.outputDir, 'obj_dir'),
           optimization: params.optimizationLevel,
@@ -116,13 +186,18 @@ export class SimulateTool extends AbstractTool<SimulateParams, SimulationResult>
           traceFormat: params.waveformFormat as 'vcd' | 'fst',
           coverage: params.enableCoverage,
           defines: params.defines,
-        });
+          includes: params.includes,
+          verilatorFlags: params.verilatorFlags,
+          suppressWarnings,
+          waivers: params.waivers,
+        }, this.getContext(params));
 
         if (!compileResult.success || !compileResult.data) {
           throw new Error('Compilation failed: ' + (compileResult.error || 'Unknown error'));
         }
 
         buildDir = compileResult.data.outputDir;
+        sources = compileResult.data.sources;
         executablePath = compileResult.data.executable || join(compileResult.data.outputDir, `V${params.topModule || 'top'}`);
       }
 
@@ -138,6 +213,7 @@ export class SimulateTool extends AbstractTool<SimulateParams, SimulationResult>
         logFile: join(params.outputDir, 'simulation.log'),
         errors: [],
         warnings: [],
+        sources,
       };
 
       // Save simulation log
@@ -168,7 +244,6 @@ export class SimulateTool extends AbstractTool<SimulateParams, SimulationResult>
       // Handle coverage
       if (params.enableCoverage) {
         result.coverageFile = join(params.outputDir, 'coverage.dat');
-        // Verilator coverage data would need to be processed
       }
 
       // Parse assertions
@@ -182,6 +257,35 @@ export class SimulateTool extends AbstractTool<SimulateParams, SimulationResult>
         cpuTime: simResult.duration,
       };
 
+      // Export structured reports for CI and dashboards
+      const testName = params.topModule
+        || (params.design ? basename(params.design).replace(/\.(v|sv|verilog|systemverilog)$/, '') : 'simulation');
+      result.reports = await writeSimulationReports(result, testName, params.outputDir, params.reportFormats);
+
+      // Record the run so simulation:// resources can find its artifacts
+      try {
+        const run = await this.runs.record({
+          name: testName,
+          tool: this.toolName,
+          passed: result.passed,
+          simulationTime: result.simulationTime,
+          artifacts: {
+            outputDir: resolve(params.outputDir),
+            logFile: resolve(result.logFile!),
+            waveformFile: result.waveformFile ? resolve(result.waveformFile) : undefined,
+            coverageFile: result.coverageFile ? resolve(result.coverageFile) : undefined,
+            testbench: testbenchFile ? resolve(testbenchFile) : undefined,
+            buildDir: resolve(buildDir),
+            reports: result.reports,
+          },
+          assertions: result.assertions,
+          errors: result.errors || [],
+        });
+        result.runUri = simulationUri(run);
+      } catch (error) {
+        logger.warn('Failed to record simulation run:', error);
+      }
+
       return {
         success: result.passed,
         data: result,
@@ -197,13 +301,12 @@ export class SimulateTool extends AbstractTool<SimulateParams, SimulationResult>
     }
   }
 
-  private async detectTopModule(designFile: string): Promise<string> {
-    // Simple detection - look for module declaration
-    const content = await fs.readFile(designFile, 'utf-8');
-    const moduleMatch = content.match(/module\s+(\w+)\s*(?:#|\()/);
-    
-    if (moduleMatch) {
-      return moduleMatch[1];
+  private async detectTopModule(designFile: string, defines?: Record<string, string | number>): Promise<string> {
+    // The first module no other module in the file instantiates
+    const parsed = await parseSystemVerilogFile(designFile, { defines });
+    const [top] = findTopModules(parsed);
+    if (top) {
+      return top.name;
     }
 
     // Default to filename without extension
@@ -237,9 +340,9 @@ export class SimulateTool extends AbstractTool<SimulateParams, SimulationResult>
       }
     }
 
-    // Add coverage arguments
+    // Write coverage where the result reports it; the default lands in the build directory
     if (params.enableCoverage) {
-      args.push('+coverage');
+      args.push(`+verilator+coverage+file+${resolve(params.outputDir, 'coverage.dat')}`);
     }
 
     // Add verbose flag
@@ -247,9 +350,14 @@ export class SimulateTool extends AbstractTool<SimulateParams, SimulationResult>
       args.push('+verilator+verbose');
     }
 
+    const { onProgress, signal, onOutput } = this.getContext(params);
     return await this.executor.execute(executablePath, args, {
       timeout: params.timeout,
       cwd: dirname(executablePath),
+      onProgress,
+      progressTracker: new SimulationTracker(params.simulationTime),
+      signal,
+      onOutput,
     });
   }
 
@@ -292,108 +400,4 @@ export class SimulateTool extends AbstractTool<SimulateParams, SimulationResult>
     // Don't cache simulation results as they may vary
     return null;
   }
-
-  getInputSchema(): any {
-    return {
-      type: 'object',
-      properties: {
-        design: {
-          type: 'string',
-          description: 'Design file or compiled directory',
-        },
-        testbench: {
-          type: 'string',
-          description: 'Testbench file (will auto-generate if missing)',
-        },
-        topModule: {
-          type: 'string',
-          description: 'Top module name',
-        },
-        autoGenerateTestbench: {
-          type: 'boolean',
-          default: true,
-          description: 'Auto-generate testbench if missing',
-        },
-        outputDir: {
-          type: 'string',
-          default: 'sim_output',
-          description: 'Output directory for simulation artifacts',
-        },
-        timeout: {
-          type: 'number',
-          default: 60000,
-          description: 'Simulation timeout in milliseconds',
-        },
-        enableWaveform: {
-          type: 'boolean',
-          default: true,
-          description: 'Generate waveform dump',
-        },
-        waveformFormat: {
-          type: 'string',
-          enum: ['vcd', 'fst', 'lxt2'],
-          default: 'vcd',
-          description: 'Waveform format',
-        },
-        waveformFile: {
-          type: 'string',
-          description: 'Waveform output file',
-        },
-        enableCoverage: {
-          type: 'boolean',
-          default: false,
-          description: 'Enable coverage collection',
-        },
-        coverageTypes: {
-          type: 'array',
-          items: {
-            type: 'string',
-            enum: ['line', 'toggle', 'functional', 'branch'],
-          },
-          description: 'Coverage types to collect',
-        },
-        enableAssertions: {
-          type: 'boolean',
-          default: true,
-          description: 'Enable assertion checking',
-        },
-        optimizationLevel: {
-          type: 'number',
-          minimum: 0,
-          maximum: 3,
-          default: 2,
-          description: 'Optimization level',
-        },
-        defines: {
-          type: 'object',
-          additionalProperties: {
-            oneOf: [{ type: 'string' }, { type: 'number' }],
-          },
-          description: 'Macro definitions',
-        },
-        plusargs: {
-          type: 'object',
-          additionalProperties: {
-            oneOf: [{ type: 'string' }, { type: 'number' }],
-          },
-          description: 'Plusargs to pass to simulation',
-        },
-        useExistingBuild: {
-          type: 'boolean',
-          default: false,
-          description: 'Use existing compiled output',
-        },
-        simulationTime: {
-          type: 'number',
-          description: 'Override simulation time',
-        },
-        verbose: {
-          type: 'boolean',
-          default: false,
-          description: 'Verbose output',
-        },
-      },
-      required: ['design'],
-    };
-  }
 }
\ No newline at end of file
@@ -1,24 +1,29 @@
 import { z } from 'zod';
 import { AbstractTool } from './base.js';
-import { ToolResult, ModuleInfo, TestbenchOptions, TestbenchResult, PortInfo } from '../types/index.js';
+import { ToolMetadata, ToolResult, ModuleInfo, TestbenchOptions, TestbenchResult, PortInfo } from '../types/index.js';
 import { promises as fs } from 'fs';
 import { dirname, join, basename, resolve } from 'path';
 import { logger } from '../utils/logger.js';
+import { parseSystemVerilogFile } from '../utils/sv-parser.js';
+import { elaborateModule } from '../utils/sv-elaborate.js';
 
 const TestbenchGeneratorSchema = z.object({
   targetFile: z.string().describe('Verilog file containing the module to test'),
   targetModule: z.string().describe('Module name to generate testbench for'),
   outputFile: z.string().optional().describe('Output testbench file path'),
-  template: z.enum(['basic', 'uvm', 'cocotb', 'protocol']).default('basic'),
-  protocol: z.enum(['axi', 'apb', 'wishbone', 'avalon', 'custom']).optional(),
-  stimulusType: z.enum(['directed', 'random', 'constrained_random', 'sequence']).default('directed'),
+  template: z.enum(['basic', 'uvm', 'cocotb', 'protocol']).default('basic').describe('Testbench template style'),
+  protocol: z.enum(['axi', 'apb', 'wishbone', 'avalon', 'custom']).optional().describe('Protocol type for protocol-aware testbench'),
+  stimulusType: z.enum(['directed', 'random', 'constrained_random', 'sequence']).default('directed').describe('Type of stimulus to generate'),
   clockPeriod: z.number().default(10).describe('Clock period in time units'),
   resetDuration: z.number().default(100).describe('Reset duration in time units'),
   simulationTime: z.number().default(10000).describe('Total simulation time'),
-  generateAssertions: z.boolean().default(true),
-  generateCoverage: z.boolean().default(true),
-  generateCheckers: z.boolean().default(true),
+  generateAssertions: z.boolean().default(true).describe('Generate assertions'),
+  generateCoverage: z.boolean().default(true).describe('Generate coverage points'),
+  generateCheckers: z.boolean().default(true).describe('Generate response checkers'),
   parseOnly: z.boolean().default(false).describe('Only parse module, don\'t generate testbench'),
+  parameters: z.record(z.union([z.string(), z.number()])).optional().describe('Parameter overrides for the DUT, e.g. {"WIDTH": 16}; port widths are computed with them'),
+  defines: z.record(z.union([z.string(), z.number()])).optional().describe('Macro definitions applied while parsing the target file'),
+  interfaces: z.record(z.string()).optional().describe('Interface to instantiate for each generic `interface` port of the DUT, e.g. {"bus": "simple_bus"}'),
 });
 
 type TestbenchGeneratorParams = z.infer<typeof TestbenchGeneratorSchema>;
@@ -27,7 +32,7 @@ export class TestbenchGeneratorTool extends AbstractTool<TestbenchGeneratorParam
   private protocolTemplates: Map<string, any> = new Map();
 
   constructor(configManager: any, cacheManager: any) {
-    super('testbench_generator', 'verilator', configManager, cacheManager, TestbenchGeneratorSchema);
+    super('verilator_testbench_generator', 'verilator', configManager, cacheManager, TestbenchGeneratorSchema);
     this.initializeProtocolTemplates();
   }
 
@@ -35,6 +40,17 @@ export class TestbenchGeneratorTool extends AbstractTool<TestbenchGeneratorParam
     return 'Generate intelligent testbenches for Verilog/SystemVerilog modules with automatic stimulus generation';
   }
 
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'generation',
+      capabilities: ['protocols', 'assertions', 'coverage'],
+      // Name derived from the class name before tools declared their own
+      aliases: ['verilator_testbenchgenerator'],
+    };
+  }
+
   private initializeProtocolTemplates() {
     this.protocolTemplates = new Map();
     
@@ -70,14 +86,13 @@ export class TestbenchGeneratorTool extends AbstractTool<TestbenchGeneratorParam
   }
 
   protected async buildArguments(params: TestbenchGeneratorParams): Promise<string[]> {
-    // For parsing, we use Verilator in lint mode to extract module information
-    return [
-      '--lint-only',
-      '--quiet',
-      '--xml-only',
-      '--xml-output', 'module_info.xml',
-      params.targetFile,
-    ];
+    // Lint the target so syntax errors show up in the logs; ports come from sv-parser
+    const args = ['--lint-only', '--quiet'];
+    for (const [key, value] of Object.entries(params.defines || {})) {
+      args.push('-D', `${key}=${value}`);
+    }
+    args.push(params.targetFile);
+    return args;
   }
 
   protected async processResult(
@@ -86,7 +101,7 @@ export class TestbenchGeneratorTool extends AbstractTool<TestbenchGeneratorParam
   ): Promise<ToolResult<TestbenchResult>> {
     try {
       // Parse the module to get interface information
-      const moduleInfo = await this.parseModule(params.targetFile, params.targetModule);
+      const moduleInfo = await this.parseModule(params);
 
     if (params.parseOnly) {
       return {
@@ -97,6 +112,7 @@ export class TestbenchGeneratorTool extends AbstractTool<TestbenchGeneratorParam
           template: params.template,
           features: [],
         },
+        warnings: moduleInfo.warnings?.length ? moduleInfo.warnings : undefined,
       };
     }
 
@@ -130,6 +146,7 @@ export class TestbenchGeneratorTool extends AbstractTool<TestbenchGeneratorParam
           template: params.template,
           features,
         },
+        warnings: moduleInfo.warnings?.length ? moduleInfo.warnings : undefined,
       };
     } catch (error) {
       logger.error('Testbench generation error:', error);
@@ -140,147 +157,23 @@ export class TestbenchGeneratorTool extends AbstractTool<TestbenchGeneratorParam
     }
   }
 
-  private async parseModule(file: string, moduleName: string): Promise<ModuleInfo> {
-    // For now, use a simple regex-based parser
-    // In production, integrate with Verible's parser for accuracy
-    const content = await fs.readFile(file, 'utf-8');
-    
-    const moduleInfo: ModuleInfo = {
-      name: moduleName,
-      file,
-      ports: [],
-      parameters: [],
-      interfaces: [],
-      clockDomains: [],
-    };
-
-    // Extract module declaration
-    const moduleRegex = new RegExp(
-      `module\\s+${moduleName}\\s*(?:#\\s*\\([^)]*\\))?\\s*\\(([^;]+)\\);`,
-      'ms'
-    );
-    const moduleMatch = content.match(moduleRegex);
-    
-    if (!moduleMatch) {
-      throw new Error(`Module ${moduleName} not found in ${file}`);
-    }
-
-    // Parse ports
-    const portsText = moduleMatch[1];
-    moduleInfo.ports = this.parsePorts(portsText);
-
-    // Detect clock domains
+  private async parseModule(params: TestbenchGeneratorParams): Promise<ModuleInfo> {
+    const parsed = await parseSystemVerilogFile(params.targetFile, { defines: params.defines });
+    const moduleInfo = elaborateModule(parsed, params.targetModule, params.parameters);
     moduleInfo.clockDomains = this.detectClockDomains(moduleInfo.ports);
 
-    // Parse parameters
-    const paramRegex = /parameter\s+(?:\w+\s+)?(\w+)\s*=\s*([^,;]+)/g;
-    let paramMatch;
-    while ((paramMatch = paramRegex.exec(content)) !== null) {
-      moduleInfo.parameters.push({
-        name: paramMatch[1],
-        type: 'integer', // Simplified - would need better parsing
-        defaultValue: paramMatch[2].trim(),
-      });
+    for (const warning of moduleInfo.warnings || []) {
+      logger.warn(`${params.targetModule}: ${warning}`);
     }
-
     return moduleInfo;
   }
 
-  private parsePorts(portsText: string): PortInfo[] {
-    const ports: PortInfo[] = [];
-    
-    // Split by comma, handling nested brackets
-    const portDeclarations = this.splitPorts(portsText);
-    
-    for (const portDecl of portDeclarations) {
-      const port = this.parsePortDeclaration(portDecl.trim());
-      if (port) {
-        ports.push(port);
-      }
-    }
-
-    return ports;
-  }
-
-  private splitPorts(portsText: string): string[] {
-    const ports: string[] = [];
-    let current = '';
-    let bracketDepth = 0;
-
-    for (const char of portsText) {
-      if (char === '[') bracketDepth++;
-      if (char === ']') bracketDepth--;
-      
-      if (char === ',' && bracketDepth === 0) {
-        ports.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-
-    if (current.trim()) {
-      ports.push(current.trim());
-    }
-
-    return ports;
-  }
-
-  private parsePortDeclaration(portDecl: string): PortInfo | null {
-    // Match port declaration pattern - handle parameterized widths and multiple spaces
-    const portRegex = /^\s*(input|output|inout)\s+(wire|reg|logic|bit)?\s*(?:\[([^\]]+)\])?\s+(\w+)(?:\s*\[([^\]]+)\])?/;
-    const match = portDecl.match(portRegex);
-
-    if (!match) return null;
-
-    const [, direction, type, widthExpr, name, arrayExpr] = match;
-
-    // Calculate width - handle parameterized expressions like "WIDTH-1:0"
-    let width = 1;
-    if (widthExpr) {
-      if (widthExpr.includes(':')) {
-        const [msbExpr, lsbExpr] = widthExpr.split(':');
-        // For simple cases like "7:0" or "WIDTH-1:0", assume common widths
-        if (msbExpr.includes('WIDTH')) {
-          width = 8; // Assume 8-bit for WIDTH-1:0
-        } else {
-          const msb = parseInt(msbExpr.trim());
-          const lsb = parseInt(lsbExpr.trim());
-          if (!isNaN(msb) && !isNaN(lsb)) {
-            width = Math.abs(msb - lsb) + 1;
-          }
-        }
-      }
-    }
-
-    const port: PortInfo = {
-      name,
-      direction: direction as 'input' | 'output' | 'inout',
-      type: (type || 'wire') as any,
-      width,
-    };
-
-    if (arrayExpr) {
-      // Handle array dimensions
-      if (arrayExpr.includes(':')) {
-        const [msbExpr, lsbExpr] = arrayExpr.split(':');
-        const msb = parseInt(msbExpr.trim());
-        const lsb = parseInt(lsbExpr.trim());
-        if (!isNaN(msb) && !isNaN(lsb)) {
-          port.arrayDimensions = [Math.abs(msb - lsb) + 1];
-        }
-      }
-    }
-
-    return port;
-  }
-
   private detectClockDomains(ports: PortInfo[]): any[] {
     const clockDomains: any[] = [];
     
     // Find clock signals
     const clockPorts = ports.filter(p => 
-      p.direction === 'input' && 
+      p.direction === 'input' && p.width === 1 &&
       (p.name.match(/^(clk|clock|aclk|pclk|sclk)/i) || p.name.match(/(clk|clock)$/i))
     );
 
@@ -376,10 +269,7 @@ export class TestbenchGeneratorTool extends AbstractTool<TestbenchGeneratorParam
 
     // Declare signals for each port
     for (const port of moduleInfo.ports) {
-      const signalType = port.direction === 'input' ? 'reg' : 'wire';
-      const width = port.width > 1 ? `[${port.width - 1}:0] ` : '';
-      const array = port.arrayDimensions ? `[${port.arrayDimensions[0] - 1}:0]` : '';
-      signals += `  ${signalType} ${width}${port.name}${array};\n`;
+      signals += `  ${this.declareSignal(port, moduleInfo, params)};\n`;
     }
 
     // Add testbench control signals
@@ -395,9 +285,41 @@ export class TestbenchGeneratorTool extends AbstractTool<TestbenchGeneratorParam
     return signals;
   }
 
+  private declareSignal(port: PortInfo, moduleInfo: ModuleInfo, params: TestbenchGeneratorParams): string {
+    const array = (port.arrayDimensions || []).map(size => `[${size - 1}:0]`).join('');
+
+    if (port.type === 'interface') {
+      // A generic `interface` port does not say which interface it takes
+      const type = port.dataType === 'interface' ? params.interfaces?.[port.name] : port.dataType;
+      if (!type) {
+        throw new Error(
+          `Port ${port.name} of ${moduleInfo.name} is a generic interface port; ` +
+          `name the interface to instantiate for it in interfaces, e.g. {"${port.name}": "<interface>"}`
+        );
+      }
+      return `${type} ${port.name}${array}()`;
+    }
+    if (port.width === 0) {
+      // real, string, or a width that could not be evaluated: declare it as the DUT does
+      const range = port.range ? ` ${port.range}` : '';
+      return `${port.dataType || 'logic'}${range} ${port.name}${array}`;
+    }
+
+    const signalType = port.direction === 'input' ? 'reg' : 'wire';
+    const signed = port.signed ? 'signed ' : '';
+    const width = port.width > 1 ? `[${port.width - 1}:0] ` : '';
+    return `${signalType} ${signed}${width}${port.name}${array}`;
+  }
+
   private generateDUTInstantiation(moduleInfo: ModuleInfo, params: TestbenchGeneratorParams): string {
     let inst = `  // DUT instantiation\n`;
-    inst += `  ${moduleInfo.name} dut (\n`;
+    const overrides = Object.entries(params.parameters || {});
+    if (overrides.length > 0) {
+      const values = overrides.map(([name, value]) => `.${name}(${value})`).join(', ');
+      inst += `  ${moduleInfo.name} #(${values}) dut (\n`;
+    } else {
+      inst += `  ${moduleInfo.name} dut (\n`;
+    }
 
     const portConnections = moduleInfo.ports.map((port, index) => {
       const comma = index < moduleInfo.ports.length - 1 ? ',' : '';
@@ -484,8 +406,9 @@ export class TestbenchGeneratorTool extends AbstractTool<TestbenchGeneratorParam
   private generateGenericStimulus(moduleInfo: ModuleInfo, params: TestbenchGeneratorParams): string {
     let stimulus = '';
 
+    // Ports without a known bit width (real, string, unresolved ranges) are left alone
     const inputPorts = moduleInfo.ports.filter(p => 
-      p.direction === 'input' && 
+      p.direction === 'input' && p.width > 0 &&
       !(moduleInfo.clockDomains || []).some(cd => cd.name === p.name || cd.resetSignal === p.name)
     );
 
@@ -555,8 +478,9 @@ export class TestbenchGeneratorTool extends AbstractTool<TestbenchGeneratorParam
     coverage += '  covergroup cg @(posedge ' + ((moduleInfo.clockDomains || [])[0]?.name || 'clk') + ');\n';
     
     // Generate coverage points for input signals
+    // Ports without a known bit width (real, string, unresolved ranges) are left alone
     const inputPorts = moduleInfo.ports.filter(p => 
-      p.direction === 'input' && 
+      p.direction === 'input' && p.width > 0 &&
       !(moduleInfo.clockDomains || []).some(cd => cd.name === p.name || cd.resetSignal === p.name)
     );
 
@@ -580,77 +504,4 @@ export class TestbenchGeneratorTool extends AbstractTool<TestbenchGeneratorParam
   end
 `;
   }
-
-  getInputSchema(): any {
-    return {
-      type: 'object',
-      properties: {
-        targetFile: {
-          type: 'string',
-          description: 'Verilog file containing the module to test',
-        },
-        targetModule: {
-          type: 'string',
-          description: 'Module name to generate testbench for',
-        },
-        outputFile: {
-          type: 'string',
-          description: 'Output testbench file path',
-        },
-        template: {
-          type: 'string',
-          enum: ['basic', 'uvm', 'cocotb', 'protocol'],
-          default: 'basic',
-          description: 'Testbench template style',
-        },
-        protocol: {
-          type: 'string',
-          enum: ['axi', 'apb', 'wishbone', 'avalon', 'custom'],
-          description: 'Protocol type for protocol-aware testbench',
-        },
-        stimulusType: {
-          type: 'string',
-          enum: ['directed', 'random', 'constrained_random', 'sequence'],
-          default: 'directed',
-          description: 'Type of stimulus to generate',
-        },
-        clockPeriod: {
-          type: 'number',
-          default: 10,
-          description: 'Clock period in time units',
-        },
-        resetDuration: {
-          type: 'number',
-          default: 100,
-          description: 'Reset duration in time units',
-        },
-        simulationTime: {
-          type: 'number',
-          default: 10000,
-          description: 'Total simulation time',
-        },
-        generateAssertions: {
-          type: 'boolean',
-          default: true,
-          description: 'Generate assertions',
-        },
-        generateCoverage: {
-          type: 'boolean',
-          default: true,
-          description: 'Generate coverage points',
-        },
-        generateCheckers: {
-          type: 'boolean',
-          default: true,
-          description: 'Generate response checkers',
-        },
-        parseOnly: {
-          type: 'boolean',
-          default: false,
-          description: 'Only parse module, don\'t generate testbench',
-        },
-      },
-      required: ['targetFile', 'targetModule'],
-    };
-  }
 }
\ No newline at end of file
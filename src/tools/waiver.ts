@@ -0,0 +1,245 @@
+import { z } from 'zod';
+import { AbstractTool } from './base.js';
+import { ToolMetadata, ToolResult } from '../types/index.js';
+import { LintTool } from './lint.js';
+import { dirname, relative, resolve, sep } from 'path';
+import { ParsedError } from '../utils/error-handler.js';
+import {
+  Waiver,
+  WaiverSpec,
+  appendWaivers,
+  readWaiverFile,
+  removeWaivers,
+  waiverMatches,
+} from '../utils/waiver-file.js';
+import { logger } from '../utils/logger.js';
+
+const DiagnosticSchema = z.object({
+  code: z.string().describe('Verilator warning code'),
+  file: z.string().optional(),
+  line: z.number().optional(),
+  message: z.string().default(''),
+});
+
+const WaiverSchema = z.object({
+  operation: z.enum(['add', 'list', 'stale']).describe('Add waivers, list them, or find waivers that no longer match'),
+  waiverFile: z.string().describe('Verilator .vlt waiver file'),
+  rule: z.string().optional().describe('Warning code to waive (add)'),
+  file: z.string().optional().describe('Source file to waive in; plain paths become "*/<path from the directory shared with the waiver file>" (add)'),
+  line: z.number().optional().describe('Line to waive at (add)'),
+  lineEnd: z.number().optional().describe('Last line of the waived range (add)'),
+  match: z.string().optional().describe('Wildcard the message must match (add)'),
+  reason: z.string().optional().describe('Why the warning is waived; written as a comment (add)'),
+  diagnostics: z.array(DiagnosticSchema).optional().describe('Lint/compile diagnostics to waive (add) or check against (stale)'),
+  files: z.array(z.string()).optional().describe('Sources to lint without the waiver file to find stale waivers (stale)'),
+  topModule: z.string().optional().describe('Top module name'),
+  includes: z.array(z.string()).optional().describe('Include directories'),
+  defines: z.record(z.union([z.string(), z.number()])).optional().describe('Macro definitions'),
+  removeStale: z.boolean().default(false).describe('Delete stale waivers from the file (stale)'),
+});
+
+type WaiverParams = z.infer<typeof WaiverSchema>;
+
+interface WaiverEntry {
+  rule?: string;
+  file?: string;
+  lines?: string;
+  match?: string;
+  reason?: string;
+  lineNumber: number;
+  text: string;
+  matchCount?: number;
+}
+
+interface WaiverResult {
+  waiverFile: string;
+  operation: string;
+  waivers: WaiverEntry[];
+  added?: string[];
+  stale?: WaiverEntry[];
+  removed?: number;
+  diagnosticsChecked?: number;
+}
+
+export class WaiverTool extends AbstractTool<WaiverParams, WaiverResult> {
+  private linter: LintTool;
+
+  constructor(configManager: any, cacheManager: any) {
+    super('verilator_waiver', 'verilator', configManager, cacheManager, WaiverSchema);
+    this.linter = new LintTool(configManager, cacheManager);
+  }
+
+  getDescription(): string {
+    return 'Manage Verilator .vlt lint waivers: waive at file:line, list waivers and detect stale ones';
+  }
+
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'maintenance',
+      capabilities: ['stale-detection'],
+    };
+  }
+
+  protected async buildArguments(params: WaiverParams): Promise<string[]> {
+    // Waiver files are edited in-process; stale checks run the lint tool
+    return [];
+  }
+
+  protected async processResult(
+    result: any,
+    params: WaiverParams
+  ): Promise<ToolResult<WaiverResult>> {
+    try {
+      const waiverFile = resolve(params.waiverFile);
+      switch (params.operation) {
+        case 'add':
+          return await this.addWaivers(waiverFile, params);
+        case 'stale':
+          return await this.findStale(waiverFile, params);
+        default:
+          return {
+            success: true,
+            data: {
+              waiverFile,
+              operation: params.operation,
+              waivers: (await readWaiverFile(waiverFile)).map(w => this.toEntry(w)),
+            },
+          };
+      }
+    } catch (error) {
+      logger.error('Waiver error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async addWaivers(waiverFile: string, params: WaiverParams): Promise<ToolResult<WaiverResult>> {
+    const specs: WaiverSpec[] = [];
+
+    if (params.rule) {
+      specs.push({
+        rule: params.rule,
+        file: params.file ? this.filePattern(params.file, waiverFile) : undefined,
+        firstLine: params.line,
+        lastLine: params.lineEnd,
+        match: params.match,
+        reason: params.reason,
+      });
+    }
+
+    for (const diagnostic of params.diagnostics || []) {
+      specs.push({
+        rule: diagnostic.code,
+        file: diagnostic.file ? this.filePattern(diagnostic.file, waiverFile) : undefined,
+        firstLine: diagnostic.file ? diagnostic.line : undefined,
+        reason: params.reason,
+      });
+    }
+
+    if (specs.length === 0) {
+      throw new Error('Nothing to waive; provide rule or diagnostics');
+    }
+
+    const added = await appendWaivers(waiverFile, specs);
+    logger.info(`Added ${added.length} waivers to ${waiverFile}`);
+
+    return {
+      success: true,
+      data: {
+        waiverFile,
+        operation: 'add',
+        waivers: (await readWaiverFile(waiverFile)).map(w => this.toEntry(w)),
+        added,
+      },
+    };
+  }
+
+  private async findStale(waiverFile: string, params: WaiverParams): Promise<ToolResult<WaiverResult>> {
+    const waivers = await readWaiverFile(waiverFile);
+    const diagnostics: ParsedError[] = (params.diagnostics || []).map(d => ({ type: 'warning', ...d }));
+
+    if (params.files && params.files.length > 0) {
+      // Lint without the waiver file so the diagnostics it suppresses are visible
+      const lint = await this.linter.execute({
+        files: params.files,
+        topModule: params.topModule,
+        includes: params.includes,
+        defines: params.defines,
+      });
+      if (!lint.data) {
+        throw new Error(`Lint failed: ${lint.error || 'Unknown error'}`);
+      }
+      diagnostics.push(...lint.data.errors, ...lint.data.warnings);
+    } else if (diagnostics.length === 0) {
+      throw new Error('Provide files to lint or diagnostics to check waivers against');
+    }
+
+    const entries = waivers.map(waiver => ({
+      ...this.toEntry(waiver),
+      matchCount: diagnostics.filter(d => waiverMatches(waiver, d)).length,
+    }));
+    const stale = entries.filter(entry => entry.matchCount === 0);
+
+    let removed: number | undefined;
+    if (params.removeStale && stale.length > 0) {
+      const staleLines = new Set(stale.map(entry => entry.lineNumber));
+      await removeWaivers(waiverFile, waivers.filter(w => staleLines.has(w.lineNumber)));
+      removed = stale.length;
+      logger.info(`Removed ${removed} stale waivers from ${waiverFile}`);
+    }
+
+    return {
+      success: true,
+      data: {
+        waiverFile,
+        operation: 'stale',
+        waivers: entries,
+        stale,
+        removed,
+        diagnosticsChecked: diagnostics.length,
+      },
+    };
+  }
+
+  private filePattern(file: string, waiverFile: string): string {
+    if (/[*?]/.test(file)) {
+      return file;
+    }
+
+    // Verilator matches -file against the whole path as it was given on the
+    // command line. Keeping the path below the directory the source shares
+    // with the waiver file tells same-named files apart, while the leading
+    // wildcard still matches wherever the project is checked out.
+    const source = resolve(file);
+    let root = dirname(waiverFile);
+    while (relative(root, source).split(sep)[0] === '..') {
+      root = dirname(root);
+    }
+    return `*/${relative(root, source).split(sep).join('/')}`;
+  }
+
+  private toEntry(waiver: Waiver): WaiverEntry {
+    const lines = waiver.firstLine === undefined
+      ? undefined
+      : waiver.lastLine !== undefined && waiver.lastLine !== waiver.firstLine
+        ? `${waiver.firstLine}-${waiver.lastLine}`
+        : String(waiver.firstLine);
+    return {
+      rule: waiver.rule,
+      file: waiver.file,
+      lines,
+      match: waiver.match,
+      reason: waiver.reason,
+      lineNumber: waiver.lineNumber,
+      text: waiver.text.trim(),
+    };
+  }
+
+  protected getCacheKey(params: WaiverParams): string | null {
+    return null;
+  }
+}
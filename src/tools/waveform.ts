@@ -0,0 +1,239 @@
+import { z } from 'zod';
+import { AbstractTool } from './base.js';
+import { ToolMetadata, ToolResult, WaveformData } from '../types/index.js';
+import { extname, resolve } from 'path';
+import { promises as fs } from 'fs';
+import { VcdParser } from '../utils/vcd-parser.js';
+import { FstParser } from '../utils/fst-parser.js';
+import {
+  TimeUnit,
+  WaveformReader,
+  resolveSignals,
+  timeScaleFactor,
+} from '../utils/waveform-reader.js';
+import { logger } from '../utils/logger.js';
+
+const WaveformSchema = z.object({
+  waveformFile: z.string().describe('Waveform file produced by verilator_simulate'),
+  signal: z.string().optional().describe('Signal to query (hierarchical path or leaf name)'),
+  signals: z.array(z.string()).optional().describe('Signals to query'),
+  timeRange: z.tuple([z.number(), z.number()]).optional().describe('Start and end time of the query window'),
+  timeUnit: z.enum(['s', 'ms', 'us', 'ns', 'ps', 'fs']).optional().describe('Unit for timeRange and returned times (defaults to the file timescale)'),
+  format: z.enum(['json', 'csv', 'text']).default('text').describe('Output format'),
+  maxValues: z.number().min(1).default(10000).describe('Maximum value changes returned per signal'),
+  listSignals: z.boolean().default(false).describe('List the signals in the waveform instead of values'),
+});
+
+type WaveformParams = z.infer<typeof WaveformSchema>;
+
+/**
+ * Reader for a waveform file, chosen by its extension.
+ */
+export function openWaveform(file: string): WaveformReader {
+  const extension = extname(file).toLowerCase();
+  if (extension === '.vcd') {
+    return new VcdParser(file);
+  }
+  if (extension === '.fst') {
+    return new FstParser(file);
+  }
+  throw new Error(`Unsupported waveform format '${extension}', expected .vcd or .fst`);
+}
+
+interface WaveformSignalSummary {
+  name: string;
+  width: number;
+  type: string;
+}
+
+interface WaveformResult {
+  waveformFile: string;
+  format: 'json' | 'csv' | 'text';
+  waveform?: WaveformData;
+  availableSignals?: WaveformSignalSummary[];
+  unresolved: string[];
+  ambiguous: { query: string; candidates: string[] }[];
+  output: string;
+}
+
+export class WaveformTool extends AbstractTool<WaveformParams, WaveformResult> {
+  constructor(configManager: any, cacheManager: any) {
+    super('verilator_waveform', 'verilator', configManager, cacheManager, WaveformSchema);
+  }
+
+  getDescription(): string {
+    return 'Query signal values and transitions from simulation waveform files';
+  }
+
+  getMetadata(): ToolMetadata {
+    return {
+      name: this.toolName,
+      version: '1.0.0',
+      category: 'analysis',
+      capabilities: ['vcd', 'fst'],
+    };
+  }
+
+  protected async buildArguments(params: WaveformParams): Promise<string[]> {
+    // Waveforms are parsed in-process; Verilator is not invoked
+    return [];
+  }
+
+  protected async processResult(
+    result: any,
+    params: WaveformParams
+  ): Promise<ToolResult<WaveformResult>> {
+    try {
+      const waveformFile = resolve(params.waveformFile);
+      await fs.access(waveformFile);
+
+      const reader = openWaveform(waveformFile);
+      const header = await reader.readHeader();
+
+      const queries = [
+        ...(params.signal ? [params.signal] : []),
+        ...(params.signals || []),
+      ];
+
+      if (params.listSignals || queries.length === 0) {
+        const availableSignals = header.signals.map(s => ({
+          name: s.name,
+          width: s.width,
+          type: s.varType,
+        }));
+
+        return {
+          success: true,
+          data: {
+            waveformFile,
+            format: params.format,
+            availableSignals,
+            unresolved: [],
+            ambiguous: [],
+            output: this.formatSignalList(availableSignals, header.timescale, params.format),
+          },
+        };
+      }
+
+      const resolutions = resolveSignals(header.signals, queries);
+      const unresolved = resolutions.filter(r => !r.signal).map(r => r.query);
+      const ambiguous = resolutions
+        .filter(r => r.candidates.length > 1)
+        .map(r => ({ query: r.query, candidates: r.candidates.map(c => c.name) }));
+      const matched = resolutions.filter(r => r.signal).map(r => r.signal!);
+
+      if (matched.length === 0) {
+        throw new Error(`No matching signals found in ${waveformFile}: ${unresolved.join(', ')}`);
+      }
+
+      // Convert the requested window into file ticks and the answer back into the requested unit
+      const factor = params.timeUnit ? timeScaleFactor(header, params.timeUnit as TimeUnit) : 1;
+      const tickRange: [number, number] | undefined = params.timeRange
+        ? [Math.round(params.timeRange[0] / factor), Math.round(params.timeRange[1] / factor)]
+        : undefined;
+
+      const waveform = await reader.readValues(matched, tickRange, params.maxValues);
+      if (params.timeUnit) {
+        const scale = (time: number) => Number((time * factor).toPrecision(12));
+        waveform.timeRange = [scale(waveform.timeRange[0]), scale(waveform.timeRange[1])];
+        waveform.timeUnit = params.timeUnit;
+        for (const signal of waveform.signals) {
+          for (const value of signal.values) {
+            value.time = scale(value.time);
+          }
+        }
+      }
+
+      const warnings: string[] = [];
+      for (const query of unresolved) {
+        warnings.push(`Signal not found: ${query}`);
+      }
+      for (const entry of ambiguous) {
+        warnings.push(`Signal '${entry.query}' is ambiguous, using ${entry.candidates[0]} (candidates: ${entry.candidates.join(', ')})`);
+      }
+      for (const signal of waveform.signals) {
+        if (signal.truncated) {
+          warnings.push(`Values for ${signal.name} truncated at ${params.maxValues} changes`);
+        }
+      }
+
+      logger.debug(`Waveform query on ${waveformFile} returned ${waveform.signals.length} signals`);
+
+      return {
+        success: true,
+        data: {
+          waveformFile,
+          format: params.format,
+          waveform,
+          unresolved,
+          ambiguous,
+          output: this.formatWaveform(waveform, params.format),
+        },
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    } catch (error) {
+      logger.error('Waveform query error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private formatSignalList(
+    signals: WaveformSignalSummary[],
+    timescale: string,
+    format: WaveformParams['format']
+  ): string {
+    if (format === 'json') {
+      return JSON.stringify({ timescale, signals }, null, 2);
+    }
+
+    if (format === 'csv') {
+      return ['name,width,type', ...signals.map(s => `${s.name},${s.width},${s.type}`)].join('\n');
+    }
+
+    let output = `Signals (${signals.length}, timescale ${timescale}):\n`;
+    for (const signal of signals) {
+      output += `  ${signal.name}${signal.width > 1 ? ` [${signal.width}]` : ''} (${signal.type})\n`;
+    }
+    return output;
+  }
+
+  private formatWaveform(waveform: WaveformData, format: WaveformParams['format']): string {
+    if (format === 'json') {
+      return JSON.stringify(waveform, null, 2);
+    }
+
+    if (format === 'csv') {
+      const rows = ['time,signal,value,isX,isZ'];
+      for (const signal of waveform.signals) {
+        for (const value of signal.values) {
+          rows.push(`${value.time},${signal.name},${value.value},${!!value.isX},${!!value.isZ}`);
+        }
+      }
+      return rows.join('\n');
+    }
+
+    let output = `Time range: ${waveform.timeRange[0]} - ${waveform.timeRange[1]} (${waveform.timeUnit})\n`;
+    for (const signal of waveform.signals) {
+      output += `\n${signal.name}${signal.width > 1 ? ` [${signal.width}]` : ''}:\n`;
+      if (signal.values.length === 0) {
+        output += '  (no value in range)\n';
+      }
+      for (const value of signal.values) {
+        const flags = [value.isX ? 'X' : '', value.isZ ? 'Z' : ''].filter(Boolean).join('/');
+        output += `  ${value.time}: ${value.value}${flags ? ` (${flags})` : ''}\n`;
+      }
+      if (signal.truncated) {
+        output += '  ... (truncated)\n';
+      }
+    }
+    return output;
+  }
+
+  protected getCacheKey(params: WaveformParams): string | null {
+    // Waveform files are overwritten by each simulation run
+    return null;
+  }
+}
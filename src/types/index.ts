@@ -4,9 +4,31 @@ export interface ToolResult<T = any> {
   error?: string;
   warnings?: string[];
   cached?: boolean;
+  // Set when the client cancelled the call; success is false and error is 'Cancelled'
+  cancelled?: boolean;
   executionTime?: number;
 }
 
+export type ToolCategory =
+  | 'build'
+  | 'simulation'
+  | 'verification'
+  | 'analysis'
+  | 'generation'
+  | 'assistant'
+  | 'maintenance';
+
+export interface ToolMetadata {
+  // Stable MCP tool name
+  name: string;
+  version: string;
+  category: ToolCategory;
+  // Optional features the tool supports, e.g. 'targets', 'filelists', 'cache'
+  capabilities: string[];
+  // Earlier names still accepted by tools/call
+  aliases?: string[];
+}
+
 export interface ModuleInfo {
   name: string;
   file: string;
@@ -14,22 +36,33 @@ export interface ModuleInfo {
   parameters: ParameterInfo[];
   interfaces?: InterfaceInfo[];
   clockDomains?: ClockDomain[];
+  line?: number;
+  // Constructs the parser skipped or could not resolve
+  warnings?: string[];
 }
 
 export interface PortInfo {
   name: string;
   direction: 'input' | 'output' | 'inout';
+  // 0 when the width depends on something the parser could not evaluate
   width: number;
   type: 'wire' | 'reg' | 'logic' | 'bit' | 'interface';
   signed?: boolean;
   arrayDimensions?: number[];
+  // Packed range as written, e.g. [WIDTH-1:0]
+  range?: string;
+  // Declared type when it is not a plain vector: a typedef, real, string, or the interface name
+  dataType?: string;
 }
 
 export interface ParameterInfo {
   name: string;
-  type: 'integer' | 'real' | 'string' | 'bit' | 'logic';
+  type: 'integer' | 'real' | 'string' | 'bit' | 'logic' | 'type';
+  // Default as written in the source
   defaultValue?: any;
+  // Value after overrides and evaluation; undefined when it could not be evaluated
   value?: any;
+  local?: boolean;
 }
 
 export interface InterfaceInfo {
@@ -69,6 +102,67 @@ export interface SimulationResult {
   errors?: string[];
   warnings?: string[];
   statistics?: SimulationStatistics;
+  reports?: ReportFiles;
+  sources?: ResolvedSources;
+  // simulation:// resource describing this run and its artifacts
+  runUri?: string;
+}
+
+export interface ResolvedSources {
+  files: string[];
+  includes: string[];
+  defines: Record<string, string>;
+  libraryFiles: string[];
+  libraryDirs: string[];
+  libraryExtensions: string[];
+  flags: string[];
+  filelists: string[];
+}
+
+export interface ReportFiles {
+  junit?: string;
+  json?: string;
+}
+
+export type RegressionRunStatus = 'passed' | 'failed' | 'timeout' | 'error' | 'build_failed';
+
+export interface RegressionRun {
+  test: string;
+  seed: number;
+  build: string;
+  status: RegressionRunStatus;
+  exitCode?: number;
+  duration: number;
+  outputDir: string;
+  logFile?: string;
+  waveformFile?: string;
+  coverageFile?: string;
+  assertions?: AssertionResult[];
+  errors: string[];
+  runUri?: string;
+}
+
+export interface RegressionBuild {
+  id: string;
+  testbench: string;
+  topModule: string;
+  defines?: Record<string, string | number>;
+  outputDir: string;
+  success: boolean;
+  tests: string[];
+  error?: string;
+}
+
+export interface RegressionResult {
+  passed: boolean;
+  outputDir: string;
+  total: number;
+  passedCount: number;
+  failedCount: number;
+  duration: number;
+  builds: RegressionBuild[];
+  runs: RegressionRun[];
+  reports?: ReportFiles;
 }
 
 export interface AssertionResult {
@@ -130,6 +224,7 @@ export interface SignalData {
   name: string;
   width: number;
   values: SignalValue[];
+  truncated?: boolean;
 }
 
 export interface SignalValue {
@@ -168,6 +263,7 @@ export interface UncoveredPoint {
   line?: number;
   signal?: string;
   description: string;
+  link?: string;
 }
 
 export interface NaturalLanguageQuery {
@@ -201,6 +297,7 @@ export interface QueryHistory {
 export interface NaturalLanguageResponse {
   answer: string;
   category: string;
+  // Probability the query classifier gives the category, 0-1
   confidence: number;
   suggestions?: string[];
   references?: {
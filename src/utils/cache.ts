@@ -1,68 +1,213 @@
-import { caching } from 'cache-manager';
-import { join } from 'path';
+import { join, resolve, sep } from 'path';
 import { homedir } from 'os';
-import { promises as fs } from 'fs';
+import { createReadStream, promises as fs } from 'fs';
 import crypto from 'crypto';
 import { logger } from './logger.js';
+import { wildcardMatch } from './wildcard.js';
 
-// @ts-ignore - cache-manager-fs-hash types might be missing
-import fsStore from 'cache-manager-fs-hash';
+export const MAX_CACHE_SIZE = 1024 * 1024 * 1024; // 1GB
+
+interface ValueEntry<T = any> {
+  key: string;
+  value: T;
+  createdAt: number;
+  lastUsed?: number;
+  expiresAt: number;
+  filePath?: string;
+  // Modification time of each dependency when the value was stored
+  dependencies: Record<string, number>;
+}
+
+export interface CacheSource {
+  path: string;
+  hash: string;
+}
+
+/**
+ * A cached Verilator build. `manifestKey` identifies the inputs known before
+ * compiling (flags and top-level files); `sources` is the full dependency set
+ * Verilator reported in its .d files, so includes and packages count too.
+ */
+export interface BuildCacheEntry<T = any> {
+  key: string;
+  manifestKey: string;
+  sources: CacheSource[];
+  createdAt: number;
+  lastUsed: number;
+  size: number;
+  result: T;
+}
+
+/**
+ * Summary of one cache entry, either a stored tool result or a build.
+ */
+export interface CacheEntryInfo {
+  key: string;
+  kind: 'value' | 'build';
+  size: number;
+  createdAt: number;
+  lastUsed: number;
+  expiresAt?: number;
+  sources: string[];
+}
+
+export interface PruneOptions {
+  // Remove entries not used for this many milliseconds
+  maxAge?: number;
+  // Evict least recently used entries until the cache fits in this many bytes
+  maxSize?: number;
+}
+
+const BUILD_STAMP = '.verilator-mcp-build.json';
+
+/**
+ * Parse Verilator `.d` dependency files in a build directory and return the
+ * prerequisites they list, deduplicated and resolved against the working
+ * directory. Verilator writes make syntax: `targets : prereq prereq \` with
+ * backslash continuations.
+ */
+export async function readDependencyFiles(buildDir: string): Promise<string[]> {
+  let names: string[];
+  try {
+    names = (await fs.readdir(buildDir)).filter(name => name.endsWith('__ver.d'));
+  } catch {
+    return [];
+  }
+
+  const deps = new Set<string>();
+  for (const name of names) {
+    const content = (await fs.readFile(join(buildDir, name), 'utf-8')).replace(/\\\r?\n/g, ' ');
+    for (const rule of content.split(/\r?\n/)) {
+      const match = rule.match(/:(?:\s|$)(.*)$/);
+      if (!match) continue;
+      for (const dep of match[1].trim().split(/\s+/)) {
+        if (dep) deps.add(resolve(dep));
+      }
+    }
+  }
+
+  return Array.from(deps).sort();
+}
+
+async function directorySize(dir: string): Promise<number> {
+  let size = 0;
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      size += await directorySize(path);
+    } else if (entry.isFile()) {
+      size += (await fs.stat(path)).size;
+    }
+  }
+  return size;
+}
 
 export class CacheManager {
-  private cache: any;
   private cacheDir: string;
   private initialized: Promise<void>;
+  private enabled = true;
+  // Content hashes keyed by path, reused while size and mtime are unchanged
+  private hashes = new Map<string, { mtimeMs: number; size: number; hash: string }>();
 
-  constructor() {
-    this.cacheDir = join(homedir(), '.verilator-mcp', 'cache');
+  constructor(
+    cacheDir: string = join(homedir(), '.verilator-mcp', 'cache'),
+    private maxSize: number = MAX_CACHE_SIZE
+  ) {
+    this.cacheDir = cacheDir;
     this.initialized = this.initializeCache();
   }
 
   private async initializeCache() {
     try {
-      // Ensure cache directory exists
-      await fs.mkdir(this.cacheDir, { recursive: true });
-
-      this.cache = await caching(fsStore as any, {
-        path: this.cacheDir,
-        ttl: 60 * 60 * 24, // 24 hours default TTL
-        maxsize: 1024 * 1024 * 1024, // 1GB max cache size
-        zip: true, // Compress cache files
-      } as any);
+      await fs.mkdir(join(this.cacheDir, 'values'), { recursive: true });
+      await fs.mkdir(join(this.cacheDir, 'builds'), { recursive: true });
     } catch (error) {
       logger.error('Cache initialization failed, disabling cache:', error);
-      this.cache = null;
+      this.enabled = false;
+    }
+  }
+
+  getCacheDir(): string {
+    return this.cacheDir;
+  }
+
+  private valuePath(key: string): string {
+    return join(this.cacheDir, 'values', `${key}.json`);
+  }
+
+  private buildPath(key: string): string {
+    return join(this.cacheDir, 'builds', key);
+  }
+
+  private async readValue<T>(key: string): Promise<ValueEntry<T> | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.valuePath(key), 'utf-8'));
+    } catch {
+      return null;
     }
   }
 
   async get<T>(key: string, filePath?: string): Promise<T | null> {
-    // Cache disabled temporarily to fix execution issues
-    return null;
+    await this.initialized;
+    if (!this.enabled) return null;
+
+    const entry = await this.readValue<T>(key);
+    if (!entry) return null;
+    if (Date.now() > entry.expiresAt || (filePath && entry.filePath !== filePath)) {
+      await this.delete(key);
+      return null;
+    }
+
+    entry.lastUsed = Date.now();
+    await fs.writeFile(this.valuePath(key), JSON.stringify(entry)).catch(() => undefined);
+    return entry.value;
   }
 
   async set<T>(
     key: string,
     value: T,
     filePath?: string,
-    dependencies?: string[]
+    dependencies?: string[],
+    ttlSeconds: number = 60 * 60 * 24
   ): Promise<void> {
-    // Cache disabled temporarily to fix execution issues
-    return;
+    await this.initialized;
+    if (!this.enabled) return;
+
+    const entry: ValueEntry<T> = {
+      key,
+      value,
+      createdAt: Date.now(),
+      expiresAt: Date.now() + ttlSeconds * 1000,
+      filePath,
+      dependencies: {},
+    };
+    for (const dep of dependencies || []) {
+      try {
+        entry.dependencies[dep] = (await fs.stat(dep)).mtimeMs;
+      } catch {
+        // Missing dependencies never match, so the entry is simply not reused
+      }
+    }
+
+    try {
+      await fs.writeFile(this.valuePath(key), JSON.stringify(entry));
+    } catch (error) {
+      logger.warn(`Failed to write cache entry ${key}:`, error);
+    }
   }
 
   async delete(key: string): Promise<void> {
-    // Cache disabled temporarily
-    return;
+    await this.initialized;
+    await fs.rm(this.valuePath(key), { force: true });
+    await fs.rm(this.buildPath(key), { recursive: true, force: true });
   }
 
   async clear(): Promise<void> {
-    // Cache disabled temporarily
-    return;
-  }
-
-  private async getCacheTime(key: string): Promise<number | null> {
-    // Cache disabled temporarily
-    return null;
+    await this.initialized;
+    await fs.rm(join(this.cacheDir, 'values'), { recursive: true, force: true });
+    await fs.rm(join(this.cacheDir, 'builds'), { recursive: true, force: true });
+    this.initialized = this.initializeCache();
+    await this.initialized;
   }
 
   generateKey(...parts: any[]): string {
@@ -70,12 +215,109 @@ export class CacheManager {
     return crypto.createHash('sha256').update(combined).digest('hex');
   }
 
-  async invalidatePattern(pattern: string): Promise<void> {
-    // This is a simplified implementation
-    // In production, you might want to use a more sophisticated pattern matching
-    logger.info(`Invalidating cache entries matching pattern: ${pattern}`);
-    // For now, we'll clear the entire cache if a pattern is requested
-    await this.clear();
+  /**
+   * Remove entries whose key or any source path matches a `*`/`?` wildcard
+   * pattern.
+   */
+  async invalidatePattern(pattern: string): Promise<CacheEntryInfo[]> {
+    const matching = (await this.listEntries()).filter(
+      entry => wildcardMatch(pattern, entry.key) || entry.sources.some(source => wildcardMatch(pattern, source))
+    );
+    await this.removeEntries(matching);
+    logger.info(`Invalidated ${matching.length} cache entries matching ${pattern}`);
+    return matching;
+  }
+
+  /**
+   * Remove entries that depend on `path`, or on anything below it when it is
+   * a directory.
+   */
+  async invalidatePath(path: string): Promise<CacheEntryInfo[]> {
+    const target = resolve(path);
+    const matching = (await this.listEntries()).filter(entry =>
+      entry.sources.some(source => source === target || source.startsWith(target + sep))
+    );
+    await this.removeEntries(matching);
+    logger.info(`Invalidated ${matching.length} cache entries depending on ${target}`);
+    return matching;
+  }
+
+  /**
+   * Remove expired entries, entries unused for longer than `maxAge`, and then
+   * least recently used entries until the total size is within `maxSize`.
+   */
+  async prune(options: PruneOptions = {}): Promise<CacheEntryInfo[]> {
+    const now = Date.now();
+    const removed: CacheEntryInfo[] = [];
+    const kept: CacheEntryInfo[] = [];
+
+    for (const entry of await this.listEntries()) {
+      const expired = entry.expiresAt !== undefined && now > entry.expiresAt;
+      const stale = options.maxAge !== undefined && now - entry.lastUsed > options.maxAge;
+      (expired || stale ? removed : kept).push(entry);
+    }
+
+    if (options.maxSize !== undefined) {
+      kept.sort((a, b) => a.lastUsed - b.lastUsed);
+      let total = kept.reduce((sum, entry) => sum + entry.size, 0);
+      while (total > options.maxSize && kept.length > 0) {
+        const entry = kept.shift()!;
+        total -= entry.size;
+        removed.push(entry);
+      }
+    }
+
+    await this.removeEntries(removed);
+    if (removed.length > 0) {
+      logger.info(`Pruned ${removed.length} cache entries (${removed.reduce((sum, e) => sum + e.size, 0)} bytes)`);
+    }
+    return removed;
+  }
+
+  async listEntries(): Promise<CacheEntryInfo[]> {
+    await this.initialized;
+    if (!this.enabled) return [];
+
+    const entries: CacheEntryInfo[] = [];
+
+    for (const name of await fs.readdir(join(this.cacheDir, 'values'))) {
+      if (!name.endsWith('.json')) continue;
+      const key = name.slice(0, -'.json'.length);
+      const entry = await this.readValue(key);
+      if (!entry) continue;
+      const sources = Object.keys(entry.dependencies || {});
+      if (entry.filePath && !sources.includes(entry.filePath)) {
+        sources.push(entry.filePath);
+      }
+      entries.push({
+        key,
+        kind: 'value',
+        size: (await fs.stat(this.valuePath(key))).size,
+        createdAt: entry.createdAt,
+        lastUsed: entry.lastUsed ?? entry.createdAt,
+        expiresAt: entry.expiresAt,
+        sources,
+      });
+    }
+
+    for (const build of await this.listBuilds()) {
+      entries.push({
+        key: build.key,
+        kind: 'build',
+        size: build.size,
+        createdAt: build.createdAt,
+        lastUsed: build.lastUsed,
+        sources: build.sources.map(source => source.path),
+      });
+    }
+
+    return entries.sort((a, b) => b.lastUsed - a.lastUsed);
+  }
+
+  private async removeEntries(entries: CacheEntryInfo[]): Promise<void> {
+    for (const entry of entries) {
+      await this.delete(entry.key);
+    }
   }
 
   async getDependencyTime(dependencies: string[]): Promise<number> {
@@ -94,7 +336,188 @@ export class CacheManager {
   }
 
   async isValid(key: string, dependencies?: string[]): Promise<boolean> {
-    // Cache disabled temporarily
-    return false;
+    await this.initialized;
+    if (!this.enabled) return false;
+
+    const entry = await this.readValue(key);
+    if (!entry || Date.now() > entry.expiresAt) {
+      return false;
+    }
+
+    for (const dep of dependencies || Object.keys(entry.dependencies)) {
+      try {
+        if ((await fs.stat(dep)).mtimeMs !== entry.dependencies[dep]) {
+          return false;
+        }
+      } catch {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  async hashFile(path: string): Promise<string> {
+    const stat = await fs.stat(path);
+    const known = this.hashes.get(path);
+    if (known && known.mtimeMs === stat.mtimeMs && known.size === stat.size) {
+      return known.hash;
+    }
+
+    const hash = await new Promise<string>((resolve, reject) => {
+      const digest = crypto.createHash('sha256');
+      createReadStream(path)
+        .on('data', chunk => digest.update(chunk))
+        .on('end', () => resolve(digest.digest('hex')))
+        .on('error', reject);
+    });
+    this.hashes.set(path, { mtimeMs: stat.mtimeMs, size: stat.size, hash });
+    return hash;
+  }
+
+  private async readBuildEntry(key: string): Promise<BuildCacheEntry | null> {
+    try {
+      return JSON.parse(await fs.readFile(join(this.buildPath(key), 'entry.json'), 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  async listBuilds(): Promise<BuildCacheEntry[]> {
+    await this.initialized;
+    if (!this.enabled) return [];
+
+    const entries: BuildCacheEntry[] = [];
+    for (const key of await fs.readdir(join(this.cacheDir, 'builds'))) {
+      const entry = await this.readBuildEntry(key);
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  /**
+   * Find a cached build for `manifestKey` whose recorded sources all still
+   * have the same content.
+   */
+  async findBuild<T>(manifestKey: string): Promise<BuildCacheEntry<T> | null> {
+    const candidates = (await this.listBuilds())
+      .filter(entry => entry.manifestKey === manifestKey)
+      .sort((a, b) => b.lastUsed - a.lastUsed);
+
+    for (const entry of candidates) {
+      let matches = true;
+      for (const source of entry.sources) {
+        try {
+          if ((await this.hashFile(source.path)) !== source.hash) {
+            matches = false;
+            break;
+          }
+        } catch {
+          matches = false;
+          break;
+        }
+      }
+      if (matches) {
+        return entry;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Copy a finished build directory into the cache. The dependency set comes
+   * from the build's own .d files, falling back to `fallbackSources`.
+   */
+  async storeBuild<T>(
+    manifestKey: string,
+    buildDir: string,
+    result: T,
+    fallbackSources: string[] = []
+  ): Promise<BuildCacheEntry<T> | null> {
+    await this.initialized;
+    if (!this.enabled) return null;
+
+    try {
+      const deps = await readDependencyFiles(buildDir);
+      const sources: CacheSource[] = [];
+      for (const path of deps.length > 0 ? deps : fallbackSources) {
+        sources.push({ path, hash: await this.hashFile(path) });
+      }
+
+      const key = this.generateKey(manifestKey, sources);
+      const entryDir = this.buildPath(key);
+      await fs.rm(entryDir, { recursive: true, force: true });
+      await fs.cp(buildDir, join(entryDir, 'obj_dir'), { recursive: true });
+
+      const entry: BuildCacheEntry<T> = {
+        key,
+        manifestKey,
+        sources,
+        createdAt: Date.now(),
+        lastUsed: Date.now(),
+        size: await directorySize(entryDir),
+        result,
+      };
+      await fs.writeFile(join(entryDir, 'entry.json'), JSON.stringify(entry, null, 2));
+      await fs.writeFile(join(buildDir, BUILD_STAMP), JSON.stringify({ key }));
+
+      logger.info(`Cached build ${key.slice(0, 12)} (${sources.length} sources, ${entry.size} bytes)`);
+
+      // Keep the cache within its size limit; the new build is the most recently used
+      await this.prune({ maxSize: this.maxSize });
+      return entry;
+    } catch (error) {
+      logger.warn(`Failed to cache build from ${buildDir}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Mark `buildDir` as no longer matching any cached build, before Verilator
+   * writes into it again. The stamp stays, without a key, so restoreBuild
+   * still knows an earlier build wrote the directory.
+   */
+  async forgetBuild(buildDir: string): Promise<void> {
+    try {
+      await fs.access(join(buildDir, BUILD_STAMP));
+    } catch {
+      return;
+    }
+    await fs.writeFile(join(buildDir, BUILD_STAMP), JSON.stringify({ key: null }));
+  }
+
+  /**
+   * Make `buildDir` hold the cached build. A directory already stamped with
+   * this entry is reused as is. One stamped by an earlier build is replaced
+   * by the cached copy. A directory without a stamp may hold anything, so the
+   * cached files are copied over it and nothing is deleted.
+   */
+  async restoreBuild(entry: BuildCacheEntry, buildDir: string): Promise<boolean> {
+    let stamp: string | undefined;
+    try {
+      stamp = await fs.readFile(join(buildDir, BUILD_STAMP), 'utf-8');
+    } catch {
+      // Not a build directory of ours
+    }
+
+    let stampedKey: string | undefined;
+    try {
+      stampedKey = stamp !== undefined ? JSON.parse(stamp).key : undefined;
+    } catch {
+      // A damaged stamp still marks a directory an earlier build wrote
+    }
+
+    if (stamp === undefined || stampedKey !== entry.key) {
+      if (stamp !== undefined) {
+        await fs.rm(buildDir, { recursive: true, force: true });
+      }
+      await fs.cp(join(this.buildPath(entry.key), 'obj_dir'), buildDir, { recursive: true, force: true });
+      await fs.writeFile(join(buildDir, BUILD_STAMP), JSON.stringify({ key: entry.key }));
+    }
+
+    entry.lastUsed = Date.now();
+    await fs.writeFile(join(this.buildPath(entry.key), 'entry.json'), JSON.stringify(entry, null, 2));
+    return true;
   }
-}
\ No newline at end of file
+}
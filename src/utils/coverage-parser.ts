@@ -0,0 +1,247 @@
+import { promises as fs } from 'fs';
+import { CoverageData, CoverageDetail, CoverageSummary, UncoveredPoint } from '../types/index.js';
+
+export type CoverageType = 'line' | 'toggle' | 'functional' | 'branch';
+
+export interface CoveragePoint {
+  key: string;
+  type: CoverageType;
+  file: string;
+  line: number;
+  column: number;
+  module: string;
+  hier: string;
+  comment: string;
+  lines: number[];
+  count: number;
+}
+
+export interface CoverageTotals {
+  covered: number;
+  total: number;
+}
+
+const COVERAGE_TYPES: CoverageType[] = ['line', 'toggle', 'functional', 'branch'];
+
+// Verilator writes each point as: C '<\x01key\x02value ...>' count
+const POINT_REGEX = /^C '(.*)' (\d+)\s*$/;
+
+/**
+ * Read a Verilator `coverage.dat` file into individual coverage points.
+ */
+export async function parseCoverageFile(file: string): Promise<CoveragePoint[]> {
+  const content = await fs.readFile(file, 'utf-8');
+  const points: CoveragePoint[] = [];
+
+  for (const line of content.split('\n')) {
+    const match = POINT_REGEX.exec(line);
+    if (!match) continue;
+    points.push(parseCoveragePoint(match[1], Number(match[2])));
+  }
+
+  return points;
+}
+
+export function parseCoveragePoint(key: string, count: number): CoveragePoint {
+  const fields: Record<string, string> = {};
+  for (const item of key.split('\x01')) {
+    const separator = item.indexOf('\x02');
+    if (separator > 0) {
+      fields[item.slice(0, separator)] = item.slice(separator + 1);
+    }
+  }
+
+  // Page is "v_<kind>/<module>", e.g. v_line/counter or v_toggle/counter
+  const [pageKind, module = ''] = (fields.page || '').split('/');
+  const line = parseInt(fields.l || '0', 10);
+
+  return {
+    key,
+    type: coverageTypeForPage(pageKind),
+    file: fields.f || '',
+    line,
+    column: parseInt(fields.n || '0', 10),
+    module,
+    hier: fields.h || '',
+    comment: fields.o || '',
+    lines: fields.S ? expandLineRanges(fields.S) : [line],
+    count,
+  };
+}
+
+function coverageTypeForPage(pageKind: string): CoverageType {
+  switch (pageKind) {
+    case 'v_toggle':
+      return 'toggle';
+    case 'v_branch':
+    case 'v_expr':
+      return 'branch';
+    case 'v_user':
+      return 'functional';
+    default:
+      return 'line';
+  }
+}
+
+function expandLineRanges(ranges: string): number[] {
+  const lines: number[] = [];
+  for (const range of ranges.split(',')) {
+    const [first, last] = range.split('-').map(n => parseInt(n, 10));
+    if (isNaN(first)) continue;
+    for (let line = first; line <= (isNaN(last) ? first : last); line++) {
+      lines.push(line);
+    }
+  }
+  return lines;
+}
+
+function percent(totals: CoverageTotals): number {
+  return totals.total === 0 ? 0 : Math.round((totals.covered / totals.total) * 10000) / 100;
+}
+
+export function emptyTotals(): Record<CoverageType, CoverageTotals> {
+  return {
+    line: { covered: 0, total: 0 },
+    toggle: { covered: 0, total: 0 },
+    functional: { covered: 0, total: 0 },
+    branch: { covered: 0, total: 0 },
+  };
+}
+
+export function countTotals(points: CoveragePoint[], minCount: number = 1): Record<CoverageType, CoverageTotals> {
+  const totals = emptyTotals();
+  for (const point of points) {
+    totals[point.type].total++;
+    if (point.count >= minCount) totals[point.type].covered++;
+  }
+  return totals;
+}
+
+export function toCoverageSummary(totals: Record<CoverageType, CoverageTotals>): CoverageSummary {
+  const all = COVERAGE_TYPES.reduce(
+    (acc, type) => ({
+      covered: acc.covered + totals[type].covered,
+      total: acc.total + totals[type].total,
+    }),
+    { covered: 0, total: 0 }
+  );
+
+  return {
+    line: percent(totals.line),
+    toggle: percent(totals.toggle),
+    functional: percent(totals.functional),
+    branch: percent(totals.branch),
+    overall: percent(all),
+  };
+}
+
+export function describeUncovered(point: CoveragePoint): UncoveredPoint {
+  const uncovered: UncoveredPoint = {
+    type: point.type,
+    file: point.file,
+    line: point.line || undefined,
+    description: `${point.hier || point.module}: ${point.comment || point.type} not covered`,
+  };
+
+  if (point.type === 'toggle') {
+    // Toggle comments look like "count[3]:0->1"
+    uncovered.signal = point.comment.split(':')[0];
+    uncovered.description = `${point.hier}.${point.comment} never toggled`;
+  }
+
+  return uncovered;
+}
+
+/**
+ * Summarize coverage points into the per-type, per-file/module and uncovered
+ * views used by the coverage tool. Percentages are 0-100; types with no
+ * points report 0 and are omitted from the per-module details.
+ */
+export function summarizeCoverage(
+  points: CoveragePoint[],
+  minCount: number = 1,
+  maxUncovered: number = 100
+): CoverageData {
+  const groups = new Map<string, { file: string; module: string; points: CoveragePoint[] }>();
+  for (const point of points) {
+    const groupKey = `${point.file}\0${point.module}`;
+    const group = groups.get(groupKey) || { file: point.file, module: point.module, points: [] };
+    group.points.push(point);
+    groups.set(groupKey, group);
+  }
+
+  const details: CoverageDetail[] = [];
+  for (const group of groups.values()) {
+    const totals = countTotals(group.points, minCount);
+    const detail: CoverageDetail = { file: group.file, module: group.module };
+    for (const type of COVERAGE_TYPES) {
+      if (totals[type].total > 0) {
+        detail[type] = percent(totals[type]);
+      }
+    }
+    details.push(detail);
+  }
+  details.sort((a, b) => a.file.localeCompare(b.file) || a.module.localeCompare(b.module));
+
+  const uncoveredPoints = points
+    .filter(p => p.count < minCount)
+    .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line)
+    .slice(0, maxUncovered)
+    .map(describeUncovered);
+
+  return {
+    summary: toCoverageSummary(countTotals(points, minCount)),
+    details,
+    uncoveredPoints,
+  };
+}
+
+export interface CoverageRun {
+  name: string;
+  points: CoveragePoint[];
+}
+
+export interface MergedCoverage {
+  points: CoveragePoint[];
+  firstCoveredBy: Map<string, string>;
+}
+
+/**
+ * Merge coverage runs point by point, summing hit counts. Runs are taken in
+ * order, so `firstCoveredBy` records the earliest run that reached `minCount`
+ * on its own or cumulatively.
+ */
+export function mergeCoverage(runs: CoverageRun[], minCount: number = 1): MergedCoverage {
+  const merged = new Map<string, CoveragePoint>();
+  const firstCoveredBy = new Map<string, string>();
+
+  for (const run of runs) {
+    for (const point of run.points) {
+      const existing = merged.get(point.key);
+      if (existing) {
+        existing.count += point.count;
+      } else {
+        merged.set(point.key, { ...point, lines: [...point.lines] });
+      }
+
+      const total = merged.get(point.key)!;
+      if (total.count >= minCount && !firstCoveredBy.has(point.key)) {
+        firstCoveredBy.set(point.key, run.name);
+      }
+    }
+  }
+
+  return { points: Array.from(merged.values()), firstCoveredBy };
+}
+
+/**
+ * Write points in Verilator's coverage.dat format so verilator_coverage and
+ * later merges can read the result.
+ */
+export async function writeCoverageFile(file: string, points: CoveragePoint[]): Promise<void> {
+  const lines = ['# SystemC::Coverage-3'];
+  for (const point of points) {
+    lines.push(`C '${point.key}' ${point.count}`);
+  }
+  await fs.writeFile(file, lines.join('\n') + '\n');
+}
@@ -0,0 +1,307 @@
+import { promises as fs } from 'fs';
+import { basename, join, resolve } from 'path';
+import { CoverageData } from '../types/index.js';
+import { CoveragePoint, CoverageType } from './coverage-parser.js';
+
+export interface AnnotatedLine {
+  line: number;
+  text: string;
+  // Lowest hit count of the line/branch points on this line, as verilator_coverage --annotate reports
+  count?: number;
+  points: CoveragePoint[];
+}
+
+export interface AnnotatedFile {
+  file: string;
+  sourcePath: string;
+  sourceFound: boolean;
+  lines: AnnotatedLine[];
+  linesFound: number;
+  linesHit: number;
+  branchesFound: number;
+  branchesHit: number;
+}
+
+export interface CoverageReportFile {
+  file: string;
+  sourcePath: string;
+  sourceFound: boolean;
+  htmlFile?: string;
+  linesFound: number;
+  linesHit: number;
+  branchesFound: number;
+  branchesHit: number;
+}
+
+export interface CoverageReport {
+  reportDir: string;
+  htmlIndex?: string;
+  lcovFile?: string;
+  files: CoverageReportFile[];
+}
+
+export type CoverageReportFormat = 'html' | 'lcov';
+
+const COUNTED_TYPES: CoverageType[] = ['line', 'branch'];
+
+/**
+ * Attach every coverage point to the source lines it covers. Source files are
+ * resolved against `sourceRoot`; points whose source cannot be read are still
+ * annotated, just without the line text.
+ */
+export async function annotateSources(
+  points: CoveragePoint[],
+  sourceRoot: string,
+  minCount: number = 1
+): Promise<AnnotatedFile[]> {
+  const byFile = new Map<string, CoveragePoint[]>();
+  for (const point of points) {
+    if (!point.file) continue;
+    const filePoints = byFile.get(point.file) || [];
+    filePoints.push(point);
+    byFile.set(point.file, filePoints);
+  }
+
+  const annotated: AnnotatedFile[] = [];
+  for (const [file, filePoints] of byFile) {
+    const sourcePath = resolve(sourceRoot, file);
+    let sourceLines: string[] = [];
+    let sourceFound = true;
+    try {
+      sourceLines = (await fs.readFile(sourcePath, 'utf-8')).split(/\r?\n/);
+    } catch {
+      sourceFound = false;
+    }
+
+    const pointsByLine = new Map<number, CoveragePoint[]>();
+    for (const point of filePoints) {
+      // Line blocks span their S ranges; other points sit on their own line
+      const lines = point.type === 'line' ? point.lines : [point.line];
+      for (const line of lines) {
+        if (line <= 0) continue;
+        const linePoints = pointsByLine.get(line) || [];
+        linePoints.push(point);
+        pointsByLine.set(line, linePoints);
+      }
+    }
+
+    const lastLine = Math.max(sourceLines.length, ...pointsByLine.keys());
+    const lines: AnnotatedLine[] = [];
+    for (let line = 1; line <= lastLine; line++) {
+      const linePoints = pointsByLine.get(line) || [];
+      const counted = linePoints.filter(p => COUNTED_TYPES.includes(p.type));
+      lines.push({
+        line,
+        text: sourceLines[line - 1] ?? '',
+        count: counted.length > 0 ? Math.min(...counted.map(p => p.count)) : undefined,
+        points: linePoints,
+      });
+    }
+
+    const lineRows = lines.filter(l => l.points.some(p => p.type === 'line'));
+    const branches = filePoints.filter(p => p.type === 'branch');
+    annotated.push({
+      file,
+      sourcePath,
+      sourceFound,
+      lines,
+      linesFound: lineRows.length,
+      linesHit: lineRows.filter(l => lineCount(l) >= minCount).length,
+      branchesFound: branches.length,
+      branchesHit: branches.filter(p => p.count >= minCount).length,
+    });
+  }
+
+  return annotated.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+function lineCount(line: AnnotatedLine): number {
+  return Math.min(...line.points.filter(p => p.type === 'line').map(p => p.count));
+}
+
+/**
+ * Render annotated files as an LCOV tracefile. Line blocks become DA records
+ * and branch/expression points become BRDA records.
+ */
+export function toLcov(files: AnnotatedFile[], testName: string = ''): string {
+  const out: string[] = [];
+
+  for (const file of files) {
+    out.push(`TN:${testName}`);
+    out.push(`SF:${file.sourcePath}`);
+
+    const branchRecords: string[] = [];
+    for (const line of file.lines) {
+      const branches = line.points.filter(p => p.type === 'branch');
+      branches.forEach((point, index) => {
+        branchRecords.push(`BRDA:${line.line},0,${index},${point.count}`);
+      });
+    }
+    out.push(...branchRecords);
+    out.push(`BRF:${file.branchesFound}`);
+    out.push(`BRH:${file.branchesHit}`);
+
+    for (const line of file.lines) {
+      if (line.points.some(p => p.type === 'line')) {
+        out.push(`DA:${line.line},${lineCount(line)}`);
+      }
+    }
+    out.push(`LF:${file.linesFound}`);
+    out.push(`LH:${file.linesHit}`);
+    out.push('end_of_record');
+  }
+
+  return out.join('\n') + '\n';
+}
+
+/**
+ * Write the annotated source report in the requested formats. HTML pages get
+ * one `#L<n>` anchor per source line so uncovered points can link to them.
+ */
+export async function writeCoverageReport(
+  files: AnnotatedFile[],
+  coverage: CoverageData,
+  reportDir: string,
+  formats: CoverageReportFormat[],
+  minCount: number = 1
+): Promise<CoverageReport> {
+  await fs.mkdir(reportDir, { recursive: true });
+  const report: CoverageReport = {
+    reportDir,
+    files: files.map(file => ({
+      file: file.file,
+      sourcePath: file.sourcePath,
+      sourceFound: file.sourceFound,
+      linesFound: file.linesFound,
+      linesHit: file.linesHit,
+      branchesFound: file.branchesFound,
+      branchesHit: file.branchesHit,
+    })),
+  };
+
+  if (formats.includes('lcov')) {
+    report.lcovFile = join(reportDir, 'coverage.info');
+    await fs.writeFile(report.lcovFile, toLcov(files));
+  }
+
+  if (formats.includes('html')) {
+    const pageNames = new Set<string>();
+    for (const [index, file] of files.entries()) {
+      const pageName = uniquePageName(file.file, pageNames);
+      const htmlFile = join(reportDir, pageName);
+      await fs.writeFile(htmlFile, renderFilePage(file, minCount));
+      report.files[index].htmlFile = htmlFile;
+    }
+
+    report.htmlIndex = join(reportDir, 'index.html');
+    await fs.writeFile(report.htmlIndex, renderIndexPage(report, coverage));
+
+    const pages = new Map(report.files.map(f => [f.file, f.htmlFile!]));
+    for (const point of coverage.uncoveredPoints || []) {
+      const page = pages.get(point.file);
+      if (page) {
+        point.link = point.line ? `${page}#L${point.line}` : page;
+      }
+    }
+  }
+
+  return report;
+}
+
+function uniquePageName(file: string, used: Set<string>): string {
+  const base = file.replace(/^[./\\]+/, '').replace(/[^A-Za-z0-9_.-]+/g, '_') || basename(file);
+  let name = `${base}.html`;
+  for (let n = 2; used.has(name); n++) {
+    name = `${base}_${n}.html`;
+  }
+  used.add(name);
+  return name;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function ratio(hit: number, found: number): string {
+  return found === 0 ? '-' : `${((hit / found) * 100).toFixed(2)}% (${hit}/${found})`;
+}
+
+const STYLE = `
+body { font-family: sans-serif; margin: 1em; }
+table { border-collapse: collapse; }
+td, th { padding: 0 0.5em; text-align: left; }
+.src td { font-family: monospace; white-space: pre; vertical-align: top; }
+.num { text-align: right; color: #888; }
+.count { text-align: right; }
+.hit { background: #dfd; }
+.miss { background: #fdd; }
+.note { color: #666; font-size: smaller; }
+:target { outline: 2px solid #fa0; }
+`;
+
+function renderFilePage(file: AnnotatedFile, minCount: number): string {
+  const rows = file.lines.map(line => {
+    const cls = line.count === undefined ? '' : line.count >= minCount ? 'hit' : 'miss';
+    const notes = line.points
+      .filter(p => p.type !== 'line')
+      .map(p => `${p.type} ${p.comment || ''}: ${p.count}`.replace(/\s+:/, ':'))
+      .join('; ');
+    return (
+      `<tr id="L${line.line}" class="${cls}">` +
+      `<td class="num"><a href="#L${line.line}">${line.line}</a></td>` +
+      `<td class="count">${line.count === undefined ? '' : line.count}</td>` +
+      `<td>${escapeHtml(line.text)}</td>` +
+      `<td class="note">${escapeHtml(notes)}</td></tr>`
+    );
+  });
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(file.file)} - coverage</title>
+<style>${STYLE}</style></head>
+<body>
+<p><a href="index.html">Index</a></p>
+<h1>${escapeHtml(file.file)}</h1>
+<p>Lines: ${ratio(file.linesHit, file.linesFound)} &middot; Branches: ${ratio(file.branchesHit, file.branchesFound)}</p>
+${file.sourceFound ? '' : `<p class="note">Source not found at ${escapeHtml(file.sourcePath)}</p>`}
+<table class="src">
+${rows.join('\n')}
+</table>
+</body></html>
+`;
+}
+
+function renderIndexPage(report: CoverageReport, coverage: CoverageData): string {
+  const summary = coverage.summary;
+  const fileRows = report.files.map(file => {
+    const page = file.htmlFile ? basename(file.htmlFile) : '';
+    return (
+      `<tr><td><a href="${escapeHtml(page)}">${escapeHtml(file.file)}</a></td>` +
+      `<td>${ratio(file.linesHit, file.linesFound)}</td>` +
+      `<td>${ratio(file.branchesHit, file.branchesFound)}</td></tr>`
+    );
+  });
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Coverage report</title>
+<style>${STYLE}</style></head>
+<body>
+<h1>Coverage report</h1>
+<table>
+<tr><th>Line</th><td>${summary.line}%</td></tr>
+<tr><th>Toggle</th><td>${summary.toggle}%</td></tr>
+<tr><th>Branch</th><td>${summary.branch}%</td></tr>
+<tr><th>Functional</th><td>${summary.functional}%</td></tr>
+<tr><th>Overall</th><td>${summary.overall}%</td></tr>
+</table>
+<h2>Files</h2>
+<table>
+<tr><th>File</th><th>Lines</th><th>Branches</th></tr>
+${fileRows.join('\n')}
+</table>
+</body></html>
+`;
+}
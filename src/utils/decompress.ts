@@ -0,0 +1,148 @@
+/**
+ * Pure TypeScript decoders for the block compression schemes used inside FST
+ * files. zlib/gzip are handled by Node's built-in zlib module.
+ */
+
+/**
+ * Decode a raw LZ4 block (no frame header) into a buffer of `outputLength` bytes.
+ */
+export function lz4Decompress(input: Buffer, outputLength: number): Buffer {
+  const output = Buffer.alloc(outputLength);
+  let ip = 0;
+  let op = 0;
+
+  while (ip < input.length) {
+    const token = input[ip++];
+
+    // Literals
+    let literalLength = token >> 4;
+    if (literalLength === 15) {
+      let extra: number;
+      do {
+        extra = input[ip++];
+        literalLength += extra;
+      } while (extra === 255);
+    }
+    if (ip + literalLength > input.length || op + literalLength > outputLength) {
+      throw new Error('Corrupt LZ4 block: literal run exceeds buffer');
+    }
+    input.copy(output, op, ip, ip + literalLength);
+    ip += literalLength;
+    op += literalLength;
+
+    // The last sequence carries literals only
+    if (ip >= input.length) {
+      break;
+    }
+
+    // Match
+    const offset = input[ip] | (input[ip + 1] << 8);
+    ip += 2;
+    if (offset === 0 || offset > op) {
+      throw new Error('Corrupt LZ4 block: invalid match offset');
+    }
+
+    let matchLength = (token & 0x0f) + 4;
+    if ((token & 0x0f) === 15) {
+      let extra: number;
+      do {
+        extra = input[ip++];
+        matchLength += extra;
+      } while (extra === 255);
+    }
+    if (op + matchLength > outputLength) {
+      throw new Error('Corrupt LZ4 block: match exceeds output length');
+    }
+
+    // Byte-wise copy: matches may overlap their own output
+    let ref = op - offset;
+    for (let i = 0; i < matchLength; i++) {
+      output[op++] = output[ref++];
+    }
+  }
+
+  if (op !== outputLength) {
+    throw new Error(`Corrupt LZ4 block: expected ${outputLength} bytes, got ${op}`);
+  }
+
+  return output;
+}
+
+/**
+ * Decode a FastLZ (level 1 or 2) compressed buffer into `outputLength` bytes.
+ */
+export function fastlzDecompress(input: Buffer, outputLength: number): Buffer {
+  const output = Buffer.alloc(outputLength);
+  const level = (input[0] >> 5) + 1;
+  if (level !== 1 && level !== 2) {
+    throw new Error(`Unsupported FastLZ level ${level}`);
+  }
+
+  const MAX_L2_DISTANCE = 8191;
+  let ip = 0;
+  let op = 0;
+  let ctrl = input[ip++] & 31;
+  let loop = true;
+
+  while (loop) {
+    if (ctrl >= 32) {
+      let length = (ctrl >> 5) - 1;
+      let ofs = (ctrl & 31) << 8;
+      let ref = op - ofs;
+
+      if (level === 1) {
+        if (length === 6) length += input[ip++];
+        ref -= input[ip++];
+      } else {
+        if (length === 6) {
+          let code: number;
+          do {
+            code = input[ip++];
+            length += code;
+          } while (code === 255);
+        }
+        const code = input[ip++];
+        ref -= code;
+
+        // Match from a 16-bit distance
+        if (code === 255 && ofs === 31 << 8) {
+          ofs = (input[ip++] << 8) + input[ip++];
+          ref = op - ofs - MAX_L2_DISTANCE;
+        }
+      }
+
+      ref--;
+      if (ref < 0 || op + length + 3 > outputLength) {
+        throw new Error('Corrupt FastLZ block: invalid back reference');
+      }
+      for (let i = 0; i < length + 3; i++) {
+        output[op++] = output[ref++];
+      }
+
+      if (ip < input.length) {
+        ctrl = input[ip++];
+      } else {
+        loop = false;
+      }
+    } else {
+      const count = ctrl + 1;
+      if (ip + count > input.length || op + count > outputLength) {
+        throw new Error('Corrupt FastLZ block: literal run exceeds buffer');
+      }
+      input.copy(output, op, ip, ip + count);
+      ip += count;
+      op += count;
+
+      loop = ip < input.length;
+      if (loop) {
+        ctrl = input[ip++];
+      }
+    }
+  }
+
+  if (op !== outputLength) {
+    throw new Error(`Corrupt FastLZ block: expected ${outputLength} bytes, got ${op}`);
+  }
+
+  return output;
+}
@@ -0,0 +1,226 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { AstFormat, Netlist, NetlistConnection, NetlistModule, NetlistPort } from './verilator-ast.js';
+
+// Recursive modules would otherwise unroll forever
+const MAX_DEPTH = 256;
+
+export interface InstanceNode {
+  name: string;
+  // Hierarchical path from the top, e.g. top.gen_lane[1].u_fifo
+  path: string;
+  // Elaborated module name; equal to `definition` unless parameters were specialized
+  module: string;
+  definition: string;
+  kind: 'module' | 'interface';
+  file?: string;
+  line?: number;
+  // Resolved values of the overridable parameters
+  parameters: Record<string, string | number | null>;
+  connections: NetlistConnection[];
+  children: InstanceNode[];
+  // Set when a depth limit cut the children off
+  truncated?: number;
+}
+
+export interface DesignSource {
+  format: AstFormat;
+  verilatorVersion?: string;
+  files: string[];
+  // Verilator's AST output, kept for later analyses
+  astFile: string;
+  astMetaFile?: string;
+}
+
+export interface DesignHierarchy {
+  projectId: string;
+  top: string;
+  generatedAt: number;
+  source: DesignSource;
+  instanceCount: number;
+  moduleCount: number;
+  maxDepth: number;
+  root: InstanceNode;
+}
+
+export interface DesignModuleInterface {
+  module: string;
+  definition: string;
+  kind: 'module' | 'interface';
+  file?: string;
+  line?: number;
+  instanceCount: number;
+  ports: NetlistPort[];
+}
+
+export interface DesignModuleParameters {
+  module: string;
+  definition: string;
+  parameters: { name: string; value: string | number | null; local: boolean }[];
+  instances: string[];
+}
+
+export type DesignResourceType = 'hierarchy' | 'interface' | 'parameter';
+
+/**
+ * Expand the netlist below `top` into a tree of instances.
+ */
+export function buildInstanceTree(netlist: Netlist, top: string): InstanceNode {
+  const module = netlist.modules.get(top);
+  if (!module) {
+    throw new Error(`Top module ${top} is not in the elaborated design (found: ${netlist.tops.join(', ') || 'none'})`);
+  }
+
+  const build = (module: NetlistModule, name: string, path: string, connections: NetlistConnection[], depth: number): InstanceNode => {
+    const node: InstanceNode = {
+      name,
+      path,
+      module: module.name,
+      definition: module.definition,
+      kind: module.kind,
+      file: module.file,
+      line: module.line,
+      parameters: Object.fromEntries(
+        module.parameters.filter(p => !p.local).map(p => [p.name, p.value ?? null])
+      ),
+      connections,
+      children: [],
+    };
+
+    for (const cell of module.cells) {
+      const child = netlist.modules.get(cell.module);
+      const childPath = [path, ...cell.scope, cell.name].join('.');
+      if (!child) {
+        // Blackboxed or library cells
+        node.children.push({
+          name: cell.name,
+          path: childPath,
+          module: cell.module,
+          definition: cell.module,
+          kind: 'module',
+          file: cell.file,
+          line: cell.line,
+          parameters: {},
+          connections: cell.connections,
+          children: [],
+        });
+      } else if (depth >= MAX_DEPTH) {
+        node.truncated = module.cells.length;
+        break;
+      } else {
+        node.children.push(build(child, cell.name, childPath, cell.connections, depth + 1));
+      }
+    }
+    return node;
+  };
+
+  return build(module, module.name, module.name, [], 0);
+}
+
+export function countInstances(node: InstanceNode): { instances: number; depth: number } {
+  let instances = 1;
+  let depth = 0;
+  for (const child of node.children) {
+    const counts = countInstances(child);
+    instances += counts.instances;
+    depth = Math.max(depth, counts.depth + 1);
+  }
+  return { instances, depth };
+}
+
+/**
+ * Find an instance by hierarchical path. The top module's name may be left
+ * off, so `u_core.u_alu` and `top.u_core.u_alu` both work.
+ */
+export function findInstance(root: InstanceNode, path: string): InstanceNode | undefined {
+  const target = path.startsWith(`${root.path}.`) || path === root.path ? path : `${root.path}.${path}`;
+  const search = (node: InstanceNode): InstanceNode | undefined => {
+    if (node.path === target) return node;
+    for (const child of node.children) {
+      if (target === child.path || target.startsWith(`${child.path}.`)) {
+        return search(child);
+      }
+    }
+    return undefined;
+  };
+  return search(root);
+}
+
+/**
+ * Copy of the tree cut off `depth` levels below `node`; cut nodes record how
+ * many children they had in `truncated`.
+ */
+export function limitDepth(node: InstanceNode, depth: number): InstanceNode {
+  if (depth <= 0 && node.children.length > 0) {
+    return { ...node, children: [], truncated: node.children.length };
+  }
+  return { ...node, children: node.children.map(child => limitDepth(child, depth - 1)) };
+}
+
+/**
+ * Instances of each module, keyed by elaborated module name.
+ */
+export function instancesByModule(root: InstanceNode): Map<string, string[]> {
+  const instances = new Map<string, string[]>();
+  const visit = (node: InstanceNode) => {
+    instances.set(node.module, [...(instances.get(node.module) || []), node.path]);
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return instances;
+}
+
+/**
+ * Write the design:// resources of a project: hierarchy.json, interface.json
+ * and parameter.json. Only modules under the top are included.
+ */
+export async function writeDesignResources(
+  designDir: string,
+  netlist: Netlist,
+  hierarchy: DesignHierarchy
+): Promise<Record<DesignResourceType, string>> {
+  const instances = instancesByModule(hierarchy.root);
+  const modules = [...instances.keys()]
+    .map(name => netlist.modules.get(name))
+    .filter((module): module is NetlistModule => module !== undefined);
+
+  const interfaces: DesignModuleInterface[] = modules.map(module => ({
+    module: module.name,
+    definition: module.definition,
+    kind: module.kind,
+    file: module.file,
+    line: module.line,
+    instanceCount: instances.get(module.name)!.length,
+    ports: module.ports,
+  }));
+
+  const parameters: DesignModuleParameters[] = modules
+    .filter(module => module.parameters.length > 0)
+    .map(module => ({
+      module: module.name,
+      definition: module.definition,
+      parameters: module.parameters.map(p => ({ name: p.name, value: p.value ?? null, local: p.local })),
+      instances: instances.get(module.name)!,
+    }));
+
+  const common = { projectId: hierarchy.projectId, top: hierarchy.top, generatedAt: hierarchy.generatedAt };
+  const files: Record<DesignResourceType, string> = {
+    hierarchy: join(designDir, 'hierarchy.json'),
+    interface: join(designDir, 'interface.json'),
+    parameter: join(designDir, 'parameter.json'),
+  };
+
+  await fs.mkdir(designDir, { recursive: true });
+  await fs.writeFile(files.hierarchy, JSON.stringify(hierarchy, null, 2));
+  await fs.writeFile(files.interface, JSON.stringify({ ...common, modules: interfaces }, null, 2));
+  await fs.writeFile(files.parameter, JSON.stringify({ ...common, modules: parameters }, null, 2));
+  return files;
+}
+
+export async function readDesignHierarchy(designDir: string): Promise<DesignHierarchy | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(join(designDir, 'hierarchy.json'), 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
@@ -7,46 +7,96 @@ export interface ParsedError {
   type: 'error' | 'warning' | 'info';
   message: string;
   code?: string;
+  // Source excerpt, caret and other indented lines printed after the diagnostic
+  context?: string[];
+  notes?: string[];
+  helpUrl?: string;
 }
 
 export class ErrorHandler {
   static parseVerilatorOutput(output: string): ParsedError[] {
     const errors: ParsedError[] = [];
-    const lines = output.split('\n');
-
-    // Verilator error format:
-    // %Error: filename.v:line:column: message
-    // %Warning: filename.v:line: message
-    const errorRegex = /^%(\w+):\s*(.+?):(\d+)(?::(\d+))?\s*:\s*(.+)$/;
-    const simpleErrorRegex = /^%(\w+):\s*(.+)$/;
+    const lines = output.split(/\r?\n/);
+
+    // Verilator diagnostic format:
+    // %Warning-WIDTH: filename.v:line:column: message
+    //                                       : ... note: In instance 'top'
+    //    12 |   assign x = 5'h1f;
+    //       |              ^~~~~
+    //                 ... For warning description see https://verilator.org/warn/WIDTH?v=5.018
+    // Runtime messages may carry a "[time]" prefix; older versions omit the column.
+    const headerRegex = /^(?:\[[^\]]*\]\s*)?%(\w+)(?:-(\w+))?:\s*(.*)$/;
+    const locationRegex = /^(.+?):(\d+)(?::(\d+))?:\s*(.*)$/;
+    const helpRegex = /\.\.\.\s*For (?:warning|error) description see\s+(\S+)/;
+    const noteRegex = /^\s*:?\s*\.\.\.\s*(?:note:\s*)?(.+)$/;
+
+    let current: ParsedError | null = null;
 
     for (const line of lines) {
-      let match = errorRegex.exec(line);
-      if (match) {
-        const [, type, file, lineNum, column, message] = match;
-        errors.push({
-          type: type.toLowerCase() as 'error' | 'warning' | 'info',
-          file,
-          line: parseInt(lineNum, 10),
-          column: column ? parseInt(column, 10) : undefined,
-          message,
-        });
+      const header = headerRegex.exec(line);
+      if (header) {
+        const [, severity, code, rest] = header;
+        current = null;
+
+        // The closing summary repeats the count, not a diagnostic
+        if (/^Exiting due to \d+/.test(rest)) {
+          continue;
+        }
+
+        const error: ParsedError = {
+          type: this.severityType(severity),
+          message: rest,
+          code,
+        };
+        const location = locationRegex.exec(rest);
+        if (location) {
+          const [, file, lineNum, column, message] = location;
+          error.file = file;
+          error.line = parseInt(lineNum, 10);
+          error.column = column ? parseInt(column, 10) : undefined;
+          error.message = message;
+        }
+
+        errors.push(error);
+        current = error;
+        continue;
+      }
+
+      // Continuation lines are indented; anything else ends the diagnostic
+      if (!current || !/^\s+\S/.test(line)) {
+        current = null;
+        continue;
+      }
+
+      current.context = [...(current.context || []), line];
+
+      const help = helpRegex.exec(line);
+      if (help) {
+        current.helpUrl = help[1];
         continue;
       }
 
-      match = simpleErrorRegex.exec(line);
-      if (match) {
-        const [, type, message] = match;
-        errors.push({
-          type: type.toLowerCase() as 'error' | 'warning' | 'info',
-          message,
-        });
+      const note = noteRegex.exec(line);
+      if (note) {
+        current.notes = [...(current.notes || []), note[1].trim()];
       }
     }
 
     return errors;
   }
 
+  private static severityType(severity: string): ParsedError['type'] {
+    switch (severity.toLowerCase()) {
+      case 'error':
+      case 'fatal':
+        return 'error';
+      case 'warning':
+        return 'warning';
+      default:
+        return 'info';
+    }
+  }
+
   static extractWarnings(output: string): string[] {
     const warnings: string[] = [];
     const parsed = this.parseVerilatorOutput(output);
@@ -56,7 +106,8 @@ export class ErrorHandler {
         const location = error.file
           ? `${error.file}:${error.line}${error.column ? `:${error.column}` : ''}`
           : '';
-        warnings.push(location ? `${location}: ${error.message}` : error.message);
+        const message = error.code ? `[${error.code}] ${error.message}` : error.message;
+        warnings.push(location ? `${location}: ${message}` : message);
       }
     }
 
@@ -67,7 +118,7 @@ export class ErrorHandler {
     const location = error.file
       ? `${error.file}:${error.line}${error.column ? `:${error.column}` : ''}`
       : '';
-    const prefix = error.type.charAt(0).toUpperCase() + error.type.slice(1);
+    const prefix = error.type.charAt(0).toUpperCase() + error.type.slice(1) + (error.code ? `-${error.code}` : '');
     return location ? `${prefix}: ${location}: ${error.message}` : `${prefix}: ${error.message}`;
   }
 
@@ -99,7 +150,7 @@ export class ErrorHandler {
     ];
 
     return error.type === 'warning' && 
-           recoverablePatterns.some(pattern => pattern.test(error.message));
+           recoverablePatterns.some(pattern => pattern.test(error.code || error.message));
   }
 
   static categorizeErrors(errors: ParsedError[]): {
@@ -116,7 +167,10 @@ export class ErrorHandler {
     };
 
     for (const error of errors) {
-      if (error.message.match(/syntax|parse|unexpected/i)) {
+      // Coded warnings (WIDTH, UNUSED, CASEINCOMPLETE, ...) are all lint findings
+      if (error.type === 'warning' && error.code) {
+        categorized.lint.push(error);
+      } else if (error.message.match(/syntax|parse|unexpected/i)) {
         categorized.syntax.push(error);
       } else if (error.message.match(/lint|style|unused|width/i)) {
         categorized.lint.push(error);
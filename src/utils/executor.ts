@@ -1,11 +1,41 @@
-import { spawn } from 'child_process';
+import { ChildProcess, spawn } from 'child_process';
 import { logger } from './logger.js';
+import { ProgressListener, ProgressReporter, ProgressTracker } from './progress.js';
 
 export interface CommandOptions {
   timeout?: number;
   cwd?: string;
   env?: NodeJS.ProcessEnv;
   maxBuffer?: number;
+  // Receives phase, percentage and recent output while the command runs
+  onProgress?: ProgressListener;
+  // Infers the phase from output; without one every update reports 'running'
+  progressTracker?: ProgressTracker;
+  // Aborting kills the command and everything it started
+  signal?: AbortSignal;
+  // Receives stdout and stderr as they stream
+  onOutput?: (chunk: string) => void;
+}
+
+export const CANCELLED_MESSAGE = 'Command cancelled';
+
+/**
+ * Signal the child's whole process group, so `make` and the compilers it
+ * started go down with it. Commands are spawned as group leaders for this.
+ */
+function killProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) {
+    return;
+  }
+  try {
+    if (process.platform === 'win32') {
+      spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+    } else {
+      process.kill(-child.pid, signal);
+    }
+  } catch {
+    // The group is already gone
+  }
 }
 
 export interface CommandResult {
@@ -29,32 +59,54 @@ export class CommandExecutor {
       maxBuffer = 10 * 1024 * 1024, // 10MB default
     } = options;
 
+    const progress = options.onProgress
+      ? new ProgressReporter(options.onProgress, options.progressTracker || { phase: 'running', update: () => undefined })
+      : undefined;
+
     return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new Error(CANCELLED_MESSAGE));
+        return;
+      }
+
       const child = spawn(command, args, {
         cwd,
         env,
         shell: false,
+        detached: process.platform !== 'win32',
       });
+      progress?.start();
 
       let stdout = '';
       let stderr = '';
       let timedOut = false;
+      let cancelled = false;
+
+      // SIGTERM first so make can clean up, then SIGKILL whatever is left
+      const terminate = () => {
+        killProcessTree(child, 'SIGTERM');
+        setTimeout(() => killProcessTree(child, 'SIGKILL'), 5000).unref();
+      };
 
       const timer = setTimeout(() => {
         timedOut = true;
-        child.kill('SIGTERM');
-        setTimeout(() => {
-          if (!child.killed) {
-            child.kill('SIGKILL');
-          }
-        }, 5000);
+        terminate();
       }, timeout);
 
+      const onAbort = () => {
+        cancelled = true;
+        logger.info(`Cancelling ${command}`);
+        terminate();
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
       child.stdout.on('data', (data) => {
         const chunk = data.toString();
         stdout += chunk;
+        progress?.write('stdout', chunk);
+        options.onOutput?.(chunk);
         if (stdout.length > maxBuffer) {
-          child.kill('SIGTERM');
+          killProcessTree(child, 'SIGTERM');
           reject(new Error(`stdout exceeded buffer limit of ${maxBuffer} bytes`));
         }
       });
@@ -62,21 +114,30 @@ export class CommandExecutor {
       child.stderr.on('data', (data) => {
         const chunk = data.toString();
         stderr += chunk;
+        progress?.write('stderr', chunk);
+        options.onOutput?.(chunk);
         if (stderr.length > maxBuffer) {
-          child.kill('SIGTERM');
+          killProcessTree(child, 'SIGTERM');
           reject(new Error(`stderr exceeded buffer limit of ${maxBuffer} bytes`));
         }
       });
 
       child.on('error', (error) => {
         clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
         reject(error);
       });
 
       child.on('close', (exitCode) => {
         clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
         const duration = Date.now() - startTime;
 
+        if (cancelled) {
+          reject(new Error(CANCELLED_MESSAGE));
+          return;
+        }
+
         if (timedOut) {
           reject(new Error(`Command timed out after ${timeout}ms`));
           return;
@@ -105,6 +166,9 @@ export class CommandExecutor {
         return await this.execute(command, args, options);
       } catch (error) {
         lastError = error as Error;
+        if (options.signal?.aborted) {
+          throw lastError;
+        }
         logger.warn(`Command failed on attempt ${attempt}/${maxRetries}:`, error);
 
         if (attempt < maxRetries) {
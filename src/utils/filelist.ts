@@ -0,0 +1,224 @@
+import { promises as fs } from 'fs';
+import { dirname, isAbsolute, resolve } from 'path';
+import { glob, hasMagic } from 'glob';
+import { ResolvedSources } from '../types/index.js';
+
+export interface FilelistOptions {
+  // Directory that -f filelists and their relative paths resolve against
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Expand $VAR, ${VAR} and $(VAR) references. Unset variables are an error
+ * rather than an empty string, since they usually mean a missing setup script.
+ */
+export function expandEnv(text: string, env: NodeJS.ProcessEnv, where: string): string {
+  return text.replace(/\$(?:\{(\w+)\}|\((\w+)\)|(\w+))/g, (_, braced, paren, bare) => {
+    const name = braced || paren || bare;
+    const value = env[name];
+    if (value === undefined) {
+      throw new Error(`${where}: environment variable ${name} is not set`);
+    }
+    return value;
+  });
+}
+
+// Verilator options whose value is the next argument, without their leading
+// dashes since Verilator accepts either - or --
+const OPTIONS_WITH_VALUE = new Set([
+  'top-module', 'top', 'o', 'Mdir', 'prefix', 'mod-prefix', 'CFLAGS', 'LDFLAGS', 'MAKEFLAGS', 'compiler',
+  'compiler-include', 'FI', 'G', 'timescale', 'timescale-override', 'default-language', 'language',
+  'x-assign', 'x-initial', 'threads', 'trace-threads', 'build-jobs', 'output-split', 'output-split-cfuncs',
+  'output-split-ctrace', 'trace-depth', 'trace-max-array', 'trace-max-width', 'unroll-count', 'unroll-stmts',
+  'inline-mult', 'max-num-width', 'coverage-max-width', 'converge-limit', 'error-limit', 'reloop-limit',
+  'clk', 'no-clk', 'lib-create', 'l2-name', 'pipe-filter', 'pins-bv', 'protect-key', 'protect-lib',
+  'main-top-name', 'hierarchical-threads', 'unused-regexp', 'waiver-output', 'xml-output',
+  'json-only-output', 'json-only-meta-output', 'comp-limit-members', 'comp-limit-parens', 'comp-limit-syms',
+  'instr-count-dpi', 'public-depth',
+]);
+
+/**
+ * Whether the option `token` consumes the next argument as its value.
+ * `-j` takes an optional job count.
+ */
+function takesValue(token: string, next: string | undefined): boolean {
+  const name = token.replace(/^--?/, '');
+  if (name === 'j') {
+    return next !== undefined && /^\d+$/.test(next);
+  }
+  return OPTIONS_WITH_VALUE.has(name);
+}
+
+function stripComments(content: string): string {
+  return content
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .split(/\r?\n/)
+    .map(line => (/^\s*#/.test(line) ? '' : line.replace(/\/\/.*$/, '')))
+    .join('\n');
+}
+
+function tokenize(content: string): string[] {
+  const tokens: string[] = [];
+  const tokenRegex = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match;
+  while ((match = tokenRegex.exec(content)) !== null) {
+    tokens.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return tokens;
+}
+
+export function emptySources(): ResolvedSources {
+  return {
+    files: [],
+    includes: [],
+    defines: {},
+    libraryFiles: [],
+    libraryDirs: [],
+    libraryExtensions: [],
+    flags: [],
+    filelists: [],
+  };
+}
+
+/**
+ * Parse Verilator/EDA-style filelists into a resolved source set. Handles
+ * nested `-f` (paths relative to the working directory) and `-F` (paths
+ * relative to the filelist), `+incdir+`, `+define+`, `-I`, `-D`, `-v`, `-y`,
+ * `+libext+` and environment variables. Unrecognized options are kept in
+ * `flags`, with their value when they take one, and passed through to
+ * Verilator.
+ */
+export async function parseFilelists(
+  filelists: string[],
+  options: FilelistOptions = {}
+): Promise<ResolvedSources> {
+  const cwd = options.cwd || process.cwd();
+  const env = options.env || process.env;
+  const sources = emptySources();
+  const seenFiles = new Set<string>();
+
+  const addUnique = (list: string[], value: string) => {
+    if (!list.includes(value)) list.push(value);
+  };
+
+  const readFilelist = async (path: string, baseDir: string, stack: string[]) => {
+    if (stack.includes(path)) {
+      throw new Error(`Filelist cycle: ${[...stack, path].join(' -> ')}`);
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(path, 'utf-8');
+    } catch {
+      const from = stack.length > 0 ? ` (included from ${stack[stack.length - 1]})` : '';
+      throw new Error(`Cannot read filelist ${path}${from}`);
+    }
+    addUnique(sources.filelists, path);
+
+    const tokens = tokenize(stripComments(content)).map(t => expandEnv(t, env, path));
+    const at = (p: string) => (isAbsolute(p) ? p : resolve(baseDir, p));
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const next = () => {
+        const value = tokens[++i];
+        if (value === undefined) {
+          throw new Error(`${path}: ${token} expects an argument`);
+        }
+        return value;
+      };
+
+      if (token === '-f') {
+        const nested = at(next());
+        await readFilelist(nested, cwd, [...stack, path]);
+      } else if (token === '-F') {
+        const nested = at(next());
+        await readFilelist(nested, dirname(nested), [...stack, path]);
+      } else if (token.startsWith('+incdir+')) {
+        token.slice('+incdir+'.length).split('+').filter(Boolean).forEach(dir => addUnique(sources.includes, at(dir)));
+      } else if (token.startsWith('+define+')) {
+        for (const define of token.slice('+define+'.length).split('+').filter(Boolean)) {
+          const [name, ...value] = define.split('=');
+          sources.defines[name] = value.length > 0 ? value.join('=') : '';
+        }
+      } else if (token.startsWith('+libext+')) {
+        token.slice('+libext+'.length).split('+').filter(Boolean).forEach(ext => addUnique(sources.libraryExtensions, ext));
+      } else if (token === '-I' || token.startsWith('-I')) {
+        addUnique(sources.includes, at(token === '-I' ? next() : token.slice(2)));
+      } else if (token === '-D' || token.startsWith('-D')) {
+        const [name, ...value] = (token === '-D' ? next() : token.slice(2)).split('=');
+        sources.defines[name] = value.length > 0 ? value.join('=') : '';
+      } else if (token === '-v') {
+        addUnique(sources.libraryFiles, at(next()));
+      } else if (token === '-y') {
+        addUnique(sources.libraryDirs, at(next()));
+      } else if (token.startsWith('-') && takesValue(token, tokens[i + 1])) {
+        sources.flags.push(token, next());
+      } else if (token.startsWith('-') || token.startsWith('+')) {
+        sources.flags.push(token);
+      } else {
+        const file = at(token);
+        if (!seenFiles.has(file)) {
+          seenFiles.add(file);
+          sources.files.push(file);
+        }
+      }
+    }
+  };
+
+  for (const filelist of filelists) {
+    await readFilelist(resolve(cwd, filelist), cwd, []);
+  }
+
+  return sources;
+}
+
+/**
+ * Sources named by a tool's `files` and `filelists` parameters: the
+ * filelists' sources, then `files` with glob patterns expanded. Paths are
+ * absolute and each file is listed once.
+ */
+export async function resolveSources(
+  files: string[],
+  filelists: string[] = [],
+  options: FilelistOptions = {}
+): Promise<ResolvedSources> {
+  const cwd = options.cwd || process.cwd();
+  const sources = filelists.length > 0 ? await parseFilelists(filelists, options) : emptySources();
+
+  for (const pattern of files) {
+    const matches = hasMagic(pattern) ? (await glob(pattern, { cwd, absolute: true })).sort() : [pattern];
+    for (const file of matches.map(match => resolve(cwd, match))) {
+      if (!sources.files.includes(file)) {
+        sources.files.push(file);
+      }
+    }
+  }
+  return sources;
+}
+
+/**
+ * Verilator arguments for the parts of a resolved source set other than the
+ * source files themselves.
+ */
+export function sourceArguments(sources: ResolvedSources): string[] {
+  const args: string[] = [];
+  for (const dir of sources.includes) {
+    args.push('-I' + dir);
+  }
+  for (const [name, value] of Object.entries(sources.defines)) {
+    args.push(value === '' ? `-D${name}` : `-D${name}=${value}`);
+  }
+  for (const dir of sources.libraryDirs) {
+    args.push('-y', dir);
+  }
+  for (const file of sources.libraryFiles) {
+    args.push('-v', file);
+  }
+  if (sources.libraryExtensions.length > 0) {
+    args.push(`+libext+${sources.libraryExtensions.join('+')}`);
+  }
+  args.push(...sources.flags);
+  return args;
+}
@@ -0,0 +1,652 @@
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import { FileHandle } from 'fs/promises';
+import { createGunzip, gunzipSync, inflateSync } from 'zlib';
+import { pipeline } from 'stream/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WaveformData } from '../types/index.js';
+import {
+  SignalAccumulator,
+  TimeUnit,
+  WaveformHeader,
+  WaveformReader,
+  WaveformSignalInfo,
+} from './waveform-reader.js';
+import { fastlzDecompress, lz4Decompress } from './decompress.js';
+
+const FST_BLOCK = {
+  HDR: 0,
+  VCDATA: 1,
+  BLACKOUT: 2,
+  GEOM: 3,
+  HIER: 4,
+  VCDATA_DYN_ALIAS: 5,
+  HIER_LZ4: 6,
+  HIER_LZ4DUO: 7,
+  VCDATA_DYN_ALIAS2: 8,
+  ZWRAPPER: 254,
+  SKIP: 255,
+} as const;
+
+const FST_SCOPE = 254;
+const FST_UPSCOPE = 255;
+const FST_ATTR_BEGIN = 252;
+const FST_ATTR_END = 253;
+
+// Indexed by FST_VT_* code, named after the equivalent VCD $var types
+const VAR_TYPE_NAMES = [
+  'event', 'integer', 'parameter', 'real', 'real_parameter', 'reg', 'supply0',
+  'supply1', 'time', 'tri', 'triand', 'trior', 'trireg', 'tri0', 'tri1', 'wand',
+  'wire', 'wor', 'port', 'sparray', 'realtime', 'string', 'bit', 'logic', 'int',
+  'shortint', 'longint', 'byte', 'enum', 'shortreal',
+];
+
+const REAL_TYPES = new Set(['real', 'real_parameter', 'realtime', 'shortreal']);
+
+// Encoding of non-0/1 scalar values in single-bit value change streams
+const SCALAR_VALUES = 'xzhuwl-?';
+
+const HEADER_DOUBLE = 2.7182818284590452354;
+
+interface FstBlock {
+  type: number;
+  position: number;
+  length: number;
+  start: number;
+  end: number;
+}
+
+interface FstLayout {
+  header: WaveformHeader;
+  startTime: number;
+  endTime: number;
+  littleEndian: boolean;
+  lengths: number[];
+  realHandles: Set<number>;
+  blocks: FstBlock[];
+}
+
+interface FstValueChange {
+  time: number;
+  raw: string;
+}
+
+/**
+ * Reader for GTKWave's Fast Signal Trace format, as written by Verilator's
+ * `--trace-fst`. Blocks are decoded in-process (zlib, gzip, LZ4 and FastLZ);
+ * only the value-change chains of the requested signals are read from disk.
+ */
+export class FstParser implements WaveformReader {
+  private layout: FstLayout | null = null;
+
+  constructor(private filePath: string) {}
+
+  async readHeader(): Promise<WaveformHeader> {
+    return (await this.withFile(handle => this.readLayout(handle))).header;
+  }
+
+  async readValues(
+    signals: WaveformSignalInfo[],
+    timeRange?: [number, number],
+    maxValues: number = 10000
+  ): Promise<WaveformData> {
+    return this.withFile(async (handle) => {
+      const layout = await this.readLayout(handle);
+      const [start, end] = timeRange || [layout.startTime, Number.MAX_SAFE_INTEGER];
+      const accumulators = signals.map(info => new SignalAccumulator(info, start, end, maxValues));
+      const handles = new Set(signals.map(s => parseInt(s.id, 10) - 1));
+
+      // Every block opens with a frame holding the full state, so decoding can
+      // begin at the last block that starts at or before the window
+      let first = 0;
+      for (let i = 0; i < layout.blocks.length; i++) {
+        if (layout.blocks[i].start <= start) first = i;
+      }
+
+      for (let i = first; i < layout.blocks.length; i++) {
+        const block = layout.blocks[i];
+        if (block.start > end) break;
+
+        // Later frames repeat the values the previous blocks ended with
+        const changes = await this.readBlock(handle, layout, block, handles, i === first);
+        for (const accumulator of accumulators) {
+          for (const change of changes.get(parseInt(accumulator.info.id, 10) - 1) || []) {
+            accumulator.push(change.time, change.raw);
+          }
+        }
+      }
+
+      return {
+        signals: accumulators.map(a => a.finish()),
+        timeRange: [start, timeRange ? end : layout.endTime],
+        timeUnit: layout.header.timescale,
+      };
+    });
+  }
+
+  private async withFile<T>(action: (handle: FileHandle) => Promise<T>): Promise<T> {
+    let path = this.filePath;
+    let tempDir: string | undefined;
+
+    const probe = await fs.open(path, 'r');
+    try {
+      const first = Buffer.alloc(1);
+      await probe.read(first, 0, 1, 0);
+      if (first[0] === FST_BLOCK.ZWRAPPER) {
+        // Whole-file gzip wrapper: inflate to a scratch file so blocks stay seekable
+        const length = await this.readU64(probe, 1);
+        tempDir = await fs.mkdtemp(join(tmpdir(), 'verilator-mcp-fst-'));
+        path = join(tempDir, 'unwrapped.fst');
+        await pipeline(
+          createReadStream(this.filePath, { start: 17, end: length }),
+          createGunzip(),
+          createWriteStream(path)
+        );
+      }
+    } finally {
+      await probe.close();
+    }
+
+    const handle = await fs.open(path, 'r');
+    try {
+      return await action(handle);
+    } finally {
+      await handle.close();
+      if (tempDir) {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  private async readLayout(handle: FileHandle): Promise<FstLayout> {
+    if (this.layout) {
+      return this.layout;
+    }
+
+    const { size } = await handle.stat();
+    const blocks: FstBlock[] = [];
+    let headerData: Buffer | null = null;
+    let hierarchy: Buffer | null = null;
+    let geometry: Buffer | null = null;
+    let position = 0;
+
+    while (position + 9 <= size) {
+      const prefix = await this.read(handle, position, 9);
+      const type = prefix[0];
+      const length = Number(prefix.readBigUInt64BE(1));
+      const sectionStart = position + 1;
+      if (length === 0) break;
+
+      switch (type) {
+        case FST_BLOCK.HDR:
+          headerData = await this.read(handle, sectionStart + 8, length - 8);
+          break;
+        case FST_BLOCK.VCDATA:
+        case FST_BLOCK.VCDATA_DYN_ALIAS:
+        case FST_BLOCK.VCDATA_DYN_ALIAS2: {
+          const times = await this.read(handle, sectionStart + 8, 16);
+          blocks.push({
+            type,
+            position: sectionStart,
+            length,
+            start: Number(times.readBigUInt64BE(0)),
+            end: Number(times.readBigUInt64BE(8)),
+          });
+          break;
+        }
+        case FST_BLOCK.GEOM:
+          geometry = await this.readGeometry(handle, sectionStart, length);
+          break;
+        case FST_BLOCK.HIER:
+        case FST_BLOCK.HIER_LZ4:
+        case FST_BLOCK.HIER_LZ4DUO:
+          hierarchy = await this.readHierarchyBlock(handle, type, sectionStart, length);
+          break;
+        default:
+          // Blackout and skip blocks carry nothing needed for value queries
+          break;
+      }
+
+      position = sectionStart + length;
+    }
+
+    if (!headerData) {
+      throw new Error(`No FST header block found in ${this.filePath}`);
+    }
+    if (!hierarchy || !geometry) {
+      throw new Error(`FST file ${this.filePath} is missing its hierarchy or geometry block`);
+    }
+
+    const littleEndian = headerData.readDoubleLE(16) === HEADER_DOUBLE;
+    const exponent = headerData.readInt8(64);
+    const version = this.cString(headerData, 65, 128);
+    const date = this.cString(headerData, 193, 119);
+
+    const unitExponent = Math.min(0, Math.max(-15, Math.floor(exponent / 3) * 3));
+    const units: Record<number, TimeUnit> = { 0: 's', [-3]: 'ms', [-6]: 'us', [-9]: 'ns', [-12]: 'ps', [-15]: 'fs' };
+    const timeUnit = units[unitExponent];
+    const timeMagnitude = Math.pow(10, exponent - unitExponent);
+
+    const { lengths, realHandles } = this.parseGeometry(geometry);
+
+    this.layout = {
+      header: {
+        timescale: `${timeMagnitude}${timeUnit}`,
+        timeUnit,
+        timeMagnitude,
+        signals: this.parseHierarchy(hierarchy),
+        date: date || undefined,
+        version: version || undefined,
+      },
+      startTime: Number(headerData.readBigUInt64BE(0)),
+      endTime: Number(headerData.readBigUInt64BE(8)),
+      littleEndian,
+      lengths,
+      realHandles,
+      blocks: blocks.sort((a, b) => a.start - b.start),
+    };
+    return this.layout;
+  }
+
+  private async readHierarchyBlock(
+    handle: FileHandle,
+    type: number,
+    sectionStart: number,
+    length: number
+  ): Promise<Buffer> {
+    const data = await this.read(handle, sectionStart + 8, length - 8);
+    const uncompressedLength = Number(data.readBigUInt64BE(0));
+
+    if (type === FST_BLOCK.HIER) {
+      return gunzipSync(data.subarray(8));
+    }
+    if (type === FST_BLOCK.HIER_LZ4) {
+      return lz4Decompress(data.subarray(8), uncompressedLength);
+    }
+
+    // LZ4DUO: the hierarchy was LZ4-compressed twice
+    const [onceLength, skip] = this.varint(data, 8);
+    const once = lz4Decompress(data.subarray(8 + skip), onceLength);
+    return lz4Decompress(once, uncompressedLength);
+  }
+
+  private async readGeometry(handle: FileHandle, sectionStart: number, length: number): Promise<Buffer> {
+    const data = await this.read(handle, sectionStart + 8, length - 8);
+    const uncompressedLength = Number(data.readBigUInt64BE(0));
+    const payload = data.subarray(16);
+    return payload.length === uncompressedLength ? payload : inflateSync(payload);
+  }
+
+  private parseGeometry(data: Buffer): { lengths: number[]; realHandles: Set<number> } {
+    const lengths: number[] = [];
+    const realHandles = new Set<number>();
+    let pos = 0;
+
+    while (pos < data.length) {
+      const [value, skip] = this.varint(data, pos);
+      pos += skip;
+      if (value === 0) {
+        realHandles.add(lengths.length);
+        lengths.push(8);
+      } else {
+        // 0xFFFFFFFF marks a zero-width (variable length) signal
+        lengths.push(value === 0xffffffff ? 0 : value);
+      }
+    }
+
+    return { lengths, realHandles };
+  }
+
+  private parseHierarchy(data: Buffer): WaveformSignalInfo[] {
+    const signals: WaveformSignalInfo[] = [];
+    const scopes: string[] = [];
+    let maxHandle = 0;
+    let pos = 0;
+
+    const readString = (): string => {
+      const end = data.indexOf(0, pos);
+      const value = data.toString('utf-8', pos, end);
+      pos = end + 1;
+      return value;
+    };
+
+    while (pos < data.length) {
+      const tag = data[pos++];
+
+      if (tag === FST_SCOPE) {
+        pos++; // scope type
+        scopes.push(readString());
+        readString(); // component
+      } else if (tag === FST_UPSCOPE) {
+        scopes.pop();
+      } else if (tag === FST_ATTR_BEGIN) {
+        pos += 2; // attribute type and subtype
+        readString();
+        pos += this.varint(data, pos)[1];
+      } else if (tag === FST_ATTR_END) {
+        continue;
+      } else if (tag < VAR_TYPE_NAMES.length) {
+        pos++; // direction
+        const fullName = readString();
+        const [length, lengthSkip] = this.varint(data, pos);
+        pos += lengthSkip;
+        const [alias, aliasSkip] = this.varint(data, pos);
+        pos += aliasSkip;
+
+        const handle = alias === 0 ? ++maxHandle : alias;
+        const varType = VAR_TYPE_NAMES[tag];
+        const reference = fullName.replace(/\s+\[[^\]]*\]$/, '');
+        const scope = scopes.join('.');
+
+        signals.push({
+          id: String(handle),
+          name: scope ? `${scope}.${reference}` : reference,
+          scope,
+          reference,
+          width: REAL_TYPES.has(varType) ? 64 : length,
+          varType,
+        });
+      } else {
+        throw new Error(`Unknown FST hierarchy tag ${tag} at offset ${pos - 1}`);
+      }
+    }
+
+    return signals;
+  }
+
+  private async readBlock(
+    handle: FileHandle,
+    layout: FstLayout,
+    block: FstBlock,
+    wanted: Set<number>,
+    withFrame: boolean
+  ): Promise<Map<number, FstValueChange[]>> {
+    const changes = new Map<number, FstValueChange[]>();
+    const sectionEnd = block.position + block.length;
+
+    // Time table lives at the very end of the block
+    const trailer = await this.read(handle, sectionEnd - 24, 24);
+    const timeUncompressed = Number(trailer.readBigUInt64BE(0));
+    const timeCompressed = Number(trailer.readBigUInt64BE(8));
+    const timeItems = Number(trailer.readBigUInt64BE(16));
+    let timeData = await this.read(handle, sectionEnd - 24 - timeCompressed, timeCompressed);
+    if (timeCompressed !== timeUncompressed) {
+      timeData = inflateSync(timeData);
+    }
+
+    const times: number[] = [];
+    let time = 0;
+    for (let i = 0, pos = 0; i < timeItems; i++) {
+      const [delta, skip] = this.varint(timeData, pos);
+      pos += skip;
+      time += delta;
+      times.push(time);
+    }
+
+    // Frame: the value of every signal when the block opens. Only its header
+    // is needed to find the value changes; the values themselves are read
+    // only when decoding starts at this block
+    const frameHead = await this.read(handle, block.position + 32, 30);
+    let pos = 0;
+    const [frameUncompressed, s1] = this.varint(frameHead, pos);
+    pos += s1;
+    const [frameCompressed, s2] = this.varint(frameHead, pos);
+    pos += s2;
+    const [frameMaxHandle, s3] = this.varint(frameHead, pos);
+    pos += s3;
+
+    const frameStart = block.position + 32 + pos;
+    if (withFrame) {
+      let frame = await this.read(handle, frameStart, frameCompressed);
+      if (frameCompressed !== frameUncompressed) {
+        frame = inflateSync(frame);
+      }
+
+      for (let i = 0, offset = 0; i < frameMaxHandle; i++) {
+        const length = layout.lengths[i];
+        if (wanted.has(i)) {
+          const raw = layout.realHandles.has(i)
+            ? String(this.readDouble(frame, offset, layout.littleEndian))
+            : frame.toString('latin1', offset, offset + length);
+          changes.set(i, [{ time: block.start, raw }]);
+        }
+        offset += length;
+      }
+    }
+
+    // Value change chains
+    const vcHead = await this.read(handle, frameStart + frameCompressed, 16);
+    const [vcMaxHandle, vcSkip] = this.varint(vcHead, 0);
+    const vcStart = frameStart + frameCompressed + vcSkip;
+    const packType = String.fromCharCode(vcHead[vcSkip]);
+
+    const indexPointer = sectionEnd - 24 - timeCompressed - 8;
+    const chainLength = Number((await this.read(handle, indexPointer, 8)).readBigUInt64BE(0));
+    const indexPosition = indexPointer - chainLength;
+    const chainData = await this.read(handle, indexPosition, chainLength);
+    const { offsets, lengths } = this.decodeChainTable(
+      chainData,
+      block.type,
+      vcMaxHandle,
+      indexPosition - vcStart
+    );
+
+    for (const index of wanted) {
+      if (index >= vcMaxHandle || !offsets[index]) continue;
+
+      const chunk = await this.read(handle, vcStart + offsets[index], lengths[index]);
+      const [uncompressedLength, skip] = this.varint(chunk, 0);
+      const payload = chunk.subarray(skip);
+      const data = uncompressedLength === 0
+        ? payload
+        : this.unpack(packType, payload, uncompressedLength);
+
+      const list = changes.get(index) || [];
+      list.push(...this.decodeChanges(data, index, layout, times));
+      changes.set(index, list);
+    }
+
+    return changes;
+  }
+
+  private decodeChainTable(
+    data: Buffer,
+    blockType: number,
+    maxHandle: number,
+    end: number
+  ): { offsets: number[]; lengths: number[] } {
+    const offsets: number[] = new Array(maxHandle + 1).fill(0);
+    const lengths: number[] = new Array(maxHandle + 1).fill(0);
+    let previousOffset = 0;
+    let previousIndex = 0;
+    let index = 0;
+    let pos = 0;
+
+    const addOffset = (delta: number) => {
+      previousOffset = offsets[index] = previousOffset + delta;
+      if (index) {
+        lengths[previousIndex] = previousOffset - offsets[previousIndex];
+      }
+      previousIndex = index++;
+    };
+
+    if (blockType === FST_BLOCK.VCDATA_DYN_ALIAS2) {
+      let previousAlias = 0;
+      while (pos < data.length) {
+        if (data[pos] & 1) {
+          const [value, skip] = this.signedVarint(data, pos);
+          pos += skip;
+          const shifted = Math.floor(value / 2);
+          if (shifted > 0) {
+            addOffset(shifted);
+          } else {
+            // Negative lengths are alias references, zero repeats the last alias
+            if (shifted < 0) previousAlias = shifted;
+            offsets[index] = 0;
+            lengths[index++] = previousAlias;
+          }
+        } else {
+          const [value, skip] = this.varint(data, pos);
+          pos += skip;
+          index += Math.floor(value / 2);
+        }
+      }
+    } else {
+      while (pos < data.length) {
+        const [value, skip] = this.varint(data, pos);
+        pos += skip;
+        if (value === 0) {
+          const [alias, aliasSkip] = this.varint(data, pos);
+          pos += aliasSkip;
+          offsets[index] = 0;
+          lengths[index++] = -alias;
+        } else if (value & 1) {
+          addOffset(Math.floor(value / 2));
+        } else {
+          index += Math.floor(value / 2);
+        }
+      }
+    }
+
+    offsets[index] = end;
+    lengths[previousIndex] = offsets[index] - offsets[previousIndex];
+
+    for (let i = 0; i < index; i++) {
+      if (lengths[i] < 0 && !offsets[i]) {
+        const target = -lengths[i] - 1;
+        if (target < i) {
+          offsets[i] = offsets[target];
+          lengths[i] = lengths[target];
+        }
+      }
+    }
+
+    return { offsets, lengths };
+  }
+
+  private unpack(packType: string, data: Buffer, length: number): Buffer {
+    switch (packType) {
+      case '4':
+        return lz4Decompress(data, length);
+      case 'F':
+        return fastlzDecompress(data, length);
+      default:
+        return inflateSync(data);
+    }
+  }
+
+  private decodeChanges(
+    data: Buffer,
+    index: number,
+    layout: FstLayout,
+    times: number[]
+  ): FstValueChange[] {
+    const changes: FstValueChange[] = [];
+    const length = layout.lengths[index];
+    const isReal = layout.realHandles.has(index);
+    let timeIndex = 0;
+    let pos = 0;
+
+    while (pos < data.length) {
+      const [vli, skip] = this.varint(data, pos);
+      pos += skip;
+      let raw: string;
+
+      if (isReal) {
+        timeIndex += Math.floor(vli / 2);
+        if (vli & 1) {
+          raw = data.toString('latin1', pos, pos + length);
+        } else {
+          raw = String(this.readDouble(data, pos, layout.littleEndian));
+        }
+        pos += length;
+      } else if (length === 1) {
+        if (vli & 1) {
+          timeIndex += Math.floor(vli / 16);
+          raw = SCALAR_VALUES[(vli >> 1) & 7];
+        } else {
+          timeIndex += Math.floor(vli / 4);
+          raw = String((vli >> 1) & 1);
+        }
+      } else if (length === 0) {
+        timeIndex += Math.floor(vli / 2);
+        const [size, sizeSkip] = this.varint(data, pos);
+        pos += sizeSkip;
+        raw = data.toString('utf-8', pos, pos + size);
+        pos += size;
+      } else {
+        timeIndex += Math.floor(vli / 2);
+        if (vli & 1) {
+          raw = data.toString('latin1', pos, pos + length);
+          pos += length;
+        } else {
+          // Two-state values are bit-packed, MSB first
+          let bits = '';
+          for (let bit = 0; bit < length; bit++) {
+            bits += (data[pos + (bit >> 3)] >> (7 - (bit & 7))) & 1;
+          }
+          raw = bits;
+          pos += (length + 7) >> 3;
+        }
+      }
+
+      changes.push({ time: times[timeIndex], raw });
+    }
+
+    return changes;
+  }
+
+  private async read(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+    return bytesRead === length ? buffer : buffer.subarray(0, bytesRead);
+  }
+
+  private async readU64(handle: FileHandle, position: number): Promise<number> {
+    return Number((await this.read(handle, position, 8)).readBigUInt64BE(0));
+  }
+
+  private readDouble(data: Buffer, offset: number, littleEndian: boolean): number {
+    return littleEndian ? data.readDoubleLE(offset) : data.readDoubleBE(offset);
+  }
+
+  private cString(data: Buffer, offset: number, maxLength: number): string {
+    const end = data.indexOf(0, offset);
+    const limit = end === -1 || end > offset + maxLength ? offset + maxLength : end;
+    return data.toString('utf-8', offset, limit).trim();
+  }
+
+  private varint(data: Buffer, offset: number): [number, number] {
+    let value = 0;
+    let multiplier = 1;
+    let pos = offset;
+    let byte: number;
+
+    do {
+      byte = data[pos++];
+      value += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+
+    return [value, pos - offset];
+  }
+
+  private signedVarint(data: Buffer, offset: number): [number, number] {
+    let value = 0;
+    let multiplier = 1;
+    let pos = offset;
+    let byte: number;
+
+    do {
+      byte = data[pos++];
+      value += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+
+    if (byte & 0x40) {
+      value -= multiplier;
+    }
+
+    return [value, pos - offset];
+  }
+}
@@ -0,0 +1,298 @@
+import { promises as fs } from 'fs';
+import { execFile, spawn } from 'child_process';
+import { promisify } from 'util';
+import { extname, join } from 'path';
+import { homedir } from 'os';
+import * as crypto from 'crypto';
+import { logger } from './logger.js';
+import { ToolResult } from '../types/index.js';
+
+export const DEFAULT_JOB_DIR = join(homedir(), '.verilator-mcp', 'jobs');
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted';
+
+export interface JobProgress {
+  phase: string;
+  percent?: number;
+  message?: string;
+  updatedAt: number;
+}
+
+/**
+ * A background tool call, stored as `<jobDir>/<id>/job.json` with the
+ * command output streamed to `output.log` next to it. Once the worker is
+ * started only it writes job.json; the server records the worker's PID in
+ * `worker.json` and a cancellation request as a `cancel` file, so neither
+ * can overwrite what the worker records.
+ */
+export interface JobRecord {
+  id: string;
+  tool: string;
+  params: Record<string, any>;
+  // Relative paths in params resolve against the directory the job was submitted from
+  cwd: string;
+  status: JobStatus;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  // The worker process running the job
+  pid?: number;
+  // The worker's start time, from processIdentity; tells it apart from a later process reusing the PID
+  workerStart?: string;
+  // Set from the `cancel` file
+  cancelRequested?: boolean;
+  progress?: JobProgress;
+  result?: ToolResult;
+  error?: string;
+}
+
+export interface JobLog {
+  text: string;
+  // Byte offset to pass as `offset` to continue reading
+  nextOffset: number;
+  size: number;
+}
+
+const FINISHED: JobStatus[] = ['completed', 'failed', 'cancelled', 'interrupted'];
+
+export function isFinished(status: JobStatus): boolean {
+  return FINISHED.includes(status);
+}
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * When the process `pid` started: the boot id and start tick from /proc on
+ * Linux, else the start time `ps` reports. Undefined when the process is gone
+ * or the platform offers neither.
+ */
+export async function processIdentity(pid: number): Promise<string | undefined> {
+  try {
+    const stat = await fs.readFile(`/proc/${pid}/stat`, 'utf-8');
+    // The command name may hold spaces and parentheses; starttime is the 20th field after it
+    const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+    const bootId = (await fs.readFile('/proc/sys/kernel/random/boot_id', 'utf-8')).trim();
+    return `${bootId}:${fields[19]}`;
+  } catch {
+    // No /proc, or no such process
+  }
+
+  try {
+    const { stdout } = await execFileAsync('ps', ['-o', 'lstart=', '-p', String(pid)]);
+    return stdout.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Runs tool calls in detached worker processes, so a multi-hour simulation
+ * neither blocks an MCP request nor dies with the server. Jobs are plain
+ * files: any server instance can report on or cancel a job another one
+ * started.
+ */
+export class JobManager {
+  private jobDir: string;
+
+  constructor(jobDir: string = DEFAULT_JOB_DIR) {
+    this.jobDir = jobDir;
+  }
+
+  getJobDir(): string {
+    return this.jobDir;
+  }
+
+  /**
+   * Record a job and start its worker. `params` should already be validated;
+   * the worker runs them through the tool again.
+   */
+  async submit(tool: string, params: Record<string, any>): Promise<JobRecord> {
+    const createdAt = Date.now();
+    const job: JobRecord = {
+      id: `${createdAt.toString(36)}-${crypto.randomBytes(3).toString('hex')}`,
+      tool,
+      params,
+      cwd: process.cwd(),
+      status: 'queued',
+      createdAt,
+    };
+
+    await fs.mkdir(this.getPath(job.id), { recursive: true });
+    await fs.writeFile(this.getLogPath(job.id), '');
+    await this.write(job);
+
+    // Compiled alongside this file, or run from source under tsx
+    const script = join(__dirname, '..', `job-worker${extname(__filename)}`);
+    const worker = spawn(process.execPath, [...process.execArgv, script, job.id], {
+      cwd: job.cwd,
+      env: { ...process.env, VERILATOR_MCP_JOB_DIR: this.jobDir },
+      detached: true,
+      stdio: 'ignore',
+    });
+    worker.on('error', error => logger.error(`Failed to start worker for job ${job.id}:`, error));
+    worker.unref();
+
+    if (worker.pid === undefined) {
+      return this.update(job.id, { status: 'failed', finishedAt: Date.now(), error: 'Failed to start the job worker' });
+    }
+    logger.info(`Started job ${job.id} (${tool}) in worker ${worker.pid}`);
+    // Until the worker records itself, this is how get() tells whether it is still alive
+    const identity = { pid: worker.pid, workerStart: await processIdentity(worker.pid) };
+    await this.writeFile(job.id, 'worker.json', JSON.stringify(identity));
+    return { ...job, ...identity };
+  }
+
+  /**
+   * Read a job. A job whose worker is gone without recording a result, e.g.
+   * after a reboot, is marked interrupted. A process that has the worker's
+   * PID but not its start time is a different one.
+   */
+  async get(id: string): Promise<JobRecord | undefined> {
+    let job: JobRecord;
+    try {
+      job = await this.read(id);
+    } catch {
+      return undefined;
+    }
+
+    if (!isFinished(job.status) && job.pid !== undefined && !(await this.isWorkerRunning(job))) {
+      // The worker may have finished between the read and the check
+      const latest = await this.read(id);
+      if (!isFinished(latest.status)) {
+        return this.update(id, {
+          status: latest.cancelRequested ? 'cancelled' : 'interrupted',
+          finishedAt: Date.now(),
+          error: latest.cancelRequested ? 'Cancelled' : 'Worker exited without recording a result',
+        });
+      }
+      return latest;
+    }
+
+    return job;
+  }
+
+  /**
+   * All jobs, newest first.
+   */
+  async list(): Promise<JobRecord[]> {
+    let ids: string[];
+    try {
+      ids = await fs.readdir(this.jobDir);
+    } catch {
+      return [];
+    }
+
+    const jobs: JobRecord[] = [];
+    for (const id of ids) {
+      const job = await this.get(id);
+      if (job) {
+        jobs.push(job);
+      }
+    }
+    return jobs.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Read the job's output from `offset`, or its last `tail` bytes.
+   */
+  async readLog(id: string, options: { offset?: number; tail?: number } = {}): Promise<JobLog> {
+    const path = this.getLogPath(id);
+    const { size } = await fs.stat(path);
+    const start = options.offset !== undefined
+      ? Math.min(options.offset, size)
+      : Math.max(0, size - (options.tail ?? size));
+
+    const handle = await fs.open(path, 'r');
+    try {
+      const buffer = Buffer.alloc(size - start);
+      await handle.read(buffer, 0, buffer.length, start);
+      return { text: buffer.toString('utf-8'), nextOffset: size, size };
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Ask the worker to stop. It kills the tool's processes and records the
+   * job as cancelled; a worker that is already gone is marked here.
+   */
+  async cancel(id: string): Promise<JobRecord> {
+    const job = await this.get(id);
+    if (!job) {
+      throw new Error(`Unknown job: ${id}`);
+    }
+    if (isFinished(job.status)) {
+      return job;
+    }
+
+    await this.writeFile(id, 'cancel', '');
+    if (job.pid !== undefined && await this.isWorkerRunning(job)) {
+      process.kill(job.pid, 'SIGTERM');
+      logger.info(`Cancelling job ${id} (worker ${job.pid})`);
+      return { ...job, cancelRequested: true };
+    }
+    return this.update(id, { status: 'cancelled', finishedAt: Date.now(), error: 'Cancelled' });
+  }
+
+  /**
+   * Merge `patch` into the stored record. Writes go through a temporary
+   * file so readers never see a partial record. Only the worker calls this
+   * once it is running; the server does only for a worker that is gone.
+   */
+  async update(id: string, patch: Partial<JobRecord>): Promise<JobRecord> {
+    const job = { ...(await this.read(id)), ...patch };
+    await this.write(job);
+    return job;
+  }
+
+  getLogPath(id: string): string {
+    return join(this.getPath(id), 'output.log');
+  }
+
+  private getPath(id: string): string {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid job id: ${id}`);
+    }
+    return join(this.jobDir, id);
+  }
+
+  private async read(id: string): Promise<JobRecord> {
+    const dir = this.getPath(id);
+    const job: JobRecord = JSON.parse(await fs.readFile(join(dir, 'job.json'), 'utf-8'));
+    if (job.pid === undefined) {
+      try {
+        Object.assign(job, JSON.parse(await fs.readFile(join(dir, 'worker.json'), 'utf-8')));
+      } catch {
+        // Not started yet
+      }
+    }
+    if (await fs.access(join(dir, 'cancel')).then(() => true, () => false)) {
+      job.cancelRequested = true;
+    }
+    return job;
+  }
+
+  private async write(job: JobRecord): Promise<void> {
+    const { cancelRequested, ...stored } = job;
+    await this.writeFile(job.id, 'job.json', JSON.stringify(stored, null, 2));
+  }
+
+  private async writeFile(id: string, name: string, content: string): Promise<void> {
+    const path = join(this.getPath(id), name);
+    const temp = `${path}.${process.pid}.tmp`;
+    await fs.writeFile(temp, content);
+    await fs.rename(temp, path);
+  }
+
+  /**
+   * Whether the job's worker is still running. Without a recorded start time
+   * the PID cannot be trusted, so the worker counts as gone and is never
+   * signalled.
+   */
+  private async isWorkerRunning(job: JobRecord): Promise<boolean> {
+    if (job.pid === undefined || job.workerStart === undefined) {
+      return false;
+    }
+    return (await processIdentity(job.pid)) === job.workerStart;
+  }
+}
@@ -0,0 +1,100 @@
+import { z } from 'zod';
+
+/**
+ * Convert a tool's Zod parameter schema to the JSON Schema advertised as its
+ * MCP `inputSchema`. Covers the Zod types the tools use: objects, arrays,
+ * records, tuples, unions, enums, literals and primitives, with descriptions,
+ * defaults and numeric bounds. Refinements are dropped, since JSON Schema
+ * cannot express them; the Zod schema still enforces them on every call.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): any {
+  const json = convert(schema);
+  if (schema.description) {
+    json.description = schema.description;
+  }
+  return json;
+}
+
+function convert(schema: z.ZodTypeAny): any {
+  const def = schema._def;
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema);
+
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return zodToJsonSchema(def.innerType);
+
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const properties: Record<string, any> = {};
+      const required: string[] = [];
+      for (const [key, field] of Object.entries((schema as z.AnyZodObject).shape)) {
+        const property = field as z.ZodTypeAny;
+        properties[key] = zodToJsonSchema(property);
+        if (!property.isOptional()) {
+          required.push(key);
+        }
+      }
+      return { type: 'object', properties, required };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodArray: {
+      const json: any = { type: 'array', items: zodToJsonSchema(def.type) };
+      if (def.minLength) json.minItems = def.minLength.value;
+      if (def.maxLength) json.maxItems = def.maxLength.value;
+      return json;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodTuple: {
+      const items = (def.items as z.ZodTypeAny[]).map(item => zodToJsonSchema(item));
+      // Tuples of one type, like [start, end], read better as a fixed-length array
+      const uniform = items.every(item => JSON.stringify(item) === JSON.stringify(items[0]));
+      return { type: 'array', items: uniform ? items[0] : items, minItems: items.length, maxItems: items.length };
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) };
+
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return { oneOf: (def.options as z.ZodTypeAny[]).map(option => zodToJsonSchema(option)) };
+
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...def.values] };
+
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { type: typeof def.value, const: def.value };
+
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const json: any = { type: 'string' };
+      for (const check of def.checks) {
+        if (check.kind === 'min') json.minLength = check.value;
+        if (check.kind === 'max') json.maxLength = check.value;
+      }
+      return json;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const json: any = { type: 'number' };
+      for (const check of def.checks) {
+        if (check.kind === 'int') json.type = 'integer';
+        if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return json;
+    }
+
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+
+    case z.ZodFirstPartyTypeKind.ZodAny:
+    case z.ZodFirstPartyTypeKind.ZodUnknown:
+      return {};
+
+    default:
+      throw new Error(`Cannot convert ${def.typeName} to JSON Schema`);
+  }
+}
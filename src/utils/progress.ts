@@ -0,0 +1,201 @@
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+
+export type ProgressPhase = 'parsing' | 'C++ build' | 'linking' | 'simulating';
+
+export interface ProgressUpdate {
+  phase: ProgressPhase | string;
+  // 0-100 within the current phase, when the output lets us infer it
+  percent?: number;
+  message?: string;
+  // Most recent output lines
+  log: string[];
+}
+
+export type ProgressListener = (update: ProgressUpdate) => void;
+
+/**
+ * Follows a command's output line by line and works out which phase it is
+ * in. CommandExecutor feeds it every stdout/stderr line.
+ */
+export interface ProgressTracker {
+  phase: ProgressPhase | string;
+  percent?: number;
+  update(line: string): void;
+}
+
+const CXX = /^\s*(?:ccache\s+)?(?:\S*\/)?(?:g\+\+|clang\+\+|c\+\+)(?:-[\d.]+)?\s/;
+
+/**
+ * Read the variables a generated makefile sets, joining continuation lines.
+ * Values are split into words; `+=` appends to what is already set.
+ */
+function readMakeVariables(files: string[]): Record<string, string[]> {
+  const variables: Record<string, string[]> = {};
+  for (const file of files) {
+    let content: string;
+    try {
+      content = readFileSync(file, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    for (const line of content.replace(/\\\r?\n/g, ' ').split(/\r?\n/)) {
+      const match = /^\s*(\w+)\s*(\+?=)(.*)$/.exec(line.replace(/#.*$/, ''));
+      if (!match) continue;
+      const [, name, operator, value] = match;
+      const words = value.split(/\s+/).filter(Boolean);
+      variables[name] = operator === '+=' ? [...(variables[name] || []), ...words] : words;
+    }
+  }
+  return variables;
+}
+
+/**
+ * Phases of a Verilator build: verilation ("parsing"), then the generated
+ * makefile compiling each C++ file ("C++ build") and the final link. The C++
+ * percentage counts compile commands against the objects the makefiles
+ * Verilator generated list. It is left out unless the build is parallel
+ * (VM_PARALLEL_BUILDS), since otherwise make compiles the classes as one or
+ * two `__ALL` aggregates whose layout depends on the Verilator version.
+ */
+export class VerilatorBuildTracker implements ProgressTracker {
+  phase: ProgressPhase = 'parsing';
+  percent?: number;
+  private compiled = 0;
+  private total = 0;
+
+  constructor(private buildDir: string) {}
+
+  update(line: string): void {
+    if (!CXX.test(line)) {
+      return;
+    }
+
+    if (/\s-c\s/.test(line)) {
+      if (this.phase !== 'C++ build') {
+        this.phase = 'C++ build';
+        this.total = this.countObjects();
+      }
+      this.compiled++;
+      this.percent = this.total > 0 ? Math.min(99, Math.round((this.compiled / this.total) * 100)) : undefined;
+    } else if (/\s-o\s/.test(line)) {
+      this.phase = 'linking';
+      this.percent = undefined;
+    }
+  }
+
+  /**
+   * Objects make compiles, from V<prefix>_classes.mk and V<prefix>.mk: the
+   * generated classes and support files, the Verilator runtime (global)
+   * classes and the user's own .cpp files. 0 when they cannot be counted.
+   */
+  private countObjects(): number {
+    let classesFile: string | undefined;
+    try {
+      classesFile = readdirSync(this.buildDir).find(name => /^V\w*_classes\.mk$/.test(name));
+    } catch {
+      return 0;
+    }
+    if (!classesFile) {
+      return 0;
+    }
+
+    const variables = readMakeVariables([
+      join(this.buildDir, classesFile),
+      join(this.buildDir, classesFile.replace(/_classes\.mk$/, '.mk')),
+    ]);
+    if (variables.VM_PARALLEL_BUILDS?.[0] !== '1') {
+      return 0;
+    }
+    return [
+      'VM_CLASSES_FAST',
+      'VM_CLASSES_SLOW',
+      'VM_SUPPORT_FAST',
+      'VM_SUPPORT_SLOW',
+      'VM_GLOBAL_FAST',
+      'VM_GLOBAL_SLOW',
+      'VM_USER_CLASSES',
+    ].reduce((count, name) => count + (variables[name]?.length || 0), 0);
+  }
+}
+
+/**
+ * Simulation progress from timestamps the testbench prints, such as
+ * "[1200] ...", "@1200" or "time=1200", against the expected end time.
+ */
+export class SimulationTracker implements ProgressTracker {
+  phase: ProgressPhase = 'simulating';
+  percent?: number;
+
+  constructor(private endTime?: number) {}
+
+  update(line: string): void {
+    if (!this.endTime) {
+      return;
+    }
+    const match = line.match(/^\s*\[\s*(\d+)\s*\]|@\s*(\d+)\b|\btime\s*[=:]\s*(\d+)/i);
+    if (match) {
+      const time = Number(match[1] ?? match[2] ?? match[3]);
+      this.percent = Math.min(100, Math.round((time / this.endTime) * 100));
+    }
+  }
+}
+
+/**
+ * Splits streamed output into lines, keeps the last few, and reports to the
+ * listener at most once per `interval` ms, or immediately when the phase
+ * changes.
+ */
+export class ProgressReporter {
+  private tail: string[] = [];
+  private partial: Record<string, string> = {};
+  private lastReport = 0;
+  private lastPhase?: string;
+
+  constructor(
+    private listener: ProgressListener,
+    private tracker: ProgressTracker,
+    private interval: number = 1000,
+    private tailLines: number = 5
+  ) {}
+
+  start(): void {
+    this.report(true);
+  }
+
+  write(stream: 'stdout' | 'stderr', chunk: string): void {
+    const lines = ((this.partial[stream] || '') + chunk).split(/\r?\n/);
+    this.partial[stream] = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      this.tracker.update(line);
+      this.tail.push(line);
+      if (this.tail.length > this.tailLines) {
+        this.tail.shift();
+      }
+    }
+
+    this.report(this.tracker.phase !== this.lastPhase);
+  }
+
+  private report(force: boolean): void {
+    const now = Date.now();
+    if (!force && now - this.lastReport < this.interval) {
+      return;
+    }
+    this.lastReport = now;
+    this.lastPhase = this.tracker.phase;
+
+    try {
+      this.listener({
+        phase: this.tracker.phase,
+        percent: this.tracker.percent,
+        log: [...this.tail],
+      });
+    } catch {
+      // A failing listener must not break the command it observes
+    }
+  }
+}
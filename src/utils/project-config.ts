@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { logger } from './logger.js';
+
+export const PROJECT_CONFIG_FILE = 'verilator-mcp.json';
+
+const DefinesSchema = z.record(z.union([z.string(), z.number()]));
+
+const TargetSchema = z.object({
+  description: z.string().optional(),
+  files: z.array(z.string()).optional(),
+  filelists: z.array(z.string()).optional(),
+  top: z.string().optional(),
+  testbench: z.string().optional(),
+  language: z.enum(['verilog', 'systemverilog']).optional(),
+  defines: DefinesSchema.optional(),
+  includes: z.array(z.string()).optional(),
+  flags: z.array(z.string()).optional(),
+  waivers: z.array(z.string()).optional(),
+});
+
+const SimulationDefaultsSchema = z.object({
+  outputDir: z.string().optional(),
+  timeout: z.number().optional(),
+  simulationTime: z.number().optional(),
+  enableWaveform: z.boolean().optional(),
+  waveformFormat: z.enum(['vcd', 'fst']).optional(),
+  enableCoverage: z.boolean().optional(),
+  enableAssertions: z.boolean().optional(),
+  optimizationLevel: z.number().min(0).max(3).optional(),
+  plusargs: DefinesSchema.optional(),
+});
+
+const TestSchema = z.object({
+  name: z.string(),
+  testbench: z.string(),
+  topModule: z.string().optional(),
+  plusargs: DefinesSchema.optional(),
+  defines: DefinesSchema.optional(),
+  seeds: z.number().min(1).optional(),
+  timeout: z.number().optional(),
+});
+
+const ProjectConfigSchema = z.object({
+  targets: z.record(TargetSchema).default({}),
+  simulation: SimulationDefaultsSchema.default({}),
+  tests: z.record(z.array(TestSchema)).default({}),
+});
+
+export type ProjectTarget = z.infer<typeof TargetSchema>;
+export type SimulationDefaults = z.infer<typeof SimulationDefaultsSchema>;
+export type ProjectTest = z.infer<typeof TestSchema>;
+
+export interface ProjectConfig {
+  path: string;
+  root: string;
+  targets: Record<string, ProjectTarget>;
+  simulation: SimulationDefaults;
+  tests: Record<string, ProjectTest[]>;
+}
+
+const cache = new Map<string, { mtimeMs: number; config: ProjectConfig }>();
+
+/**
+ * Find verilator-mcp.json in `startDir` or the nearest parent directory.
+ */
+export async function findProjectConfig(startDir: string = process.cwd()): Promise<string | null> {
+  let dir = resolve(startDir);
+  for (;;) {
+    const candidate = join(dir, PROJECT_CONFIG_FILE);
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // Keep walking up
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Load the project configuration that applies to `startDir`. Relative paths
+ * in the file are resolved against the directory containing it. Returns null
+ * when no configuration exists.
+ */
+export async function loadProjectConfig(startDir: string = process.cwd()): Promise<ProjectConfig | null> {
+  const path = await findProjectConfig(startDir);
+  if (!path) {
+    return null;
+  }
+
+  const { mtimeMs } = await fs.stat(path);
+  const cached = cache.get(path);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.config;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const parsed = ProjectConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid ${path}: ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  const root = dirname(path);
+  const at = (p: string) => (isAbsolute(p) ? p : resolve(root, p));
+  const atAll = (paths?: string[]) => paths?.map(at);
+
+  const targets: Record<string, ProjectTarget> = {};
+  for (const [name, target] of Object.entries(parsed.data.targets)) {
+    targets[name] = {
+      ...target,
+      files: atAll(target.files),
+      filelists: atAll(target.filelists),
+      testbench: target.testbench ? at(target.testbench) : undefined,
+      includes: atAll(target.includes),
+      waivers: atAll(target.waivers),
+    };
+  }
+
+  const tests: Record<string, ProjectTest[]> = {};
+  for (const [name, list] of Object.entries(parsed.data.tests)) {
+    tests[name] = list.map(test => ({ ...test, testbench: at(test.testbench) }));
+  }
+
+  const simulation = { ...parsed.data.simulation };
+  if (simulation.outputDir) {
+    simulation.outputDir = at(simulation.outputDir);
+  }
+
+  const config: ProjectConfig = { path, root, targets, simulation, tests };
+  cache.set(path, { mtimeMs, config });
+  logger.debug(`Loaded project config ${path} with ${Object.keys(targets).length} targets`);
+  return config;
+}
+
+export function getTarget(project: ProjectConfig | null, name: string): ProjectTarget {
+  if (!project) {
+    throw new Error(`Target '${name}' requested but no ${PROJECT_CONFIG_FILE} was found`);
+  }
+  const target = project.targets[name];
+  if (!target) {
+    const available = Object.keys(project.targets);
+    throw new Error(
+      `Unknown target '${name}' in ${project.path}` +
+        (available.length > 0 ? ` (available: ${available.join(', ')})` : '')
+    );
+  }
+  return target;
+}
+
+/**
+ * Fill parameters the caller did not pass from `defaults`. Defines and
+ * plusargs are merged, with the caller's values winning.
+ */
+export function withDefaults(
+  params: Record<string, any>,
+  defaults: Record<string, any>
+): Record<string, any> {
+  const merged = { ...params };
+  for (const [key, value] of Object.entries(defaults)) {
+    if (value === undefined) continue;
+    if ((key === 'defines' || key === 'plusargs') && merged[key] !== undefined) {
+      merged[key] = { ...value, ...merged[key] };
+    } else if (merged[key] === undefined) {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
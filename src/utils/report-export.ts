@@ -0,0 +1,279 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import {
+  AssertionResult,
+  RegressionResult,
+  RegressionRun,
+  ReportFiles,
+  SimulationResult,
+} from '../types/index.js';
+
+export type ReportFormat = 'junit' | 'json';
+
+/**
+ * Version of the JSON report layout, described by the JSON Schema documents
+ * in schemas/. Bump the major version when a field is removed or changes
+ * meaning; adding fields is a minor change.
+ */
+export const REPORT_SCHEMA_VERSION = '1.0.0';
+
+interface JUnitCase {
+  name: string;
+  classname: string;
+  time: number;
+  failure?: { message: string; type: string; text: string };
+  error?: { message: string; type: string; text: string };
+  skipped?: { message: string };
+  systemOut?: string;
+}
+
+interface JUnitSuite {
+  name: string;
+  timestamp: string;
+  cases: JUnitCase[];
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters other than tab/newline are not allowed in XML 1.0
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function renderJUnit(suites: JUnitSuite[]): string {
+  const count = (predicate: (c: JUnitCase) => boolean) =>
+    suites.reduce((sum, suite) => sum + suite.cases.filter(predicate).length, 0);
+  const totalTime = suites.reduce((sum, suite) => sum + suite.cases.reduce((t, c) => t + c.time, 0), 0);
+
+  const out: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  out.push(
+    `<testsuites name="verilator-mcp" tests="${count(() => true)}" failures="${count(c => !!c.failure)}" ` +
+      `errors="${count(c => !!c.error)}" skipped="${count(c => !!c.skipped)}" time="${seconds(totalTime)}">`
+  );
+
+  for (const suite of suites) {
+    const failures = suite.cases.filter(c => c.failure).length;
+    const errors = suite.cases.filter(c => c.error).length;
+    const skipped = suite.cases.filter(c => c.skipped).length;
+    const time = suite.cases.reduce((t, c) => t + c.time, 0);
+    out.push(
+      `  <testsuite name="${escapeXml(suite.name)}" tests="${suite.cases.length}" failures="${failures}" ` +
+        `errors="${errors}" skipped="${skipped}" time="${seconds(time)}" timestamp="${suite.timestamp}">`
+    );
+
+    for (const testCase of suite.cases) {
+      out.push(
+        `    <testcase name="${escapeXml(testCase.name)}" classname="${escapeXml(testCase.classname)}" time="${seconds(testCase.time)}">`
+      );
+      for (const [tag, detail] of [['failure', testCase.failure], ['error', testCase.error]] as const) {
+        if (detail) {
+          out.push(
+            `      <${tag} message="${escapeXml(detail.message)}" type="${escapeXml(detail.type)}">${escapeXml(detail.text)}</${tag}>`
+          );
+        }
+      }
+      if (testCase.skipped) {
+        out.push(`      <skipped message="${escapeXml(testCase.skipped.message)}"/>`);
+      }
+      if (testCase.systemOut) {
+        out.push(`      <system-out>${escapeXml(testCase.systemOut)}</system-out>`);
+      }
+      out.push('    </testcase>');
+    }
+
+    out.push('  </testsuite>');
+  }
+
+  out.push('</testsuites>');
+  return out.join('\n') + '\n';
+}
+
+function assertionCases(assertions: AssertionResult[], classname: string): JUnitCase[] {
+  return assertions.map(assertion => {
+    const testCase: JUnitCase = {
+      name: `${assertion.type} ${assertion.name}`,
+      classname,
+      time: 0,
+    };
+    // A cover property that was never hit did not fail; the stimulus missed it
+    if (!assertion.passed && assertion.type === 'cover') {
+      testCase.skipped = { message: assertion.message || `Cover property ${assertion.name} was not hit` };
+    } else if (!assertion.passed) {
+      const location = `${assertion.file}:${assertion.line}`;
+      testCase.failure = {
+        message: assertion.message || `Assertion ${assertion.name} failed`,
+        type: 'AssertionFailure',
+        text: `${location}: ${assertion.failures} failure(s)${assertion.time !== undefined ? ` at time ${assertion.time}` : ''}`,
+      };
+    }
+    return testCase;
+  });
+}
+
+/**
+ * Build a JUnit XML document for one simulation. The run itself is a test
+ * case, and so is every assertion, so CI shows assertion failures individually.
+ */
+export function simulationToJUnit(result: SimulationResult, name: string, timestamp: Date = new Date()): string {
+  const simulationCase: JUnitCase = {
+    name,
+    classname: 'simulation',
+    time: result.realTime,
+    systemOut: result.logFile ? `Log: ${result.logFile}` : undefined,
+  };
+  if (!result.passed) {
+    const errors = result.errors || [];
+    simulationCase.failure = {
+      message: errors[0] || 'Simulation failed',
+      type: 'SimulationFailure',
+      text: errors.join('\n'),
+    };
+  }
+
+  return renderJUnit([
+    {
+      name,
+      timestamp: timestamp.toISOString(),
+      cases: [simulationCase, ...assertionCases(result.assertions || [], `${name}.assertions`)],
+    },
+  ]);
+}
+
+function runCase(run: RegressionRun): JUnitCase {
+  const testCase: JUnitCase = {
+    name: `seed_${run.seed}`,
+    classname: run.test,
+    time: run.duration,
+    systemOut: run.logFile ? `Log: ${run.logFile}` : undefined,
+  };
+  const detail = {
+    message: run.errors[0] || `Run ${run.status}`,
+    type: run.status,
+    text: run.errors.join('\n'),
+  };
+
+  // Test failures are failures; runs that never produced a verdict are errors
+  if (run.status === 'failed') {
+    testCase.failure = detail;
+  } else if (run.status !== 'passed') {
+    testCase.error = detail;
+  }
+  return testCase;
+}
+
+/**
+ * Build a JUnit XML document for a regression, with one test suite per test
+ * and one test case per seed.
+ */
+export function regressionToJUnit(result: RegressionResult, timestamp: Date = new Date()): string {
+  const suites = new Map<string, JUnitSuite>();
+  for (const run of result.runs) {
+    const suite = suites.get(run.test) || { name: run.test, timestamp: timestamp.toISOString(), cases: [] };
+    suite.cases.push(runCase(run));
+    suites.set(run.test, suite);
+  }
+  return renderJUnit(Array.from(suites.values()));
+}
+
+export function simulationToJson(result: SimulationResult, name: string, timestamp: Date = new Date()): string {
+  const assertions = result.assertions || [];
+  return JSON.stringify(
+    {
+      schema: 'verilator-mcp/simulation-report',
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      generatedAt: timestamp.toISOString(),
+      name,
+      passed: result.passed,
+      simulationTime: result.simulationTime,
+      realTime: result.realTime,
+      artifacts: {
+        log: result.logFile,
+        waveform: result.waveformFile,
+        coverage: result.coverageFile,
+      },
+      errors: result.errors || [],
+      warnings: result.warnings || [],
+      assertions: {
+        total: assertions.length,
+        failed: assertions.filter(a => !a.passed).length,
+        results: assertions,
+      },
+      statistics: result.statistics,
+    },
+    null,
+    2
+  );
+}
+
+export function regressionToJson(result: RegressionResult, timestamp: Date = new Date()): string {
+  return JSON.stringify(
+    {
+      schema: 'verilator-mcp/regression-report',
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      generatedAt: timestamp.toISOString(),
+      passed: result.passed,
+      total: result.total,
+      passedCount: result.passedCount,
+      failedCount: result.failedCount,
+      duration: result.duration,
+      builds: result.builds,
+      runs: result.runs,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Write simulation reports into `outputDir`, next to simulation.log.
+ */
+export async function writeSimulationReports(
+  result: SimulationResult,
+  name: string,
+  outputDir: string,
+  formats: ReportFormat[]
+): Promise<ReportFiles> {
+  const timestamp = new Date();
+  const files: ReportFiles = {};
+
+  if (formats.includes('junit')) {
+    files.junit = join(outputDir, 'results.xml');
+    await fs.writeFile(files.junit, simulationToJUnit(result, name, timestamp));
+  }
+  if (formats.includes('json')) {
+    files.json = join(outputDir, 'results.json');
+    await fs.writeFile(files.json, simulationToJson(result, name, timestamp));
+  }
+
+  return files;
+}
+
+/**
+ * Write regression reports into the regression output directory.
+ */
+export async function writeRegressionReports(
+  result: RegressionResult,
+  formats: ReportFormat[]
+): Promise<ReportFiles> {
+  const timestamp = new Date();
+  const files: ReportFiles = {};
+
+  if (formats.includes('junit')) {
+    files.junit = join(result.outputDir, 'results.xml');
+    await fs.writeFile(files.junit, regressionToJUnit(result, timestamp));
+  }
+  if (formats.includes('json')) {
+    files.json = join(result.outputDir, 'results.json');
+    await fs.writeFile(files.json, regressionToJson(result, timestamp));
+  }
+
+  return files;
+}
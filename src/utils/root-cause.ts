@@ -0,0 +1,431 @@
+import { SignalValue } from '../types/index.js';
+import { SignalAccess, SignalXref } from './signal-xref.js';
+import { decodeConstant } from './verilator-ast.js';
+import { TimeUnit, WaveformHeader, WaveformReader, WaveformSignalInfo, timeScaleFactor } from './waveform-reader.js';
+
+/**
+ * Explains the value of a signal at a point in a simulation by walking back
+ * through its drivers. At each step the waveform says which input of the
+ * driving logic is responsible: an input that is X when the signal is X, or
+ * otherwise the input that changed last before the signal took its value.
+ */
+
+// Value changes kept per signal and pass over the waveform
+const MAX_VALUES = 10000;
+// Passes that narrow the window for signals with more changes than that
+const MAX_PASSES = 4;
+// Inputs listed per step
+const MAX_INPUTS = 10;
+
+export interface RootCauseOptions {
+  // In `timeUnit`, or in the waveform's timescale when it is not given
+  time: number;
+  timeUnit?: TimeUnit;
+  // Maximum steps walked back through the drivers
+  depth: number;
+  // Value the signal should have had, e.g. 1, '8'hff' or '0x1f'
+  expected?: string | number;
+}
+
+export interface CauseInput {
+  signal: string;
+  waveformSignal?: string;
+  value?: string | number;
+  isX?: boolean;
+  // When the input took the value it had when sampled
+  since?: number;
+  // Its history ends before the sample time, so the value is not known
+  truncated?: boolean;
+}
+
+export interface CauseStep {
+  signal: string;
+  waveformSignal: string;
+  value: string | number;
+  isX?: boolean;
+  // When the signal took this value
+  since: number;
+  // Logic that set it; sequential logic samples its inputs just before `since`
+  drivers: SignalAccess[];
+  inputs: CauseInput[];
+}
+
+export type RootCauseReason =
+  // X appears here with no X input, e.g. an uninitialized register or an X assignment
+  | 'x-origin'
+  // X feeds back on itself, e.g. a register that never got a known value
+  | 'x-loop'
+  | 'primary-input'
+  | 'undriven'
+  // The signal has held its value since the start of the simulation
+  | 'initial-value'
+  // No input changed before the signal did, e.g. a constant assignment
+  | 'no-input-change'
+  // The responsible inputs are not in the waveform
+  | 'not-dumped'
+  // A signal changes too often for its history to reach the time it is needed at
+  | 'history-truncated'
+  | 'depth-limit';
+
+export interface RootCauseAnalysis {
+  signal: string;
+  waveformSignal: string;
+  // Waveform scope the design's top module was found under
+  scope: string;
+  time: number;
+  timeUnit: string;
+  value: string | number;
+  isX?: boolean;
+  expected?: string | number;
+  matchesExpected?: boolean;
+  chain: CauseStep[];
+  conclusion: { reason: RootCauseReason; signal: string; message: string };
+  // Signals of the fan-in that are X at the queried time, earliest first
+  earliestX: { signal: string; since: number }[];
+  // Fan-in signals the waveform does not have
+  notDumped: string[];
+  // Signals with more changes than could be read; their history ends before the queried time
+  truncated: string[];
+  // The fan-in is too large to read in full; earliestX and notDumped then
+  // cover the signals nearest the chain
+  coneTruncated?: boolean;
+}
+
+export async function analyzeRootCause(
+  xref: SignalXref,
+  reader: WaveformReader,
+  signal: string,
+  options: RootCauseOptions
+): Promise<RootCauseAnalysis> {
+  const start = xref.describe(signal);
+  if (!start) {
+    throw new Error(`Unknown signal: ${signal}`);
+  }
+
+  const header = await reader.readHeader();
+  const scope = findDesignScope(header, xref);
+  if (scope === undefined) {
+    throw new Error(`None of the signals of ${xref.getHierarchy().top} are in the waveform`);
+  }
+
+  const factor = options.timeUnit ? timeScaleFactor(header, options.timeUnit) : 1;
+  const toTicks = (time: number) => Math.round(time / factor);
+  const fromTicks = (time: number) => Number((time * factor).toPrecision(12));
+  // Times in messages carry their unit, e.g. 35ns, or 35 x 10ps for a 10ps timescale
+  const unit = options.timeUnit || header.timescale.replace(/^1(?=[a-z])/, '');
+  const stamp = (time: number) => `${fromTicks(time)}${/^\d/.test(unit) ? ` x ${unit}` : unit}`;
+  const time = toTicks(options.time);
+
+  const byName = new Map(header.signals.map(info => [info.name, info]));
+  const tracked = new Map<string, WaveformSignalInfo>();
+  const values = new Map<string, SignalValue[]>();
+  const notDumped: string[] = [];
+  // Last time at which the history of a truncated signal is complete
+  const knownUntil = new Map<string, number>();
+  const lookedUp = new Set<string>();
+  // Reads the history of the signals not looked up yet, in one pass over the waveform
+  const track = async (paths: string[]) => {
+    const found: [string, WaveformSignalInfo][] = [];
+    for (const path of paths) {
+      if (lookedUp.has(path)) continue;
+      lookedUp.add(path);
+      const info = byName.get(waveformName(xref, scope, path));
+      if (info) {
+        found.push([path, info]);
+      } else {
+        notDumped.push(path);
+      }
+    }
+    if (found.length === 0) return;
+    const { history, endsAt } = await readHistory(reader, found.map(([, info]) => info), time);
+    for (const [path, info] of found) {
+      tracked.set(path, info);
+      values.set(path, history.get(info.name) || []);
+      if (endsAt.has(info.name)) knownUntil.set(path, endsAt.get(info.name)!);
+    }
+  };
+
+  if (!byName.has(waveformName(xref, scope, start.declaration.path))) {
+    throw new Error(`${start.declaration.path} is not in the waveform (looked for ${waveformName(xref, scope, start.declaration.path)})`);
+  }
+  // Most of the walk stays within the cone, so read it up front; the inputs
+  // of each step are looked up as the walk reaches it, in case the cone was
+  // cut short
+  const cone = xref.cone(start.declaration.path, 'fanin', options.depth);
+  await track([start.declaration.path, ...cone.signals.map(entry => entry.signal)]);
+  const startInfo = tracked.get(start.declaration.path)!;
+  // The value at `at` is only known when it comes before the change the history stops at
+  const known = (path: string, at: number) => !knownUntil.has(path) || at < knownUntil.get(path)!;
+  if (!known(start.declaration.path, time)) {
+    throw new Error(
+      `${start.declaration.path} changes too often to read up to ${options.time}${options.timeUnit || ''}; ` +
+      `its history ends at ${stamp(knownUntil.get(start.declaration.path)!)}`
+    );
+  }
+
+  const current = valueAt(values.get(start.declaration.path)!, time);
+  if (!current) {
+    throw new Error(`${start.declaration.path} has no value at ${options.time}${options.timeUnit || ''}`);
+  }
+
+  const chain: CauseStep[] = [];
+  const onChain = new Set<string>();
+  let conclusion: RootCauseAnalysis['conclusion'] | undefined;
+  let path = start.declaration.path;
+  let at = time;
+
+  while (!conclusion) {
+    const report = xref.describe(path)!;
+    const trackValues = values.get(path)!;
+    const value = valueAt(trackValues, at)!;
+    const since = runStart(trackValues, at);
+    const sequential = report.drivers.some(driver => driver.clocks && driver.clocks.length > 0);
+    // Registers take the value their inputs had before the clock edge
+    const sampleTime = sequential && since > 0 ? since - 1 : since;
+
+    await track(report.drivers.flatMap(driver => driver.signals));
+    const inputs: CauseInput[] = [];
+    for (const driver of report.drivers) {
+      for (const input of driver.signals) {
+        if (inputs.some(existing => existing.signal === input)) continue;
+        const inputValues = values.get(input);
+        if (inputValues && !known(input, sampleTime)) {
+          inputs.push({ signal: input, waveformSignal: tracked.get(input)!.name, truncated: true });
+          continue;
+        }
+        const sampled = inputValues ? valueAt(inputValues, sampleTime) : undefined;
+        inputs.push({
+          signal: input,
+          waveformSignal: tracked.get(input)?.name,
+          value: sampled?.value,
+          isX: sampled?.isX,
+          since: sampled ? runStart(inputValues!, sampleTime) : undefined,
+        });
+      }
+    }
+
+    chain.push({
+      signal: path,
+      waveformSignal: tracked.get(path)!.name,
+      value: value.value,
+      isX: value.isX,
+      since,
+      drivers: report.drivers,
+      inputs: inputs.slice(0, MAX_INPUTS),
+    });
+    onChain.add(path);
+
+    const dumped = inputs.filter(input => input.value !== undefined);
+    const cutShort = inputs.filter(input => input.truncated);
+    let next: CauseInput | undefined;
+    if (report.drivers.length === 0) {
+      conclusion = report.declaration.instance === xref.getHierarchy().root.path && report.declaration.kind === 'input'
+        ? { reason: 'primary-input', signal: path, message: `${path} is a primary input; the testbench sets it to ${formatValue(value)} at ${stamp(since)}` }
+        : { reason: 'undriven', signal: path, message: `Nothing in the design drives ${path}` };
+    } else if (cutShort.length > 0) {
+      // Any input could be the cause, so the walk cannot pick one without their values
+      const ends = cutShort.map(input => `${input.signal} (until ${stamp(knownUntil.get(input.signal)!)})`);
+      conclusion = {
+        reason: 'history-truncated',
+        signal: path,
+        message: `The inputs of ${path} at ${stamp(sampleTime)} are not all known; these change too often to read that far: ${ends.join(', ')}`,
+      };
+    } else if (value.isX) {
+      const unknown = dumped.filter(input => input.isX);
+      next = unknown.filter(input => !onChain.has(input.signal)).sort((a, b) => a.since! - b.since!)[0];
+      if (!next) {
+        conclusion = unknown.length > 0
+          ? { reason: 'x-loop', signal: path, message: `X feeds back into ${path} from ${unknown.map(i => i.signal).join(', ')}; the loop has been X since ${stamp(since)}, as when a register in it is never reset` }
+          : dumped.length < inputs.length
+            ? notDumpedConclusion(path, inputs)
+            : { reason: 'x-origin', signal: path, message: `${path} becomes X at ${stamp(since)} with no X input; the X starts in its driving logic` };
+      }
+    } else if (since <= firstTime(trackValues)) {
+      conclusion = { reason: 'initial-value', signal: path, message: `${path} has held ${formatValue(value)} since the start of the simulation` };
+    } else {
+      // The input that changed last before the signal did
+      next = dumped
+        .filter(input => !onChain.has(input.signal))
+        .sort((a, b) => b.since! - a.since!)[0];
+      if (!next) {
+        conclusion = dumped.length < inputs.length
+          ? notDumpedConclusion(path, inputs)
+          : { reason: 'no-input-change', signal: path, message: `No input of ${path} changed before it took ${formatValue(value)} at ${stamp(since)}` };
+      }
+    }
+
+    if (!conclusion && next) {
+      if (chain.length >= options.depth) {
+        conclusion = { reason: 'depth-limit', signal: path, message: `Stopped after ${options.depth} steps; ${next.signal} is next` };
+      } else {
+        path = next.signal;
+        at = sampleTime;
+      }
+    }
+  }
+
+  const earliestX: RootCauseAnalysis['earliestX'] = [];
+  for (const [signalPath, signalValues] of values) {
+    if (valueAt(signalValues, time)?.isX) {
+      earliestX.push({ signal: signalPath, since: runStart(signalValues, time) });
+    }
+  }
+  earliestX.sort((a, b) => a.since - b.since);
+
+  for (const step of chain) {
+    step.since = fromTicks(step.since);
+    for (const input of step.inputs) {
+      if (input.since !== undefined) input.since = fromTicks(input.since);
+    }
+  }
+
+  const expected = options.expected !== undefined ? decodeExpected(options.expected) : undefined;
+  return {
+    signal: start.declaration.path,
+    waveformSignal: startInfo.name,
+    scope,
+    time: options.time,
+    timeUnit: options.timeUnit || header.timescale,
+    value: current.value,
+    isX: current.isX,
+    expected: options.expected,
+    matchesExpected: expected !== undefined ? sameValue(current, expected) : undefined,
+    chain,
+    conclusion: conclusion!,
+    earliestX: earliestX.map(entry => ({ signal: entry.signal, since: fromTicks(entry.since) })),
+    notDumped,
+    truncated: [...knownUntil.keys()],
+    coneTruncated: cone.truncated,
+  };
+}
+
+/**
+ * Waveform scope that holds the design's top module: the one under which
+ * most of the top module's signals are found, e.g. `TOP.top` or `tb.dut`.
+ */
+export function findDesignScope(header: WaveformHeader, xref: SignalXref): string | undefined {
+  const root = xref.getHierarchy().root.path;
+  const names = xref.signalsOf(root).map(path => path.slice(root.length + 1));
+  const counts = new Map<string, number>();
+  for (const info of header.signals) {
+    for (const name of names) {
+      if (info.name.endsWith(`.${name}`)) {
+        const scope = info.name.slice(0, -(name.length + 1));
+        counts.set(scope, (counts.get(scope) || 0) + 1);
+      }
+    }
+  }
+
+  let best: string | undefined;
+  for (const [scope, count] of counts) {
+    const bestCount = best !== undefined ? counts.get(best)! : 0;
+    if (count > bestCount || (count === bestCount && best !== undefined && scope.length < best.length)) {
+      best = scope;
+    }
+  }
+  return best;
+}
+
+/**
+ * Values of `signals` from time 0 to `time`, by waveform name. Signals with
+ * more changes than fit are read again over a shorter window ending at
+ * `time`, so for them only the recent history is kept. Signals that still do
+ * not fit after the last pass are in `endsAt`, with the time their history
+ * stops at.
+ */
+async function readHistory(
+  reader: WaveformReader,
+  signals: WaveformSignalInfo[],
+  time: number
+): Promise<{ history: Map<string, SignalValue[]>; endsAt: Map<string, number> }> {
+  const history = new Map<string, SignalValue[]>();
+  const endsAt = new Map<string, number>();
+  let pending = signals;
+  let window: [number, number] = [0, time];
+
+  for (let pass = 0; pending.length > 0 && pass < MAX_PASSES; pass++) {
+    const waveform = await reader.readValues(pending, window, MAX_VALUES);
+    let span = window[1] - window[0];
+    const truncated = new Set<string>();
+    endsAt.clear();
+    for (const signal of waveform.signals) {
+      history.set(signal.name, signal.values);
+      if (signal.truncated && signal.values.length > 0) {
+        truncated.add(signal.name);
+        const last = signal.values[signal.values.length - 1].time;
+        endsAt.set(signal.name, last);
+        span = Math.min(span, last - window[0]);
+      }
+    }
+    pending = pending.filter(info => truncated.has(info.name));
+    window = [Math.max(window[0] + 1, time - Math.floor(span / 2)), time];
+  }
+  return { history, endsAt };
+}
+
+function waveformName(xref: SignalXref, scope: string, path: string): string {
+  const root = xref.getHierarchy().root.path;
+  return `${scope}.${path.slice(root.length + 1)}`;
+}
+
+function notDumpedConclusion(path: string, inputs: CauseInput[]): RootCauseAnalysis['conclusion'] {
+  const missing = inputs.filter(input => input.value === undefined).map(input => input.signal);
+  return {
+    reason: 'not-dumped',
+    signal: path,
+    message: `The inputs of ${path} that could explain it are not in the waveform: ${missing.join(', ')}`,
+  };
+}
+
+function valueAt(values: SignalValue[], time: number): SignalValue | undefined {
+  let found: SignalValue | undefined;
+  for (const value of values) {
+    if (value.time > time) break;
+    found = value;
+  }
+  return found;
+}
+
+function firstTime(values: SignalValue[]): number {
+  return values.length > 0 ? values[0].time : 0;
+}
+
+/**
+ * When the signal took the value it has at `time`. Repeated dumps of the
+ * same value, and X that changes between X patterns, do not end a run.
+ */
+function runStart(values: SignalValue[], time: number): number {
+  let index = -1;
+  for (let i = 0; i < values.length && values[i].time <= time; i++) {
+    index = i;
+  }
+  if (index < 0) return time;
+
+  const current = values[index];
+  while (index > 0) {
+    const previous = values[index - 1];
+    const same = current.isX ? previous.isX : !previous.isX && previous.value === current.value;
+    if (!same) break;
+    index--;
+  }
+  return values[index].time;
+}
+
+function formatValue(value: SignalValue): string {
+  return typeof value.value === 'number' ? String(value.value) : `'${value.value}'`;
+}
+
+function decodeExpected(expected: string | number): string | number {
+  if (typeof expected === 'number') return expected;
+  const text = expected.trim();
+  if (/^0x[0-9a-f_]+$/i.test(text)) return parseInt(text.slice(2).replace(/_/g, ''), 16);
+  if (/^0b[01_]+$/i.test(text)) return parseInt(text.slice(2).replace(/_/g, ''), 2);
+  return decodeConstant(text.replace(/^(\d+)'([sS]?)([bBoOdDhH])/, (_, size, signed, base) => `${size}'${signed.toLowerCase()}${base.toLowerCase()}`));
+}
+
+function sameValue(value: SignalValue, expected: string | number): boolean {
+  if (typeof expected === 'string' && /^[xz]+$/i.test(expected)) {
+    return expected.toLowerCase().startsWith('x') ? !!value.isX : !!value.isZ;
+  }
+  return String(value.value) === String(expected);
+}
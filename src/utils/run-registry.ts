@@ -0,0 +1,207 @@
+import { promises as fs } from 'fs';
+import { basename, dirname, join, resolve } from 'path';
+import { homedir } from 'os';
+import * as crypto from 'crypto';
+import { findProjectConfig } from './project-config.js';
+import { logger } from './logger.js';
+import { ParsedError } from './error-handler.js';
+import { AssertionResult, ReportFiles } from '../types/index.js';
+
+export const DEFAULT_RESOURCE_DIR = join(homedir(), '.verilator-mcp', 'resources');
+
+// Older records are dropped; the artifacts they point at are left alone
+const MAX_RUNS_PER_PROJECT = 500;
+
+// Project and run ids become directory names
+const SAFE_NAME = /^[\w-][\w.-]*$/;
+
+/**
+ * Where a simulation left its output. All paths are absolute.
+ */
+export interface SimulationArtifacts {
+  outputDir: string;
+  logFile?: string;
+  waveformFile?: string;
+  coverageFile?: string;
+  testbench?: string;
+  buildDir?: string;
+  reports?: ReportFiles;
+}
+
+export interface SimulationRunRecord {
+  id: string;
+  projectId: string;
+  // Test name, or the top module for a single simulation
+  name: string;
+  tool: string;
+  createdAt: number;
+  passed: boolean;
+  status?: string;
+  seed?: number;
+  simulationTime?: number;
+  artifacts: SimulationArtifacts;
+  assertions: AssertionResult[];
+  errors: string[];
+}
+
+export type NewSimulationRun = Omit<SimulationRunRecord, 'id' | 'projectId' | 'createdAt'>;
+
+/**
+ * Outcome of the newest verilator_compile in a project, whether it ran
+ * directly or for a simulation.
+ */
+export interface BuildRecord {
+  projectId: string;
+  createdAt: number;
+  outputDir: string;
+  success: boolean;
+  // Restored from the compile cache rather than built
+  cached?: boolean;
+  errors: ParsedError[];
+  warnings: ParsedError[];
+}
+
+export type NewBuild = Omit<BuildRecord, 'projectId' | 'createdAt'>;
+
+export type SimulationResourceCategory = 'runs' | 'logs' | 'waves' | 'coverage' | 'assertions';
+
+export function simulationUri(run: SimulationRunRecord, category: SimulationResourceCategory = 'runs'): string {
+  return `simulation://${run.projectId}/${category}/${run.id}`;
+}
+
+/**
+ * Project a run belongs to: the directory holding verilator-mcp.json, or the
+ * working directory when there is none. The id is the directory's name with
+ * a hash of its path, so two checkouts both called `rtl` stay apart.
+ */
+export async function projectIdFor(cwd: string = process.cwd()): Promise<string> {
+  const config = await findProjectConfig(cwd);
+  const root = config ? dirname(config) : resolve(cwd);
+  const name = basename(root).replace(/[^\w.-]/g, '_').replace(/^\.+/, '') || 'default';
+  return `${name}-${crypto.createHash('sha256').update(root).digest('hex').slice(0, 8)}`;
+}
+
+/**
+ * Records every simulation run under
+ * `<resourceDir>/<project>/simulations/<id>/run.json`, so MCP resources can
+ * point at artifacts wherever each run wrote them.
+ */
+export class RunRegistry {
+  private resourceDir: string;
+
+  constructor(resourceDir: string = DEFAULT_RESOURCE_DIR) {
+    this.resourceDir = resourceDir;
+  }
+
+  getResourceDir(): string {
+    return this.resourceDir;
+  }
+
+  async record(run: NewSimulationRun, cwd: string = process.cwd()): Promise<SimulationRunRecord> {
+    const createdAt = Date.now();
+    const projectId = await projectIdFor(cwd);
+    const record: SimulationRunRecord = {
+      id: `${run.name.replace(/[^\w-]/g, '_')}-${createdAt.toString(36)}-${crypto.randomBytes(2).toString('hex')}`,
+      projectId,
+      createdAt,
+      ...run,
+    };
+
+    const dir = join(this.getSimulationsDir(projectId), record.id);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(join(dir, 'run.json'), JSON.stringify(record, null, 2));
+    logger.debug(`Recorded simulation run ${projectId}/${record.id}`);
+
+    await this.trim(projectId);
+    return record;
+  }
+
+  /**
+   * Replace the project's build record; only the newest build is kept.
+   */
+  async recordBuild(build: NewBuild, cwd: string = process.cwd()): Promise<BuildRecord> {
+    const projectId = await projectIdFor(cwd);
+    const record: BuildRecord = { projectId, createdAt: Date.now(), ...build };
+    await fs.mkdir(this.getProjectDir(projectId), { recursive: true });
+    await fs.writeFile(join(this.getProjectDir(projectId), 'build.json'), JSON.stringify(record, null, 2));
+    return record;
+  }
+
+  async getLastBuild(projectId: string): Promise<BuildRecord | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(join(this.getProjectDir(projectId), 'build.json'), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async listProjects(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.resourceDir, { withFileTypes: true });
+      return entries.filter(entry => entry.isDirectory() && !entry.name.startsWith('.')).map(entry => entry.name);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Runs of a project, newest first.
+   */
+  async list(projectId: string): Promise<SimulationRunRecord[]> {
+    let ids: string[];
+    try {
+      ids = await fs.readdir(this.getSimulationsDir(projectId));
+    } catch {
+      return [];
+    }
+
+    const runs: SimulationRunRecord[] = [];
+    for (const id of ids) {
+      const run = await this.get(projectId, id);
+      if (run) {
+        runs.push(run);
+      }
+    }
+    return runs.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async get(projectId: string, id: string): Promise<SimulationRunRecord | undefined> {
+    if (!SAFE_NAME.test(id)) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(await fs.readFile(join(this.getSimulationsDir(projectId), id, 'run.json'), 'utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  getProjectDir(projectId: string): string {
+    if (!SAFE_NAME.test(projectId)) {
+      throw new Error(`Invalid project id: ${projectId}`);
+    }
+    return join(this.resourceDir, projectId);
+  }
+
+  /**
+   * Where verilator_hierarchy writes the project's design:// resources.
+   */
+  getDesignDir(projectId: string): string {
+    return join(this.getProjectDir(projectId), 'design');
+  }
+
+  private getSimulationsDir(projectId: string): string {
+    return join(this.getProjectDir(projectId), 'simulations');
+  }
+
+  private async trim(projectId: string): Promise<void> {
+    const ids = await fs.readdir(this.getSimulationsDir(projectId));
+    if (ids.length <= MAX_RUNS_PER_PROJECT) {
+      return;
+    }
+    const runs = await this.list(projectId);
+    for (const run of runs.slice(MAX_RUNS_PER_PROJECT)) {
+      await fs.rm(join(this.getSimulationsDir(projectId), run.id), { recursive: true, force: true });
+    }
+  }
+}
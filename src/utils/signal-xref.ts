@@ -0,0 +1,635 @@
+import {
+  AstNode,
+  Netlist,
+  NetlistModule,
+  NetlistPort,
+  SCOPE_TYPES,
+  dataTypeInfo,
+  expressionText,
+  isParameter,
+  location,
+  pinExpression,
+  readNetlist,
+  varDirection,
+  walk,
+} from './verilator-ast.js';
+import { DesignHierarchy, InstanceNode, readDesignHierarchy } from './design-hierarchy.js';
+
+/**
+ * Cross-reference of the signals in an elaborated design: where each one is
+ * declared, which logic drives it and which logic reads it. Modules are
+ * indexed once from Verilator's AST; queries resolve the result through the
+ * instance tree, so drivers and cones follow signals across ports.
+ */
+
+// Cones stop growing past this many signals
+const MAX_CONE_SIGNALS = 500;
+// Statements kept per driver or load
+const MAX_STATEMENTS = 5;
+
+const PROCESS_TYPES = new Set(['always', 'alwayspublic', 'alwayspost', 'initial', 'initialautomatic', 'initialstatic', 'final']);
+const CONTINUOUS_TYPES = new Set(['assignw', 'contassign', 'assignalias']);
+const ASSIGN_TYPES = new Set(['assign', 'assigndly', 'assignforce', 'assignpre', 'assignpost', ...CONTINUOUS_TYPES]);
+// Statements whose expressions decide whether the statements under them run
+const CONTROL_TYPES = new Set(['if', 'case', 'caseitem', 'while', 'dowhile', 'loop', 'looptest', 'repeat', 'foreach', 'for', 'wait']);
+const STATEMENT_TYPES = new Set([
+  ...ASSIGN_TYPES, ...CONTROL_TYPES, 'begin', 'fork', 'sentree', 'eventcontrol', 'delay', 'display', 'stmtexpr',
+  'jumpblock', 'jumplabel', 'jumpgo', 'return', 'finish', 'stop', 'disable', 'assert', 'assertintrinsic', 'cover', 'assume',
+]);
+// JSON fields that hold statements rather than expressions
+const BODY_SLOTS = new Set(['stmtsp', 'thensp', 'elsesp', 'itemsp', 'bodysp', 'incsp', 'precondsp', 'passsp', 'failsp']);
+const FUNCTION_TYPES = new Set(['func', 'task', 'class', 'cfunc']);
+
+const EDGES: Record<string, string> = {
+  POS: 'posedge', POSEDGE: 'posedge', NEG: 'negedge', NEGEDGE: 'negedge', BOTH: 'edge', BOTHEDGE: 'edge',
+};
+
+export type SignalKind = NetlistPort['direction'] | 'wire' | 'variable' | 'parameter';
+
+export type AccessKind =
+  | 'always'
+  | 'always_ff'
+  | 'always_comb'
+  | 'always_latch'
+  | 'initial'
+  | 'final'
+  | 'assign'
+  // Port connection of a child instance
+  | 'instance'
+  // Connection in the parent, for a port of the signal's own instance
+  | 'port';
+
+export interface SignalDeclaration {
+  // Hierarchical path, e.g. top.u_core.gen_lane[1].valid
+  path: string;
+  // Name in its module, including generate block scope
+  name: string;
+  instance: string;
+  module: string;
+  kind: SignalKind;
+  width?: number;
+  dataType?: string;
+  file?: string;
+  line?: number;
+}
+
+export interface SignalAccess {
+  kind: AccessKind;
+  // Instance holding the logic; the child instance for `instance` accesses
+  instance: string;
+  port?: string;
+  file?: string;
+  line?: number;
+  // Verilog of the statements or connection, e.g. `q <= d` or `.a(clk)`
+  statements: string[];
+  // Signals on the other side: those a driver reads, or those a load feeds
+  signals: string[];
+  // Clocks and events of the block; cones do not follow them
+  clocks?: string[];
+}
+
+export interface SignalReport {
+  declaration: SignalDeclaration;
+  drivers: SignalAccess[];
+  loads: SignalAccess[];
+}
+
+export interface ConeEntry {
+  signal: string;
+  level: number;
+  // Signal one level closer to the start of the cone
+  from: string;
+  via: AccessKind;
+  file?: string;
+  line?: number;
+}
+
+export interface SignalCone {
+  direction: 'fanin' | 'fanout';
+  depth: number;
+  signals: ConeEntry[];
+  // Signals the cone ends at within its depth: undriven or constant for
+  // fan-in, such as primary inputs; unread for fan-out
+  endpoints: string[];
+  truncated?: boolean;
+}
+
+// Index of one module, with signals named relative to it
+
+interface LocalDeclaration {
+  kind: SignalKind;
+  width?: number;
+  dataType?: string;
+  file?: string;
+  line?: number;
+}
+
+interface LocalAccess {
+  kind: AccessKind;
+  file?: string;
+  line?: number;
+  statements: string[];
+  signals: string[];
+  clocks?: string[];
+  // Child instance (scope and name) and port of `instance` accesses
+  cell?: string;
+  port?: string;
+}
+
+interface CellPin {
+  direction?: NetlistPort['direction'];
+  connection: string;
+  // Signals the port reads from, or writes to for outputs
+  signals: string[];
+  file?: string;
+  line?: number;
+}
+
+interface ModuleXref {
+  declarations: Map<string, LocalDeclaration>;
+  drivers: Map<string, LocalAccess[]>;
+  loads: Map<string, LocalAccess[]>;
+  // Port connections of each child instance, by its scope and name
+  pins: Map<string, Map<string, CellPin>>;
+}
+
+interface LocatedSignal {
+  path: string;
+  // Name in the instance's module
+  key: string;
+  instance: InstanceNode;
+  parent?: InstanceNode;
+  xref: ModuleXref;
+  declared: boolean;
+}
+
+// What one process or continuous assignment writes and reads
+interface BlockEffects {
+  writes: Map<string, { reads: Set<string>; statements: string[]; file?: string; line?: number }>;
+  // Signals read by statements that write nothing, such as $display
+  reads: Set<string>;
+  clocks: Map<string, string>;
+}
+
+export class SignalXref {
+  private netlist: Netlist;
+  private hierarchy: DesignHierarchy;
+  private modules = new Map<string, ModuleXref | undefined>();
+  private instances = new Map<string, { node: InstanceNode; parent?: InstanceNode }>();
+
+  constructor(netlist: Netlist, hierarchy: DesignHierarchy) {
+    this.netlist = netlist;
+    this.hierarchy = hierarchy;
+
+    const visit = (node: InstanceNode, parent?: InstanceNode) => {
+      this.instances.set(node.path, { node, parent });
+      node.children.forEach(child => visit(child, node));
+    };
+    visit(hierarchy.root);
+  }
+
+  /**
+   * Cross-reference of the design last extracted into `designDir` by
+   * verilator_hierarchy, or undefined when there is none.
+   */
+  static async load(designDir: string): Promise<SignalXref | undefined> {
+    const hierarchy = await readDesignHierarchy(designDir);
+    if (!hierarchy) {
+      return undefined;
+    }
+    const { source } = hierarchy;
+    return new SignalXref(await readNetlist(source.astFile, source.format, source.astMetaFile), hierarchy);
+  }
+
+  getHierarchy(): DesignHierarchy {
+    return this.hierarchy;
+  }
+
+  /**
+   * Hierarchical paths of the signals `name` may refer to, shallowest first.
+   * `name` is a full path, a path without the top module, or any trailing
+   * part of a path, such as a bare signal name.
+   */
+  find(name: string): string[] {
+    const exact = this.locate(name);
+    if (exact?.declared) {
+      return [exact.path];
+    }
+
+    const matches: string[] = [];
+    for (const { node } of this.instances.values()) {
+      for (const key of this.moduleXref(node.module)?.declarations.keys() || []) {
+        const path = `${node.path}.${key}`;
+        if (path.endsWith(`.${name}`)) {
+          matches.push(path);
+        }
+      }
+    }
+    return matches.sort((a, b) => a.split('.').length - b.split('.').length);
+  }
+
+  /**
+   * Module by elaborated name, or the first module elaborated from a source
+   * definition of that name.
+   */
+  getModule(name: string): NetlistModule | undefined {
+    return this.netlist.modules.get(name)
+      ?? [...this.netlist.modules.values()].find(module => module.definition === name);
+  }
+
+  /**
+   * Paths of the signals declared in an instance, including those in its
+   * generate blocks.
+   */
+  signalsOf(instance: string): string[] {
+    const found = this.instances.get(instance);
+    const xref = found ? this.moduleXref(found.node.module) : undefined;
+    return [...(xref?.declarations.keys() || [])].map(key => `${instance}.${key}`);
+  }
+
+  /**
+   * Declaration, drivers and loads of the signal at `path`, or undefined if
+   * no module declares it.
+   */
+  describe(path: string): SignalReport | undefined {
+    const located = this.locate(path);
+    if (!located?.declared) {
+      return undefined;
+    }
+    const { instance, parent, key, xref } = located;
+    const declared = xref.declarations.get(key)!;
+
+    const report: SignalReport = {
+      declaration: {
+        path: located.path,
+        name: key,
+        instance: instance.path,
+        module: instance.module,
+        ...declared,
+      },
+      drivers: (xref.drivers.get(key) || []).map(access => this.resolveAccess(access, instance)),
+      loads: (xref.loads.get(key) || []).map(access => this.resolveAccess(access, instance)),
+    };
+
+    // Ports continue into the parent's connection
+    const pin = parent ? this.moduleXref(parent.module)?.pins.get(instance.path.slice(parent.path.length + 1))?.get(key) : undefined;
+    if (parent && pin) {
+      const access: SignalAccess = {
+        kind: 'port',
+        instance: parent.path,
+        port: key,
+        file: pin.file,
+        line: pin.line,
+        statements: [pin.connection],
+        signals: pin.signals.map(signal => `${parent.path}.${signal}`),
+      };
+      if (declared.kind === 'input' || declared.kind === 'inout' || declared.kind === 'ref') {
+        report.drivers.push(access);
+      }
+      if (declared.kind === 'output' || declared.kind === 'inout' || declared.kind === 'ref') {
+        report.loads.push(access);
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Signals feeding (fan-in) or fed by (fan-out) the signal at `path`, up to
+   * `depth` levels of logic and port connections away.
+   */
+  cone(path: string, direction: SignalCone['direction'], depth: number): SignalCone {
+    const start = this.describe(path);
+    if (!start) {
+      throw new Error(`Unknown signal: ${path}`);
+    }
+
+    const cone: SignalCone = { direction, depth, signals: [], endpoints: [] };
+    const seen = new Set([start.declaration.path]);
+    let frontier = [start];
+    for (let level = 1; level <= depth && frontier.length > 0; level++) {
+      const next: SignalReport[] = [];
+      for (const report of frontier) {
+        const accesses = direction === 'fanin' ? report.drivers : report.loads;
+        if (accesses.every(access => access.signals.length === 0)) {
+          cone.endpoints.push(report.declaration.path);
+        }
+        for (const access of accesses) {
+          for (const signal of access.signals) {
+            if (seen.has(signal)) continue;
+            seen.add(signal);
+            if (cone.signals.length >= MAX_CONE_SIGNALS) {
+              cone.truncated = true;
+              return cone;
+            }
+            cone.signals.push({
+              signal,
+              level,
+              from: report.declaration.path,
+              via: access.kind,
+              file: access.file,
+              line: access.line,
+            });
+            const described = this.describe(signal);
+            if (described) {
+              next.push(described);
+            }
+          }
+        }
+      }
+      frontier = next;
+    }
+    return cone;
+  }
+
+  private locate(path: string): LocatedSignal | undefined {
+    const root = this.hierarchy.root.path;
+    const full = path.startsWith(`${root}.`) ? path : `${root}.${path}`;
+
+    // Longest instance path that the rest of the path is declared in
+    let fallback: LocatedSignal | undefined;
+    for (let end = full.lastIndexOf('.'); end > 0; end = full.lastIndexOf('.', end - 1)) {
+      const found = this.instances.get(full.slice(0, end));
+      const xref = found ? this.moduleXref(found.node.module) : undefined;
+      if (!found || !xref) continue;
+
+      const key = full.slice(end + 1);
+      const located: LocatedSignal = {
+        path: full,
+        key,
+        instance: found.node,
+        parent: found.parent,
+        xref,
+        declared: xref.declarations.has(key),
+      };
+      if (located.declared) {
+        return located;
+      }
+      fallback ??= located;
+    }
+    return fallback;
+  }
+
+  private resolveAccess(access: LocalAccess, instance: InstanceNode): SignalAccess {
+    if (access.kind === 'instance') {
+      const child = `${instance.path}.${access.cell}`;
+      return {
+        kind: 'instance',
+        instance: child,
+        port: access.port,
+        file: access.file,
+        line: access.line,
+        statements: access.statements,
+        signals: [`${child}.${access.port}`],
+      };
+    }
+    return {
+      kind: access.kind,
+      instance: instance.path,
+      file: access.file,
+      line: access.line,
+      statements: access.statements,
+      signals: access.signals.map(signal => `${instance.path}.${signal}`),
+      clocks: access.clocks?.map(signal => `${instance.path}.${signal}`),
+    };
+  }
+
+  private moduleXref(name: string): ModuleXref | undefined {
+    if (!this.modules.has(name)) {
+      const module = this.netlist.modules.get(name);
+      this.modules.set(name, module ? indexModule(module, this.netlist) : undefined);
+    }
+    return this.modules.get(name);
+  }
+}
+
+function indexModule(module: NetlistModule, netlist: Netlist): ModuleXref {
+  const xref: ModuleXref = { declarations: new Map(), drivers: new Map(), loads: new Map(), pins: new Map() };
+  // JSON references variables by address
+  const addresses = new Map<string, string>();
+
+  const declare = (node: AstNode, scope: string[]): void => {
+    if (FUNCTION_TYPES.has(node.type)) return;
+    if (node.type === 'var') {
+      const key = [...scope, node.attrs.name].join('.');
+      if (node.attrs.addr) addresses.set(node.attrs.addr, key);
+      xref.declarations.set(key, { kind: signalKind(node), ...dataTypeInfo(node, netlist), ...location(node, netlist) });
+      return;
+    }
+    node.children.forEach(child => declare(child, nestedScope(child, scope)));
+  };
+  module.node.children.forEach(child => declare(child, nestedScope(child, [])));
+
+  const resolve = (ref: AstNode, scope: string[]): string => {
+    const key = ref.attrs.varp ? addresses.get(ref.attrs.varp) : undefined;
+    if (key) return key;
+    if (ref.attrs.dotted) return `${ref.attrs.dotted}.${ref.attrs.name}`;
+    for (let depth = scope.length; depth > 0; depth--) {
+      const scoped = [...scope.slice(0, depth), ref.attrs.name].join('.');
+      if (xref.declarations.has(scoped)) return scoped;
+    }
+    return ref.attrs.name;
+  };
+
+  const reads = (node: AstNode, scope: string[]): string[] => {
+    const found: string[] = [];
+    walk(node, child => {
+      if (child.type.endsWith('dtype')) return false;
+      if (child.type === 'varref' || child.type === 'varxref') {
+        found.push(resolve(child, scope));
+        return false;
+      }
+      return true;
+    });
+    return found;
+  };
+
+  // Signals an assignment target writes, and those its indices read
+  const targets = (node: AstNode, scope: string[]): { written: string[]; read: string[] } => {
+    if (node.type === 'varref' || node.type === 'varxref') {
+      return { written: [resolve(node, scope)], read: [] };
+    }
+    const operands = node.children.filter(child => !child.type.endsWith('dtype'));
+    if (['sel', 'arraysel', 'wordsel', 'membersel'].includes(node.type) && operands.length > 0) {
+      const [from, ...indices] = operands;
+      const result = targets(from, scope);
+      return { written: result.written, read: [...result.read, ...indices.flatMap(index => reads(index, scope))] };
+    }
+    const results = operands.map(operand => targets(operand, scope));
+    return { written: results.flatMap(r => r.written), read: results.flatMap(r => r.read) };
+  };
+
+  const addAccess = (map: Map<string, LocalAccess[]>, signal: string, access: LocalAccess): void => {
+    map.set(signal, [...(map.get(signal) || []), access]);
+  };
+
+  const indexBlock = (node: AstNode, scope: string[], kind: AccessKind): void => {
+    const effects: BlockEffects = { writes: new Map(), reads: new Set(), clocks: new Map() };
+
+    const visit = (stmt: AstNode, scope: string[], conditions: string[]): void => {
+      if (stmt.type === 'var' || FUNCTION_TYPES.has(stmt.type) || stmt.type.endsWith('dtype')) return;
+
+      if (ASSIGN_TYPES.has(stmt.type)) {
+        const [rhs, lhs] = assignOperands(stmt);
+        if (!rhs || !lhs) return;
+        const target = targets(lhs, scope);
+        const sources = [...reads(rhs, scope), ...target.read, ...conditions];
+        const operator = stmt.type === 'assigndly' ? '<=' : '=';
+        const text = `${CONTINUOUS_TYPES.has(stmt.type) ? 'assign ' : ''}${expressionText(lhs)} ${operator} ${expressionText(rhs)}`;
+        for (const signal of target.written) {
+          const write = effects.writes.get(signal) || { reads: new Set<string>(), statements: [], ...location(stmt, netlist) };
+          sources.forEach(source => write.reads.add(source));
+          if (write.statements.length < MAX_STATEMENTS && !write.statements.includes(text)) {
+            write.statements.push(text);
+          }
+          effects.writes.set(signal, write);
+        }
+        return;
+      }
+
+      if (stmt.type === 'sentree') {
+        walk(stmt, item => {
+          if (item.type !== 'senitem') return true;
+          const edge = EDGES[(item.attrs.edgeType || '').toUpperCase()];
+          for (const signal of reads(item, scope)) {
+            effects.clocks.set(signal, edge ? `@(${edge} ${signal})` : `@(${signal})`);
+          }
+          return false;
+        });
+        return;
+      }
+
+      const nested = nestedScope(stmt, scope);
+      const body = stmt.children.filter(isStatement);
+      const expressions = stmt.children.filter(child => !isStatement(child)).flatMap(child => reads(child, nested));
+      if (CONTROL_TYPES.has(stmt.type)) {
+        body.forEach(child => visit(child, nested, [...conditions, ...expressions]));
+      } else {
+        expressions.forEach(signal => effects.reads.add(signal));
+        body.forEach(child => visit(child, nested, conditions));
+      }
+    };
+    if (CONTINUOUS_TYPES.has(node.type)) {
+      visit(node, scope, []);
+    } else {
+      node.children.forEach(child => visit(child, scope, []));
+    }
+
+    const block = location(node, netlist);
+    const clocks = [...effects.clocks.keys()];
+    for (const [signal, write] of effects.writes) {
+      addAccess(xref.drivers, signal, {
+        kind,
+        file: write.file ?? block.file,
+        line: write.line ?? block.line,
+        statements: write.statements,
+        signals: [...write.reads],
+        clocks: clocks.length > 0 ? clocks : undefined,
+      });
+    }
+
+    // A read feeds every signal written from it in this block
+    const fed = new Map<string, { signals: string[]; statements: string[]; file?: string; line?: number }>();
+    for (const [signal, write] of effects.writes) {
+      for (const source of write.reads) {
+        const load = fed.get(source) || { signals: [], statements: [], file: write.file, line: write.line };
+        load.signals.push(signal);
+        load.statements.push(...write.statements.filter(text => !load.statements.includes(text)));
+        fed.set(source, load);
+      }
+    }
+    for (const signal of effects.reads) {
+      if (!fed.has(signal)) {
+        fed.set(signal, { signals: [], statements: [], ...block });
+      }
+    }
+    for (const [signal, load] of fed) {
+      addAccess(xref.loads, signal, { kind, ...load, statements: load.statements.slice(0, MAX_STATEMENTS) });
+    }
+    for (const [signal, event] of effects.clocks) {
+      addAccess(xref.loads, signal, { kind, ...block, statements: [event], signals: [] });
+    }
+  };
+
+  const indexCell = (node: AstNode, scope: string[]): void => {
+    const name = [...scope, node.attrs.name].join('.');
+    const cell = module.cells.find(c => c.name === node.attrs.name && c.scope.join('.') === scope.join('.'));
+    const pins = new Map<string, CellPin>();
+
+    for (const port of node.children.filter(child => child.type === 'port')) {
+      const expression = pinExpression(port);
+      const direction = cell?.connections.find(c => c.port === port.attrs.name)?.direction;
+      const connection = `.${port.attrs.name}(${expression ? expressionText(expression) : ''})`;
+      const access: LocalAccess = {
+        kind: 'instance',
+        ...location(port, netlist),
+        statements: [connection],
+        signals: [],
+        cell: name,
+        port: port.attrs.name,
+      };
+
+      const written = expression && direction && direction !== 'input' ? targets(expression, scope).written : [];
+      const read = expression && direction !== 'output' ? reads(expression, scope) : [];
+      written.forEach(signal => addAccess(xref.drivers, signal, access));
+      read.forEach(signal => addAccess(xref.loads, signal, access));
+      pins.set(port.attrs.name, {
+        direction,
+        connection,
+        signals: direction === 'output' ? written : read,
+        ...location(port, netlist),
+      });
+    }
+    xref.pins.set(name, pins);
+  };
+
+  const visit = (node: AstNode, scope: string[]): void => {
+    if (node.type === 'var' || FUNCTION_TYPES.has(node.type)) return;
+    if (node.type === 'instance') {
+      indexCell(node, scope);
+    } else if (PROCESS_TYPES.has(node.type)) {
+      indexBlock(node, scope, processKind(node));
+    } else if (CONTINUOUS_TYPES.has(node.type)) {
+      indexBlock(node, scope, 'assign');
+    } else {
+      node.children.forEach(child => visit(child, nestedScope(child, scope)));
+    }
+  };
+  module.node.children.forEach(child => visit(child, nestedScope(child, [])));
+  return xref;
+}
+
+function nestedScope(node: AstNode, scope: string[]): string[] {
+  return SCOPE_TYPES.has(node.type) && node.attrs.name ? [...scope, node.attrs.name] : scope;
+}
+
+function signalKind(node: AstNode): SignalKind {
+  const direction = varDirection(node);
+  if (direction) return direction;
+  if (isParameter(node)) return 'parameter';
+  return node.attrs.varType === 'WIRE' ? 'wire' : 'variable';
+}
+
+function processKind(node: AstNode): AccessKind {
+  if (node.type === 'final') return 'final';
+  if (node.type.startsWith('initial')) return 'initial';
+  // JSON and XML give the keyword in different cases
+  const keyword = (node.attrs.keyword || '').toLowerCase();
+  if (keyword === 'always_ff' || keyword === 'always_comb' || keyword === 'always_latch') return keyword;
+  return keyword === 'cont_assign' ? 'assign' : 'always';
+}
+
+function isStatement(node: AstNode): boolean {
+  if (node.type === 'sentree') return true;
+  return node.slot ? BODY_SLOTS.has(node.slot) : STATEMENT_TYPES.has(node.type);
+}
+
+// Verilator stores the right-hand side first; JSON also names the fields
+function assignOperands(node: AstNode): [AstNode | undefined, AstNode | undefined] {
+  const rhs = node.children.find(child => child.slot === 'rhsp');
+  const lhs = node.children.find(child => child.slot === 'lhsp');
+  if (rhs || lhs) {
+    return [rhs, lhs];
+  }
+  const operands = node.children.filter(child => !child.type.endsWith('dtype'));
+  return [operands[0], operands[1]];
+}
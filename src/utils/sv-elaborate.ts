@@ -0,0 +1,464 @@
+import { ModuleInfo, ParameterInfo, PortInfo } from '../types/index.js';
+import {
+  DataType,
+  Expr,
+  ModuleHeader,
+  ParamDecl,
+  ParsedSource,
+  PortDecl,
+  Range,
+  parseDataType,
+  parseExpression,
+} from './sv-parser.js';
+
+export type ParameterOverrides = Record<string, string | number>;
+
+type Value = number | string | undefined;
+
+const BASE_WIDTHS: Record<string, number> = {
+  logic: 1, bit: 1, reg: 1, byte: 8, shortint: 16, int: 32, integer: 32, longint: 64, time: 64,
+};
+
+const SIGNED_KEYWORDS = new Set(['byte', 'shortint', 'int', 'integer', 'longint']);
+
+// Types without a bit width; ports of these types are declared as written
+const NON_INTEGRAL = new Set(['real', 'shortreal', 'realtime', 'string', 'chandle', 'event']);
+
+/**
+ * Names visible while elaborating one module: its parameters so far, its
+ * typedefs, and the packages it imports.
+ */
+class Scope {
+  values = new Map<string, Value>();
+  types = new Map<string, DataType | undefined>();
+
+  constructor(private parsed: ParsedSource, private module: ModuleHeader) {}
+
+  value(name: string): Value {
+    if (this.values.has(name)) {
+      return this.values.get(name);
+    }
+    const param = this.lookup(name, this.parsed.parameters);
+    return param?.value && !param.isType ? evaluate(param.value, this) : undefined;
+  }
+
+  type(name: string): DataType | undefined {
+    if (this.types.has(name)) {
+      return this.types.get(name);
+    }
+    return this.module.typedefs.get(name) || this.lookup(name, this.parsed.typedefs);
+  }
+
+  private lookup<T>(name: string, table: Map<string, T>): T | undefined {
+    if (table.has(name)) {
+      return table.get(name);
+    }
+    for (const entry of [...this.module.imports, ...this.parsed.imports]) {
+      const [pkg, member] = entry.split('::');
+      if (member === '*' || member === name) {
+        const found = table.get(`${pkg}::${name}`);
+        if (found !== undefined) return found;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Resolve a parsed module against parameter overrides: evaluate parameter
+ * values and port widths, and map declarations onto ModuleInfo. Anything
+ * that cannot be evaluated is left unresolved and reported in `warnings`
+ * rather than guessed.
+ */
+export function elaborateModule(
+  parsed: ParsedSource,
+  name: string,
+  overrides: ParameterOverrides = {}
+): ModuleInfo {
+  const module = parsed.modules.find(m => m.name === name);
+  if (!module) {
+    const found = parsed.modules.map(m => m.name);
+    throw new Error(
+      `Module ${name} not found in ${parsed.file}` + (found.length > 0 ? ` (found: ${found.join(', ')})` : '')
+    );
+  }
+
+  const scope = new Scope(parsed, module);
+  const warnings = [...module.warnings];
+
+  for (const key of Object.keys(overrides)) {
+    const param = module.parameters.find(p => p.name === key);
+    if (!param) {
+      throw new Error(`Module ${name} has no parameter ${key}`);
+    }
+    if (param.local) {
+      throw new Error(`Parameter ${key} of ${name} is a localparam and cannot be overridden`);
+    }
+  }
+
+  const parameters = module.parameters.map(param => elaborateParameter(param, overrides[param.name], scope, warnings));
+  const ports: PortInfo[] = [];
+  for (const port of module.ports) {
+    ports.push(elaboratePort(port, module, scope, warnings));
+  }
+
+  const interfaces = module.ports
+    .filter(port => port.interfaceType)
+    .map(port => ({
+      name: port.name,
+      type: port.interfaceType!,
+      modports: port.modport ? [port.modport] : undefined,
+    }));
+
+  return {
+    name: module.name,
+    file: module.file,
+    line: module.line,
+    ports,
+    parameters,
+    interfaces,
+    clockDomains: [],
+    warnings,
+  };
+}
+
+function elaborateParameter(
+  param: ParamDecl,
+  override: string | number | undefined,
+  scope: Scope,
+  warnings: string[]
+): ParameterInfo {
+  if (param.isType) {
+    const type = override !== undefined ? parseDataType(String(override)) : param.typeValue;
+    scope.types.set(param.name, type);
+    return {
+      name: param.name,
+      type: 'type',
+      defaultValue: param.text,
+      value: type?.text,
+      local: param.local || undefined,
+    };
+  }
+
+  let value: Value;
+  if (typeof override === 'number') {
+    value = override;
+  } else if (override !== undefined) {
+    value = evaluate(parseExpression(override), scope);
+  } else if (param.value) {
+    value = evaluate(param.value, scope);
+  }
+  if (value === undefined && (param.value || override !== undefined)) {
+    warnings.push(`Could not evaluate parameter ${param.name} = ${override ?? param.text}`);
+  }
+  scope.values.set(param.name, value);
+
+  return {
+    name: param.name,
+    type: parameterType(param.dataType, value),
+    defaultValue: param.text,
+    value,
+    local: param.local || undefined,
+  };
+}
+
+function parameterType(dataType: DataType | undefined, value: Value): ParameterInfo['type'] {
+  switch (dataType?.keyword) {
+    case 'real':
+    case 'shortreal':
+    case 'realtime':
+      return 'real';
+    case 'string':
+      return 'string';
+    case 'bit':
+      return 'bit';
+    case 'logic':
+    case 'reg':
+      return 'logic';
+  }
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'number' && !Number.isInteger(value)) return 'real';
+  return 'integer';
+}
+
+function elaboratePort(port: PortDecl, module: ModuleHeader, scope: Scope, warnings: string[]): PortInfo {
+  const direction = port.direction === 'ref' || !port.direction ? 'inout' : port.direction;
+
+  if (port.interfaceType) {
+    return { name: port.name, direction: 'inout', width: 0, type: 'interface', dataType: port.interfaceType };
+  }
+  if (!port.declared) {
+    warnings.push(`Port ${port.name} of ${module.name} has no direction declaration`);
+  }
+
+  // `output [7:0] q; reg [7:0] q;` declares the port's type separately
+  let dataType = port.dataType;
+  const declaration = module.declarations.get(port.name);
+  if (declaration && !dataType?.keyword && !dataType?.userType) {
+    dataType = {
+      ...declaration,
+      netType: dataType?.netType ?? declaration.netType,
+      signed: dataType?.signed ?? declaration.signed,
+      packed: dataType?.packed.length ? dataType.packed : declaration.packed,
+    };
+  }
+
+  const info: PortInfo = { name: port.name, direction, width: 0, type: portType(dataType) };
+  const packed = dataType?.packed || [];
+  if (packed.length > 0) {
+    info.range = packed.map(range => range.text).join('');
+  }
+  if (dataType?.userType || (dataType?.keyword && NON_INTEGRAL.has(dataType.keyword))) {
+    info.dataType = dataType.userType || dataType.keyword;
+  }
+  if (isSigned(dataType, scope)) {
+    info.signed = true;
+  }
+
+  const width = typeWidth(dataType, scope);
+  if (width !== undefined) {
+    info.width = width;
+  } else if (!info.dataType || !NON_INTEGRAL.has(info.dataType)) {
+    warnings.push(`Could not evaluate the width of port ${port.name}` + (info.range ? ` ${info.range}` : ` (${info.dataType})`));
+  }
+
+  if (port.unpacked.length > 0) {
+    const dims = port.unpacked.map(range => rangeSize(range, scope));
+    if (dims.every(dim => dim !== undefined)) {
+      info.arrayDimensions = dims as number[];
+    } else {
+      warnings.push(`Could not evaluate the array dimensions of port ${port.name}`);
+    }
+  }
+
+  return info;
+}
+
+function portType(dataType: DataType | undefined): PortInfo['type'] {
+  switch (dataType?.keyword) {
+    case 'reg':
+      return 'reg';
+    case 'bit':
+    case 'byte':
+    case 'shortint':
+    case 'int':
+    case 'longint':
+      return 'bit';
+    case undefined:
+      break;
+    default:
+      return 'logic';
+  }
+  if (dataType?.userType) return 'logic';
+  return 'wire';
+}
+
+function isSigned(dataType: DataType | undefined, scope: Scope): boolean {
+  if (!dataType) return false;
+  if (dataType.signed !== undefined) return dataType.signed;
+  if (dataType.keyword) return SIGNED_KEYWORDS.has(dataType.keyword);
+  if (dataType.userType) return isSigned(scope.type(dataType.userType), scope);
+  return false;
+}
+
+/**
+ * Bit width of a type, or undefined for types without one (real, string,
+ * unpacked structs) and widths that depend on unknown values.
+ */
+function typeWidth(dataType: DataType | undefined, scope: Scope, depth: number = 0): number | undefined {
+  if (!dataType) return 1;
+  if (depth > 16) return undefined;
+
+  let base: number | undefined;
+  if (dataType.keyword) {
+    base = BASE_WIDTHS[dataType.keyword];
+  } else if (dataType.members) {
+    const widths = dataType.members.map(member => typeWidth(member, scope, depth + 1));
+    if (widths.some(width => width === undefined)) return undefined;
+    base = dataType.union
+      ? Math.max(...(widths as number[]))
+      : (widths as number[]).reduce((sum, width) => sum + width, 0);
+  } else if (dataType.userType) {
+    const resolved = scope.type(dataType.userType);
+    base = resolved ? typeWidth(resolved, scope, depth + 1) : undefined;
+  } else if (dataType.text.startsWith('enum')) {
+    base = dataType.enumBase ? typeWidth(dataType.enumBase, scope, depth + 1) : 32;
+  } else {
+    base = 1;
+  }
+
+  for (const range of dataType.packed) {
+    const size = rangeSize(range, scope);
+    if (base === undefined || size === undefined) return undefined;
+    base *= size;
+  }
+  return base;
+}
+
+function rangeSize(range: Range, scope: Scope): number | undefined {
+  const msb = evaluate(range.msb, scope);
+  if (typeof msb !== 'number') return undefined;
+  if (!range.op) return msb;
+
+  const lsb = evaluate(range.lsb!, scope);
+  if (typeof lsb !== 'number') return undefined;
+  return range.op === ':' ? Math.abs(msb - lsb) + 1 : lsb;
+}
+
+// Expression evaluation
+
+function evaluate(expr: Expr, scope: Scope): Value {
+  switch (expr.kind) {
+    case 'number':
+      return parseNumber(expr.text);
+    case 'string':
+      return expr.value;
+    case 'id':
+      return scope.value(expr.name);
+    case 'unary':
+      return unary(expr.op, evaluate(expr.arg, scope));
+    case 'binary':
+      return binary(expr.op, evaluate(expr.left, scope), evaluate(expr.right, scope));
+    case 'ternary': {
+      const cond = evaluate(expr.cond, scope);
+      if (cond === undefined) return undefined;
+      return evaluate(cond ? expr.then : expr.else, scope);
+    }
+    case 'call':
+      return call(expr.name, expr.args.map(arg => evaluate(arg, scope)));
+    case 'cast': {
+      const width = evaluate(expr.width, scope);
+      const value = evaluate(expr.arg, scope);
+      if (typeof width !== 'number' || typeof value !== 'number' || !Number.isInteger(value)) return undefined;
+      return Number(BigInt.asUintN(width, BigInt(value)));
+    }
+    case 'unknown':
+      return undefined;
+  }
+}
+
+function parseNumber(text: string): Value {
+  const clean = text.replace(/_/g, '');
+  const based = /^(\d*)'([sS]?)([bBoOdDhH])(.+)$/.exec(clean);
+  if (based) {
+    const [, size, signed, base, digits] = based;
+    if (/[xXzZ?]/.test(digits)) return undefined;
+    const radix = { b: 2, o: 8, d: 10, h: 16 }[base.toLowerCase() as 'b' | 'o' | 'd' | 'h'];
+    let value = [...digits.toLowerCase()].reduce((acc, digit) => acc * BigInt(radix) + BigInt(parseInt(digit, radix)), 0n);
+    if (size) {
+      value = signed ? BigInt.asIntN(Number(size), value) : BigInt.asUintN(Number(size), value);
+    }
+    return Number(value);
+  }
+  if (clean === "'0") return 0;
+  // '1, 'x and time literals depend on context
+  if (!/^[\d.eE+-]+$/.test(clean)) return undefined;
+  const value = Number(clean);
+  return Number.isNaN(value) ? undefined : value;
+}
+
+function unary(op: string, value: Value): Value {
+  if (typeof value !== 'number') return undefined;
+  switch (op) {
+    case '+': return value;
+    case '-': return -value;
+    case '!': return value ? 0 : 1;
+  }
+  if (!Number.isInteger(value)) return undefined;
+  const bits = BigInt(value);
+  switch (op) {
+    case '~': return Number(~bits);
+    case '|': return bits !== 0n ? 1 : 0;
+    case '~|': return bits !== 0n ? 0 : 1;
+    case '^':
+    case '~^':
+    case '^~': {
+      // Parity is only defined here for non-negative values
+      if (bits < 0n) return undefined;
+      const parity = bits.toString(2).split('').filter(bit => bit === '1').length % 2;
+      return op === '^' ? parity : 1 - parity;
+    }
+  }
+  // Reduction AND needs the operand width
+  return undefined;
+}
+
+function binary(op: string, left: Value, right: Value): Value {
+  if (typeof left === 'string' || typeof right === 'string') {
+    if (op === '==') return left === right ? 1 : 0;
+    if (op === '!=') return left !== right ? 1 : 0;
+    return undefined;
+  }
+  if (left === undefined || right === undefined) {
+    // Short-circuit where the known side decides the result
+    if (op === '&&' && (left === 0 || right === 0)) return 0;
+    if (op === '||' && ((left !== undefined && left !== 0) || (right !== undefined && right !== 0))) return 1;
+    return undefined;
+  }
+
+  const integers = Number.isInteger(left) && Number.isInteger(right);
+  switch (op) {
+    case '+': return left + right;
+    case '-': return left - right;
+    case '*': return left * right;
+    case '/':
+      if (right === 0) return undefined;
+      return integers ? Math.trunc(left / right) : left / right;
+    case '%':
+      if (right === 0) return undefined;
+      return left % right;
+    case '**': return left ** right;
+    case '==': case '===': case '==?': return left === right ? 1 : 0;
+    case '!=': case '!==': case '!=?': return left !== right ? 1 : 0;
+    case '<': return left < right ? 1 : 0;
+    case '<=': return left <= right ? 1 : 0;
+    case '>': return left > right ? 1 : 0;
+    case '>=': return left >= right ? 1 : 0;
+    case '&&': return left && right ? 1 : 0;
+    case '||': return left || right ? 1 : 0;
+  }
+
+  if (!integers) return undefined;
+  const a = BigInt(left);
+  const b = BigInt(right);
+  switch (op) {
+    case '&': return Number(a & b);
+    case '|': return Number(a | b);
+    case '^': return Number(a ^ b);
+    case '~^': case '^~': return Number(~(a ^ b));
+    case '<<': case '<<<': return Number(a << b);
+    case '>>': case '>>>': return Number(a >> b);
+  }
+  return undefined;
+}
+
+function call(name: string, args: Value[]): Value {
+  const [arg] = args;
+  switch (name) {
+    case '$signed':
+    case '$unsigned':
+      return arg;
+    case '$clog2':
+      if (typeof arg !== 'number' || !Number.isInteger(arg) || arg < 0) return undefined;
+      let bits = 0;
+      while (2n ** BigInt(bits) < BigInt(arg)) bits++;
+      return bits;
+    case '$floor':
+    case '$ceil':
+    case '$sqrt':
+    case '$ln':
+    case '$log10':
+    case '$exp': {
+      if (typeof arg !== 'number') return undefined;
+      const fn = { $floor: Math.floor, $ceil: Math.ceil, $sqrt: Math.sqrt, $ln: Math.log, $log10: Math.log10, $exp: Math.exp }[name];
+      return fn(arg);
+    }
+    case '$pow':
+      return typeof arg === 'number' && typeof args[1] === 'number' ? arg ** args[1] : undefined;
+    case '$rtoi':
+      return typeof arg === 'number' ? Math.trunc(arg) : undefined;
+    case '$itor':
+      return arg;
+  }
+  return undefined;
+}
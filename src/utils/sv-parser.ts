@@ -0,0 +1,1201 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Tokenizer and recursive-descent parser for the parts of Verilog and
+ * SystemVerilog that describe a module's interface: module headers (ANSI and
+ * non-ANSI), parameter and localparam declarations, and the packages and
+ * typedefs they refer to. Module bodies are skimmed for declarations only.
+ * sv-elaborate.ts turns the result into ModuleInfo.
+ */
+
+export interface Token {
+  kind: 'id' | 'sysid' | 'number' | 'string' | 'op' | 'macro';
+  text: string;
+  line: number;
+  // Offsets into the source; macro expansions carry the offsets of the macro use
+  start: number;
+  end: number;
+}
+
+export type Expr =
+  | { kind: 'number'; text: string }
+  | { kind: 'string'; value: string }
+  | { kind: 'id'; name: string }
+  | { kind: 'unary'; op: string; arg: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr }
+  | { kind: 'ternary'; cond: Expr; then: Expr; else: Expr }
+  | { kind: 'call'; name: string; args: Expr[] }
+  | { kind: 'cast'; width: Expr; arg: Expr }
+  // Anything the evaluator cannot compute, such as concatenations and selects
+  | { kind: 'unknown'; text: string };
+
+export interface Range {
+  msb: Expr;
+  // Absent for [N]; for [base+:width] and [base-:width], `lsb` holds the width
+  lsb?: Expr;
+  op?: ':' | '+:' | '-:';
+  text: string;
+}
+
+export interface DataType {
+  netType?: string;
+  // Built-in type keyword: logic, bit, reg, int, integer, real, string, ...
+  keyword?: string;
+  // Typedef or type parameter, possibly package-qualified
+  userType?: string;
+  signed?: boolean;
+  packed: Range[];
+  // struct/union packed members, one entry per member name
+  members?: DataType[];
+  union?: boolean;
+  enumBase?: DataType;
+  text: string;
+}
+
+export interface ParamDecl {
+  name: string;
+  local: boolean;
+  isType: boolean;
+  dataType?: DataType;
+  value?: Expr;
+  typeValue?: DataType;
+  text?: string;
+  line: number;
+}
+
+export type PortDirection = 'input' | 'output' | 'inout' | 'ref';
+
+export interface PortDecl {
+  name: string;
+  direction?: PortDirection;
+  dataType?: DataType;
+  unpacked: Range[];
+  interfaceType?: string;
+  modport?: string;
+  line: number;
+  // Non-ANSI ports are named in the header and declared in the body
+  declared: boolean;
+}
+
+export interface ModuleHeader {
+  name: string;
+  file: string;
+  line: number;
+  ansi: boolean;
+  parameters: ParamDecl[];
+  ports: PortDecl[];
+  imports: string[];
+  // Body net and variable declarations, for non-ANSI ports declared as `output q; reg [7:0] q;`
+  declarations: Map<string, DataType>;
+  typedefs: Map<string, DataType>;
+  // Names of the modules or interfaces instantiated in the body
+  instances: string[];
+  warnings: string[];
+}
+
+export interface ParsedSource {
+  file: string;
+  modules: ModuleHeader[];
+  // Package members as `pkg::NAME`, compilation-unit declarations as `NAME`
+  parameters: Map<string, ParamDecl & { pkg?: string }>;
+  typedefs: Map<string, DataType & { pkg?: string }>;
+  imports: string[];
+}
+
+export interface ParseOptions {
+  defines?: Record<string, string | number>;
+}
+
+export function parseSystemVerilog(source: string, file: string, options: ParseOptions = {}): ParsedSource {
+  const defines = new Map<string, string | null>();
+  for (const [name, value] of Object.entries(options.defines || {})) {
+    defines.set(name, String(value));
+  }
+  return new Parser(new Lexer(source, defines).run(), source, file).parseSource();
+}
+
+/**
+ * Parse a parameter override given as text, e.g. `16` or `ADDR_W*2`.
+ */
+export function parseExpression(text: string): Expr {
+  return new Parser(new Lexer(text, new Map()).run(), text, '<expression>').expression();
+}
+
+/**
+ * Parse a type parameter override, e.g. `logic [15:0]`.
+ */
+export function parseDataType(text: string): DataType {
+  return new Parser(new Lexer(text, new Map()).run(), text, '<type>').dataType();
+}
+
+/**
+ * Modules no other module in the source instantiates, in source order.
+ */
+export function findTopModules(parsed: ParsedSource): ModuleHeader[] {
+  const instantiated = new Set(parsed.modules.flatMap(module => module.instances));
+  return parsed.modules.filter(module => !instantiated.has(module.name));
+}
+
+export async function parseSystemVerilogFile(file: string, options: ParseOptions = {}): Promise<ParsedSource> {
+  return parseSystemVerilog(await fs.readFile(file, 'utf-8'), file, options);
+}
+
+// Directives that do not affect the tokens of a module header
+const IGNORED_DIRECTIVES = new Set([
+  'timescale', 'include', 'resetall', 'celldefine', 'endcelldefine', 'default_nettype', 'line',
+  'pragma', 'undefineall', 'unconnected_drive', 'nounconnected_drive', 'begin_keywords',
+  'end_keywords', 'protect', 'endprotect', 'delay_mode_distributed', 'delay_mode_path',
+  'delay_mode_unit', 'delay_mode_zero',
+]);
+
+const OPERATORS = [
+  '<<<=', '>>>=', '<<<', '>>>', '===', '!==', '==?', '!=?', '<->', '**', '<<', '>>', '==', '!=',
+  '<=', '>=', '&&', '||', '::', '+:', '-:', '->', '++', '--', '~&', '~|', '~^', '^~', "'{",
+  '.*', '##', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=',
+];
+
+const BASED_NUMBER = /(?:\d[\d_]*\s*)?'[sS]?[bBoOdDhH]\s*[0-9a-fA-FxXzZ?_]+/y;
+const UNBASED_NUMBER = /'[01xXzZ](?![\w])/y;
+const DECIMAL_NUMBER = /\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d[\d_]*)?(?:s|ms|us|ns|ps|fs)?(?![\w$])/y;
+const IDENTIFIER = /[A-Za-z_][\w$]*/y;
+
+const MAX_MACRO_DEPTH = 16;
+
+class Lexer {
+  private pos = 0;
+  private line = 1;
+  private tokens: Token[] = [];
+  // One entry per open `ifdef: whether the current branch is active and whether any branch was
+  private conditions: { active: boolean; taken: boolean }[] = [];
+
+  constructor(
+    private source: string,
+    private defines: Map<string, string | null>,
+    private depth: number = 0
+  ) {}
+
+  run(): Token[] {
+    const src = this.source;
+    while (this.pos < src.length) {
+      const c = src[this.pos];
+      if (c === '\n') {
+        this.line++;
+        this.pos++;
+      } else if (/\s/.test(c)) {
+        this.pos++;
+      } else if (src.startsWith('//', this.pos)) {
+        const end = src.indexOf('\n', this.pos);
+        this.pos = end < 0 ? src.length : end;
+      } else if (src.startsWith('/*', this.pos)) {
+        const end = src.indexOf('*/', this.pos + 2);
+        this.skipTo(end < 0 ? src.length : end + 2);
+      } else if (c === '`') {
+        this.directive();
+      } else if (!this.isActive()) {
+        this.pos++;
+      } else {
+        this.token();
+      }
+    }
+    return this.tokens;
+  }
+
+  private isActive(): boolean {
+    return this.conditions.every(condition => condition.active);
+  }
+
+  private skipTo(end: number): void {
+    for (let i = this.pos; i < end; i++) {
+      if (this.source[i] === '\n') this.line++;
+    }
+    this.pos = end;
+  }
+
+  private push(kind: Token['kind'], text: string, length: number): void {
+    this.tokens.push({ kind, text, line: this.line, start: this.pos, end: this.pos + length });
+    this.pos += length;
+  }
+
+  private match(regex: RegExp): string | undefined {
+    regex.lastIndex = this.pos;
+    return regex.exec(this.source)?.[0];
+  }
+
+  private token(): void {
+    const src = this.source;
+    const c = src[this.pos];
+
+    // Attributes, but not @(*)
+    if (src.startsWith('(*', this.pos) && !/^\(\*\s*\)/.test(src.slice(this.pos, this.pos + 8))) {
+      const end = src.indexOf('*)', this.pos + 2);
+      this.skipTo(end < 0 ? src.length : end + 2);
+      return;
+    }
+
+    if (c === '"') {
+      let i = this.pos + 1;
+      while (i < src.length && src[i] !== '"' && src[i] !== '\n') {
+        i += src[i] === '\\' ? 2 : 1;
+      }
+      this.push('string', src.slice(this.pos + 1, i), i + 1 - this.pos);
+      return;
+    }
+
+    if (c === '\\') {
+      const name = /^\\\S*/.exec(src.slice(this.pos, this.pos + 1024))![0];
+      this.push('id', name.slice(1), name.length);
+      return;
+    }
+
+    if (c === '$' && /[A-Za-z_]/.test(src[this.pos + 1] || '')) {
+      const name = '$' + this.matchAt(IDENTIFIER, this.pos + 1);
+      this.push('sysid', name, name.length);
+      return;
+    }
+
+    const number = this.match(BASED_NUMBER) || this.match(UNBASED_NUMBER) || this.match(DECIMAL_NUMBER);
+    if (number) {
+      this.push('number', number.replace(/\s+/g, ''), number.length);
+      return;
+    }
+
+    const identifier = this.match(IDENTIFIER);
+    if (identifier) {
+      this.push('id', identifier, identifier.length);
+      return;
+    }
+
+    const op = OPERATORS.find(candidate => src.startsWith(candidate, this.pos)) || c;
+    this.push('op', op, op.length);
+  }
+
+  private matchAt(regex: RegExp, pos: number): string {
+    regex.lastIndex = pos;
+    return regex.exec(this.source)?.[0] || '';
+  }
+
+  private readWord(): string {
+    while (this.pos < this.source.length && /[ \t]/.test(this.source[this.pos])) this.pos++;
+    const word = this.match(IDENTIFIER) || '';
+    this.pos += word.length;
+    return word;
+  }
+
+  /**
+   * The rest of a directive line, following backslash continuations.
+   */
+  private readLine(): string {
+    let text = '';
+    for (;;) {
+      const end = this.source.indexOf('\n', this.pos);
+      const lineEnd = end < 0 ? this.source.length : end;
+      const line = this.source.slice(this.pos, lineEnd).replace(/\r$/, '');
+      this.pos = lineEnd;
+      if (line.endsWith('\\') && end >= 0) {
+        text += line.slice(0, -1) + '\n';
+        this.skipTo(end + 1);
+      } else {
+        return text + line;
+      }
+    }
+  }
+
+  private directive(): void {
+    const start = this.pos;
+    const name = this.matchAt(IDENTIFIER, this.pos + 1);
+    if (!name) {
+      this.pos++;
+      return;
+    }
+    this.pos += name.length + 1;
+
+    const top = this.conditions[this.conditions.length - 1];
+    switch (name) {
+      case 'ifdef':
+      case 'ifndef': {
+        const defined = this.defines.has(this.readWord());
+        const active = name === 'ifdef' ? defined : !defined;
+        this.conditions.push({ active, taken: active });
+        return;
+      }
+      case 'elsif':
+        if (top) {
+          const active = !top.taken && this.defines.has(this.readWord());
+          top.active = active;
+          top.taken = top.taken || active;
+        }
+        return;
+      case 'else':
+        if (top) {
+          top.active = !top.taken;
+          top.taken = true;
+        }
+        return;
+      case 'endif':
+        this.conditions.pop();
+        return;
+    }
+
+    if (!this.isActive()) {
+      return;
+    }
+
+    if (name === 'define') {
+      const macro = this.readWord();
+      // Function-like macros are recorded as known but not expanded
+      const functionLike = this.source[this.pos] === '(';
+      const body = this.readLine().replace(/\/\/.*$/gm, '').trim();
+      this.defines.set(macro, functionLike ? null : body);
+      return;
+    }
+    if (name === 'undef') {
+      this.defines.delete(this.readWord());
+      return;
+    }
+    if (IGNORED_DIRECTIVES.has(name)) {
+      this.readLine();
+      return;
+    }
+
+    // A macro use: expand object-like macros in place
+    const body = this.defines.get(name);
+    if (body === undefined || body === null || this.depth >= MAX_MACRO_DEPTH) {
+      if (this.source[this.pos] === '(') {
+        this.skipArguments();
+      }
+      this.tokens.push({ kind: 'macro', text: '`' + name, line: this.line, start, end: this.pos });
+      return;
+    }
+
+    for (const token of new Lexer(body, this.defines, this.depth + 1).run()) {
+      this.tokens.push({ ...token, line: this.line, start, end: this.pos });
+    }
+  }
+
+  private skipArguments(): void {
+    let depth = 0;
+    for (let i = this.pos; i < this.source.length; i++) {
+      const c = this.source[i];
+      if (c === '(') depth++;
+      if (c === ')' && --depth === 0) {
+        this.skipTo(i + 1);
+        return;
+      }
+    }
+    this.skipTo(this.source.length);
+  }
+}
+
+const DIRECTIONS = new Set(['input', 'output', 'inout', 'ref']);
+
+const NET_TYPES = new Set([
+  'wire', 'tri', 'tri0', 'tri1', 'triand', 'trior', 'trireg', 'wand', 'wor', 'supply0', 'supply1', 'uwire',
+]);
+
+export const TYPE_KEYWORDS = new Set([
+  'logic', 'bit', 'reg', 'byte', 'shortint', 'int', 'longint', 'integer', 'time',
+  'real', 'shortreal', 'realtime', 'string', 'chandle', 'event',
+]);
+
+const KEYWORDS = new Set([
+  ...DIRECTIONS, ...NET_TYPES, ...TYPE_KEYWORDS,
+  'module', 'macromodule', 'endmodule', 'parameter', 'localparam', 'type', 'signed', 'unsigned',
+  'var', 'interface', 'import', 'export', 'function', 'task', 'begin', 'end', 'assign', 'always',
+  'always_ff', 'always_comb', 'always_latch', 'initial', 'generate', 'endgenerate', 'struct',
+  'union', 'enum', 'packed', 'typedef', 'package', 'endpackage', 'automatic', 'static',
+]);
+
+// Blocks skipped whole, wherever they appear, so their declarations are not mistaken for ports
+const SKIPPED_BLOCKS: Record<string, string> = {
+  function: 'endfunction',
+  task: 'endtask',
+  clocking: 'endclocking',
+  covergroup: 'endgroup',
+  class: 'endclass',
+  property: 'endproperty',
+  sequence: 'endsequence',
+  specify: 'endspecify',
+  checker: 'endchecker',
+  interface: 'endinterface',
+  program: 'endprogram',
+  primitive: 'endprimitive',
+  config: 'endconfig',
+};
+
+const BLOCK_OPEN = new Set(['begin', 'generate', 'case', 'casex', 'casez', 'randcase', 'fork']);
+const BLOCK_CLOSE = new Set(['end', 'endgenerate', 'endcase', 'join', 'join_any', 'join_none']);
+
+// Binary operator precedence, lowest first
+const BINARY: Record<string, number> = {
+  '||': 1, '&&': 2, '|': 3, '^': 4, '~^': 4, '^~': 4, '&': 5,
+  '==': 6, '!=': 6, '===': 6, '!==': 6, '==?': 6, '!=?': 6,
+  '<': 7, '<=': 7, '>': 7, '>=': 7,
+  '<<': 8, '>>': 8, '<<<': 8, '>>>': 8,
+  '+': 9, '-': 9, '*': 10, '/': 10, '%': 10, '**': 11,
+};
+
+const UNARY = new Set(['+', '-', '!', '~', '&', '~&', '|', '~|', '^', '~^', '^~']);
+
+class Parser {
+  private pos = 0;
+  private result: ParsedSource;
+
+  constructor(private tokens: Token[], private source: string, private file: string) {
+    this.result = { file, modules: [], parameters: new Map(), typedefs: new Map(), imports: [] };
+  }
+
+  parseSource(): ParsedSource {
+    while (!this.eof()) {
+      const token = this.peek()!;
+      const text = token.kind === 'id' ? token.text : '';
+
+      if (text === 'module' || text === 'macromodule') {
+        this.recover(() => this.parseModule());
+      } else if (text === 'package') {
+        this.recover(() => this.parsePackage());
+      } else if (text === 'parameter' || text === 'localparam') {
+        this.recover(() => {
+          for (const param of this.parseParamDecl(text === 'localparam')) {
+            this.result.parameters.set(param.name, param);
+          }
+        });
+      } else if (text === 'typedef') {
+        this.recover(() => this.parseTypedef((name, type) => this.result.typedefs.set(name, type)));
+      } else if (text === 'import') {
+        this.result.imports.push(...this.parseImport());
+      } else if (SKIPPED_BLOCKS[text]) {
+        this.skipBlock(SKIPPED_BLOCKS[text]);
+      } else {
+        this.next();
+      }
+    }
+    return this.result;
+  }
+
+  expression(): Expr {
+    return this.parseExprOrSkip([]);
+  }
+
+  dataType(): DataType {
+    return this.parseDataType(true);
+  }
+
+  // Token helpers
+
+  private eof(): boolean {
+    return this.pos >= this.tokens.length;
+  }
+
+  private peek(offset: number = 0): Token | undefined {
+    return this.tokens[this.pos + offset];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos++];
+    if (!token) {
+      throw this.error('Unexpected end of file');
+    }
+    return token;
+  }
+
+  private at(text: string, offset: number = 0): boolean {
+    const token = this.peek(offset);
+    return token !== undefined && token.kind !== 'string' && token.text === text;
+  }
+
+  private accept(text: string): boolean {
+    if (this.at(text)) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string): Token {
+    if (!this.at(text)) {
+      throw this.error(`Expected '${text}'`);
+    }
+    return this.next();
+  }
+
+  private isIdentifier(offset: number = 0): boolean {
+    const token = this.peek(offset);
+    return token !== undefined && token.kind === 'id' && !KEYWORDS.has(token.text);
+  }
+
+  private expectIdentifier(): string {
+    if (!this.isIdentifier()) {
+      throw this.error('Expected an identifier');
+    }
+    return this.next().text;
+  }
+
+  private error(message: string): Error {
+    const token = this.peek() || this.tokens[this.tokens.length - 1];
+    const found = this.peek() ? `, found '${token.text}'` : '';
+    return new Error(`${this.file}:${token?.line ?? 1}: ${message}${found}`);
+  }
+
+  /**
+   * Source text of tokens [from, to), with whitespace collapsed.
+   */
+  private textOf(from: number, to: number): string {
+    if (to <= from) return '';
+    return this.source.slice(this.tokens[from].start, this.tokens[to - 1].end).replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Consume one token, or a whole bracketed group if it opens one.
+   */
+  private skipBalanced(): void {
+    const pairs: Record<string, string> = { '(': ')', '[': ']', '{': '}', "'{": '}' };
+    const token = this.next();
+    const close = token.kind === 'op' ? pairs[token.text] : undefined;
+    if (!close) return;
+    // An unterminated group ends at the end of the statement, or of the module, at the latest
+    while (!this.eof() && !this.at(close) && !this.at('endmodule') && !(close !== ')' && this.at(';'))) {
+      this.skipBalanced();
+    }
+    this.accept(close);
+  }
+
+  private skipUntil(stops: string[]): void {
+    while (!this.eof() && !stops.some(stop => this.at(stop))) {
+      this.skipBalanced();
+    }
+  }
+
+  private skipBlock(end: string): void {
+    this.next();
+    // A prototype such as `export "DPI-C" function f;` or `typedef class c;` has no body
+    while (!this.eof() && !this.at(end) && !this.at('endmodule')) {
+      const text = this.peek()!.text;
+      if (this.peek()!.kind === 'id' && SKIPPED_BLOCKS[text] && text !== 'interface' && text !== end.slice(3)) {
+        this.skipBlock(SKIPPED_BLOCKS[text]);
+      } else {
+        this.next();
+      }
+    }
+    this.accept(end);
+  }
+
+  /**
+   * Run a declaration parser; on a syntax error skip to the end of the
+   * statement instead of giving up on the file.
+   */
+  private recover(parse: () => void, warnings?: string[]): void {
+    const start = this.pos;
+    try {
+      parse();
+    } catch (error) {
+      warnings?.push(error instanceof Error ? error.message : String(error));
+      this.pos = Math.max(this.pos, start + 1);
+      this.skipUntil([';', 'endmodule', 'endpackage']);
+      this.accept(';');
+    }
+  }
+
+  // Declarations
+
+  private parsePackage(): void {
+    this.next();
+    this.accept('static') || this.accept('automatic');
+    const pkg = this.expectIdentifier();
+    this.accept(';');
+
+    while (!this.eof() && !this.at('endpackage')) {
+      const text = this.peek()!.kind === 'id' ? this.peek()!.text : '';
+      if (text === 'parameter' || text === 'localparam') {
+        this.recover(() => {
+          for (const param of this.parseParamDecl(true)) {
+            this.result.parameters.set(`${pkg}::${param.name}`, { ...param, pkg });
+          }
+        });
+      } else if (text === 'typedef') {
+        this.recover(() => this.parseTypedef((name, type) => this.result.typedefs.set(`${pkg}::${name}`, { ...type, pkg })));
+      } else if (SKIPPED_BLOCKS[text]) {
+        this.skipBlock(SKIPPED_BLOCKS[text]);
+      } else {
+        this.next();
+      }
+    }
+    this.accept('endpackage');
+  }
+
+  private parseImport(): string[] {
+    this.next();
+    const imports: string[] = [];
+    // import "DPI-C" function ...; is a function prototype, not a package import
+    if (this.peek()?.kind === 'string') {
+      this.skipUntil([';']);
+      this.accept(';');
+      return imports;
+    }
+    do {
+      const start = this.pos;
+      this.skipUntil([',', ';']);
+      imports.push(this.textOf(start, this.pos).replace(/\s+/g, ''));
+    } while (this.accept(','));
+    this.accept(';');
+    return imports;
+  }
+
+  private parseTypedef(define: (name: string, type: DataType) => void): void {
+    this.next();
+    // Forward declarations: typedef class c; typedef enum e;
+    if (this.isIdentifier() && this.at(';', 1)) {
+      this.next();
+      this.next();
+      return;
+    }
+    const type = this.parseDataType(true);
+    const name = this.expectIdentifier();
+    this.skipUnpacked();
+    this.expect(';');
+    define(name, type);
+  }
+
+  /**
+   * `parameter [type] NAME = value {, NAME = value}` up to the `;`.
+   */
+  private parseParamDecl(local: boolean): ParamDecl[] {
+    this.next();
+    const params: ParamDecl[] = [];
+    const isType = this.accept('type');
+    const dataType = !isType && this.startsDataType() ? this.parseDataType(false) : undefined;
+
+    do {
+      params.push(this.parseParamAssignment(local, isType, dataType));
+    } while (this.accept(','));
+    this.expect(';');
+    return params;
+  }
+
+  private parseParamAssignment(local: boolean, isType: boolean, dataType?: DataType): ParamDecl {
+    const line = this.peek()?.line ?? 0;
+    const name = this.expectIdentifier();
+    this.skipUnpacked();
+    const param: ParamDecl = { name, local, isType, dataType, line };
+
+    if (this.accept('=')) {
+      const start = this.pos;
+      if (isType) {
+        param.typeValue = this.parseDataType(true);
+      } else {
+        param.value = this.parseExprOrSkip([',', ';', ')']);
+      }
+      param.text = this.textOf(start, this.pos);
+    }
+    return param;
+  }
+
+  private skipUnpacked(): Range[] {
+    const dims: Range[] = [];
+    while (this.at('[')) {
+      dims.push(this.parseRange());
+    }
+    return dims;
+  }
+
+  /**
+   * Whether the next tokens start a data type rather than a name. A bare
+   * identifier is a type only if a name follows it.
+   */
+  private startsDataType(): boolean {
+    const token = this.peek();
+    if (!token) return false;
+    if (token.kind === 'op') return token.text === '[';
+    if (token.kind !== 'id') return false;
+    if (NET_TYPES.has(token.text) || TYPE_KEYWORDS.has(token.text)) return true;
+    if (['var', 'signed', 'unsigned', 'struct', 'union', 'enum'].includes(token.text)) return true;
+    return this.startsUserType();
+  }
+
+  private startsUserType(): boolean {
+    if (!this.isIdentifier()) return false;
+    let offset = 1;
+    while (this.at('::', offset) && this.peek(offset + 1)?.kind === 'id') {
+      offset += 2;
+    }
+    // Skip packed dimensions of the type
+    while (this.at('[', offset)) {
+      let depth = 0;
+      do {
+        if (this.at('[', offset)) depth++;
+        if (this.at(']', offset)) depth--;
+        offset++;
+      } while (depth > 0 && this.peek(offset));
+    }
+    return this.isIdentifier(offset);
+  }
+
+  private parseDataType(requireType: boolean): DataType {
+    const start = this.pos;
+    const type: DataType = { packed: [], text: '' };
+
+    if (this.peek()?.kind === 'id' && NET_TYPES.has(this.peek()!.text)) {
+      type.netType = this.next().text;
+    }
+    this.accept('var');
+
+    const token = this.peek();
+    if (token?.kind === 'id' && TYPE_KEYWORDS.has(token.text)) {
+      type.keyword = this.next().text;
+    } else if (this.at('struct') || this.at('union')) {
+      this.parseAggregate(type);
+    } else if (this.at('enum')) {
+      this.next();
+      type.enumBase = this.startsDataType() && !this.at('{') ? this.parseDataType(false) : undefined;
+      if (this.at('{')) this.skipBalanced();
+    } else if (this.isIdentifier() && (requireType || this.startsUserType())) {
+      let name = this.next().text;
+      while (this.at('::') && this.peek(1)?.kind === 'id') {
+        this.next();
+        name += '::' + this.next().text;
+      }
+      type.userType = name;
+    }
+
+    if (this.accept('signed')) {
+      type.signed = true;
+    } else if (this.accept('unsigned')) {
+      type.signed = false;
+    }
+
+    while (this.at('[')) {
+      type.packed.push(this.parseRange());
+    }
+
+    type.text = this.textOf(start, this.pos);
+    return type;
+  }
+
+  private parseAggregate(type: DataType): void {
+    type.union = this.next().text === 'union';
+    this.accept('tagged');
+    const packed = this.accept('packed');
+    if (this.accept('signed')) type.signed = true;
+    else if (this.accept('unsigned')) type.signed = false;
+
+    this.expect('{');
+    const members: DataType[] = [];
+    while (!this.eof() && !this.at('}')) {
+      const memberType = this.parseDataType(true);
+      do {
+        this.expectIdentifier();
+        this.skipUnpacked();
+        if (this.accept('=')) this.parseExprOrSkip([',', ';']);
+        members.push(memberType);
+      } while (this.accept(','));
+      this.expect(';');
+    }
+    this.expect('}');
+    // Unpacked structs have no bit width
+    type.members = packed ? members : undefined;
+    if (!packed) type.userType = type.union ? 'union' : 'struct';
+  }
+
+  private parseRange(): Range {
+    const start = this.pos;
+    this.expect('[');
+    const range: Range = { msb: { kind: 'unknown', text: '' }, text: '' };
+
+    if (!this.at(']')) {
+      range.msb = this.parseExprOrSkip([':', '+:', '-:', ']']);
+      for (const op of [':', '+:', '-:'] as const) {
+        if (this.accept(op)) {
+          range.op = op;
+          range.lsb = this.parseExprOrSkip([']']);
+          break;
+        }
+      }
+    }
+    this.expect(']');
+    range.text = this.textOf(start, this.pos);
+    return range;
+  }
+
+  // Modules
+
+  private parseModule(): void {
+    const line = this.next().line;
+    this.accept('static') || this.accept('automatic');
+    const module: ModuleHeader = {
+      name: this.expectIdentifier(),
+      file: this.file,
+      line,
+      ansi: true,
+      parameters: [],
+      ports: [],
+      imports: [],
+      declarations: new Map(),
+      typedefs: new Map(),
+      instances: [],
+      warnings: [],
+    };
+    this.result.modules.push(module);
+
+    try {
+      while (this.at('import')) {
+        module.imports.push(...this.parseImport());
+      }
+      if (this.accept('#')) {
+        this.expect('(');
+        this.parseParameterPortList(module);
+      }
+      if (this.accept('(')) {
+        this.parsePortList(module);
+      }
+      this.expect(';');
+    } catch (error) {
+      module.warnings.push(error instanceof Error ? error.message : String(error));
+      this.skipUntil([';', 'endmodule']);
+    }
+
+    this.parseModuleBody(module);
+  }
+
+  private parseParameterPortList(module: ModuleHeader): void {
+    let local = false;
+    let isType = false;
+    let dataType: DataType | undefined;
+
+    while (!this.at(')')) {
+      if (this.accept('parameter') || this.at('localparam')) {
+        local = this.accept('localparam');
+        isType = false;
+        dataType = undefined;
+      }
+      if (this.accept('type')) {
+        isType = true;
+        dataType = undefined;
+      } else if (this.startsDataType()) {
+        isType = false;
+        dataType = this.parseDataType(false);
+      }
+      module.parameters.push(this.parseParamAssignment(local, isType, dataType));
+      if (!this.accept(',')) break;
+    }
+    this.expect(')');
+  }
+
+  private parsePortList(module: ModuleHeader): void {
+    if (this.accept(')')) {
+      return;
+    }
+
+    const first = this.peek();
+    const ansi = first?.kind === 'id' && (
+      DIRECTIONS.has(first.text) || this.startsDataType() || first.text === 'interface' ||
+      (this.isIdentifier() && this.at('.', 1) && this.isIdentifier(2) && this.isIdentifier(3))
+    );
+    module.ansi = ansi;
+
+    if (ansi) {
+      this.parseAnsiPorts(module);
+    } else {
+      this.parseNonAnsiPorts(module);
+    }
+    this.expect(')');
+  }
+
+  private parseAnsiPorts(module: ModuleHeader): void {
+    let previous: PortDecl | undefined;
+
+    do {
+      const line = this.peek()?.line ?? module.line;
+      const token = this.peek();
+      const direction = token?.kind === 'id' && DIRECTIONS.has(token.text)
+        ? (this.next().text as PortDirection)
+        : undefined;
+      let port: PortDecl;
+
+      if (!direction && this.accept('interface')) {
+        const modport = this.accept('.') ? this.expectIdentifier() : undefined;
+        port = { name: this.expectIdentifier(), interfaceType: 'interface', modport, unpacked: [], line, declared: true };
+      } else if (!direction && this.isIdentifier() && this.at('.', 1) && this.isIdentifier(2) && this.isIdentifier(3)) {
+        const interfaceType = this.next().text;
+        this.next();
+        const modport = this.next().text;
+        port = { name: this.expectIdentifier(), interfaceType, modport, unpacked: [], line, declared: true };
+      } else if (!direction && this.isIdentifier() && this.isIdentifier(1) && !this.isKnownType(this.peek()!.text, module)) {
+        // `my_if bus`: an interface port, unless my_if is a known typedef
+        const interfaceType = this.next().text;
+        port = { name: this.expectIdentifier(), interfaceType, unpacked: [], line, declared: true };
+      } else {
+        const dataType = this.startsDataType() ? this.parseDataType(false) : undefined;
+        port = { name: this.expectIdentifier(), direction, dataType, unpacked: [], line, declared: true };
+
+        // With neither direction nor type, a port inherits both from the one before it
+        if (!direction && !dataType && previous) {
+          port.direction = previous.direction;
+          port.dataType = previous.dataType;
+          port.interfaceType = previous.interfaceType;
+          port.modport = previous.modport;
+        } else if (!direction) {
+          port.direction = previous?.direction ?? 'inout';
+        }
+      }
+
+      port.unpacked = this.skipUnpacked();
+      if (this.accept('=')) {
+        this.parseExprOrSkip([',', ')']);
+      }
+      module.ports.push(port);
+      previous = port;
+    } while (this.accept(','));
+  }
+
+  private isKnownType(name: string, module: ModuleHeader): boolean {
+    if (module.typedefs.has(name) || this.result.typedefs.has(name)) {
+      return true;
+    }
+    const imports = [...this.result.imports, ...module.imports];
+    return imports.some(entry => {
+      const [pkg, member] = entry.split('::');
+      return (member === '*' || member === name) && this.result.typedefs.has(`${pkg}::${name}`);
+    });
+  }
+
+  private parseNonAnsiPorts(module: ModuleHeader): void {
+    do {
+      const line = this.peek()?.line ?? module.line;
+      if (this.accept('.')) {
+        // .external_name(internal_expression)
+        const name = this.expectIdentifier();
+        if (this.at('(')) this.skipBalanced();
+        module.ports.push({ name, unpacked: [], line, declared: false });
+      } else if (this.isIdentifier()) {
+        const name = this.next().text;
+        if (this.at('[')) this.skipBalanced();
+        module.ports.push({ name, unpacked: [], line, declared: false });
+      } else if (!this.at(',') && !this.at(')')) {
+        module.warnings.push(`${this.file}:${line}: Unsupported port expression`);
+        this.skipUntil([',', ')']);
+      }
+    } while (this.accept(','));
+  }
+
+  private parseModuleBody(module: ModuleHeader): void {
+    let depth = 0;
+    let statementStart = true;
+    const hasParameterPorts = module.parameters.length > 0;
+
+    while (!this.eof()) {
+      const token = this.peek()!;
+      const text = token.kind === 'id' ? token.text : '';
+
+      if (text === 'endmodule') {
+        this.next();
+        return;
+      }
+      if (SKIPPED_BLOCKS[text]) {
+        this.skipBlock(SKIPPED_BLOCKS[text]);
+        statementStart = true;
+        continue;
+      }
+
+      if (statementStart && depth === 0) {
+        if (DIRECTIONS.has(text)) {
+          this.recover(() => this.parseBodyPortDecl(module), module.warnings);
+          continue;
+        }
+        if (text === 'parameter' || text === 'localparam') {
+          // With a #(...) list, body parameters cannot be overridden
+          this.recover(() => module.parameters.push(...this.parseParamDecl(text === 'localparam' || hasParameterPorts)), module.warnings);
+          continue;
+        }
+        if (text === 'typedef') {
+          this.recover(() => this.parseTypedef((name, type) => module.typedefs.set(name, type)), module.warnings);
+          continue;
+        }
+        if (text === 'import' || text === 'export') {
+          module.imports.push(...this.parseImport());
+          continue;
+        }
+        if (NET_TYPES.has(text) || TYPE_KEYWORDS.has(text) || text === 'var') {
+          this.recover(() => this.parseDataDecl(module), module.warnings);
+          continue;
+        }
+      }
+      if (statementStart && this.isIdentifier() && (this.at('#', 1) || (this.isIdentifier(1) && this.at('(', 2)))) {
+        module.instances.push(text);
+      }
+
+      this.next();
+      if (BLOCK_OPEN.has(text) && !(text === 'fork' && ['disable', 'wait'].includes(this.peek(-2)?.text || ''))) {
+        depth++;
+      } else if (BLOCK_CLOSE.has(text)) {
+        depth = Math.max(0, depth - 1);
+      }
+      statementStart = token.text === ';' || BLOCK_OPEN.has(text) || BLOCK_CLOSE.has(text) || text.startsWith('end');
+    }
+  }
+
+  private parseBodyPortDecl(module: ModuleHeader): void {
+    const direction = this.next().text as PortDirection;
+    const dataType = this.startsDataType() ? this.parseDataType(false) : undefined;
+
+    do {
+      const line = this.peek()?.line ?? module.line;
+      const name = this.expectIdentifier();
+      const unpacked = this.skipUnpacked();
+      if (this.accept('=')) this.parseExprOrSkip([',', ';']);
+
+      const port = module.ports.find(p => p.name === name && !p.declared);
+      if (port) {
+        Object.assign(port, { direction, dataType, unpacked, line, declared: true });
+      } else {
+        module.warnings.push(`${this.file}:${line}: ${direction} ${name} is not in the port list of ${module.name}`);
+      }
+    } while (this.accept(','));
+    this.expect(';');
+  }
+
+  private parseDataDecl(module: ModuleHeader): void {
+    const dataType = this.parseDataType(false);
+    // Delays and drive strengths
+    if (this.accept('#')) this.skipBalanced();
+    if (this.at('(')) this.skipBalanced();
+
+    do {
+      const name = this.expectIdentifier();
+      this.skipUnpacked();
+      if (this.accept('=')) this.parseExprOrSkip([',', ';']);
+      if (!module.declarations.has(name)) {
+        module.declarations.set(name, dataType);
+      }
+    } while (this.accept(','));
+    this.expect(';');
+  }
+
+  // Expressions
+
+  /**
+   * Parse an expression; if it uses syntax the evaluator does not model,
+   * skip to one of `stops` and return it as unknown.
+   */
+  private parseExprOrSkip(stops: string[]): Expr {
+    const start = this.pos;
+    try {
+      const expr = this.parseExpr(0);
+      if (this.eof() || stops.some(stop => this.at(stop))) {
+        return expr;
+      }
+    } catch {
+      // Fall through to skipping
+    }
+    this.pos = start;
+    this.skipUntil([...stops, ';']);
+    return { kind: 'unknown', text: this.textOf(start, this.pos) };
+  }
+
+  private parseExpr(minPrecedence: number): Expr {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence = token?.kind === 'op' ? BINARY[token.text] : undefined;
+      if (precedence === undefined || precedence < minPrecedence || precedence === 0) {
+        break;
+      }
+      this.next();
+      // ** is right-associative
+      const right = this.parseExpr(token!.text === '**' ? precedence : precedence + 1);
+      left = { kind: 'binary', op: token!.text, left, right };
+    }
+
+    if (minPrecedence === 0 && this.accept('?')) {
+      const then = this.parseExpr(0);
+      this.expect(':');
+      return { kind: 'ternary', cond: left, then, else: this.parseExpr(0) };
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    const token = this.peek();
+    if (token?.kind === 'op' && UNARY.has(token.text)) {
+      this.next();
+      return { kind: 'unary', op: token.text, arg: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expr {
+    const start = this.pos;
+    const token = this.next();
+
+    if (token.kind === 'number') {
+      return this.castIfApostrophe({ kind: 'number', text: token.text }, start);
+    }
+    if (token.kind === 'string') {
+      return { kind: 'string', value: token.text };
+    }
+    if (token.kind === 'op' && token.text === '(') {
+      const expr = this.parseExpr(0);
+      this.expect(')');
+      return this.castIfApostrophe(expr, start);
+    }
+    if (token.kind === 'op' && (token.text === '{' || token.text === "'{")) {
+      this.pos = start;
+      this.skipBalanced();
+      return { kind: 'unknown', text: this.textOf(start, this.pos) };
+    }
+    if (token.kind === 'sysid') {
+      const args: Expr[] = [];
+      if (this.accept('(')) {
+        while (!this.at(')')) {
+          args.push(this.startsDataType() && !this.isIdentifier() ? this.typeArgument() : this.parseExpr(0));
+          if (!this.accept(',')) break;
+        }
+        this.expect(')');
+      }
+      return { kind: 'call', name: token.text, args };
+    }
+    if (token.kind === 'id' || token.kind === 'macro') {
+      if (token.kind === 'id' && KEYWORDS.has(token.text) && !TYPE_KEYWORDS.has(token.text)) {
+        throw this.error('Unexpected keyword in expression');
+      }
+      let name = token.text;
+      while (this.at('::') && this.peek(1)?.kind === 'id') {
+        this.next();
+        name += '::' + this.next().text;
+      }
+      if (this.at('(')) {
+        // A user function call
+        this.skipBalanced();
+        return { kind: 'unknown', text: this.textOf(start, this.pos) };
+      }
+      let expr: Expr = { kind: 'id', name };
+      while (this.at('[') || this.at('.')) {
+        this.at('.') ? (this.next(), this.next()) : this.skipBalanced();
+        expr = { kind: 'unknown', text: this.textOf(start, this.pos) };
+      }
+      return this.castIfApostrophe(expr, start);
+    }
+
+    throw this.error('Unexpected token in expression');
+  }
+
+  /**
+   * `8'(x)` and `WIDTH'(x)` casts. Type casts such as `int'(x)` keep the value.
+   */
+  private castIfApostrophe(width: Expr, start: number): Expr {
+    if (this.at("'") && this.at('(', 1)) {
+      this.next();
+      this.next();
+      const arg = this.parseExpr(0);
+      this.expect(')');
+      const isType = width.kind === 'id' && TYPE_KEYWORDS.has(width.name);
+      return isType ? arg : { kind: 'cast', width, arg };
+    }
+    return width;
+  }
+
+  private typeArgument(): Expr {
+    const start = this.pos;
+    this.parseDataType(false);
+    return { kind: 'unknown', text: this.textOf(start, this.pos) };
+  }
+}
@@ -0,0 +1,213 @@
+import { createReadStream } from 'fs';
+import { createInterface, Interface } from 'readline';
+import { WaveformData } from '../types/index.js';
+import {
+  SignalAccumulator,
+  WaveformHeader,
+  WaveformReader,
+  WaveformSignalInfo,
+  parseTimescale,
+} from './waveform-reader.js';
+
+interface TokenStream {
+  next(): Promise<string | undefined>;
+}
+
+/**
+ * Streaming reader for IEEE 1364 Value Change Dump files. The file is read
+ * line by line so multi-gigabyte dumps never need to fit in memory; only the
+ * value changes of the requested signals are retained.
+ */
+export class VcdParser implements WaveformReader {
+  private header: WaveformHeader | null = null;
+
+  constructor(private filePath: string) {}
+
+  async readHeader(): Promise<WaveformHeader> {
+    if (this.header) {
+      return this.header;
+    }
+
+    const rl = this.openLines();
+    try {
+      const header = await this.parseDefinitions(this.tokens(rl));
+      this.header = header;
+      return header;
+    } finally {
+      rl.close();
+    }
+  }
+
+  async readValues(
+    signals: WaveformSignalInfo[],
+    timeRange?: [number, number],
+    maxValues: number = 10000
+  ): Promise<WaveformData> {
+    const [start, end] = timeRange || [0, Number.MAX_SAFE_INTEGER];
+    const tracks = new Map<string, SignalAccumulator[]>();
+    const accumulators = signals.map(info => new SignalAccumulator(info, start, end, maxValues));
+
+    for (const accumulator of accumulators) {
+      const list = tracks.get(accumulator.info.id) || [];
+      list.push(accumulator);
+      tracks.set(accumulator.info.id, list);
+    }
+
+    const rl = this.openLines();
+    const tokens = this.tokens(rl);
+    let currentTime = 0;
+    let lastTime = 0;
+
+    const record = (id: string, raw: string) => {
+      const list = tracks.get(id);
+      if (!list) return;
+      for (const accumulator of list) {
+        accumulator.push(currentTime, raw);
+      }
+    };
+
+    try {
+      const header = await this.parseDefinitions(tokens);
+      this.header = header;
+
+      let pendingVector: string | null = null;
+      let inComment = false;
+      let token: string | undefined;
+
+      while ((token = await tokens.next()) !== undefined) {
+        if (inComment) {
+          if (token === '$end') inComment = false;
+          continue;
+        }
+
+        if (pendingVector !== null) {
+          record(token, pendingVector);
+          pendingVector = null;
+          continue;
+        }
+
+        const first = token[0];
+        if (first === '#') {
+          currentTime = parseInt(token.slice(1), 10);
+          lastTime = Math.max(lastTime, currentTime);
+          if (currentTime > end) {
+            break;
+          }
+        } else if (first === 'b' || first === 'B') {
+          pendingVector = token.slice(1);
+        } else if (first === 'r' || first === 'R') {
+          pendingVector = token.slice(1);
+        } else if ('01xXzZ'.includes(first)) {
+          record(token.slice(1), first);
+        } else if (token === '$comment') {
+          inComment = true;
+        }
+        // $dumpvars, $dumpall, $dumpon, $dumpoff and their $end carry no state of their own
+      }
+
+      return {
+        signals: accumulators.map(a => a.finish()),
+        timeRange: [start, timeRange ? end : lastTime],
+        timeUnit: header.timescale,
+      };
+    } finally {
+      rl.close();
+    }
+  }
+
+  private openLines(): Interface {
+    const stream = createReadStream(this.filePath, { encoding: 'utf-8' });
+    const rl = createInterface({ input: stream, crlfDelay: Infinity });
+    rl.on('close', () => stream.destroy());
+    return rl;
+  }
+
+  private tokens(rl: Interface): TokenStream {
+    const lines = rl[Symbol.asyncIterator]();
+    let pending: string[] = [];
+
+    return {
+      async next(): Promise<string | undefined> {
+        while (pending.length === 0) {
+          const { value, done } = await lines.next();
+          if (done) return undefined;
+          pending = value.split(/\s+/).filter(Boolean);
+        }
+        return pending.shift();
+      },
+    };
+  }
+
+  private async parseDefinitions(tokens: TokenStream): Promise<WaveformHeader> {
+    const scopes: string[] = [];
+    const signals: WaveformSignalInfo[] = [];
+    let timescale = '1ns';
+    let date: string | undefined;
+    let version: string | undefined;
+
+    const readUntilEnd = async (): Promise<string[]> => {
+      const body: string[] = [];
+      let token: string | undefined;
+      while ((token = await tokens.next()) !== undefined) {
+        if (token === '$end') return body;
+        body.push(token);
+      }
+      throw new Error(`Unexpected end of file in VCD header: ${this.filePath}`);
+    };
+
+    let token: string | undefined;
+    while ((token = await tokens.next()) !== undefined) {
+      switch (token) {
+        case '$timescale':
+          timescale = (await readUntilEnd()).join('');
+          break;
+        case '$date':
+          date = (await readUntilEnd()).join(' ');
+          break;
+        case '$version':
+          version = (await readUntilEnd()).join(' ');
+          break;
+        case '$scope': {
+          const [, name] = await readUntilEnd();
+          scopes.push(name);
+          break;
+        }
+        case '$upscope':
+          await readUntilEnd();
+          scopes.pop();
+          break;
+        case '$var': {
+          const [varType, size, id, reference] = await readUntilEnd();
+          const scope = scopes.join('.');
+          signals.push({
+            id,
+            name: scope ? `${scope}.${reference}` : reference,
+            scope,
+            reference,
+            width: parseInt(size, 10),
+            varType,
+          });
+          break;
+        }
+        case '$enddefinitions': {
+          await readUntilEnd();
+          const { magnitude, unit } = parseTimescale(timescale);
+          return {
+            timescale: `${magnitude}${unit}`,
+            timeUnit: unit,
+            timeMagnitude: magnitude,
+            signals,
+            date,
+            version,
+          };
+        }
+        default:
+          if (token.startsWith('$')) {
+            await readUntilEnd();
+          }
+      }
+    }
+
+    throw new Error(`No $enddefinitions found in VCD file: ${this.filePath}`);
+  }
+}
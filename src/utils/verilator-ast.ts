@@ -0,0 +1,518 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Reader for the elaborated netlist Verilator writes with `--json-only`
+ * (Verilator 5.024 and later) or `--xml-only` (older releases). Both are
+ * normalized to AstNode so the rest of the server does not care which one
+ * the installed Verilator produced.
+ */
+
+export type AstFormat = 'json' | 'xml';
+
+export interface AstNode {
+  // Lower-case node type; JSON CELL and PIN become `instance` and `port` as in the XML
+  type: string;
+  attrs: Record<string, string>;
+  children: AstNode[];
+  // JSON field the node was found in, e.g. `exprp`, `valuep`
+  slot?: string;
+}
+
+export interface NetlistPort {
+  name: string;
+  direction: 'input' | 'output' | 'inout' | 'ref';
+  width?: number;
+  dataType?: string;
+}
+
+export interface NetlistParameter {
+  name: string;
+  value?: string | number;
+  local: boolean;
+}
+
+export interface NetlistConnection {
+  port: string;
+  direction?: NetlistPort['direction'];
+  // Connected expression as Verilog text; empty for an unconnected port
+  expression: string;
+}
+
+export interface NetlistCell {
+  name: string;
+  // Elaborated module name, e.g. `fifo__W10`
+  module: string;
+  // Named generate blocks between the module and the cell, e.g. `gen_lane[1]`
+  scope: string[];
+  connections: NetlistConnection[];
+  file?: string;
+  line?: number;
+}
+
+export interface NetlistModule {
+  // Elaborated name; parameterized modules get one per parameter set
+  name: string;
+  // Name in the source
+  definition: string;
+  kind: 'module' | 'interface';
+  file?: string;
+  line?: number;
+  ports: NetlistPort[];
+  parameters: NetlistParameter[];
+  cells: NetlistCell[];
+  // The module node, for analyses that need its statements
+  node: AstNode;
+}
+
+export interface Netlist {
+  format: AstFormat;
+  modules: Map<string, NetlistModule>;
+  // Modules no cell instantiates, in netlist order
+  tops: string[];
+  // Look up dtypes and other nodes that JSON refers to by address
+  nodes: Map<string, AstNode>;
+  files: Map<string, string>;
+}
+
+// Node types that hold a module's contents under a hierarchical name
+export const SCOPE_TYPES = new Set(['begin', 'genblock', 'generate', 'genfor', 'genif', 'gencase']);
+
+const BASIC_WIDTHS: Record<string, number> = {
+  logic: 1, bit: 1, reg: 1, byte: 8, shortint: 16, int: 32, integer: 32, longint: 64, time: 64,
+};
+
+const JSON_TYPE_NAMES: Record<string, string> = {
+  CELL: 'instance',
+  PIN: 'port',
+  IFACE: 'iface',
+};
+
+export async function readNetlist(file: string, format: AstFormat, metaFile?: string): Promise<Netlist> {
+  const content = await fs.readFile(file, 'utf-8');
+  if (format === 'xml') {
+    return buildNetlist(parseXml(content), 'xml');
+  }
+
+  let files = new Map<string, string>();
+  if (metaFile) {
+    try {
+      files = jsonFileTable(JSON.parse(await fs.readFile(metaFile, 'utf-8')));
+    } catch {
+      // Locations are reported without file names
+    }
+  }
+  return buildNetlist(fromJson(JSON.parse(content)), 'json', files);
+}
+
+/**
+ * Verilog text of a constant as Verilator prints it, e.g. `32'sh8` or
+ * `"name"`, as a number or string where it fits.
+ */
+export function decodeConstant(text: string): string | number {
+  const based = /^(\d+)'(s?)([bodh])([0-9a-fA-F_]+)$/.exec(text);
+  if (based) {
+    const [, size, signed, base, digits] = based;
+    const radix = { b: 2n, o: 8n, d: 10n, h: 16n }[base as 'b' | 'o' | 'd' | 'h'];
+    let value = 0n;
+    for (const digit of digits.replace(/_/g, '')) {
+      value = value * radix + BigInt(parseInt(digit, 16));
+    }
+    if (signed) {
+      value = BigInt.asIntN(Number(size), value);
+    }
+    return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+      ? Number(value)
+      : text;
+  }
+  if (/^".*"$/s.test(text)) {
+    return text.slice(1, -1);
+  }
+  if (/^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+// XML
+
+/**
+ * Minimal XML reader for Verilator's output: elements and attributes only,
+ * text content is dropped.
+ */
+export function parseXml(content: string): AstNode {
+  const root: AstNode = { type: '#document', attrs: {}, children: [] };
+  const stack: AstNode[] = [root];
+  const tag = /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>/g;
+  const attribute = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tag.exec(content)) !== null) {
+    const [, closing, name, attrText, selfClosing] = match;
+    if (!name) continue;
+
+    if (closing) {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+
+    const node: AstNode = { type: name.toLowerCase(), attrs: {}, children: [] };
+    let attr: RegExpExecArray | null;
+    attribute.lastIndex = 0;
+    while ((attr = attribute.exec(attrText)) !== null) {
+      node.attrs[attr[1]] = decodeEntities(attr[2] ?? attr[3]);
+    }
+    stack[stack.length - 1].children.push(node);
+    if (!selfClosing) {
+      stack.push(node);
+    }
+  }
+  return root;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (entity, code: string) => {
+    switch (code) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    return String.fromCodePoint(code[1] === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+  });
+}
+
+// JSON
+
+/**
+ * Convert a `--json-only` node: scalar fields become attributes, and every
+ * array field becomes children tagged with the field name.
+ */
+export function fromJson(value: any, slot?: string): AstNode {
+  const node: AstNode = {
+    type: JSON_TYPE_NAMES[value.type] || String(value.type || '').toLowerCase(),
+    attrs: {},
+    children: [],
+    slot,
+  };
+  for (const [key, field] of Object.entries(value)) {
+    if (key === 'type') continue;
+    if (Array.isArray(field)) {
+      for (const child of field) {
+        if (child && typeof child === 'object') {
+          node.children.push(fromJson(child, key));
+        }
+      }
+    } else if (field !== null && typeof field !== 'object') {
+      node.attrs[key] = String(field);
+    }
+  }
+  return node;
+}
+
+function jsonFileTable(meta: any): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const [id, file] of Object.entries<any>(meta?.files || {})) {
+    if (file?.filename) {
+      files.set(id, file.filename);
+    }
+  }
+  return files;
+}
+
+// Netlist
+
+function buildNetlist(root: AstNode, format: AstFormat, files: Map<string, string> = new Map()): Netlist {
+  const nodes = new Map<string, AstNode>();
+  const modules: AstNode[] = [];
+
+  walk(root, node => {
+    // JSON refers to nodes by `addr`, XML to dtypes by `id`
+    const key = format === 'json' ? node.attrs.addr : node.type.endsWith('dtype') ? node.attrs.id : undefined;
+    if (key) nodes.set(key, node);
+    if (format === 'xml' && node.type === 'file' && node.attrs.id) {
+      files.set(node.attrs.id, node.attrs.filename);
+    }
+    if (node.type === 'module' || node.type === 'iface') {
+      modules.push(node);
+    }
+  });
+
+  const netlist: Netlist = { format, modules: new Map(), tops: [], nodes, files };
+  for (const node of modules) {
+    const module = readModule(node, netlist);
+    // Verilator's wrapper around the design, when it is present
+    if (module.name !== '$root' && module.name !== '@CONST-POOL@') {
+      netlist.modules.set(module.name, module);
+    }
+  }
+
+  // Pins that carry no direction take it from the instantiated module's port
+  for (const module of netlist.modules.values()) {
+    for (const cell of module.cells) {
+      for (const connection of cell.connections) {
+        connection.direction ??= netlist.modules.get(cell.module)?.ports.find(p => p.name === connection.port)?.direction;
+      }
+    }
+  }
+
+  const instantiated = new Set([...netlist.modules.values()].flatMap(m => m.cells.map(c => c.module)));
+  netlist.tops = [...netlist.modules.values()]
+    .filter(m => m.kind === 'module' && !instantiated.has(m.name))
+    .map(m => m.name);
+  return netlist;
+}
+
+/**
+ * Visit nodes depth first; returning false skips the node's children.
+ */
+export function walk(node: AstNode, visit: (node: AstNode, parent?: AstNode) => boolean | void, parent?: AstNode): void {
+  if (visit(node, parent) === false) return;
+  for (const child of node.children) {
+    walk(child, visit, node);
+  }
+}
+
+export function location(node: AstNode, netlist: Pick<Netlist, 'files'>): { file?: string; line?: number } {
+  // XML: "d,12,8,12,11"; JSON: "d,12:8,12:11"
+  const match = /^(\w+),(\d+)/.exec(node.attrs.loc || '');
+  if (!match) return {};
+  return { file: netlist.files.get(match[1]), line: Number(match[2]) };
+}
+
+function readModule(node: AstNode, netlist: Netlist): NetlistModule {
+  const module: NetlistModule = {
+    name: node.attrs.name,
+    definition: node.attrs.origName || node.attrs.name,
+    kind: node.type === 'iface' ? 'interface' : 'module',
+    ...location(node, netlist),
+    ports: [],
+    parameters: [],
+    cells: [],
+    node,
+  };
+
+  const visit = (child: AstNode, scope: string[]): void => {
+    if (child.type === 'var') {
+      const direction = varDirection(child);
+      if (direction) {
+        module.ports.push({ name: child.attrs.name, direction, ...dataTypeInfo(child, netlist) });
+      } else if (isParameter(child)) {
+        module.parameters.push({ name: child.attrs.name, value: parameterValue(child), local: isLocalParameter(child) });
+      }
+      return;
+    }
+    if (child.type === 'instance') {
+      module.cells.push(readCell(child, scope, netlist));
+      return;
+    }
+    // Functions, tasks and classes cannot hold instances or ports
+    if (['func', 'task', 'class', 'cfunc'].includes(child.type)) {
+      return;
+    }
+    const nested = SCOPE_TYPES.has(child.type) && child.attrs.name ? [...scope, child.attrs.name] : scope;
+    for (const grandchild of child.children) {
+      visit(grandchild, nested);
+    }
+  };
+  for (const child of node.children) {
+    visit(child, []);
+  }
+  return module;
+}
+
+function readCell(node: AstNode, scope: string[], netlist: Netlist): NetlistCell {
+  // XML names the module; JSON points at it
+  const target = node.attrs.modp ? netlist.nodes.get(node.attrs.modp) : undefined;
+  const cell: NetlistCell = {
+    name: node.attrs.name,
+    module: node.attrs.defName || target?.attrs.name || node.attrs.modName || '',
+    scope,
+    connections: [],
+    ...location(node, netlist),
+  };
+
+  for (const pin of node.children.filter(child => child.type === 'port')) {
+    const modVar = pin.attrs.modVarp ? netlist.nodes.get(pin.attrs.modVarp) : undefined;
+    const expression = pinExpression(pin);
+    cell.connections.push({
+      port: pin.attrs.name,
+      direction: portDirection(pin.attrs.direction) ?? (modVar ? varDirection(modVar) : undefined),
+      expression: expression ? expressionText(expression) : '',
+    });
+  }
+  return cell;
+}
+
+/**
+ * Expression connected to an instance's port node, if any.
+ */
+export function pinExpression(pin: AstNode): AstNode | undefined {
+  return pin.children.find(child => !child.type.endsWith('dtype') && (!child.slot || child.slot === 'exprp'));
+}
+
+function portDirection(direction?: string): NetlistPort['direction'] | undefined {
+  switch (direction?.toLowerCase()) {
+    case 'in':
+    case 'input':
+      return 'input';
+    case 'out':
+    case 'output':
+      return 'output';
+    case 'inout':
+      return 'inout';
+    case 'ref':
+    case 'constref':
+      return 'ref';
+  }
+  return undefined;
+}
+
+export function varDirection(node: AstNode): NetlistPort['direction'] | undefined {
+  return portDirection(node.attrs.dir || node.attrs.direction);
+}
+
+export function isParameter(node: AstNode): boolean {
+  const varType = node.attrs.varType || '';
+  return node.attrs.param === 'true' || node.attrs.localparam === 'true' ||
+    node.attrs.isParam === 'true' || varType === 'GPARAM' || varType === 'LPARAM';
+}
+
+function isLocalParameter(node: AstNode): boolean {
+  return node.attrs.localparam === 'true' || node.attrs.varType === 'LPARAM';
+}
+
+function parameterValue(node: AstNode): string | number | undefined {
+  const value = node.children.find(child => child.slot === 'valuep' || (!child.slot && !child.type.endsWith('dtype')));
+  if (!value) return undefined;
+  return value.type === 'const' ? decodeConstant(value.attrs.name) : expressionText(value);
+}
+
+export function dataTypeInfo(node: AstNode, netlist: Netlist): { width?: number; dataType?: string } {
+  const dtype = netlist.nodes.get(node.attrs.dtype_id || node.attrs.dtypep || '');
+  const name = node.attrs.vartype || node.attrs.dtypeName || dtype?.attrs.name;
+  const width = dtype ? dtypeWidth(dtype, netlist, 0) : undefined;
+  return { width, dataType: name || undefined };
+}
+
+function subDType(dtype: AstNode, netlist: Netlist): AstNode | undefined {
+  const ref = dtype.attrs.sub_dtype_id || dtype.attrs.refDTypep || dtype.attrs.subDTypep || dtype.attrs.childDTypep;
+  if (ref && netlist.nodes.has(ref)) {
+    return netlist.nodes.get(ref);
+  }
+  return dtype.children.find(child => child.type.endsWith('dtype'));
+}
+
+/**
+ * Packed width of a dtype, or undefined for types without one.
+ */
+export function dtypeWidth(dtype: AstNode, netlist: Netlist, depth: number): number | undefined {
+  if (depth > 32) return undefined;
+
+  switch (dtype.type) {
+    case 'basicdtype': {
+      const range = dtype.attrs.range ? dtype.attrs.range.split(':') : [dtype.attrs.left, dtype.attrs.right];
+      if (range[0] !== undefined && range[1] !== undefined) {
+        return Math.abs(Number(range[0]) - Number(range[1])) + 1;
+      }
+      return rangeSize(dtype) ?? BASIC_WIDTHS[dtype.attrs.keyword || dtype.attrs.name];
+    }
+    case 'packarraydtype': {
+      const sub = subDType(dtype, netlist);
+      const size = rangeSize(dtype);
+      const subWidth = sub ? dtypeWidth(sub, netlist, depth + 1) : undefined;
+      return size !== undefined && subWidth !== undefined ? size * subWidth : undefined;
+    }
+    case 'refdtype':
+    case 'enumdtype':
+    case 'typedef': {
+      const sub = subDType(dtype, netlist);
+      return sub ? dtypeWidth(sub, netlist, depth + 1) : undefined;
+    }
+    case 'structdtype':
+    case 'uniondtype': {
+      if (dtype.attrs.packed === 'false') return undefined;
+      const widths = dtype.children
+        .filter(child => child.type === 'memberdtype')
+        .map(member => {
+          const sub = subDType(member, netlist);
+          return sub ? dtypeWidth(sub, netlist, depth + 1) : undefined;
+        });
+      if (widths.length === 0 || widths.some(width => width === undefined)) return undefined;
+      return dtype.type === 'uniondtype'
+        ? Math.max(...(widths as number[]))
+        : (widths as number[]).reduce((sum, width) => sum + width, 0);
+    }
+  }
+  return undefined;
+}
+
+function rangeSize(dtype: AstNode): number | undefined {
+  const range = dtype.children.find(child => child.type === 'range');
+  if (!range) return undefined;
+  const bounds = range.children.filter(child => child.type === 'const').map(child => decodeConstant(child.attrs.name));
+  if (bounds.length !== 2 || typeof bounds[0] !== 'number' || typeof bounds[1] !== 'number') return undefined;
+  return Math.abs(bounds[0] - bounds[1]) + 1;
+}
+
+/**
+ * Verilog-like text of an expression, for reporting port connections and
+ * drivers. Node types without a rendering show as `<type>`.
+ */
+export function expressionText(node: AstNode): string {
+  const operands = node.children.filter(child => !child.type.endsWith('dtype'));
+  const [a, b, c] = operands.map(expressionText);
+
+  switch (node.type) {
+    case 'varref':
+    case 'varxref':
+      return node.attrs.dotted ? `${node.attrs.dotted}.${node.attrs.name}` : node.attrs.name;
+    case 'const':
+      return node.attrs.name;
+    case 'sel': {
+      // from, lsb, width
+      const lsb = decodeConstant(operands[1]?.attrs.name ?? '');
+      const width = decodeConstant(operands[2]?.attrs.name ?? '');
+      if (typeof lsb === 'number' && typeof width === 'number') {
+        return width === 1 ? `${a}[${lsb}]` : `${a}[${lsb + width - 1}:${lsb}]`;
+      }
+      return `${a}[${b} +: ${c}]`;
+    }
+    case 'arraysel':
+    case 'wordsel':
+      return `${a}[${b}]`;
+    case 'membersel':
+      return `${a}.${node.attrs.name}`;
+    case 'concat':
+      return `{${operands.map(expressionText).join(', ')}}`;
+    case 'replicate':
+      return `{${b}{${a}}}`;
+    case 'extend':
+    case 'extends':
+    case 'ccast':
+    case 'cast':
+      return a ?? '';
+    case 'not':
+      return `~${a}`;
+    case 'lognot':
+      return `!${a}`;
+    case 'negate':
+      return `-${a}`;
+    case 'cond':
+    case 'condbound':
+      return `${a} ? ${b} : ${c}`;
+  }
+
+  const binary = BINARY_OPERATORS[node.type];
+  if (binary && operands.length === 2) {
+    return `${a} ${binary} ${b}`;
+  }
+  return `<${node.type}>`;
+}
+
+const BINARY_OPERATORS: Record<string, string> = {
+  and: '&', or: '|', xor: '^', add: '+', sub: '-', mul: '*', muls: '*', div: '/', divs: '/',
+  moddiv: '%', moddivs: '%', eq: '==', neq: '!=', lt: '<', lts: '<', lte: '<=', ltes: '<=',
+  gt: '>', gts: '>', gte: '>=', gtes: '>=', logand: '&&', logor: '||', shiftl: '<<', shiftr: '>>',
+  shiftrs: '>>>', eqcase: '===', neqcase: '!==',
+};
@@ -0,0 +1,205 @@
+import { promises as fs } from 'fs';
+import { ParsedError } from './error-handler.js';
+import { wildcardMatch } from './wildcard.js';
+
+/**
+ * A `lint_off` entry from a Verilator configuration (.vlt) file.
+ */
+export interface Waiver {
+  rule?: string;
+  file?: string;
+  firstLine?: number;
+  lastLine?: number;
+  match?: string;
+  reason?: string;
+  // 1-based line of the entry in the .vlt file
+  lineNumber: number;
+  text: string;
+}
+
+export interface WaiverSpec {
+  rule: string;
+  file?: string;
+  firstLine?: number;
+  lastLine?: number;
+  match?: string;
+  reason?: string;
+}
+
+const CONFIG_HEADER = '`verilator_config';
+
+function tokenize(line: string): string[] {
+  const tokens: string[] = [];
+  const tokenRegex = /"((?:[^"\\]|\\.)*)"|(\S+)/g;
+  let match;
+  while ((match = tokenRegex.exec(line)) !== null) {
+    tokens.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2]);
+  }
+  return tokens;
+}
+
+export function parseWaivers(content: string): Waiver[] {
+  const waivers: Waiver[] = [];
+  const lines = content.split(/\r?\n/);
+  let reason: string | undefined;
+
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+    if (line.startsWith('//')) {
+      // A comment directly above an entry records why it was waived
+      reason = line.replace(/^\/\/\s*/, '') || undefined;
+      return;
+    }
+
+    const code = line.replace(/\/\/.*$/, '').trim();
+    const tokens = tokenize(code);
+    if (tokens[0] !== 'lint_off') {
+      reason = undefined;
+      return;
+    }
+
+    const waiver: Waiver = { lineNumber: index + 1, text: raw, reason };
+    for (let i = 1; i < tokens.length; i++) {
+      const value = tokens[i + 1];
+      switch (tokens[i]) {
+        case '-rule':
+        case '-msg':
+          waiver.rule = value;
+          i++;
+          break;
+        case '-file':
+          waiver.file = value;
+          i++;
+          break;
+        case '-lines': {
+          const [first, last] = (value || '').split('-').map(n => parseInt(n, 10));
+          if (!isNaN(first)) {
+            waiver.firstLine = first;
+            waiver.lastLine = isNaN(last) ? first : last;
+          }
+          i++;
+          break;
+        }
+        case '-match':
+          waiver.match = value;
+          i++;
+          break;
+      }
+    }
+
+    waivers.push(waiver);
+    reason = undefined;
+  });
+
+  return waivers;
+}
+
+export async function readWaiverFile(path: string): Promise<Waiver[]> {
+  try {
+    return parseWaivers(await fs.readFile(path, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/(["\\])/g, '\\$1')}"`;
+}
+
+export function formatWaiver(spec: WaiverSpec): string {
+  let line = `lint_off -rule ${spec.rule}`;
+  if (spec.file) {
+    line += ` -file ${quote(spec.file)}`;
+    if (spec.firstLine !== undefined) {
+      const last = spec.lastLine ?? spec.firstLine;
+      line += ` -lines ${spec.firstLine}${last !== spec.firstLine ? `-${last}` : ''}`;
+    }
+  }
+  if (spec.match) {
+    line += ` -match ${quote(spec.match)}`;
+  }
+  return line;
+}
+
+export function waiverMatches(waiver: Waiver | WaiverSpec, diagnostic: ParsedError): boolean {
+  if (diagnostic.type !== 'warning') {
+    return false;
+  }
+  if (waiver.rule && waiver.rule !== '*' && waiver.rule !== diagnostic.code) {
+    return false;
+  }
+  if (waiver.file && !(diagnostic.file && wildcardMatch(waiver.file, diagnostic.file))) {
+    return false;
+  }
+  if (waiver.firstLine !== undefined) {
+    const last = waiver.lastLine ?? waiver.firstLine;
+    if (diagnostic.line === undefined || diagnostic.line < waiver.firstLine || diagnostic.line > last) {
+      return false;
+    }
+  }
+  if (waiver.match && !wildcardMatch(waiver.match, diagnostic.message)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Append waivers to a .vlt file, creating it with the `verilator_config
+ * header if needed. Entries already present are skipped; the added lines are
+ * returned.
+ */
+export async function appendWaivers(path: string, specs: WaiverSpec[]): Promise<string[]> {
+  let content = '';
+  try {
+    content = await fs.readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  const existing = new Set(parseWaivers(content).map(w => w.text.replace(/\/\/.*$/, '').trim()));
+  const added: string[] = [];
+  const out: string[] = [];
+
+  for (const spec of specs) {
+    const line = formatWaiver(spec);
+    if (existing.has(line)) continue;
+    existing.add(line);
+    if (spec.reason) {
+      out.push(`// ${spec.reason}`);
+    }
+    out.push(line);
+    added.push(line);
+  }
+
+  if (added.length > 0) {
+    if (!content.includes(CONFIG_HEADER)) {
+      content = `${CONFIG_HEADER}\n\n` + content;
+    }
+    if (content.length > 0 && !content.endsWith('\n')) {
+      content += '\n';
+    }
+    await fs.writeFile(path, content + out.join('\n') + '\n');
+  }
+
+  return added;
+}
+
+/**
+ * Remove the given waivers (and their reason comments) from a .vlt file.
+ */
+export async function removeWaivers(path: string, waivers: Waiver[]): Promise<void> {
+  const lines = (await fs.readFile(path, 'utf-8')).split('\n');
+  const drop = new Set<number>();
+  for (const waiver of waivers) {
+    drop.add(waiver.lineNumber - 1);
+    if (waiver.reason && lines[waiver.lineNumber - 2]?.trim().startsWith('//')) {
+      drop.add(waiver.lineNumber - 2);
+    }
+  }
+  await fs.writeFile(path, lines.filter((_, index) => !drop.has(index)).join('\n'));
+}
@@ -0,0 +1,182 @@
+import { SignalData, SignalValue, WaveformData } from '../types/index.js';
+
+export interface WaveformSignalInfo {
+  id: string;
+  name: string;
+  scope: string;
+  reference: string;
+  width: number;
+  varType: string;
+}
+
+export interface WaveformHeader {
+  timescale: string;
+  timeUnit: TimeUnit;
+  timeMagnitude: number;
+  signals: WaveformSignalInfo[];
+  date?: string;
+  version?: string;
+}
+
+export type TimeUnit = 's' | 'ms' | 'us' | 'ns' | 'ps' | 'fs';
+
+export interface WaveformReader {
+  readHeader(): Promise<WaveformHeader>;
+  readValues(
+    signals: WaveformSignalInfo[],
+    timeRange?: [number, number],
+    maxValues?: number
+  ): Promise<WaveformData>;
+}
+
+export interface SignalResolution {
+  query: string;
+  signal?: WaveformSignalInfo;
+  candidates: WaveformSignalInfo[];
+}
+
+const UNIT_EXPONENTS: Record<TimeUnit, number> = {
+  s: 0,
+  ms: -3,
+  us: -6,
+  ns: -9,
+  ps: -12,
+  fs: -15,
+};
+
+export function parseTimescale(text: string): { magnitude: number; unit: TimeUnit } {
+  const match = text.trim().match(/^(\d+)\s*(s|ms|us|ns|ps|fs)$/);
+  if (!match) {
+    throw new Error(`Unsupported timescale: ${text}`);
+  }
+  return { magnitude: parseInt(match[1], 10), unit: match[2] as TimeUnit };
+}
+
+/**
+ * Factor that converts a time expressed in the file's timescale into `unit`.
+ */
+export function timeScaleFactor(header: WaveformHeader, unit: TimeUnit): number {
+  const exponent = UNIT_EXPONENTS[header.timeUnit] - UNIT_EXPONENTS[unit];
+  return header.timeMagnitude * Math.pow(10, exponent);
+}
+
+/**
+ * Resolve user-supplied signal names against the hierarchy. Accepts full
+ * hierarchical names (`tb.dut.count`), trailing path fragments (`dut.count`)
+ * and bare references (`count`). Shallower matches win when a name is ambiguous.
+ */
+export function resolveSignals(
+  signals: WaveformSignalInfo[],
+  queries: string[]
+): SignalResolution[] {
+  return queries.map((query) => {
+    const normalized = query.replace(/\s*\[[^\]]*\]\s*$/, '').replace(/\//g, '.');
+    const exact = signals.filter(s => s.name === normalized);
+    const candidates = exact.length > 0
+      ? exact
+      : signals.filter(s => s.name.endsWith(`.${normalized}`) || s.reference === normalized);
+
+    const sorted = [...candidates].sort(
+      (a, b) => a.name.split('.').length - b.name.split('.').length
+    );
+
+    return {
+      query,
+      signal: sorted[0],
+      candidates: sorted,
+    };
+  });
+}
+
+/**
+ * Normalize a raw waveform value (binary vector, scalar or real) into a SignalValue.
+ * Fully known vectors up to 53 bits become numbers; anything else stays a bit string.
+ */
+export function toSignalValue(time: number, raw: string, width: number, isReal = false): SignalValue {
+  if (isReal) {
+    return { time, value: parseFloat(raw) };
+  }
+
+  const bits = raw.toLowerCase();
+  const isX = bits.includes('x');
+  const isZ = bits.includes('z');
+
+  const value: SignalValue = { time, value: bits };
+  if (isX) value.isX = true;
+  if (isZ) value.isZ = true;
+
+  if (!isX && !isZ && /^[01]+$/.test(bits) && width <= 53) {
+    value.value = parseInt(bits, 2);
+  } else if (bits.length < width) {
+    // Left-extend per IEEE 1364 rules: 0/1 pad with 0, x/z pad with themselves
+    const pad = bits[0] === 'x' || bits[0] === 'z' ? bits[0] : '0';
+    value.value = pad.repeat(width - bits.length) + bits;
+  }
+
+  return value;
+}
+
+/**
+ * Collects the value changes of one signal that fall inside a query window.
+ * Changes must be pushed in time order; the value live when the window opens
+ * is reported at the window start.
+ */
+export class SignalAccumulator {
+  readonly data: SignalData;
+  private last?: string;
+  private opened = false;
+  private isReal: boolean;
+
+  constructor(
+    readonly info: WaveformSignalInfo,
+    private start: number,
+    private end: number,
+    private maxValues: number
+  ) {
+    this.data = { name: info.name, width: info.width, values: [] };
+    this.isReal = info.varType === 'real' || info.varType === 'realtime' || info.varType === 'shortreal';
+  }
+
+  push(time: number, raw: string): void {
+    if (time < this.start) {
+      this.last = raw;
+      return;
+    }
+    if (time > this.end) {
+      return;
+    }
+    if (!this.opened) {
+      this.opened = true;
+      if (this.last !== undefined && time > this.start) {
+        this.append(this.start, this.last);
+      }
+    }
+    this.append(time, raw);
+  }
+
+  finish(): SignalData {
+    if (!this.opened && this.last !== undefined) {
+      this.append(this.start, this.last);
+    }
+    this.opened = true;
+    return this.data;
+  }
+
+  private append(time: number, raw: string): void {
+    const values = this.data.values;
+    const previous = values[values.length - 1];
+    if (previous && previous.time === time) {
+      // Only the settled value of a timestep is of interest
+      values.pop();
+    } else if (values.length >= this.maxValues) {
+      this.data.truncated = true;
+      return;
+    }
+
+    values.push(
+      this.info.varType === 'string'
+        ? { time, value: raw }
+        : toSignalValue(time, raw, this.info.width, this.isReal)
+    );
+  }
+}
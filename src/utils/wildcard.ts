@@ -0,0 +1,12 @@
+/**
+ * Match `text` against a shell-style wildcard pattern over the whole string:
+ * `*` matches any run of characters, including `/`, and `?` any one
+ * character. This is how Verilator matches `-file` and `-match` in .vlt files.
+ */
+export function wildcardMatch(pattern: string, text: string): boolean {
+  const regex = pattern
+    .split('')
+    .map(ch => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${regex}$`, 's').test(text);
+}
@@ -0,0 +1,176 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BuildCacheEntry, CacheManager, readDependencyFiles } from '../src/utils/cache';
+
+const STAMP = '.verilator-mcp-build.json';
+
+describe('readDependencyFiles', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'deps-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('collects the prerequisites of every rule, across continuation lines', async () => {
+    writeFileSync(join(dir, 'Vtop__ver.d'), 'Vtop.cpp Vtop.h : /src/top.sv \\\n  /src/pkg.sv \\\n  /src/defs.svh\n');
+    writeFileSync(join(dir, 'Vtop__verFiles.dat'), '/src/ignored.sv\n');
+    writeFileSync(join(dir, 'Vtop_lib__ver.d'), 'Vtop_lib.cpp : /src/pkg.sv /src/lib.sv\n');
+
+    expect(await readDependencyFiles(dir)).toEqual(['/src/defs.svh', '/src/lib.sv', '/src/pkg.sv', '/src/top.sv']);
+  });
+
+  it('returns nothing for a missing directory', async () => {
+    expect(await readDependencyFiles(join(dir, 'missing'))).toEqual([]);
+  });
+});
+
+describe('CacheManager builds', () => {
+  let dir: string;
+  let cache: CacheManager;
+  let sources: string;
+  let build: string;
+
+  // A build directory as Verilator leaves it, listing its sources in a .d file
+  const makeBuild = (path: string, files: Record<string, string>) => {
+    mkdirSync(path, { recursive: true });
+    for (const [name, content] of Object.entries(files)) {
+      writeFileSync(join(path, name), content);
+    }
+    writeFileSync(
+      join(path, 'Vtop__ver.d'),
+      `Vtop.cpp : ${join(sources, 'top.sv')} \\\n  ${join(sources, 'defs.svh')}\n`
+    );
+  };
+  const stampOf = (path: string) => JSON.parse(readFileSync(join(path, STAMP), 'utf-8')).key;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'cache-'));
+    cache = new CacheManager(join(dir, 'cache'));
+    // Let the cache create its directories before a test can remove them
+    await cache.listBuilds();
+    sources = join(dir, 'src');
+    build = join(dir, 'obj_dir');
+    mkdirSync(sources);
+    writeFileSync(join(sources, 'top.sv'), 'module top; endmodule\n');
+    writeFileSync(join(sources, 'defs.svh'), '`define W 8\n');
+    makeBuild(build, { 'Vtop.cpp': 'model', Vtop: 'binary' });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('storeBuild and findBuild', () => {
+    it('keys a build on the manifest and the content of the sources its .d file lists', async () => {
+      const stored = (await cache.storeBuild('manifest', build, { ok: true }))!;
+
+      expect(stored.sources.map(source => source.path)).toEqual([join(sources, 'defs.svh'), join(sources, 'top.sv')]);
+      expect(stored.key).toBe(cache.generateKey('manifest', stored.sources));
+      expect(stampOf(build)).toBe(stored.key);
+      expect((await cache.findBuild('manifest'))?.result).toEqual({ ok: true });
+      expect(await cache.findBuild('other manifest')).toBeNull();
+    });
+
+    it('misses when a source included through the .d file changes content', async () => {
+      await cache.storeBuild('manifest', build, { ok: true });
+
+      writeFileSync(join(sources, 'defs.svh'), '`define W 16\n');
+      expect(await cache.findBuild('manifest')).toBeNull();
+
+      // Same content again, with a newer modification time
+      writeFileSync(join(sources, 'defs.svh'), '`define W 8\n');
+      expect(await cache.findBuild('manifest')).not.toBeNull();
+    });
+
+    it('misses when a source is gone', async () => {
+      await cache.storeBuild('manifest', build, { ok: true });
+      rmSync(join(sources, 'top.sv'));
+
+      expect(await cache.findBuild('manifest')).toBeNull();
+    });
+
+    it('falls back to the given sources without a .d file', async () => {
+      rmSync(join(build, 'Vtop__ver.d'));
+
+      const stored = (await cache.storeBuild('manifest', build, {}, [join(sources, 'top.sv')]))!;
+      expect(stored.sources.map(source => source.path)).toEqual([join(sources, 'top.sv')]);
+    });
+  });
+
+  describe('restoreBuild', () => {
+    let entry: BuildCacheEntry;
+    let target: string;
+
+    beforeEach(async () => {
+      await cache.storeBuild('manifest', build, { ok: true });
+      entry = (await cache.findBuild('manifest'))!;
+      target = join(dir, 'restored');
+    });
+
+    it('copies the build into a new directory and stamps it', async () => {
+      await cache.restoreBuild(entry, target);
+
+      expect(readFileSync(join(target, 'Vtop'), 'utf-8')).toBe('binary');
+      expect(stampOf(target)).toBe(entry.key);
+    });
+
+    it('reuses a directory stamped with the same build as it is', async () => {
+      await cache.restoreBuild(entry, target);
+      writeFileSync(join(target, 'Vtop'), 'rebuilt in place');
+
+      await cache.restoreBuild(entry, target);
+      expect(readFileSync(join(target, 'Vtop'), 'utf-8')).toBe('rebuilt in place');
+    });
+
+    it('replaces a directory an earlier build wrote', async () => {
+      makeBuild(target, { Vtop: 'other binary', 'stale.o': 'object' });
+      writeFileSync(join(target, STAMP), JSON.stringify({ key: 'another build' }));
+
+      await cache.restoreBuild(entry, target);
+      expect(readFileSync(join(target, 'Vtop'), 'utf-8')).toBe('binary');
+      expect(existsSync(join(target, 'stale.o'))).toBe(false);
+      expect(stampOf(target)).toBe(entry.key);
+    });
+
+    it('copies over an unstamped directory without deleting anything', async () => {
+      mkdirSync(target);
+      writeFileSync(join(target, 'notes.txt'), 'keep me');
+
+      await cache.restoreBuild(entry, target);
+      expect(readFileSync(join(target, 'notes.txt'), 'utf-8')).toBe('keep me');
+      expect(readFileSync(join(target, 'Vtop'), 'utf-8')).toBe('binary');
+    });
+
+    it('records when the build was last used', async () => {
+      const before = entry.lastUsed;
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      await cache.restoreBuild(entry, target);
+      expect((await cache.findBuild('manifest'))!.lastUsed).toBeGreaterThan(before);
+    });
+  });
+
+  describe('forgetBuild', () => {
+    it('clears the key of a stamped directory so the next restore replaces it', async () => {
+      const stored = (await cache.storeBuild('manifest', build, { ok: true }))!;
+      writeFileSync(join(build, 'Vtop'), 'half rebuilt');
+
+      await cache.forgetBuild(build);
+      expect(stampOf(build)).toBeNull();
+
+      await cache.restoreBuild(stored, build);
+      expect(readFileSync(join(build, 'Vtop'), 'utf-8')).toBe('binary');
+    });
+
+    it('leaves a directory without a stamp alone', async () => {
+      await cache.forgetBuild(build);
+
+      expect(existsSync(join(build, STAMP))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { countTotals, parseCoverageFile, summarizeCoverage, writeCoverageFile } from '../src/utils/coverage-parser';
+
+// counter.dat has twelve points over two modules: three line, four toggle,
+// three branch (two v_branch and one v_expr) and two v_user cover points.
+// Eight of them are hit, one of those only once.
+const COUNTER = join(__dirname, 'fixtures', 'coverage', 'counter.dat');
+
+describe('parseCoverageFile', () => {
+  it('reads every point with its location, hierarchy and count', async () => {
+    const points = await parseCoverageFile(COUNTER);
+
+    expect(points).toHaveLength(12);
+    expect(points.map(({ type, count }) => [type, count])).toEqual([
+      ['line', 10], ['line', 0], ['branch', 4], ['branch', 0],
+      ['toggle', 3], ['toggle', 2], ['toggle', 1], ['toggle', 0],
+      ['line', 1], ['functional', 0], ['functional', 2], ['branch', 3],
+    ]);
+
+    const { key, ...line } = points[1];
+    expect(key).toContain('\x01page\x02v_line/counter');
+    expect(line).toEqual({
+      type: 'line',
+      file: 'rtl/counter.sv',
+      line: 9,
+      column: 0,
+      module: 'counter',
+      hier: 'TOP.tb.u_counter',
+      comment: 'if',
+      lines: [9, 11, 12],
+      count: 0,
+    });
+    expect(points[0].lines).toEqual([5, 6, 7]);
+    // Points without a line range cover their own line
+    expect(points[4].lines).toEqual([3]);
+    expect(points[11]).toMatchObject({ module: 'tb', column: 8, comment: "(rst_n==1'h0) => 1" });
+  });
+});
+
+describe('summarizeCoverage', () => {
+  it('counts the points of each type', async () => {
+    const points = await parseCoverageFile(COUNTER);
+
+    expect(countTotals(points)).toEqual({
+      line: { covered: 2, total: 3 },
+      toggle: { covered: 3, total: 4 },
+      functional: { covered: 1, total: 2 },
+      branch: { covered: 2, total: 3 },
+    });
+    expect(summarizeCoverage(points).summary).toEqual({
+      line: 66.67,
+      toggle: 75,
+      functional: 50,
+      branch: 66.67,
+      overall: 66.67,
+    });
+  });
+
+  it('only counts points hit at least minCount times', async () => {
+    const points = await parseCoverageFile(COUNTER);
+
+    expect(summarizeCoverage(points, 2).summary).toEqual({
+      line: 33.33,
+      toggle: 50,
+      functional: 50,
+      branch: 66.67,
+      overall: 50,
+    });
+  });
+
+  it('breaks coverage down by file and module, leaving out types a module has none of', async () => {
+    const { details } = summarizeCoverage(await parseCoverageFile(COUNTER));
+
+    expect(details).toEqual([
+      { file: 'rtl/counter.sv', module: 'counter', line: 50, toggle: 75, branch: 50 },
+      { file: 'tb/tb.sv', module: 'tb', line: 100, functional: 50, branch: 100 },
+    ]);
+  });
+
+  it('lists uncovered points by file and line', async () => {
+    const { uncoveredPoints } = summarizeCoverage(await parseCoverageFile(COUNTER));
+
+    expect(uncoveredPoints).toEqual([
+      { type: 'toggle', file: 'rtl/counter.sv', line: 3, signal: 'count[1]', description: 'TOP.tb.u_counter.count[1]:1->0 never toggled' },
+      { type: 'line', file: 'rtl/counter.sv', line: 9, description: 'TOP.tb.u_counter: if not covered' },
+      { type: 'branch', file: 'rtl/counter.sv', line: 9, description: 'TOP.tb.u_counter: else not covered' },
+      { type: 'functional', file: 'tb/tb.sv', line: 20, description: 'TOP.tb: cover_wrap not covered' },
+    ]);
+    expect(summarizeCoverage(await parseCoverageFile(COUNTER), 1, 2).uncoveredPoints).toHaveLength(2);
+  });
+
+  it('reports 0 for a run without points', () => {
+    expect(summarizeCoverage([])).toEqual({
+      summary: { line: 0, toggle: 0, functional: 0, branch: 0, overall: 0 },
+      details: [],
+      uncoveredPoints: [],
+    });
+  });
+});
+
+describe('writeCoverageFile', () => {
+  it('writes points back in a form it reads again', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'coverage-'));
+    try {
+      const points = await parseCoverageFile(COUNTER);
+      const file = join(dir, 'coverage.dat');
+      await writeCoverageFile(file, points);
+
+      expect(await parseCoverageFile(file)).toEqual(points);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,189 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseCoverageFile, summarizeCoverage } from '../src/utils/coverage-parser';
+import { annotateSources, toLcov, writeCoverageReport } from '../src/utils/coverage-report';
+
+// counter.dat covers rtl/counter.sv, which is next to it, and tb/tb.sv, which
+// is left out so the report has a source it cannot find
+const FIXTURES = join(__dirname, 'fixtures', 'coverage');
+const COUNTER_SV = join(FIXTURES, 'rtl', 'counter.sv');
+const TB_SV = join(FIXTURES, 'tb', 'tb.sv');
+
+async function annotate(minCount?: number) {
+  const points = await parseCoverageFile(join(FIXTURES, 'counter.dat'));
+  return { points, files: await annotateSources(points, FIXTURES, minCount) };
+}
+
+describe('annotateSources', () => {
+  it('puts line blocks on every line they span and other points on their own line', async () => {
+    const { files } = await annotate();
+    const [counter, tb] = files;
+
+    expect(counter).toMatchObject({
+      file: 'rtl/counter.sv',
+      sourcePath: COUNTER_SV,
+      sourceFound: true,
+      linesFound: 6,
+      linesHit: 3,
+      branchesFound: 2,
+      branchesHit: 1,
+    });
+    const line = (n: number) => {
+      const { text, count, points } = counter.lines[n - 1];
+      return { text, count, points: points.map(p => `${p.type} ${p.comment}`) };
+    };
+    expect(line(3)).toEqual({
+      text: '  output logic [1:0] count',
+      count: undefined,
+      points: ['toggle count[0]:0->1', 'toggle count[0]:1->0', 'toggle count[1]:0->1', 'toggle count[1]:1->0'],
+    });
+    expect(line(6)).toEqual({ text: "    if (!rst_n) count <= '0;", count: 10, points: ['line block'] });
+    // The lowest count of the line and branch points on the line
+    expect(line(9)).toEqual({
+      text: "  always_comb if (count == 2'd3 && en) begin",
+      count: 0,
+      points: ['line if', 'branch if', 'branch else'],
+    });
+    expect(line(10)).toEqual({ text: '    // About to wrap', count: undefined, points: [] });
+    expect(line(11).count).toBe(0);
+
+    expect(tb).toMatchObject({
+      file: 'tb/tb.sv',
+      sourcePath: TB_SV,
+      sourceFound: false,
+      linesFound: 3,
+      linesHit: 3,
+      branchesFound: 1,
+      branchesHit: 1,
+    });
+    expect(tb.lines).toHaveLength(22);
+    expect(tb.lines[19]).toMatchObject({ line: 20, text: '', count: undefined });
+  });
+
+  it('counts lines and branches as hit from minCount', async () => {
+    const { files } = await annotate(5);
+
+    expect(files.map(({ linesHit, branchesHit }) => ({ linesHit, branchesHit }))).toEqual([
+      { linesHit: 3, branchesHit: 0 },
+      { linesHit: 0, branchesHit: 0 },
+    ]);
+  });
+});
+
+describe('toLcov', () => {
+  it('writes a record per file with branch and line data', async () => {
+    const { files } = await annotate();
+
+    expect(toLcov(files, 'nightly')).toBe(`TN:nightly
+SF:${COUNTER_SV}
+BRDA:9,0,0,4
+BRDA:9,0,1,0
+BRF:2
+BRH:1
+DA:5,10
+DA:6,10
+DA:7,10
+DA:9,0
+DA:11,0
+DA:12,0
+LF:6
+LH:3
+end_of_record
+TN:nightly
+SF:${TB_SV}
+BRDA:18,0,0,3
+BRF:1
+BRH:1
+DA:14,1
+DA:15,1
+DA:16,1
+LF:3
+LH:3
+end_of_record
+`);
+  });
+});
+
+describe('writeCoverageReport', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'coverage-report-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes a page per source file and an index', async () => {
+    const { points, files } = await annotate();
+    const coverage = summarizeCoverage(points);
+
+    const report = await writeCoverageReport(files, coverage, dir, ['html', 'lcov']);
+
+    expect(report).toEqual({
+      reportDir: dir,
+      lcovFile: join(dir, 'coverage.info'),
+      htmlIndex: join(dir, 'index.html'),
+      files: [
+        { file: 'rtl/counter.sv', sourcePath: COUNTER_SV, sourceFound: true, htmlFile: join(dir, 'rtl_counter.sv.html'), linesFound: 6, linesHit: 3, branchesFound: 2, branchesHit: 1 },
+        { file: 'tb/tb.sv', sourcePath: TB_SV, sourceFound: false, htmlFile: join(dir, 'tb_tb.sv.html'), linesFound: 3, linesHit: 3, branchesFound: 1, branchesHit: 1 },
+      ],
+    });
+    expect(readFileSync(report.lcovFile!, 'utf-8')).toBe(toLcov(files));
+
+    const page = readFileSync(join(dir, 'rtl_counter.sv.html'), 'utf-8');
+    expect(page).toContain('<p>Lines: 50.00% (3/6) &middot; Branches: 50.00% (1/2)</p>');
+    expect(page).toContain(
+      '<tr id="L6" class="hit"><td class="num"><a href="#L6">6</a></td><td class="count">10</td>' +
+      "<td>    if (!rst_n) count &lt;= '0;</td><td class=\"note\"></td></tr>"
+    );
+    expect(page).toContain(
+      '<tr id="L9" class="miss"><td class="num"><a href="#L9">9</a></td><td class="count">0</td>' +
+      '<td>  always_comb if (count == 2\'d3 &amp;&amp; en) begin</td><td class="note">branch if: 4; branch else: 0</td></tr>'
+    );
+    expect(page).toContain('<td class="note">toggle count[0]:0-&gt;1: 3; toggle count[0]:1-&gt;0: 2; toggle count[1]:0-&gt;1: 1; toggle count[1]:1-&gt;0: 0</td>');
+    expect(page).not.toContain('Source not found');
+    expect(readFileSync(join(dir, 'tb_tb.sv.html'), 'utf-8')).toContain(`<p class="note">Source not found at ${TB_SV}</p>`);
+
+    const index = readFileSync(report.htmlIndex!, 'utf-8');
+    expect(index).toContain('<tr><th>Toggle</th><td>75%</td></tr>');
+    expect(index).toContain('<tr><td><a href="rtl_counter.sv.html">rtl/counter.sv</a></td><td>50.00% (3/6)</td><td>50.00% (1/2)</td></tr>');
+    expect(index).toContain('<tr><td><a href="tb_tb.sv.html">tb/tb.sv</a></td><td>100.00% (3/3)</td><td>100.00% (1/1)</td></tr>');
+  });
+
+  it('links uncovered points to their line', async () => {
+    const { points, files } = await annotate();
+    const coverage = summarizeCoverage(points);
+
+    await writeCoverageReport(files, coverage, dir, ['html']);
+    expect(coverage.uncoveredPoints!.map(point => point.link)).toEqual([
+      `${join(dir, 'rtl_counter.sv.html')}#L3`,
+      `${join(dir, 'rtl_counter.sv.html')}#L9`,
+      `${join(dir, 'rtl_counter.sv.html')}#L9`,
+      `${join(dir, 'tb_tb.sv.html')}#L20`,
+    ]);
+  });
+
+  it('gives files whose names flatten to the same page their own page', async () => {
+    const { files } = await annotate();
+    const clash = [{ ...files[0], file: 'rtl/counter.sv' }, { ...files[0], file: 'rtl_counter.sv' }];
+
+    const report = await writeCoverageReport(clash, summarizeCoverage([]), dir, ['html']);
+    expect(report.files.map(file => file.htmlFile)).toEqual([
+      join(dir, 'rtl_counter.sv.html'),
+      join(dir, 'rtl_counter.sv_2.html'),
+    ]);
+  });
+
+  it('only writes the formats asked for', async () => {
+    const { points, files } = await annotate();
+
+    const report = await writeCoverageReport(files, summarizeCoverage(points), dir, ['lcov']);
+    expect(report.htmlIndex).toBeUndefined();
+    expect(report.files[0].htmlFile).toBeUndefined();
+    expect(existsSync(join(dir, 'index.html'))).toBe(false);
+    expect(existsSync(join(dir, 'coverage.info'))).toBe(true);
+  });
+});
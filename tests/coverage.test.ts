@@ -0,0 +1,164 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CoverageTool } from '../src/tools/coverage';
+import { ConfigManager } from '../src/utils/config';
+import { CacheManager } from '../src/utils/cache';
+import { parseCoverageFile, writeCoverageFile } from '../src/utils/coverage-parser';
+import { ToolResult } from '../src/types/index';
+
+const COUNTER = join(__dirname, 'fixtures', 'coverage', 'counter.dat');
+
+// Hit counts of the twelve points in counter.dat for two runs. The second run
+// hits three points the first missed and adds one hit to count[1]:0->1
+const RUN_A = [10, 0, 4, 0, 3, 2, 1, 0, 1, 0, 2, 3];
+const RUN_B = [0, 1, 0, 2, 0, 0, 1, 1, 0, 0, 0, 0];
+
+class Coverage extends CoverageTool {
+  run(params: unknown): Promise<ToolResult<any>> {
+    return this.processResult({}, this.schema.parse(params));
+  }
+}
+
+describe('CoverageTool merge', () => {
+  let dir: string;
+  let tool: Coverage;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'coverage-'));
+    const cache = new CacheManager(join(dir, 'cache'));
+    // Let the cache create its directories before a test can remove them
+    await cache.listBuilds();
+    tool = new Coverage(ConfigManager.getInstance(), cache);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  // Write counter.dat with the given hit counts as <dir>/<run>/coverage.dat
+  async function writeRun(run: string, counts: number[]): Promise<string> {
+    const points = await parseCoverageFile(COUNTER);
+    mkdirSync(join(dir, run), { recursive: true });
+    const file = join(dir, run, 'coverage.dat');
+    await writeCoverageFile(file, points.map((point, index) => ({ ...point, count: counts[index] })));
+    return file;
+  }
+
+  it('sums the hit counts of each point across runs', async () => {
+    await writeRun('seed_1', RUN_A);
+    await writeRun('seed_2', RUN_B);
+
+    const result = await tool.run({
+      operation: 'merge',
+      inputs: [join(dir, 'seed_1'), join(dir, 'seed_2')],
+      mergedFile: join(dir, 'merged', 'coverage_merged.dat'),
+    });
+
+    expect(result.error).toBeUndefined();
+    const merged = await parseCoverageFile(join(dir, 'merged', 'coverage_merged.dat'));
+    expect(merged.map(point => point.count)).toEqual([10, 1, 4, 2, 3, 2, 2, 1, 1, 0, 2, 3]);
+    expect(result.data.pointCount).toBe(12);
+    expect(result.data.totals).toEqual({
+      line: { covered: 3, total: 3 },
+      toggle: { covered: 4, total: 4 },
+      functional: { covered: 1, total: 2 },
+      branch: { covered: 3, total: 3 },
+    });
+    expect(result.data.coverage.uncoveredPoints).toEqual([
+      { type: 'functional', file: 'tb/tb.sv', line: 20, description: 'TOP.tb: cover_wrap not covered' },
+    ]);
+  });
+
+  it('credits each point to the first run that covered it', async () => {
+    await writeRun('seed_1', RUN_A);
+    await writeRun('seed_2', RUN_B);
+
+    const result = await tool.run({
+      operation: 'merge',
+      inputs: [join(dir, 'seed_1'), join(dir, 'seed_2', 'coverage.dat')],
+      mergedFile: join(dir, 'coverage_merged.dat'),
+    });
+
+    expect(result.data.runs).toEqual([
+      { name: 'seed_1', coverageFile: join(dir, 'seed_1', 'coverage.dat'), pointCount: 12, covered: 8, firstCovered: 8 },
+      { name: 'seed_2', coverageFile: join(dir, 'seed_2', 'coverage.dat'), pointCount: 12, covered: 4, firstCovered: 3 },
+    ]);
+    expect(result.data.attributionFile).toBe(join(dir, 'coverage_merged.attribution.json'));
+    const attribution = JSON.parse(readFileSync(result.data.attributionFile, 'utf-8'));
+    expect(attribution.map((point: any) => point.firstCoveredBy)).toEqual([
+      'seed_1', 'seed_2', 'seed_1', 'seed_2', 'seed_1', 'seed_1', 'seed_1', 'seed_2', 'seed_1', null, 'seed_1', 'seed_1',
+    ]);
+    expect(attribution[1]).toEqual({
+      type: 'line', file: 'rtl/counter.sv', line: 9, hier: 'TOP.tb.u_counter', comment: 'if', count: 1, firstCoveredBy: 'seed_2',
+    });
+  });
+
+  it('credits a point to the run whose hits take the total to minCount', async () => {
+    await writeRun('seed_1', RUN_A);
+    await writeRun('seed_2', RUN_B);
+
+    const result = await tool.run({
+      operation: 'merge',
+      inputs: [join(dir, 'seed_1'), join(dir, 'seed_2')],
+      mergedFile: join(dir, 'coverage_merged.dat'),
+      minCount: 2,
+    });
+
+    // count[1]:0->1 has one hit in each run, so seed_2 covers it without reaching 2 on its own
+    expect(result.data.runs.map(({ name, covered, firstCovered }: any) => ({ name, covered, firstCovered }))).toEqual([
+      { name: 'seed_1', covered: 6, firstCovered: 6 },
+      { name: 'seed_2', covered: 1, firstCovered: 2 },
+    ]);
+  });
+
+  it('merges the files a pattern matches, oldest first', async () => {
+    const older = await writeRun('b_run', RUN_A);
+    const newer = await writeRun('a_run', RUN_B);
+    utimesSync(older, new Date('2024-01-01'), new Date('2024-01-01'));
+    utimesSync(newer, new Date('2024-01-02'), new Date('2024-01-02'));
+
+    const result = await tool.run({
+      operation: 'merge',
+      pattern: join(dir, '*', 'coverage.dat'),
+      mergedFile: join(dir, 'coverage_merged.dat'),
+    });
+
+    expect(result.data.runs.map((run: any) => [run.name, run.firstCovered])).toEqual([['b_run', 8], ['a_run', 3]]);
+  });
+
+  it('names runs by their path when two share a directory name', async () => {
+    const first = await writeRun(join('nightly', 'smoke'), RUN_A);
+    const second = await writeRun(join('weekly', 'smoke'), RUN_B);
+
+    const result = await tool.run({
+      operation: 'merge',
+      inputs: [first, second],
+      mergedFile: join(dir, 'coverage_merged.dat'),
+    });
+
+    expect(result.data.runs.map((run: any) => run.name)).toEqual([first, second]);
+  });
+
+  it('keeps points only some runs have', async () => {
+    await writeRun('seed_1', RUN_A);
+    const points = await parseCoverageFile(COUNTER);
+    mkdirSync(join(dir, 'partial'));
+    await writeCoverageFile(join(dir, 'partial', 'coverage.dat'), points.slice(0, 2));
+
+    const result = await tool.run({
+      operation: 'merge',
+      inputs: [join(dir, 'partial'), join(dir, 'seed_1')],
+      mergedFile: join(dir, 'coverage_merged.dat'),
+    });
+
+    expect(result.data.pointCount).toBe(12);
+    expect(result.data.runs[0]).toMatchObject({ name: 'partial', pointCount: 2 });
+  });
+
+  it('fails without anything to merge', async () => {
+    const result = await tool.run({ operation: 'merge', pattern: join(dir, '*.dat') });
+
+    expect(result).toEqual({ success: false, error: 'No coverage files to merge; provide inputs or pattern' });
+  });
+});
@@ -0,0 +1,48 @@
+import { fastlzDecompress, lz4Decompress } from '../src/utils/decompress';
+
+// Repeats within and across the text and a long byte run, so both formats
+// use back references, including overlapping ones
+const counting = Buffer.from(Array.from({ length: 40 }, (_, i) => i));
+const DATA = Buffer.concat([
+  Buffer.from('value change value change value change, then something else entirely: value change'),
+  counting,
+  counting,
+  counting,
+]);
+
+// Compressed with liblz4's LZ4_compress_default
+const LZ4 = Buffer.from(
+  '33ZhbHVlIGNoYW5nZSANAAb5ECwgdGhlbiBzb21ldGhpbmcgZWxzZSBlbnRpcmVseTo5AP8ZAAECAwQFBgcICQoLDA0ODxAREhMUFRYXGBkaGxwdHh8gISIjJCUmJygAOFAjJCUmJw==',
+  'base64'
+);
+// Compressed with FastLZ level 1
+const FASTLZ = Buffer.from(
+  'DHZhbHVlIGNoYW5nZSDgEAweLCB0aGVuIHNvbWV0aGluZyBlbHNlIGVudGlyZWx5OuAEOB8AAQIDBAUGBwgJCgsMDQ4PEBESExQVFhcYGRobHB0eHwcgISIjJCUmJ+BHJw==',
+  'base64'
+);
+
+describe('lz4Decompress', () => {
+  it('decodes a raw LZ4 block', () => {
+    expect(lz4Decompress(LZ4, DATA.length)).toEqual(DATA);
+  });
+
+  it('rejects a block that does not fill the expected length', () => {
+    expect(() => lz4Decompress(LZ4, DATA.length + 1)).toThrow('Corrupt LZ4 block');
+  });
+});
+
+describe('fastlzDecompress', () => {
+  it('decodes a level 1 block', () => {
+    expect(fastlzDecompress(FASTLZ, DATA.length)).toEqual(DATA);
+  });
+
+  it('rejects a block that does not fill the expected length', () => {
+    expect(() => fastlzDecompress(FASTLZ, DATA.length + 1)).toThrow('Corrupt FastLZ block');
+  });
+
+  it('rejects unknown levels', () => {
+    const block = Buffer.from(FASTLZ);
+    block[0] |= 3 << 5;
+    expect(() => fastlzDecompress(block, DATA.length)).toThrow('Unsupported FastLZ level 4');
+  });
+});
@@ -0,0 +1,164 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  buildInstanceTree,
+  countInstances,
+  findInstance,
+  instancesByModule,
+  limitDepth,
+  readDesignHierarchy,
+  writeDesignResources,
+} from '../src/utils/design-hierarchy';
+import { Netlist, readNetlist } from '../src/utils/verilator-ast';
+import { DESIGN_FIXTURES, hierarchyOf } from './helpers/design';
+
+describe('buildInstanceTree', () => {
+  let netlist: Netlist;
+
+  beforeAll(async () => {
+    netlist = await readNetlist(join(DESIGN_FIXTURES, 'soc.xml'), 'xml');
+  });
+
+  it('expands the cells below the top into instance paths', () => {
+    const root = buildInstanceTree(netlist, 'soc');
+
+    const paths: string[] = [];
+    const visit = (node: typeof root) => {
+      paths.push(`${node.path} (${node.module})`);
+      node.children.forEach(visit);
+    };
+    visit(root);
+    expect(paths).toEqual([
+      'soc (soc)',
+      'soc.u_leaf (leaf__N8)',
+      'soc.gen_lane[0].u_lane (leaf__N4)',
+      'soc.gen_lane[1].u_lane (leaf__N4)',
+    ]);
+  });
+
+  it('resolves parameters and keeps local ones out', () => {
+    const root = buildInstanceTree(netlist, 'soc');
+
+    expect(root.parameters).toEqual({ W: 8 });
+    expect(root.children.map(child => [child.definition, child.parameters])).toEqual([
+      ['leaf', { N: 8 }],
+      ['leaf', { N: 4 }],
+      ['leaf', { N: 4 }],
+    ]);
+  });
+
+  it('records the connections of each instance', () => {
+    const root = buildInstanceTree(netlist, 'soc');
+
+    expect(root.connections).toEqual([]);
+    expect(root.children[2]).toMatchObject({
+      name: 'u_lane',
+      file: 'soc.sv',
+      line: 17,
+      connections: [
+        { port: 'a', direction: 'input', expression: 'din[7:4]' },
+        { port: 'y', direction: 'output', expression: '' },
+      ],
+    });
+  });
+
+  it('builds the same tree from the JSON AST', async () => {
+    const fromJson = await readNetlist(join(DESIGN_FIXTURES, 'soc.json'), 'json', join(DESIGN_FIXTURES, 'soc.meta.json'));
+
+    expect(buildInstanceTree(fromJson, 'soc')).toEqual(buildInstanceTree(netlist, 'soc'));
+  });
+
+  it('keeps cells of modules outside the netlist as leaves', () => {
+    const blackbox: Netlist = { ...netlist, modules: new Map(netlist.modules) };
+    blackbox.modules.delete('leaf__N8');
+
+    expect(buildInstanceTree(blackbox, 'soc').children[0]).toMatchObject({
+      path: 'soc.u_leaf',
+      module: 'leaf__N8',
+      definition: 'leaf__N8',
+      parameters: {},
+      children: [],
+    });
+  });
+
+  it('rejects a top that is not in the netlist', () => {
+    expect(() => buildInstanceTree(netlist, 'chip')).toThrow('Top module chip is not in the elaborated design (found: soc)');
+  });
+});
+
+describe('instance tree helpers', () => {
+  let root: ReturnType<typeof buildInstanceTree>;
+
+  beforeAll(async () => {
+    root = buildInstanceTree(await readNetlist(join(DESIGN_FIXTURES, 'soc.xml'), 'xml'), 'soc');
+  });
+
+  it('counts instances and depth', () => {
+    expect(countInstances(root)).toEqual({ instances: 4, depth: 1 });
+  });
+
+  it('finds instances with or without the top module name', () => {
+    expect(findInstance(root, 'soc.gen_lane[1].u_lane')?.connections[0].expression).toBe('din[7:4]');
+    expect(findInstance(root, 'gen_lane[1].u_lane')?.path).toBe('soc.gen_lane[1].u_lane');
+    expect(findInstance(root, 'soc')).toBe(root);
+    expect(findInstance(root, 'u_missing')).toBeUndefined();
+  });
+
+  it('cuts the tree at a depth and records what was cut', () => {
+    const cut = limitDepth(root, 0);
+
+    expect(cut.children).toEqual([]);
+    expect(cut.truncated).toBe(3);
+    expect(limitDepth(root, 1)).toEqual(root);
+  });
+
+  it('groups instances by module', () => {
+    expect(instancesByModule(root)).toEqual(new Map([
+      ['soc', ['soc']],
+      ['leaf__N8', ['soc.u_leaf']],
+      ['leaf__N4', ['soc.gen_lane[0].u_lane', 'soc.gen_lane[1].u_lane']],
+    ]));
+  });
+});
+
+describe('writeDesignResources', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'design-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the hierarchy, interfaces and parameters of the modules under the top', async () => {
+    const netlist = await readNetlist(join(DESIGN_FIXTURES, 'soc.xml'), 'xml');
+    const hierarchy = hierarchyOf(netlist, 'soc');
+
+    const files = await writeDesignResources(dir, netlist, hierarchy);
+
+    expect(await readDesignHierarchy(dir)).toEqual(hierarchy);
+    const interfaces = JSON.parse(readFileSync(files.interface, 'utf-8'));
+    expect(interfaces.modules.map((module: any) => [module.module, module.instanceCount, module.ports.length])).toEqual([
+      ['soc', 1, 5],
+      ['leaf__N8', 1, 2],
+      ['leaf__N4', 2, 2],
+    ]);
+    const parameters = JSON.parse(readFileSync(files.parameter, 'utf-8'));
+    expect(parameters.modules[0]).toEqual({
+      module: 'soc',
+      definition: 'soc',
+      parameters: [
+        { name: 'W', value: 8, local: false },
+        { name: 'LANES', value: 2, local: true },
+      ],
+      instances: ['soc'],
+    });
+  });
+
+  it('reads nothing from a directory without a hierarchy', async () => {
+    expect(await readDesignHierarchy(dir)).toBeUndefined();
+  });
+});
@@ -0,0 +1,130 @@
+import { ErrorHandler } from '../src/utils/error-handler';
+
+// verilator --lint-only output for a truncating assignment and a missing module
+const LINT_OUTPUT = `%Warning-WIDTH: rtl/counter.sv:7:24: Operator ASSIGNDLY expects 2 bits on the Assign RHS, but Assign RHS's ADD generates 3 bits.
+                                    : ... note: In instance 'tb.u_counter'
+    7 |     else if (en) count <= count + 3'd1;
+      |                        ^~
+                 ... For warning description see https://verilator.org/warn/WIDTH?v=5.018
+                 ... Use "/* verilator lint_off WIDTH */" and lint_on around source to disable this message.
+%Error: rtl/top.sv:12:3: Cannot find file containing module: 'fifo'
+   12 |   fifo u_fifo (.*);
+      |   ^~~~
+        ... This may be because there's no search path specified with -I<dir>.
+        ... Looked in:
+             fifo
+             fifo.sv
+%Error: Exiting due to 1 error(s)
+`;
+
+describe('ErrorHandler.parseVerilatorOutput', () => {
+  it('parses a warning with its notes, source excerpt and help link', () => {
+    const [warning] = ErrorHandler.parseVerilatorOutput(LINT_OUTPUT);
+
+    expect(warning).toEqual({
+      type: 'warning',
+      code: 'WIDTH',
+      file: 'rtl/counter.sv',
+      line: 7,
+      column: 24,
+      message: "Operator ASSIGNDLY expects 2 bits on the Assign RHS, but Assign RHS's ADD generates 3 bits.",
+      context: [
+        "                                    : ... note: In instance 'tb.u_counter'",
+        "    7 |     else if (en) count <= count + 3'd1;",
+        '      |                        ^~',
+        '                 ... For warning description see https://verilator.org/warn/WIDTH?v=5.018',
+        '                 ... Use "/* verilator lint_off WIDTH */" and lint_on around source to disable this message.',
+      ],
+      notes: [
+        "In instance 'tb.u_counter'",
+        'Use "/* verilator lint_off WIDTH */" and lint_on around source to disable this message.',
+      ],
+      helpUrl: 'https://verilator.org/warn/WIDTH?v=5.018',
+    });
+  });
+
+  it('parses an uncoded error and keeps indented lines that are not notes as context only', () => {
+    const errors = ErrorHandler.parseVerilatorOutput(LINT_OUTPUT);
+
+    // The closing summary is not a diagnostic of its own
+    expect(errors).toHaveLength(2);
+    expect(errors[1]).toMatchObject({
+      type: 'error',
+      code: undefined,
+      file: 'rtl/top.sv',
+      line: 12,
+      column: 3,
+      message: "Cannot find file containing module: 'fifo'",
+      notes: ["This may be because there's no search path specified with -I<dir>.", 'Looked in:'],
+    });
+    expect(errors[1].context).toHaveLength(6);
+    expect(errors[1].context!.slice(-2)).toEqual(['             fifo', '             fifo.sv']);
+    expect(errors[1].helpUrl).toBeUndefined();
+  });
+
+  it('parses runtime messages with a time prefix and no column', () => {
+    const output = [
+      '[350] %Error: tb.sv:30: Assertion failed in TOP.tb: fifo overflow',
+      '%Error: tb.sv:30: Verilog $stop',
+      'Aborting...',
+    ].join('\r\n');
+
+    expect(ErrorHandler.parseVerilatorOutput(output)).toEqual([
+      { type: 'error', code: undefined, file: 'tb.sv', line: 30, column: undefined, message: 'Assertion failed in TOP.tb: fifo overflow' },
+      { type: 'error', code: undefined, file: 'tb.sv', line: 30, column: undefined, message: 'Verilog $stop' },
+    ]);
+  });
+
+  it('ends a diagnostic at the first line that is not indented', () => {
+    const output = [
+      '%Warning-UNUSED: rtl/top.sv:4:9: Signal is not used: \'spare\'',
+      '- V e r i l a t i o n   R e p o r t: Verilator 5.018',
+      '        ... not part of the warning',
+    ].join('\n');
+
+    const [warning] = ErrorHandler.parseVerilatorOutput(output);
+    expect(warning.context).toBeUndefined();
+    expect(warning.notes).toBeUndefined();
+  });
+
+  it('keeps messages without a location whole', () => {
+    expect(ErrorHandler.parseVerilatorOutput('%Fatal: Cannot open --top-module top\n%Info: done')).toEqual([
+      { type: 'error', code: undefined, message: 'Cannot open --top-module top' },
+      { type: 'info', code: undefined, message: 'done' },
+    ]);
+  });
+});
+
+describe('ErrorHandler.extractWarnings', () => {
+  it('lists warnings with their location and code', () => {
+    expect(ErrorHandler.extractWarnings(LINT_OUTPUT)).toEqual([
+      "rtl/counter.sv:7:24: [WIDTH] Operator ASSIGNDLY expects 2 bits on the Assign RHS, but Assign RHS's ADD generates 3 bits.",
+    ]);
+  });
+});
+
+describe('ErrorHandler.formatError', () => {
+  it('formats a diagnostic back into one line', () => {
+    const [warning, error] = ErrorHandler.parseVerilatorOutput(LINT_OUTPUT);
+
+    expect(ErrorHandler.formatError(warning)).toBe(
+      "Warning-WIDTH: rtl/counter.sv:7:24: Operator ASSIGNDLY expects 2 bits on the Assign RHS, but Assign RHS's ADD generates 3 bits."
+    );
+    expect(ErrorHandler.formatError(error)).toBe("Error: rtl/top.sv:12:3: Cannot find file containing module: 'fifo'");
+  });
+});
+
+describe('ErrorHandler.categorizeErrors', () => {
+  it('files coded warnings under lint and missing modules under elaboration', () => {
+    const errors = ErrorHandler.parseVerilatorOutput(
+      LINT_OUTPUT + '%Error: rtl/top.sv:20:1: syntax error, unexpected endmodule\n'
+    );
+
+    const categorized = ErrorHandler.categorizeErrors(errors);
+    expect(categorized.lint.map(e => e.code)).toEqual(['WIDTH']);
+    expect(categorized.elaboration.map(e => e.line)).toEqual([12]);
+    expect(categorized.syntax.map(e => e.line)).toEqual([20]);
+    expect(categorized.other).toEqual([]);
+    expect(errors.map(e => ErrorHandler.isRecoverableError(e))).toEqual([true, false, false]);
+  });
+});
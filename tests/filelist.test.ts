@@ -0,0 +1,64 @@
+import { join } from 'path';
+import { parseFilelists, resolveSources, sourceArguments } from '../src/utils/filelist';
+
+const FIXTURES = join(__dirname, 'fixtures', 'filelists');
+
+describe('parseFilelists', () => {
+  it('keeps the values of Verilator options with the option in nested filelists', async () => {
+    const sources = await parseFilelists(['top.f'], { cwd: FIXTURES, env: {} });
+
+    expect(sources.files).toEqual([
+      join(FIXTURES, 'rtl', 'soc_top.sv'),
+      join(FIXTURES, 'sub', 'core.sv'),
+    ]);
+    expect(sources.flags).toEqual([
+      '--top-module', 'soc_top',
+      '-o', 'Vsoc',
+      '--Mdir', 'obj_soc',
+      '-CFLAGS', '-O2 -g',
+      '-LDFLAGS', '-lm',
+      '--timescale', '1ns/1ps',
+      '-GWIDTH=16',
+      '-j', '4',
+      '--trace',
+      '-top', 'core_top',
+      '--x-assign', 'unique',
+      '-Wno-fatal',
+    ]);
+    expect(sources.includes).toEqual([join(FIXTURES, 'sub', 'include')]);
+    expect(sources.filelists).toEqual([join(FIXTURES, 'top.f'), join(FIXTURES, 'sub', 'core.f')]);
+  });
+
+  it('passes option values through to the Verilator command line in order', async () => {
+    const sources = await parseFilelists(['top.f'], { cwd: FIXTURES, env: {} });
+    const args = sourceArguments(sources);
+
+    expect(args.slice(args.indexOf('--top-module'), args.indexOf('--top-module') + 2)).toEqual(['--top-module', 'soc_top']);
+    expect(args).not.toContain(join(FIXTURES, 'soc_top'));
+  });
+
+  it('reports an option missing its value', async () => {
+    await expect(parseFilelists(['missing-value.f'], { cwd: FIXTURES, env: {} }))
+      .rejects.toThrow('--top-module expects an argument');
+  });
+});
+
+describe('resolveSources', () => {
+  it('adds files and expanded patterns after the filelist sources, once each', async () => {
+    const sources = await resolveSources(['rtl/*.sv', 'sub/core.sv'], ['top.f'], { cwd: FIXTURES, env: {} });
+
+    expect(sources.files).toEqual([
+      join(FIXTURES, 'rtl', 'soc_top.sv'),
+      join(FIXTURES, 'sub', 'core.sv'),
+      join(FIXTURES, 'rtl', 'soc_bus.sv'),
+    ]);
+    expect(sources.flags).toContain('--top-module');
+  });
+
+  it('keeps plain paths even when the file is missing, for Verilator to report', async () => {
+    const sources = await resolveSources(['rtl/missing.sv'], [], { cwd: FIXTURES });
+
+    expect(sources.files).toEqual([join(FIXTURES, 'rtl', 'missing.sv')]);
+    expect(sources.filelists).toEqual([]);
+  });
+});
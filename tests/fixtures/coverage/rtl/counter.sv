@@ -0,0 +1,13 @@
+module counter (
+  input  logic       clk, rst_n, en,
+  output logic [1:0] count
+);
+  always_ff @(posedge clk or negedge rst_n) begin
+    if (!rst_n) count <= '0;
+    else if (en) count <= count + 1'b1;
+  end
+  always_comb if (count == 2'd3 && en) begin
+    // About to wrap
+    $display("wrap");
+  end
+endmodule
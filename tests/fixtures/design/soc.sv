@@ -0,0 +1,20 @@
+// Source of soc.xml and soc.json, the --xml-only and --json-only ASTs the
+// design tests read
+module soc #(parameter W = 8) (
+  input clk, input rst_n, input en,
+  input [W-1:0] din,
+  output [W-1:0] dout
+);
+  localparam LANES = 2;
+  wire [W-1:0] nxt = en ? din : q;
+  reg [W-1:0] q;
+  always_ff @(posedge clk or negedge rst_n) if (!rst_n) q <= 0; else q <= nxt;
+  leaf #(.N(W)) u_leaf (.a(q), .y(dout));
+  for (genvar i = 0; i < LANES; i++) begin : gen_lane
+    leaf #(.N(4)) u_lane (.a(din[i*4 +: 4]), .y());
+  end
+endmodule
+
+module leaf #(parameter N = 1) (input [N-1:0] a, output [N-1:0] y);
+  assign y = ~a;
+endmodule
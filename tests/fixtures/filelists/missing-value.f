@@ -0,0 +1,2 @@
+-f sub/core.f
+--top-module
@@ -0,0 +1,3 @@
+module soc_top;
+  soc_bus u_bus ();
+endmodule
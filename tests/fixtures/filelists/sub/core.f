@@ -0,0 +1,5 @@
+-top core_top
++incdir+include
+--x-assign unique
+-Wno-fatal
+core.sv
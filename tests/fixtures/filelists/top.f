@@ -0,0 +1,12 @@
+// Options whose value is the next argument
+--top-module soc_top
+-o Vsoc
+--Mdir obj_soc
+-CFLAGS "-O2 -g"
+-LDFLAGS -lm
+--timescale 1ns/1ps
+-GWIDTH=16
+-j 4
+--trace
+rtl/soc_top.sv
+-F sub/core.f
@@ -0,0 +1,26 @@
+// Several modules in one file, in the styles testbenches were generated for
+
+module fifo #(
+  parameter int WIDTH = (8 * 2) / 2, // default built from parentheses
+  parameter DEPTH = $clog2(16) + (3),
+  /* derived */ localparam ADDR_W = $clog2(DEPTH * 4)
+) (
+  input  logic clk, // clock
+  input  logic /* active low */ rst_n,
+  input  logic [WIDTH-1:0] din,
+  output logic [ADDR_W-1:0] count
+);
+endmodule
+
+module legacy (clk, d, q);
+  input clk;
+  input [3:0] d;
+  output q;
+  reg [7:0] q;
+endmodule
+
+module bridge (
+  input logic clk,
+  interface bus
+);
+endmodule
@@ -0,0 +1,92 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FstParser } from '../src/utils/fst-parser';
+import { VcdParser } from '../src/utils/vcd-parser';
+import { WaveformReader } from '../src/utils/waveform-reader';
+
+// blocks.fst holds the same dump as blocks.vcd in three value change blocks,
+// starting at 0, 100 and 200, packed with LZ4, FastLZ and zlib in that order.
+// Its hierarchy is LZ4-compressed and u_sub.in is an alias of count.
+const FIXTURES = join(__dirname, 'fixtures', 'waveforms');
+
+async function readAll(reader: WaveformReader, timeRange?: [number, number], maxValues?: number) {
+  const header = await reader.readHeader();
+  const waveform = await reader.readValues(header.signals, timeRange, maxValues);
+  return new Map(waveform.signals.map(signal => [signal.name, signal]));
+}
+
+describe('FstParser', () => {
+  const fst = () => new FstParser(join(FIXTURES, 'blocks.fst'));
+  const vcd = () => new VcdParser(join(FIXTURES, 'blocks.vcd'));
+
+  it('reads the same signals as the VCD', async () => {
+    const fstHeader = await fst().readHeader();
+    const vcdHeader = await vcd().readHeader();
+
+    const summary = (header: typeof fstHeader) =>
+      header.signals.map(({ name, width, varType }) => ({ name, width, varType }));
+    expect(summary(fstHeader)).toEqual(summary(vcdHeader));
+    expect(fstHeader.timescale).toBe('1ns');
+  });
+
+  it('decodes the same value changes as the VCD across blocks', async () => {
+    const fstSignals = await readAll(fst());
+    const vcdSignals = await readAll(vcd());
+
+    expect([...fstSignals.keys()]).toEqual([...vcdSignals.keys()]);
+    for (const [name, signal] of vcdSignals) {
+      expect({ name, values: fstSignals.get(name)!.values }).toEqual({ name, values: signal.values });
+    }
+    // Block frames do not repeat a value at the start of each block
+    expect(fstSignals.get('top.data')!.values.map(value => value.time)).toEqual([0, 205]);
+  });
+
+  it('reads a window that starts inside a later block', async () => {
+    const fstSignals = await readAll(fst(), [130, 260]);
+    const vcdSignals = await readAll(vcd(), [130, 260]);
+
+    for (const [name, signal] of vcdSignals) {
+      expect({ name, values: fstSignals.get(name)!.values }).toEqual({ name, values: signal.values });
+    }
+    expect(fstSignals.get('top.flag')!.values).toEqual([
+      { time: 130, value: 1 },
+      { time: 230, value: 'x', isX: true },
+    ]);
+  });
+
+  it('does not spend the change limit on block frames', async () => {
+    const fstSignals = await readAll(fst(), undefined, 3);
+    const vcdSignals = await readAll(vcd(), undefined, 3);
+
+    expect(fstSignals.get('top.level')).toEqual(vcdSignals.get('top.level'));
+    expect(fstSignals.get('top.level')!.truncated).toBeUndefined();
+  });
+
+  it('only reads the frame of the block decoding starts at', async () => {
+    // Corrupt the frame of the second block; a read from the start does not need it
+    const data = readFileSync(join(FIXTURES, 'blocks.fst'));
+    const header = 1 + Number(data.readBigUInt64BE(1));
+    const second = header + 1 + Number(data.readBigUInt64BE(header + 1));
+    // Past the section length, start and end times and memory size, the frame
+    // header holds three one-byte varints here
+    const frameHead = second + 1 + 32;
+    const frameCompressed = data[frameHead + 1];
+    data.fill(0xff, frameHead + 3, frameHead + 3 + frameCompressed);
+
+    const dir = mkdtempSync(join(tmpdir(), 'fst-'));
+    try {
+      const file = join(dir, 'corrupt.fst');
+      writeFileSync(file, data);
+      const fstSignals = await readAll(new FstParser(file));
+      const vcdSignals = await readAll(vcd());
+
+      for (const [name, signal] of vcdSignals) {
+        expect({ name, values: fstSignals.get(name)!.values }).toEqual({ name, values: signal.values });
+      }
+      await expect(readAll(new FstParser(file), [130, 260])).rejects.toThrow();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,33 @@
+import { join } from 'path';
+import { AstFormat, Netlist, readNetlist } from '../../src/utils/verilator-ast';
+import { DesignHierarchy, buildInstanceTree, countInstances } from '../../src/utils/design-hierarchy';
+import { SignalXref } from '../../src/utils/signal-xref';
+
+export const DESIGN_FIXTURES = join(__dirname, '..', 'fixtures', 'design');
+
+/**
+ * The design record verilator_hierarchy would store for `netlist`.
+ */
+export function hierarchyOf(netlist: Netlist, top: string, astFile = '', format: AstFormat = netlist.format): DesignHierarchy {
+  const root = buildInstanceTree(netlist, top);
+  const { instances, depth } = countInstances(root);
+  return {
+    projectId: 'test',
+    top,
+    generatedAt: 0,
+    source: { format, files: [], astFile },
+    instanceCount: instances,
+    moduleCount: netlist.modules.size,
+    maxDepth: depth,
+    root,
+  };
+}
+
+/**
+ * Cross-reference of the soc design in fixtures/design.
+ */
+export async function loadSoc(): Promise<SignalXref> {
+  const astFile = join(DESIGN_FIXTURES, 'soc.xml');
+  const netlist = await readNetlist(astFile, 'xml');
+  return new SignalXref(netlist, hierarchyOf(netlist, 'soc', astFile));
+}
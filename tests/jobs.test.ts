@@ -0,0 +1,130 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JobManager, JobRecord, processIdentity } from '../src/utils/jobs';
+
+describe('JobManager', () => {
+  let dir: string;
+  let jobs: JobManager;
+
+  // Jobs are written directly: submit would start a real worker
+  const addJob = (id: string, fields: Partial<JobRecord> = {}, files: Record<string, string> = {}) => {
+    const jobDir = join(dir, id);
+    mkdirSync(jobDir, { recursive: true });
+    const job: JobRecord = { id, tool: 'verilator_simulate', params: {}, cwd: dir, status: 'queued', createdAt: 1000, ...fields };
+    writeFileSync(join(jobDir, 'job.json'), JSON.stringify(job));
+    writeFileSync(join(jobDir, 'output.log'), files['output.log'] ?? '');
+    for (const [name, content] of Object.entries(files)) {
+      writeFileSync(join(jobDir, name), content);
+    }
+  };
+  const stored = (id: string): JobRecord => JSON.parse(readFileSync(join(dir, id, 'job.json'), 'utf-8'));
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'jobs-'));
+    jobs = new JobManager(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('get', () => {
+    it('leaves a job with a live worker alone', async () => {
+      addJob('live', { status: 'running', pid: process.pid, workerStart: await processIdentity(process.pid) });
+
+      expect((await jobs.get('live'))!.status).toBe('running');
+      expect(stored('live').status).toBe('running');
+    });
+
+    it('marks a job interrupted when another process has its worker PID', async () => {
+      addJob('reused', { status: 'running', pid: process.pid, workerStart: 'an earlier process' });
+
+      const job = (await jobs.get('reused'))!;
+      expect(job.status).toBe('interrupted');
+      expect(job.error).toBe('Worker exited without recording a result');
+      expect(stored('reused').status).toBe('interrupted');
+    });
+
+    it('takes the worker from worker.json until the worker records itself', async () => {
+      addJob('starting', {}, { 'worker.json': JSON.stringify({ pid: process.pid, workerStart: 'an earlier process' }) });
+
+      expect((await jobs.get('starting'))!.status).toBe('interrupted');
+    });
+
+    it('marks a cancelled job whose worker died as cancelled', async () => {
+      addJob('stopped', { status: 'running', pid: process.pid, workerStart: 'an earlier process' }, { cancel: '' });
+
+      expect((await jobs.get('stopped'))!).toMatchObject({ status: 'cancelled', error: 'Cancelled' });
+    });
+
+    it('does not touch finished jobs or jobs without a worker yet', async () => {
+      addJob('done', { status: 'completed', pid: process.pid, workerStart: 'an earlier process' });
+      addJob('queued');
+
+      expect((await jobs.get('done'))!.status).toBe('completed');
+      expect((await jobs.get('queued'))!.status).toBe('queued');
+      expect(await jobs.get('missing')).toBeUndefined();
+    });
+  });
+
+  it('lists jobs newest first', async () => {
+    addJob('older', { createdAt: 1 });
+    addJob('newer', { createdAt: 2 });
+
+    expect((await jobs.list()).map(job => job.id)).toEqual(['newer', 'older']);
+  });
+
+  describe('readLog', () => {
+    beforeEach(() => {
+      addJob('logged', {}, { 'output.log': 'line 1\nline 2\nline 3\n' });
+    });
+
+    it('reads the whole log by default', async () => {
+      expect(await jobs.readLog('logged')).toEqual({ text: 'line 1\nline 2\nline 3\n', nextOffset: 21, size: 21 });
+    });
+
+    it('continues from an offset', async () => {
+      expect(await jobs.readLog('logged', { offset: 14 })).toEqual({ text: 'line 3\n', nextOffset: 21, size: 21 });
+      expect(await jobs.readLog('logged', { offset: 100 })).toEqual({ text: '', nextOffset: 21, size: 21 });
+    });
+
+    it('reads the last bytes', async () => {
+      expect((await jobs.readLog('logged', { tail: 7 })).text).toBe('line 3\n');
+      expect((await jobs.readLog('logged', { tail: 100 })).text).toBe('line 1\nline 2\nline 3\n');
+    });
+  });
+
+  describe('cancel', () => {
+    it('marks a job without a running worker cancelled', async () => {
+      addJob('queued');
+
+      const job = await jobs.cancel('queued');
+      expect(job).toMatchObject({ status: 'cancelled', error: 'Cancelled', cancelRequested: true });
+      expect(stored('queued')).toMatchObject({ status: 'cancelled', tool: 'verilator_simulate' });
+      expect(existsSync(join(dir, 'queued', 'cancel'))).toBe(true);
+    });
+
+    it('reports a job whose worker died as interrupted rather than cancelled', async () => {
+      addJob('orphan', {}, { 'worker.json': JSON.stringify({ pid: process.pid, workerStart: 'an earlier process' }) });
+
+      expect((await jobs.cancel('orphan')).status).toBe('interrupted');
+      expect(existsSync(join(dir, 'orphan', 'cancel'))).toBe(false);
+    });
+
+    it('returns finished jobs unchanged', async () => {
+      addJob('done', { status: 'completed' });
+
+      expect((await jobs.cancel('done')).status).toBe('completed');
+      expect(existsSync(join(dir, 'done', 'cancel'))).toBe(false);
+    });
+
+    it('rejects unknown jobs', async () => {
+      await expect(jobs.cancel('missing')).rejects.toThrow('Unknown job: missing');
+    });
+  });
+
+  it('rejects ids that are not plain names', async () => {
+    await expect(jobs.readLog('../escape')).rejects.toThrow('Invalid job id: ../escape');
+  });
+});
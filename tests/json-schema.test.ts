@@ -0,0 +1,135 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { AbstractTool } from '../src/tools/base';
+import { createBuiltinTools } from '../src/tools/registry';
+import { ConfigManager } from '../src/utils/config';
+import { CacheManager } from '../src/utils/cache';
+import { zodToJsonSchema } from '../src/utils/json-schema';
+
+describe('tool input schemas', () => {
+  let dir: string;
+  let tools: Map<string, AbstractTool>;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'schemas-'));
+    const cache = new CacheManager(join(dir, 'cache'));
+    // Let the cache create its directories before the tests remove them
+    await cache.listBuilds();
+    tools = new Map(createBuiltinTools(ConfigManager.getInstance(), cache).map(tool => [tool.getName(), tool]));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const inputSchema = (name: string) => tools.get(name)!.getInputSchema();
+
+  it('advertises verilator_compile with defaults, enums and bounds', () => {
+    const schema = inputSchema('verilator_compile');
+
+    // files or filelists is a refinement, so neither is required here
+    expect(schema.type).toBe('object');
+    expect(schema.required).toEqual([]);
+    expect(schema.properties).toMatchObject({
+      files: { type: 'array', items: { type: 'string' }, default: [] },
+      outputDir: { type: 'string', default: 'obj_dir', description: 'Output directory for compiled files' },
+      language: { type: 'string', enum: ['verilog', 'systemverilog'], default: 'systemverilog' },
+      optimization: { type: 'number', minimum: 0, maximum: 3, default: 2 },
+      traceFormat: { type: 'string', enum: ['vcd', 'fst'], default: 'vcd' },
+      threads: { type: 'number', minimum: 1, default: 1 },
+      defines: { type: 'object', additionalProperties: { oneOf: [{ type: 'string' }, { type: 'number' }] } },
+      useCache: { type: 'boolean', default: true },
+    });
+    expect(schema.properties.topModule).toEqual({ type: 'string', description: 'Top module name' });
+  });
+
+  it('advertises verilator_regression tests as objects with their own required fields', () => {
+    const schema = inputSchema('verilator_regression');
+
+    expect(schema.properties.tests).toMatchObject({
+      type: 'array',
+      default: [],
+      items: {
+        type: 'object',
+        required: ['name', 'testbench'],
+        properties: {
+          name: { type: 'string', description: 'Test name' },
+          seeds: { type: 'number', minimum: 1, default: 1 },
+        },
+      },
+    });
+    expect(schema.properties.reportFormats).toEqual({
+      type: 'array',
+      items: { type: 'string', enum: ['junit', 'json'] },
+      default: ['junit', 'json'],
+      description: 'Structured reports to write to the output directory',
+    });
+    expect(schema.properties.workers).toEqual({
+      type: 'number',
+      minimum: 1,
+      description: 'Parallel simulations (default: CPU count)',
+    });
+  });
+
+  it('advertises verilator_waiver with its required fields', () => {
+    const schema = inputSchema('verilator_waiver');
+
+    expect(schema.required).toEqual(['operation', 'waiverFile']);
+    expect(schema.properties.operation).toMatchObject({ type: 'string', enum: ['add', 'list', 'stale'] });
+    expect(schema.properties.diagnostics.items).toMatchObject({
+      type: 'object',
+      required: ['code'],
+      properties: { message: { type: 'string', default: '' } },
+    });
+    expect(schema.properties.removeStale).toMatchObject({ type: 'boolean', default: false });
+  });
+
+  it('advertises a time range as a two-number array', () => {
+    expect(inputSchema('verilator_waveform').properties.timeRange).toEqual({
+      type: 'array',
+      items: { type: 'number' },
+      minItems: 2,
+      maxItems: 2,
+      description: 'Start and end time of the query window',
+    });
+  });
+
+  it('advertises an object schema with known properties for every tool', () => {
+    for (const [name, tool] of tools) {
+      const schema = tool.getInputSchema();
+      expect({ name, type: schema.type }).toEqual({ name, type: 'object' });
+      for (const key of schema.required) {
+        expect({ name, key, known: key in schema.properties }).toEqual({ name, key, known: true });
+      }
+    }
+  });
+});
+
+describe('zodToJsonSchema', () => {
+  it('converts the remaining Zod types', () => {
+    expect(zodToJsonSchema(z.object({
+      count: z.number().int().positive(),
+      mode: z.literal('fast'),
+      pair: z.tuple([z.string(), z.number()]),
+      name: z.string().min(1).max(8).nullable(),
+      extra: z.unknown(),
+    }).describe('Options'))).toEqual({
+      type: 'object',
+      description: 'Options',
+      required: ['count', 'mode', 'pair', 'name'],
+      properties: {
+        count: { type: 'integer', exclusiveMinimum: 0 },
+        mode: { type: 'string', const: 'fast' },
+        pair: { type: 'array', items: [{ type: 'string' }, { type: 'number' }], minItems: 2, maxItems: 2 },
+        name: { type: 'string', minLength: 1, maxLength: 8 },
+        extra: {},
+      },
+    });
+  });
+
+  it('refuses types it has no JSON Schema for', () => {
+    expect(() => zodToJsonSchema(z.object({ when: z.date() }))).toThrow('Cannot convert ZodDate to JSON Schema');
+  });
+});
@@ -0,0 +1,41 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NaturalLanguageTool } from '../src/tools/natural-language';
+import { ConfigManager } from '../src/utils/config';
+import { CacheManager } from '../src/utils/cache';
+import { RunRegistry } from '../src/utils/run-registry';
+import { NaturalLanguageResponse, ToolResult } from '../src/types/index';
+
+class NaturalLanguage extends NaturalLanguageTool {
+  run(params: unknown): Promise<ToolResult<NaturalLanguageResponse>> {
+    return this.processResult({}, this.schema.parse(params));
+  }
+}
+
+describe('NaturalLanguageTool confidence', () => {
+  let dir: string;
+  let tool: NaturalLanguage;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'natural-language-'));
+    const cache = new CacheManager(join(dir, 'cache'));
+    // Let the cache create its directories before a test can remove them
+    await cache.listBuilds();
+    tool = new NaturalLanguage(ConfigManager.getInstance(), cache, new RunRegistry(join(dir, 'resources')));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('is the probability the classifier gives the category', async () => {
+    const clear = (await tool.run({ query: 'show the coverage percentage metrics and uncovered code blocks' })).data!;
+    const vague = (await tool.run({ query: 'coverage of the design' })).data!;
+
+    expect([clear.category, vague.category]).toEqual(['coverage', 'coverage']);
+    expect(clear.confidence).toBeGreaterThan(vague.confidence);
+    expect(clear.confidence).toBeLessThanOrEqual(1);
+    expect(vague.confidence).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,207 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ProgressReporter, ProgressTracker, ProgressUpdate, SimulationTracker, VerilatorBuildTracker } from '../src/utils/progress';
+
+// Trimmed from what Verilator 5.018 writes for a traced design built with --output-split
+const CLASSES_MK = `# Verilated -*- Makefile -*-
+# DESCRIPTION: Verilator output: Make include file with class lists
+
+### Switches...
+# Coverage output mode?  0/1 (from --coverage)
+VM_COVERAGE = 0
+# Parallel builds?  0/1 (from --output-split)
+VM_PARALLEL_BUILDS = 1
+
+### Object file lists...
+# Generated module classes, fast-path, compile with highest optimization
+VM_CLASSES_FAST += \\
+\tVtop \\
+\tVtop___024root__DepSet_h6b36e4d8__0 \\
+
+# Generated module classes, non-fast-path, compile with low/medium optimization
+VM_CLASSES_SLOW += \\
+\tVtop___024root__Slow \\
+\tVtop___024root__DepSet_h6b36e4d8__0__Slow \\
+
+# Generated support classes, fast-path, compile with highest optimization
+VM_SUPPORT_FAST += \\
+\tVtop__Trace__0 \\
+
+# Generated support classes, non-fast-path, compile with low/medium optimization
+VM_SUPPORT_SLOW += \\
+\tVtop__Syms \\
+\tVtop__Trace__0__Slow \\
+
+# Global classes, need linked once per executable, fast-path, compile with highest optimization
+VM_GLOBAL_FAST += \\
+\tverilated \\
+\tverilated_vcd_c \\
+
+# Global classes, need linked once per executable, non-fast-path, compile with low/medium optimization
+VM_GLOBAL_SLOW += \\
+
+`;
+const TOP_MK = `# Verilated -*- Makefile -*-
+### User .cpp files (from .cpp's on Verilator command line)
+VM_USER_CLASSES = \\
+\tsim_main \\
+
+include Vtop_classes.mk
+`;
+
+const compile = (object: string) =>
+  `ccache g++  -I.  -MMD -I/usr/share/verilator/include -Os -c -o ${object}.o ${object}.cpp`;
+
+describe('VerilatorBuildTracker', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'progress-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('counts compiles against the objects the generated makefiles list', () => {
+    writeFileSync(join(dir, 'Vtop_classes.mk'), CLASSES_MK);
+    writeFileSync(join(dir, 'Vtop.mk'), TOP_MK);
+    const tracker = new VerilatorBuildTracker(dir);
+
+    tracker.update('- V e r i l a t i o n   R e p o r t: Verilator 5.018');
+    expect([tracker.phase, tracker.percent]).toEqual(['parsing', undefined]);
+
+    // Ten objects: seven generated, two from the runtime and sim_main
+    const percents: (number | undefined)[] = [];
+    for (const object of ['sim_main', 'verilated', 'verilated_vcd_c', 'Vtop', 'Vtop__Syms']) {
+      tracker.update(compile(object));
+      tracker.update(`make[1]: '${object}.o' is up to date.`);
+      percents.push(tracker.percent);
+    }
+    expect(tracker.phase).toBe('C++ build');
+    expect(percents).toEqual([10, 20, 30, 40, 50]);
+
+    tracker.update('g++    sim_main.o verilated.o Vtop__ALL.a   -pthread -lpthread -latomic   -o Vtop');
+    expect([tracker.phase, tracker.percent]).toEqual(['linking', undefined]);
+  });
+
+  it('stops short of 100 when make compiles more than it listed', () => {
+    writeFileSync(join(dir, 'Vtop_classes.mk'), CLASSES_MK);
+    const tracker = new VerilatorBuildTracker(dir);
+
+    for (let n = 0; n < 12; n++) {
+      tracker.update(compile(`obj${n}`));
+    }
+    expect(tracker.percent).toBe(99);
+  });
+
+  it('leaves the percent out when the classes are compiled as aggregates', () => {
+    writeFileSync(join(dir, 'Vtop_classes.mk'), CLASSES_MK.replace('VM_PARALLEL_BUILDS = 1', 'VM_PARALLEL_BUILDS = 0'));
+    const tracker = new VerilatorBuildTracker(dir);
+
+    tracker.update(compile('Vtop__ALL'));
+    expect([tracker.phase, tracker.percent]).toEqual(['C++ build', undefined]);
+  });
+
+  it('leaves the percent out without the generated makefiles', () => {
+    const tracker = new VerilatorBuildTracker(join(dir, 'missing'));
+
+    tracker.update(compile('Vtop'));
+    expect([tracker.phase, tracker.percent]).toEqual(['C++ build', undefined]);
+  });
+});
+
+describe('SimulationTracker', () => {
+  it('compares the times the testbench prints with the end time', () => {
+    const tracker = new SimulationTracker(2000);
+    const percents = ['[500] reset released', 'Checked 16 words @1000', 'time=1500 ns: done', 'no time here', '[2500] overrun'].map(line => {
+      tracker.update(line);
+      return tracker.percent;
+    });
+
+    expect(tracker.phase).toBe('simulating');
+    expect(percents).toEqual([25, 50, 75, 75, 100]);
+  });
+
+  it('reports no percent without an end time', () => {
+    const tracker = new SimulationTracker();
+
+    tracker.update('[500] reset released');
+    expect(tracker.percent).toBeUndefined();
+  });
+});
+
+describe('ProgressReporter', () => {
+  let now: jest.SpyInstance;
+  let updates: ProgressUpdate[];
+  let tracker: ProgressTracker;
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(10_000);
+    updates = [];
+    // Lines starting with "phase " switch to that phase
+    tracker = {
+      phase: 'first',
+      update(line: string) {
+        if (line.startsWith('phase ')) this.phase = line.slice(6);
+      },
+    };
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  it('reports at most once per interval', () => {
+    const reporter = new ProgressReporter(update => updates.push(update), tracker, 1000);
+
+    reporter.start();
+    reporter.write('stdout', 'a\n');
+    now.mockReturnValue(10_999);
+    reporter.write('stdout', 'b\n');
+    now.mockReturnValue(11_000);
+    reporter.write('stdout', 'c\n');
+    reporter.write('stdout', 'd\n');
+
+    expect(updates).toEqual([
+      { phase: 'first', percent: undefined, log: [] },
+      { phase: 'first', percent: undefined, log: ['a', 'b', 'c'] },
+    ]);
+  });
+
+  it('reports a phase change straight away', () => {
+    const reporter = new ProgressReporter(update => updates.push(update), tracker, 1000);
+
+    reporter.start();
+    reporter.write('stdout', 'phase second\n');
+    reporter.write('stdout', 'more\n');
+
+    expect(updates.map(update => update.phase)).toEqual(['first', 'second']);
+  });
+
+  it('keeps the last lines of both streams, joining lines split across chunks', () => {
+    const reporter = new ProgressReporter(update => updates.push(update), tracker, 0, 3);
+
+    reporter.write('stdout', 'one\r\ntw');
+    reporter.write('stderr', 'warn');
+    reporter.write('stdout', 'o\n\n  \nthree\n');
+    reporter.write('stderr', 'ing\nfour\n');
+
+    expect(updates.map(update => update.log)).toEqual([
+      ['one'],
+      ['one'],
+      ['one', 'two', 'three'],
+      ['three', 'warning', 'four'],
+    ]);
+  });
+
+  it('carries on when the listener throws', () => {
+    const reporter = new ProgressReporter(() => { throw new Error('client gone'); }, tracker, 0);
+
+    expect(() => {
+      reporter.start();
+      reporter.write('stdout', 'line\n');
+    }).not.toThrow();
+  });
+});
@@ -0,0 +1,93 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AbstractTool } from '../src/tools/base';
+import { PluginContext, ToolRegistry } from '../src/tools/registry';
+import { ConfigManager } from '../src/utils/config';
+import { CacheManager } from '../src/utils/cache';
+import { logger } from '../src/utils/logger';
+
+// A plugin tool built by shape rather than from AbstractTool
+const tool = (name: string) => `{
+  getName: () => '${name}',
+  getDescription: () => 'A plugin tool',
+  getInputSchema: () => ({ type: 'object' }),
+  getMetadata: () => ({ name: '${name}', version: '1.0.0', category: 'plugin' }),
+  execute: async () => ({ success: true }),
+}`;
+
+describe('ToolRegistry.loadPlugins', () => {
+  let dir: string;
+  let plugins: string;
+  let cache: CacheManager;
+  let context: PluginContext;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'plugins-'));
+    plugins = join(dir, 'plugins');
+    mkdirSync(plugins);
+    cache = new CacheManager(join(dir, 'cache'));
+    // Let the cache create its directories before a test can remove them
+    await cache.listBuilds();
+    context = { AbstractTool, configManager: ConfigManager.getInstance(), cacheManager: cache, logger };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const load = async (files: Record<string, string>) => {
+    for (const [name, source] of Object.entries(files)) {
+      writeFileSync(join(plugins, name), source);
+    }
+    const registry = new ToolRegistry();
+    const results = await registry.loadPlugins([plugins, join(dir, 'missing')], context);
+    return { registry, results };
+  };
+
+  it('registers the tools of named and default createTools exports', async () => {
+    const { registry, results } = await load({
+      'a.cjs': `exports.createTools = () => [${tool('plugin_a')}, ${tool('plugin_b')}];`,
+      // As TypeScript compiles `export default`
+      'b.cjs': `Object.defineProperty(exports, '__esModule', { value: true });
+        exports.default = { createTools: async () => (${tool('plugin_c')}) };`,
+    });
+
+    expect(results).toEqual([
+      { path: join(plugins, 'a.cjs'), tools: ['plugin_a', 'plugin_b'] },
+      { path: join(plugins, 'b.cjs'), tools: ['plugin_c'] },
+    ]);
+    expect(registry.metadata().map(({ name, origin }) => [name, origin])).toEqual([
+      ['plugin_a', join(plugins, 'a.cjs')],
+      ['plugin_b', join(plugins, 'a.cjs')],
+      ['plugin_c', join(plugins, 'b.cjs')],
+    ]);
+  });
+
+  it('reports plugins that do not export tools and carries on', async () => {
+    const { registry, results } = await load({
+      'a.cjs': 'exports.tools = [];',
+      'b.cjs': `exports.createTools = () => [{ getName: () => 'half', execute: 'no' }];`,
+      'c.cjs': 'exports.createTools = () => null;',
+      'd.cjs': `exports.createTools = () => (${tool('plugin_d')});`,
+      'notes.txt': 'not a plugin',
+    });
+
+    expect(results).toEqual([
+      { path: join(plugins, 'a.cjs'), tools: [], error: 'Plugin does not export createTools(context)' },
+      { path: join(plugins, 'b.cjs'), tools: [], error: 'createTools returned an object that is not a tool (missing execute, getMetadata, getDescription, getInputSchema)' },
+      { path: join(plugins, 'c.cjs'), tools: [], error: 'createTools returned an object that is not a tool (missing execute, getMetadata, getDescription, getInputSchema, getName)' },
+      { path: join(plugins, 'd.cjs'), tools: ['plugin_d'] },
+    ]);
+    expect(registry.list().map(t => t.getName())).toEqual(['plugin_d']);
+  });
+
+  it('refuses a tool name that is already registered', async () => {
+    const { results } = await load({
+      'a.cjs': `exports.createTools = () => (${tool('plugin_a')});`,
+      'b.cjs': `exports.createTools = () => (${tool('plugin_a')});`,
+    });
+
+    expect(results[1].error).toBe(`Tool name 'plugin_a' from ${join(plugins, 'b.cjs')} is already registered by ${join(plugins, 'a.cjs')}`);
+  });
+});
@@ -0,0 +1,172 @@
+import { chmodSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RegressionTool } from '../src/tools/regression';
+import { CompileTool } from '../src/tools/compile';
+import { ConfigManager } from '../src/utils/config';
+import { CacheManager } from '../src/utils/cache';
+import { RunRegistry } from '../src/utils/run-registry';
+import { RegressionResult, ToolResult } from '../src/types/index';
+
+// A simulator that reports its seed, fails on +fail_seed and counts the runs
+// going on at once in running/ before it finishes
+const SIMULATOR = `#!/bin/sh
+for arg; do
+  case "$arg" in
+    +verilator+seed+*) seed="\${arg#+verilator+seed+}" ;;
+    +fail_seed=*) fail="\${arg#+fail_seed=}" ;;
+  esac
+done
+running="$(dirname "$0")/running"
+mkdir -p "$running"
+touch "$running/$$"
+echo "seed $seed, $(ls "$running" | wc -l) running"
+sleep 0.4
+rm -f "$running/$$"
+if [ "$seed" = "$fail" ]; then
+  echo "%Error: tb.sv:12: check failed for seed $seed"
+  exit 1
+fi
+echo "- tb.sv:20: Verilog $finish"
+`;
+
+class Regression extends RegressionTool {
+  run(params: unknown): Promise<ToolResult<RegressionResult>> {
+    return this.processResult({}, this.schema.parse(params));
+  }
+}
+
+describe('RegressionTool', () => {
+  let dir: string;
+  let simulator: string;
+  let tool: Regression;
+  let compile: jest.SpyInstance;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'regression-'));
+    simulator = join(dir, 'Vtb');
+    writeFileSync(simulator, SIMULATOR);
+    chmodSync(simulator, 0o755);
+
+    const cache = new CacheManager(join(dir, 'cache'));
+    // Let the cache create its directories before a test can remove them
+    await cache.listBuilds();
+    tool = new Regression(ConfigManager.getInstance(), cache, new RunRegistry(join(dir, 'resources')));
+    // Builds fail for testbenches named broken*, and otherwise all run the fake simulator
+    compile = jest.spyOn(CompileTool.prototype, 'execute').mockImplementation(async (params: any) =>
+      params.files.some((file: string) => file.includes('broken'))
+        ? { success: false, error: 'syntax error', executionTime: 0 }
+        : { success: true, data: { success: true, outputDir: params.outputDir, executable: simulator } as any, executionTime: 0 }
+    );
+  });
+
+  afterEach(() => {
+    compile.mockRestore();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const params = (overrides: Record<string, unknown>) => ({
+    design: ['dut.sv'],
+    outputDir: join(dir, 'out'),
+    workers: 2,
+    ...overrides,
+  });
+
+  it('runs every seed of every test and adds up the results', async () => {
+    const result = await tool.run(params({
+      baseSeed: 5,
+      tests: [
+        { name: 'smoke', testbench: 'tb.sv', topModule: 'tb', seeds: 3, plusargs: { fail_seed: 6 } },
+        { name: 'long', testbench: 'tb.sv', topModule: 'tb', seeds: 1 },
+      ],
+    }));
+
+    expect(result.success).toBe(true);
+    const regression = result.data!;
+    expect(regression.runs.map(run => [run.test, run.seed, run.status])).toEqual([
+      ['smoke', 5, 'passed'],
+      ['smoke', 6, 'failed'],
+      ['smoke', 7, 'passed'],
+      ['long', 5, 'passed'],
+    ]);
+    expect(regression).toMatchObject({ passed: false, total: 4, passedCount: 3, failedCount: 1 });
+    expect(regression.runs[1].errors).toEqual(['check failed for seed 6']);
+    expect(regression.runs[1].exitCode).toBe(1);
+    expect(readFileSync(join(dir, 'out', 'tests', 'smoke', 'seed_7', 'simulation.log'), 'utf-8')).toMatch(/^seed 7,/);
+    expect(readdirSync(join(dir, 'out')).sort()).toEqual(['results.json', 'results.xml', 'tests']);
+  });
+
+  it('compiles once per build configuration', async () => {
+    const result = await tool.run(params({
+      tests: [
+        { name: 'a', testbench: 'tb.sv', topModule: 'tb', plusargs: { mode: 1 } },
+        { name: 'b', testbench: 'tb.sv', topModule: 'tb', plusargs: { mode: 2 } },
+        { name: 'c', testbench: 'tb.sv', topModule: 'tb', defines: { FAST: 1 } },
+      ],
+    }));
+
+    expect(compile).toHaveBeenCalledTimes(2);
+    expect(result.data!.builds.map(build => [build.id, build.tests, build.defines])).toEqual([
+      ['build_1', ['a', 'b'], undefined],
+      ['build_2', ['c'], { FAST: 1 }],
+    ]);
+  });
+
+  it('runs no more simulations at once than there are workers', async () => {
+    const result = await tool.run(params({
+      tests: [{ name: 'smoke', testbench: 'tb.sv', topModule: 'tb', seeds: 4 }],
+    }));
+
+    const running = result.data!.runs.map(run => Number(/(\d+) running/.exec(readFileSync(run.logFile!, 'utf-8'))![1]));
+    expect(Math.max(...running)).toBe(2);
+  });
+
+  it('reports the runs of a build that failed without running them', async () => {
+    const result = await tool.run(params({
+      tests: [
+        { name: 'good', testbench: 'tb.sv', topModule: 'tb' },
+        { name: 'bad', testbench: 'broken_tb.sv', topModule: 'tb', seeds: 2 },
+      ],
+    }));
+
+    expect(result.data!.runs.map(run => [run.test, run.status, run.errors])).toEqual([
+      ['good', 'passed', []],
+      ['bad', 'build_failed', ['syntax error']],
+      ['bad', 'build_failed', ['syntax error']],
+    ]);
+    expect(result.warnings).toEqual(['Build build_2 failed: syntax error']);
+  });
+
+  it('keeps the run directories of test names that are not plain names inside the output directory', async () => {
+    const result = await tool.run(params({
+      tests: [{ name: '../uart/tx fast', testbench: 'tb.sv', topModule: 'tb' }],
+    }));
+
+    expect(result.data!.runs[0].outputDir).toBe(join(dir, 'out', 'tests', '___uart_tx_fast', 'seed_1'));
+    expect(result.data!.runs[0].status).toBe('passed');
+  });
+
+  it('rejects test names that share a directory', async () => {
+    const result = await tool.run(params({
+      tests: [
+        { name: 'uart.tx', testbench: 'tb.sv', topModule: 'tb' },
+        { name: 'uart_tx', testbench: 'tb.sv', topModule: 'tb' },
+      ],
+    }));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Tests uart.tx and uart_tx would share the output directory tests/uart_tx');
+    expect(compile).not.toHaveBeenCalled();
+  });
+
+  it('rejects duplicate test names', async () => {
+    const result = await tool.run(params({
+      tests: [
+        { name: 'smoke', testbench: 'tb.sv', topModule: 'tb' },
+        { name: 'smoke', testbench: 'other_tb.sv', topModule: 'tb' },
+      ],
+    }));
+
+    expect(result.error).toBe('Duplicate test name: smoke');
+  });
+});
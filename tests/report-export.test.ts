@@ -0,0 +1,141 @@
+import Ajv from 'ajv';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  regressionToJUnit,
+  regressionToJson,
+  simulationToJUnit,
+  simulationToJson,
+} from '../src/utils/report-export';
+import { RegressionResult, SimulationResult } from '../src/types/index';
+
+const SCHEMAS = join(__dirname, '..', 'schemas');
+const TIMESTAMP = new Date('2024-03-01T12:00:00Z');
+
+const simulation: SimulationResult = {
+  passed: false,
+  simulationTime: 1500,
+  realTime: 2250,
+  logFile: '/work/sim/simulation.log',
+  waveformFile: '/work/sim/simulation.fst',
+  errors: ['%Error: tb.sv:40: fifo <overflow> & "underflow"', 'second error'],
+  warnings: ['%Warning-WIDTH: dut.sv:3: width'],
+  assertions: [
+    { name: 'p_valid', file: 'dut.sv', line: 12, type: 'assert', passed: true, failures: 0 },
+    { name: 'p_ready', file: 'dut.sv', line: 18, type: 'assert', passed: false, failures: 2, time: 340, message: "ready dropped while 'valid'" },
+    { name: 'c_full', file: 'dut.sv', line: 25, type: 'cover', passed: false, failures: 0 },
+  ],
+  statistics: { cycleCount: 750, eventCount: 1200, memoryUsage: 4096, cpuTime: 2.1 },
+};
+
+const regression: RegressionResult = {
+  passed: false,
+  outputDir: '/work/regression',
+  total: 4,
+  passedCount: 1,
+  failedCount: 3,
+  duration: 8000,
+  builds: [
+    { id: 'build_1', testbench: '/work/tb.sv', topModule: 'tb', outputDir: '/work/regression/builds/build_1', success: true, tests: ['smoke'] },
+    { id: 'build_2', testbench: '/work/tb2.sv', topModule: 'tb2', defines: { FAST: 1 }, outputDir: '/work/regression/builds/build_2', success: false, tests: ['fast'], error: 'syntax error' },
+  ],
+  runs: [
+    { test: 'smoke', seed: 1, build: 'build_1', status: 'passed', exitCode: 0, duration: 1000, outputDir: '/work/regression/tests/smoke/seed_1', logFile: '/work/regression/tests/smoke/seed_1/simulation.log', errors: [], assertions: [] },
+    { test: 'smoke', seed: 2, build: 'build_1', status: 'failed', exitCode: 1, duration: 1200, outputDir: '/work/regression/tests/smoke/seed_2', errors: ['data mismatch'] },
+    { test: 'smoke', seed: 3, build: 'build_1', status: 'timeout', duration: 60000, outputDir: '/work/regression/tests/smoke/seed_3', errors: ['Command timed out'] },
+    { test: 'fast', seed: 1, build: 'build_2', status: 'build_failed', duration: 0, outputDir: '/work/regression/tests/fast/seed_1', errors: ['syntax error'] },
+  ],
+};
+
+describe('JSON reports', () => {
+  const ajv = new Ajv({ allErrors: true });
+  for (const name of ['simulation-report', 'regression-report']) {
+    ajv.addSchema(JSON.parse(readFileSync(join(SCHEMAS, `${name}.schema.json`), 'utf-8')));
+  }
+  const validate = (schema: string, report: unknown) => {
+    const valid = ajv.validate(schema, report);
+    return valid ? [] : ajv.errors!.map(error => `${error.dataPath} ${error.message}`);
+  };
+
+  it('writes simulation reports that match their schema', () => {
+    const report = JSON.parse(simulationToJson(simulation, 'fifo_test', TIMESTAMP));
+
+    expect(validate('verilator-mcp/simulation-report', report)).toEqual([]);
+    expect(report).toMatchObject({
+      schema: 'verilator-mcp/simulation-report',
+      generatedAt: '2024-03-01T12:00:00.000Z',
+      artifacts: { log: '/work/sim/simulation.log', waveform: '/work/sim/simulation.fst' },
+      assertions: { total: 3, failed: 2 },
+    });
+  });
+
+  it('writes a minimal simulation report that matches the schema', () => {
+    const report = JSON.parse(simulationToJson({ passed: true, simulationTime: 0, realTime: 5 }, 'empty', TIMESTAMP));
+
+    expect(validate('verilator-mcp/simulation-report', report)).toEqual([]);
+  });
+
+  it('writes regression reports that match their schema', () => {
+    const report = JSON.parse(regressionToJson(regression, TIMESTAMP));
+
+    expect(validate('verilator-mcp/regression-report', report)).toEqual([]);
+    expect(report.runs.map((run: any) => run.status)).toEqual(['passed', 'failed', 'timeout', 'build_failed']);
+  });
+
+  it('has schemas that reject reports of another layout', () => {
+    const report = JSON.parse(regressionToJson(regression, TIMESTAMP));
+    delete report.runs[0].seed;
+    report.runs[1].status = 'flaky';
+    report.schemaVersion = '2.0.0';
+
+    expect(validate('verilator-mcp/regression-report', report)).toEqual([
+      ".schemaVersion should match pattern \"^1\\.\\d+\\.\\d+$\"",
+      ".runs[0] should have required property 'seed'",
+      '.runs[1].status should be equal to one of the allowed values',
+    ]);
+  });
+});
+
+describe('JUnit reports', () => {
+  it('reports a simulation and each of its assertions as test cases', () => {
+    const xml = simulationToJUnit(simulation, 'fifo_test', TIMESTAMP);
+
+    expect(xml).toBe(`<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="verilator-mcp" tests="4" failures="2" errors="0" skipped="1" time="2.250">
+  <testsuite name="fifo_test" tests="4" failures="2" errors="0" skipped="1" time="2.250" timestamp="2024-03-01T12:00:00.000Z">
+    <testcase name="fifo_test" classname="simulation" time="2.250">
+      <failure message="%Error: tb.sv:40: fifo &lt;overflow&gt; &amp; &quot;underflow&quot;" type="SimulationFailure">%Error: tb.sv:40: fifo &lt;overflow&gt; &amp; &quot;underflow&quot;
+second error</failure>
+      <system-out>Log: /work/sim/simulation.log</system-out>
+    </testcase>
+    <testcase name="assert p_valid" classname="fifo_test.assertions" time="0.000">
+    </testcase>
+    <testcase name="assert p_ready" classname="fifo_test.assertions" time="0.000">
+      <failure message="ready dropped while &apos;valid&apos;" type="AssertionFailure">dut.sv:18: 2 failure(s) at time 340</failure>
+    </testcase>
+    <testcase name="cover c_full" classname="fifo_test.assertions" time="0.000">
+      <skipped message="Cover property c_full was not hit"/>
+    </testcase>
+  </testsuite>
+</testsuites>
+`);
+  });
+
+  it('drops characters XML cannot hold', () => {
+    const xml = simulationToJUnit({ passed: false, simulationTime: 0, realTime: 0, errors: ['bad\x00byte\x1b[31m'] }, 'ctrl', TIMESTAMP);
+
+    expect(xml).toContain('<failure message="badbyte[31m" type="SimulationFailure">badbyte[31m</failure>');
+  });
+
+  it('reports failed runs as failures and runs without a verdict as errors', () => {
+    const xml = regressionToJUnit(regression, TIMESTAMP);
+
+    expect(xml).toContain('<testsuites name="verilator-mcp" tests="4" failures="1" errors="2" skipped="0" time="62.200">');
+    expect(xml).toContain('<testsuite name="smoke" tests="3" failures="1" errors="1" skipped="0" time="62.200"');
+    expect(xml).toContain('<testsuite name="fast" tests="1" failures="0" errors="1" skipped="0" time="0.000"');
+    expect(xml).toContain('<failure message="data mismatch" type="failed">data mismatch</failure>');
+    expect(xml).toContain('<error message="Command timed out" type="timeout">Command timed out</error>');
+    expect(xml).toContain('<error message="syntax error" type="build_failed">syntax error</error>');
+    expect(xml).toContain('<testcase name="seed_2" classname="smoke" time="1.200">');
+  });
+});
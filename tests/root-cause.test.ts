@@ -0,0 +1,133 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { analyzeRootCause } from '../src/utils/root-cause';
+import { SignalXref } from '../src/utils/signal-xref';
+import { VcdParser } from '../src/utils/vcd-parser';
+import { DESIGN_FIXTURES, loadSoc } from './helpers/design';
+
+// reset.vcd: en rises at 32 and q loads din at the edge at 35; at 85 q goes X
+// with rst_n and nxt known. unreset.vcd: q and nxt are X from the start.
+const vcd = (name: string) => new VcdParser(join(DESIGN_FIXTURES, name));
+
+describe('analyzeRootCause', () => {
+  let xref: SignalXref;
+
+  beforeAll(async () => {
+    xref = await loadSoc();
+  });
+
+  it('follows a changed value back to the primary input that set it', async () => {
+    const analysis = await analyzeRootCause(xref, vcd('reset.vcd'), 'soc.dout', { time: 50, depth: 10 });
+
+    expect(analysis.scope).toBe('TOP.soc');
+    expect(analysis.value).toBe(0b11111010);
+    expect(analysis.chain.map(step => [step.signal, step.since])).toEqual([
+      ['soc.dout', 35],
+      ['soc.u_leaf.y', 35],
+      ['soc.u_leaf.a', 35],
+      ['soc.q', 35],
+      ['soc.nxt', 32],
+      ['soc.en', 32],
+    ]);
+    // The register is followed to what its inputs were before the clock edge
+    expect(analysis.chain[3].inputs).toEqual(expect.arrayContaining([
+      expect.objectContaining({ signal: 'soc.nxt', value: 5, since: 32 }),
+      expect.objectContaining({ signal: 'soc.rst_n', value: 1, since: 5 }),
+    ]));
+    expect(analysis.conclusion).toEqual({
+      reason: 'primary-input',
+      signal: 'soc.en',
+      message: 'soc.en is a primary input; the testbench sets it to 1 at 32ns',
+    });
+    expect(analysis.truncated).toEqual([]);
+  });
+
+  it('stops at the depth limit and names the next signal', async () => {
+    const analysis = await analyzeRootCause(xref, vcd('reset.vcd'), 'soc.dout', { time: 50, depth: 2 });
+
+    expect(analysis.chain.map(step => step.signal)).toEqual(['soc.dout', 'soc.u_leaf.y']);
+    expect(analysis.conclusion).toEqual({
+      reason: 'depth-limit',
+      signal: 'soc.u_leaf.y',
+      message: 'Stopped after 2 steps; soc.u_leaf.a is next',
+    });
+  });
+
+  it('blames the logic that turns known inputs into X', async () => {
+    const analysis = await analyzeRootCause(xref, vcd('reset.vcd'), 'soc.dout', { time: 100, depth: 10 });
+
+    expect(analysis.isX).toBe(true);
+    expect(analysis.chain.map(step => step.signal)).toEqual(['soc.dout', 'soc.u_leaf.y', 'soc.u_leaf.a', 'soc.q']);
+    expect(analysis.conclusion.reason).toBe('x-origin');
+    expect(analysis.conclusion.signal).toBe('soc.q');
+    expect(analysis.conclusion.message).toContain('becomes X at 85ns with no X input');
+    expect(analysis.earliestX[0]).toEqual({ signal: 'soc.dout', since: 85 });
+  });
+
+  it('reports X that feeds back through a register that is never reset', async () => {
+    const analysis = await analyzeRootCause(xref, vcd('unreset.vcd'), 'soc.dout', { time: 50, depth: 10 });
+
+    expect(analysis.chain.map(step => step.signal)).toEqual([
+      'soc.dout', 'soc.u_leaf.y', 'soc.u_leaf.a', 'soc.q', 'soc.nxt',
+    ]);
+    expect(analysis.conclusion.reason).toBe('x-loop');
+    expect(analysis.conclusion.signal).toBe('soc.nxt');
+    expect(analysis.conclusion.message).toContain('from soc.q');
+  });
+
+  describe('with an input that changes too often to read', () => {
+    let dir: string;
+    let file: string;
+
+    // en toggles on every tick for the last 20000 before it settles at 1000000,
+    // more than one read keeps even over the shortest window read
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), 'root-cause-'));
+      file = join(dir, 'glitch.vcd');
+      const lines = [
+        '$timescale 1ns $end',
+        '$scope module TOP $end',
+        '$scope module soc $end',
+        '$var wire 8 # din [7:0] $end',
+        '$var wire 1 $ en $end',
+        '$var wire 8 & q [7:0] $end',
+        "$var wire 8 ' nxt [7:0] $end",
+        '$upscope $end',
+        '$upscope $end',
+        '$enddefinitions $end',
+        '#0',
+        'b101 #',
+        '0$',
+        'b0 &',
+        "b0 '",
+      ];
+      for (let time = 980000; time < 1000000; time++) {
+        lines.push(`#${time}`, `${time % 2}$`);
+      }
+      lines.push('#1000000', '1$', "b101 '");
+      writeFileSync(file, lines.join('\n') + '\n');
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('does not conclude from a history that ends before it is needed', async () => {
+      const analysis = await analyzeRootCause(xref, new VcdParser(file), 'soc.nxt', { time: 1000010, depth: 10 });
+
+      expect(analysis.truncated).toEqual(['soc.en']);
+      expect(analysis.chain).toHaveLength(1);
+      expect(analysis.chain[0].inputs).toContainEqual({ signal: 'soc.en', waveformSignal: 'TOP.soc.en', truncated: true });
+      expect(analysis.conclusion.reason).toBe('history-truncated');
+      expect(analysis.conclusion.message).toMatch(
+        /^The inputs of soc\.nxt at 1000000ns are not all known; these change too often to read that far: soc\.en \(until 98\d{4}ns\)$/
+      );
+    });
+
+    it('refuses a start signal whose history ends before the queried time', async () => {
+      await expect(analyzeRootCause(xref, new VcdParser(file), 'soc.en', { time: 1000010, depth: 10 }))
+        .rejects.toThrow(/^soc\.en changes too often to read up to 1000010; its history ends at 98\d{4}ns$/);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { projectIdFor } from '../src/utils/run-registry';
+
+describe('projectIdFor', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'projects-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('tells apart directories with the same name', async () => {
+    mkdirSync(join(dir, 'a', 'rtl'), { recursive: true });
+    mkdirSync(join(dir, 'b', 'rtl'), { recursive: true });
+
+    const a = await projectIdFor(join(dir, 'a', 'rtl'));
+    const b = await projectIdFor(join(dir, 'b', 'rtl'));
+    expect(a).toMatch(/^rtl-[0-9a-f]{8}$/);
+    expect(b).toMatch(/^rtl-[0-9a-f]{8}$/);
+    expect(a).not.toBe(b);
+    expect(await projectIdFor(join(dir, 'a', 'rtl'))).toBe(a);
+  });
+
+  it('uses the directory holding verilator-mcp.json', async () => {
+    mkdirSync(join(dir, 'chip', 'tb', 'tests'), { recursive: true });
+    writeFileSync(join(dir, 'chip', 'verilator-mcp.json'), '{}');
+
+    expect(await projectIdFor(join(dir, 'chip', 'tb', 'tests'))).toBe(await projectIdFor(join(dir, 'chip')));
+    expect(await projectIdFor(join(dir, 'chip', 'tb'))).toMatch(/^chip-/);
+  });
+
+  it('makes a directory name safe to use as a directory', async () => {
+    mkdirSync(join(dir, '.my design'));
+
+    expect(await projectIdFor(join(dir, '.my design'))).toMatch(/^my_design-[0-9a-f]{8}$/);
+  });
+});
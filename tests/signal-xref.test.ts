@@ -0,0 +1,175 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readNetlist } from '../src/utils/verilator-ast';
+import { SignalXref } from '../src/utils/signal-xref';
+import { hierarchyOf, loadSoc } from './helpers/design';
+
+describe('SignalXref', () => {
+  let xref: SignalXref;
+
+  beforeAll(async () => {
+    xref = await loadSoc();
+  });
+
+  describe('find', () => {
+    it('takes full paths, paths without the top module and bare names', () => {
+      expect(xref.find('soc.u_leaf.a')).toEqual(['soc.u_leaf.a']);
+      expect(xref.find('u_leaf.a')).toEqual(['soc.u_leaf.a']);
+      expect(xref.find('nxt')).toEqual(['soc.nxt']);
+    });
+
+    it('lists every instance that declares a name, shallowest first', () => {
+      expect(xref.find('y')).toEqual(['soc.u_leaf.y', 'soc.gen_lane[0].u_lane.y', 'soc.gen_lane[1].u_lane.y']);
+      expect(xref.find('u_lane.a')).toEqual(['soc.gen_lane[0].u_lane.a', 'soc.gen_lane[1].u_lane.a']);
+      expect(xref.find('missing')).toEqual([]);
+    });
+  });
+
+  it('finds modules by elaborated or source name', () => {
+    expect(xref.getModule('leaf__N4')?.name).toBe('leaf__N4');
+    expect(xref.getModule('leaf')?.definition).toBe('leaf');
+    expect(xref.getModule('missing')).toBeUndefined();
+  });
+
+  it('lists the signals declared in an instance', () => {
+    expect(xref.signalsOf('soc.gen_lane[1].u_lane').sort()).toEqual([
+      'soc.gen_lane[1].u_lane.N',
+      'soc.gen_lane[1].u_lane.a',
+      'soc.gen_lane[1].u_lane.y',
+    ]);
+    expect(xref.signalsOf('soc.missing')).toEqual([]);
+  });
+
+  describe('describe', () => {
+    it('reports the declaration', () => {
+      expect(xref.describe('soc.gen_lane[0].u_lane.a')!.declaration).toEqual({
+        path: 'soc.gen_lane[0].u_lane.a',
+        name: 'a',
+        instance: 'soc.gen_lane[0].u_lane',
+        module: 'leaf__N4',
+        kind: 'input',
+        width: 4,
+        dataType: 'logic',
+        file: 'soc.sv',
+        line: 17,
+      });
+      expect(xref.describe('soc.LANES')!.declaration.kind).toBe('parameter');
+      expect(xref.describe('soc.missing')).toBeUndefined();
+    });
+
+    it('reports clocked drivers with their data inputs and clocks', () => {
+      const report = xref.describe('soc.q')!;
+      expect(report.drivers).toEqual([{
+        kind: 'always',
+        instance: 'soc',
+        file: 'soc.sv',
+        line: 10,
+        statements: ["q <= 8'h0", 'q <= nxt'],
+        signals: ['soc.rst_n', 'soc.nxt'],
+        clocks: ['soc.clk', 'soc.rst_n'],
+      }]);
+      expect(report.loads.map(load => [load.kind, load.signals])).toEqual([
+        ['assign', ['soc.nxt']],
+        ['instance', ['soc.u_leaf.a']],
+      ]);
+    });
+
+    it('continues ports into the connection in the parent', () => {
+      const input = xref.describe('soc.gen_lane[1].u_lane.a')!;
+      expect(input.drivers).toEqual([{
+        kind: 'port',
+        instance: 'soc',
+        port: 'a',
+        file: 'soc.sv',
+        line: 13,
+        statements: ['.a(din[7:4])'],
+        signals: ['soc.din'],
+      }]);
+
+      const output = xref.describe('soc.u_leaf.y')!;
+      expect(output.drivers.map(driver => [driver.kind, driver.statements])).toEqual([['assign', ['assign y = ~a']]]);
+      expect(output.loads.map(load => [load.kind, load.signals])).toEqual([['port', ['soc.dout']]]);
+    });
+
+    it('does not give the top-level ports a driver', () => {
+      expect(xref.describe('soc.din')!.drivers).toEqual([]);
+      expect(xref.describe('soc.dout')!.drivers.map(driver => [driver.kind, driver.instance, driver.port])).toEqual([
+        ['instance', 'soc.u_leaf', 'y'],
+      ]);
+    });
+  });
+
+  describe('cone', () => {
+    it('walks the fan-in up to the depth', () => {
+      const cone = xref.cone('soc.dout', 'fanin', 3);
+      expect(cone.signals.map(entry => [entry.signal, entry.level, entry.via])).toEqual([
+        ['soc.u_leaf.y', 1, 'instance'],
+        ['soc.u_leaf.a', 2, 'assign'],
+        ['soc.q', 3, 'port'],
+      ]);
+      expect(cone.endpoints).toEqual([]);
+      expect(cone.truncated).toBeUndefined();
+    });
+
+    it('stops at signals nothing drives, without following clocks', () => {
+      const cone = xref.cone('soc.nxt', 'fanin', 10);
+      expect(cone.signals.map(entry => entry.signal)).toEqual(['soc.en', 'soc.din', 'soc.q', 'soc.rst_n']);
+      expect(cone.endpoints).toEqual(['soc.en', 'soc.din', 'soc.rst_n']);
+    });
+
+    it('walks the fan-out through instances and back out of their ports', () => {
+      const cone = xref.cone('soc.din', 'fanout', 5);
+      expect(cone.signals.map(entry => [entry.signal, entry.level])).toEqual([
+        ['soc.nxt', 1],
+        ['soc.gen_lane[0].u_lane.a', 1],
+        ['soc.gen_lane[1].u_lane.a', 1],
+        ['soc.q', 2],
+        ['soc.gen_lane[0].u_lane.y', 2],
+        ['soc.gen_lane[1].u_lane.y', 2],
+        ['soc.u_leaf.a', 3],
+        ['soc.u_leaf.y', 4],
+        ['soc.dout', 5],
+      ]);
+      expect(cone.endpoints).toEqual(['soc.gen_lane[0].u_lane.y', 'soc.gen_lane[1].u_lane.y']);
+    });
+
+    it('rejects unknown signals', () => {
+      expect(() => xref.cone('soc.missing', 'fanin', 1)).toThrow('Unknown signal: soc.missing');
+    });
+
+    it('stops at 500 signals', async () => {
+      // One assignment reading 600 signals
+      const inputs = Array.from({ length: 600 }, (_, i) => i);
+      const xml = [
+        '<verilator_xml>',
+        '<files><file id="d" filename="wide.sv"/></files>',
+        '<netlist>',
+        '<module loc="d,1,8,1,12" name="wide" origName="wide">',
+        '<var loc="d,2,8,2,9" name="y" dtype_id="1" vartype="logic"/>',
+        ...inputs.map(i => `<var loc="d,3,8,3,9" name="i${i}" dtype_id="1" dir="input" vartype="logic"/>`),
+        '<contassign loc="d,4,10,4,11" dtype_id="1"><concat loc="d,4,12,4,13" dtype_id="1">',
+        ...inputs.map(i => `<varref loc="d,4,14,4,15" name="i${i}" dtype_id="1"/>`),
+        '</concat><varref loc="d,4,8,4,9" name="y" dtype_id="1"/></contassign>',
+        '</module>',
+        '<typetable><basicdtype id="1" name="logic"/></typetable>',
+        '</netlist>',
+        '</verilator_xml>',
+      ].join('\n');
+      const dir = mkdtempSync(join(tmpdir(), 'signal-xref-'));
+      try {
+        const file = join(dir, 'wide.xml');
+        writeFileSync(file, xml);
+        const netlist = await readNetlist(file, 'xml');
+        const wide = new SignalXref(netlist, hierarchyOf(netlist, 'wide', file));
+
+        const cone = wide.cone('wide.y', 'fanin', 1);
+        expect(cone.signals).toHaveLength(500);
+        expect(cone.signals[499].signal).toBe('wide.i499');
+        expect(cone.truncated).toBe(true);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
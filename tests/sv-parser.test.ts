@@ -0,0 +1,137 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseSystemVerilog, parseSystemVerilogFile } from '../src/utils/sv-parser';
+import { elaborateModule } from '../src/utils/sv-elaborate';
+import { TestbenchGeneratorTool } from '../src/tools/testbench-generator';
+import { ConfigManager } from '../src/utils/config';
+import { CacheManager } from '../src/utils/cache';
+import { TestbenchResult, ToolResult } from '../src/types/index';
+
+const MODULES = join(__dirname, 'fixtures', 'sv', 'modules.sv');
+
+describe('parseSystemVerilogFile', () => {
+  it('finds every module in a file', async () => {
+    const parsed = await parseSystemVerilogFile(MODULES);
+
+    expect(parsed.modules.map(m => [m.name, m.ansi])).toEqual([
+      ['fifo', true],
+      ['legacy', false],
+      ['bridge', true],
+    ]);
+  });
+
+  it('reads ANSI ports around line and block comments', async () => {
+    const fifo = elaborateModule(await parseSystemVerilogFile(MODULES), 'fifo');
+
+    expect(fifo.ports.map(p => [p.name, p.direction, p.width])).toEqual([
+      ['clk', 'input', 1],
+      ['rst_n', 'input', 1],
+      ['din', 'input', 8],
+      ['count', 'output', 5],
+    ]);
+    expect(fifo.warnings).toEqual([]);
+  });
+
+  it('evaluates parameter defaults containing parentheses and $clog2', async () => {
+    const fifo = elaborateModule(await parseSystemVerilogFile(MODULES), 'fifo');
+
+    expect(fifo.parameters).toEqual([
+      { name: 'WIDTH', type: 'integer', defaultValue: '(8 * 2) / 2', value: 8 },
+      { name: 'DEPTH', type: 'integer', defaultValue: '$clog2(16) + (3)', value: 7 },
+      { name: 'ADDR_W', type: 'integer', defaultValue: '$clog2(DEPTH * 4)', value: 5, local: true },
+    ]);
+  });
+
+  it('computes [WIDTH-1:0] under a parameter override', async () => {
+    const fifo = elaborateModule(await parseSystemVerilogFile(MODULES), 'fifo', { WIDTH: 16, DEPTH: 30 });
+
+    expect(fifo.ports.find(p => p.name === 'din')).toMatchObject({ width: 16, range: '[WIDTH-1:0]' });
+    // ADDR_W follows the overridden DEPTH
+    expect(fifo.ports.find(p => p.name === 'count')).toMatchObject({ width: 7 });
+  });
+
+  it('rejects overriding a localparam', async () => {
+    const parsed = await parseSystemVerilogFile(MODULES);
+
+    expect(() => elaborateModule(parsed, 'fifo', { ADDR_W: 3 }))
+      .toThrow('Parameter ADDR_W of fifo is a localparam and cannot be overridden');
+  });
+
+  it('takes non-ANSI port types from the body declarations', async () => {
+    const legacy = elaborateModule(await parseSystemVerilogFile(MODULES), 'legacy');
+
+    expect(legacy.ports).toEqual([
+      { name: 'clk', direction: 'input', width: 1, type: 'wire' },
+      { name: 'd', direction: 'input', width: 4, type: 'wire', range: '[3:0]' },
+      { name: 'q', direction: 'output', width: 8, type: 'reg', range: '[7:0]' },
+    ]);
+  });
+
+  it('names the modules it found when the requested one is missing', async () => {
+    const parsed = await parseSystemVerilogFile(MODULES);
+
+    expect(() => elaborateModule(parsed, 'fifo_top')).toThrow('(found: fifo, legacy, bridge)');
+  });
+
+  it('applies defines to `ifdef blocks', () => {
+    const source = [
+      'module m (',
+      '`ifdef WIDE',
+      '  input logic [31:0] a',
+      '`else',
+      '  input logic [7:0] a',
+      '`endif',
+      ');',
+      'endmodule',
+    ].join('\n');
+
+    expect(elaborateModule(parseSystemVerilog(source, 'm.sv', { defines: { WIDE: 1 } }), 'm').ports[0].width).toBe(32);
+    expect(elaborateModule(parseSystemVerilog(source, 'm.sv'), 'm').ports[0].width).toBe(8);
+  });
+});
+
+class TestbenchGenerator extends TestbenchGeneratorTool {
+  generate(params: unknown): Promise<ToolResult<TestbenchResult>> {
+    return this.processResult({}, this.schema.parse(params));
+  }
+}
+
+describe('TestbenchGeneratorTool', () => {
+  let dir: string;
+  const tool = new TestbenchGenerator(ConfigManager.getInstance(), new CacheManager());
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'verilator-mcp-tb-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('refuses a generic interface port without an interface to instantiate', async () => {
+    const outputFile = join(dir, 'tb_bridge.sv');
+    const result = await tool.generate({ targetFile: MODULES, targetModule: 'bridge', outputFile });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      'Port bus of bridge is a generic interface port; name the interface to instantiate for it in interfaces, e.g. {"bus": "<interface>"}'
+    );
+    await expect(fs.access(outputFile)).rejects.toThrow();
+  });
+
+  it('instantiates the interface named for a generic interface port', async () => {
+    const outputFile = join(dir, 'tb_bridge.sv');
+    const result = await tool.generate({
+      targetFile: MODULES,
+      targetModule: 'bridge',
+      outputFile,
+      interfaces: { bus: 'simple_bus' },
+    });
+
+    expect(result.success).toBe(true);
+    const testbench = await fs.readFile(outputFile, 'utf-8');
+    expect(testbench).toContain('  simple_bus bus();\n');
+    expect(testbench).toContain('    .bus(bus)');
+  });
+});
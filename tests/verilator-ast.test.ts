@@ -0,0 +1,134 @@
+import { join } from 'path';
+import { Netlist, decodeConstant, expressionText, parseXml, readNetlist } from '../src/utils/verilator-ast';
+import { DESIGN_FIXTURES } from './helpers/design';
+
+// soc.xml and soc.json are the same elaboration of soc.sv, as --xml-only and
+// --json-only write it
+const xml = () => readNetlist(join(DESIGN_FIXTURES, 'soc.xml'), 'xml');
+const json = () => readNetlist(join(DESIGN_FIXTURES, 'soc.json'), 'json', join(DESIGN_FIXTURES, 'soc.meta.json'));
+
+// The parts of a netlist that do not depend on the format
+function summary(netlist: Netlist) {
+  return [...netlist.modules.values()].map(({ node, ...module }) => module);
+}
+
+describe('readNetlist', () => {
+  it('reads modules, ports and parameters from XML', async () => {
+    const netlist = await xml();
+
+    expect([...netlist.modules.keys()]).toEqual(['soc', 'leaf__N8', 'leaf__N4']);
+    expect(netlist.tops).toEqual(['soc']);
+
+    const soc = netlist.modules.get('soc')!;
+    expect(soc).toMatchObject({ definition: 'soc', kind: 'module', file: 'soc.sv', line: 2 });
+    expect(soc.ports).toEqual([
+      { name: 'clk', direction: 'input', width: 1, dataType: 'logic' },
+      { name: 'rst_n', direction: 'input', width: 1, dataType: 'logic' },
+      { name: 'en', direction: 'input', width: 1, dataType: 'logic' },
+      { name: 'din', direction: 'input', width: 8, dataType: 'logic' },
+      { name: 'dout', direction: 'output', width: 8, dataType: 'logic' },
+    ]);
+    expect(soc.parameters).toEqual([
+      { name: 'W', value: 8, local: false },
+      { name: 'LANES', value: 2, local: true },
+    ]);
+    expect(netlist.modules.get('leaf__N4')).toMatchObject({
+      definition: 'leaf',
+      ports: [
+        { name: 'a', direction: 'input', width: 4 },
+        { name: 'y', direction: 'output', width: 4 },
+      ],
+      parameters: [{ name: 'N', value: 4, local: false }],
+    });
+  });
+
+  it('reads cells with their generate scope and connections', async () => {
+    const soc = (await xml()).modules.get('soc')!;
+
+    expect(soc.cells).toEqual([
+      {
+        name: 'u_leaf',
+        module: 'leaf__N8',
+        scope: [],
+        connections: [
+          { port: 'a', direction: 'input', expression: 'q' },
+          { port: 'y', direction: 'output', expression: 'dout' },
+        ],
+        file: 'soc.sv',
+        line: 11,
+      },
+      ...[0, 1].map(lane => ({
+        name: 'u_lane',
+        module: 'leaf__N4',
+        scope: [`gen_lane[${lane}]`],
+        connections: [
+          { port: 'a', direction: 'input', expression: `din[${lane * 4 + 3}:${lane * 4}]` },
+          { port: 'y', direction: 'output', expression: '' },
+        ],
+        file: 'soc.sv',
+        line: 13,
+      })),
+    ]);
+  });
+
+  it('reads the same netlist from JSON', async () => {
+    const fromJson = await json();
+
+    expect(fromJson.format).toBe('json');
+    expect(fromJson.tops).toEqual(['soc']);
+    expect(summary(fromJson)).toEqual(summary(await xml()));
+  });
+
+  it('takes JSON pin directions from the module port they connect to', async () => {
+    const soc = (await json()).modules.get('soc')!;
+    const pins = soc.node.children
+      .filter(child => child.type === 'instance')
+      .flatMap(cell => cell.children.filter(child => child.type === 'port'));
+
+    expect(pins.map(pin => pin.attrs.direction)).toEqual([undefined, undefined]);
+    expect(soc.cells[0].connections.map(connection => connection.direction)).toEqual(['input', 'output']);
+  });
+
+  it('reports JSON locations without file names when there is no meta file', async () => {
+    const netlist = await readNetlist(join(DESIGN_FIXTURES, 'soc.json'), 'json');
+
+    expect(netlist.modules.get('soc')).toMatchObject({ file: undefined, line: 2 });
+  });
+});
+
+describe('parseXml', () => {
+  it('reads elements and decoded attributes, skipping comments and declarations', () => {
+    const root = parseXml(
+      '<?xml version="1.0" ?>\n<!-- <skipped/> -->\n<a x="1 &lt; 2" y=\'&#65;&#x42;\'><b/><c>text</c></a>'
+    );
+
+    expect(root.children).toHaveLength(1);
+    const [a] = root.children;
+    expect(a.attrs).toEqual({ x: '1 < 2', y: 'AB' });
+    expect(a.children.map(child => child.type)).toEqual(['b', 'c']);
+  });
+});
+
+describe('decodeConstant', () => {
+  it.each([
+    ["32'sh8", 8],
+    ["8'hff", 255],
+    ["4'sb1111", -1],
+    ["12'o7_7", 63],
+    ["64'hffffffffffffffff", "64'hffffffffffffffff"],
+    ['"fifo"', 'fifo'],
+    ['1.5e3', 1500],
+    ['WIDTH', 'WIDTH'],
+  ])('decodes %s', (text, value) => {
+    expect(decodeConstant(text)).toEqual(value);
+  });
+});
+
+describe('expressionText', () => {
+  it('renders the expressions of the fixture', async () => {
+    const netlist = await xml();
+    const assign = netlist.modules.get('soc')!.node.children.find(child => child.type === 'contassign')!;
+
+    expect(expressionText(assign.children[0])).toBe('en ? din : q');
+  });
+});
@@ -0,0 +1,167 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ParsedError } from '../src/utils/error-handler';
+import { appendWaivers, parseWaivers, readWaiverFile, removeWaivers, waiverMatches } from '../src/utils/waiver-file';
+
+const VLT = `\`verilator_config
+
+// Carry bit intentionally dropped
+lint_off -rule WIDTH -file "*/rtl/alu.sv" -lines 42
+lint_off -rule UNUSED -file "*/rtl/regs.sv" -lines 10-14 // trailing note
+lint_on -rule CASEINCOMPLETE
+// Not a reason: the next line is not a waiver
+
+lint_off -rule PINMISSING -match "Cell has missing pin: \\"scan_*\\""
+`;
+
+const warning = (overrides: Partial<ParsedError>): ParsedError => ({
+  type: 'warning',
+  code: 'WIDTH',
+  file: '/work/project/rtl/alu.sv',
+  line: 42,
+  message: 'Operator ADD expects 8 bits',
+  ...overrides,
+});
+
+describe('parseWaivers', () => {
+  it('reads each lint_off entry with its location in the file', () => {
+    const waivers = parseWaivers(VLT);
+
+    expect(waivers).toEqual([
+      {
+        rule: 'WIDTH',
+        file: '*/rtl/alu.sv',
+        firstLine: 42,
+        lastLine: 42,
+        reason: 'Carry bit intentionally dropped',
+        lineNumber: 4,
+        text: 'lint_off -rule WIDTH -file "*/rtl/alu.sv" -lines 42',
+      },
+      {
+        rule: 'UNUSED',
+        file: '*/rtl/regs.sv',
+        firstLine: 10,
+        lastLine: 14,
+        reason: undefined,
+        lineNumber: 5,
+        text: 'lint_off -rule UNUSED -file "*/rtl/regs.sv" -lines 10-14 // trailing note',
+      },
+      {
+        rule: 'PINMISSING',
+        match: 'Cell has missing pin: "scan_*"',
+        reason: undefined,
+        lineNumber: 9,
+        text: 'lint_off -rule PINMISSING -match "Cell has missing pin: \\"scan_*\\""',
+      },
+    ]);
+  });
+
+  it('reads the older -msg spelling of -rule', () => {
+    expect(parseWaivers('lint_off -msg UNUSED')).toMatchObject([{ rule: 'UNUSED', lineNumber: 1 }]);
+  });
+
+  it('reads CRLF files', () => {
+    expect(parseWaivers(VLT.replace(/\n/g, '\r\n')).map(w => w.lineNumber)).toEqual([4, 5, 9]);
+  });
+});
+
+describe('waiverMatches', () => {
+  const [width, unused, pin] = parseWaivers(VLT);
+
+  it('matches a warning with the rule at the file and line', () => {
+    expect(waiverMatches(width, warning({}))).toBe(true);
+    expect(waiverMatches(width, warning({ code: 'WIDTHEXPAND' }))).toBe(false);
+    expect(waiverMatches(width, warning({ line: 43 }))).toBe(false);
+    expect(waiverMatches(width, warning({ file: '/work/project/rtl/sub/alu.sv' }))).toBe(false);
+    expect(waiverMatches(width, warning({ file: undefined }))).toBe(false);
+  });
+
+  it('matches every line of a range', () => {
+    const matched = [9, 10, 14, 15].map(line => waiverMatches(unused, warning({ code: 'UNUSED', file: 'x/rtl/regs.sv', line })));
+    expect(matched).toEqual([false, true, true, false]);
+  });
+
+  it('matches the message against -match', () => {
+    expect(waiverMatches(pin, warning({ code: 'PINMISSING', message: 'Cell has missing pin: "scan_en"' }))).toBe(true);
+    expect(waiverMatches(pin, warning({ code: 'PINMISSING', message: 'Cell has missing pin: "clk"' }))).toBe(false);
+  });
+
+  it('matches any rule for *, and never errors', () => {
+    const any = { rule: '*', file: '*/rtl/alu.sv' };
+    expect(waiverMatches(any, warning({ code: 'UNUSED', line: 1 }))).toBe(true);
+    expect(waiverMatches(any, warning({ type: 'error' }))).toBe(false);
+  });
+});
+
+describe('waiver files', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'waiver-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates the file with the config header', async () => {
+    const file = join(dir, 'waivers.vlt');
+
+    const added = await appendWaivers(file, [
+      { rule: 'WIDTH', file: '*/rtl/alu.sv', firstLine: 42, reason: 'Carry bit intentionally dropped' },
+      { rule: 'UNUSED', file: '*/rtl/regs.sv', firstLine: 10, lastLine: 14, match: 'Signal "spare*"' },
+      { rule: 'DECLFILENAME' },
+    ]);
+
+    expect(added).toEqual([
+      'lint_off -rule WIDTH -file "*/rtl/alu.sv" -lines 42',
+      'lint_off -rule UNUSED -file "*/rtl/regs.sv" -lines 10-14 -match "Signal \\"spare*\\""',
+      'lint_off -rule DECLFILENAME',
+    ]);
+    expect(readFileSync(file, 'utf-8')).toBe(`\`verilator_config
+
+// Carry bit intentionally dropped
+${added.join('\n')}
+`);
+    // What was written reads back as the same waivers
+    expect((await readWaiverFile(file)).map(w => [w.rule, w.match, w.reason])).toEqual([
+      ['WIDTH', undefined, 'Carry bit intentionally dropped'],
+      ['UNUSED', 'Signal "spare*"', undefined],
+      ['DECLFILENAME', undefined, undefined],
+    ]);
+  });
+
+  it('skips entries the file already has, even with a trailing comment', async () => {
+    const file = join(dir, 'waivers.vlt');
+    writeFileSync(file, VLT.trimEnd());
+
+    const added = await appendWaivers(file, [
+      { rule: 'UNUSED', file: '*/rtl/regs.sv', firstLine: 10, lastLine: 14 },
+      { rule: 'WIDTH', file: '*/rtl/alu.sv', firstLine: 42 },
+      { rule: 'WIDTH', file: '*/rtl/alu.sv', firstLine: 50 },
+      { rule: 'WIDTH', file: '*/rtl/alu.sv', firstLine: 50 },
+    ]);
+
+    expect(added).toEqual(['lint_off -rule WIDTH -file "*/rtl/alu.sv" -lines 50']);
+    expect(readFileSync(file, 'utf-8')).toBe(VLT + added[0] + '\n');
+  });
+
+  it('writes nothing when every entry is present', async () => {
+    const file = join(dir, 'waivers.vlt');
+
+    expect(await appendWaivers(file, [])).toEqual([]);
+    expect(await readWaiverFile(file)).toEqual([]);
+  });
+
+  it('removes waivers with their reason comment', async () => {
+    const file = join(dir, 'waivers.vlt');
+    writeFileSync(file, VLT);
+
+    const [width, , pin] = parseWaivers(VLT);
+    await removeWaivers(file, [width, pin]);
+
+    expect((await readWaiverFile(file)).map(w => w.rule)).toEqual(['UNUSED']);
+    expect(readFileSync(file, 'utf-8')).not.toContain('Carry bit');
+  });
+});
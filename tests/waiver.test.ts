@@ -0,0 +1,171 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WaiverTool } from '../src/tools/waiver';
+import { LintTool } from '../src/tools/lint';
+import { ConfigManager } from '../src/utils/config';
+import { CacheManager } from '../src/utils/cache';
+import { parseWaivers, waiverMatches } from '../src/utils/waiver-file';
+import { ToolResult } from '../src/types/index';
+
+class Waivers extends WaiverTool {
+  run(params: unknown): Promise<ToolResult<any>> {
+    return this.processResult({}, this.schema.parse(params));
+  }
+}
+
+describe('WaiverTool', () => {
+  let dir: string;
+  let waiverFile: string;
+  let tool: Waivers;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'waiver-'));
+    waiverFile = join(dir, 'lint', 'waivers.vlt');
+    mkdirSync(join(dir, 'lint'));
+    const cache = new CacheManager(join(dir, 'cache'));
+    // Let the cache create its directories before a test can remove them
+    await cache.listBuilds();
+    tool = new Waivers(ConfigManager.getInstance(), cache);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('add', () => {
+    it('waives a file by its path below the directory it shares with the waiver file', async () => {
+      const result = await tool.run({
+        operation: 'add',
+        waiverFile,
+        rule: 'WIDTH',
+        file: join(dir, 'rtl', 'fifo', 'fifo.sv'),
+        line: 42,
+        lineEnd: 44,
+        reason: 'Carry bit intentionally dropped',
+      });
+
+      expect(result.data.added).toEqual(['lint_off -rule WIDTH -file "*/rtl/fifo/fifo.sv" -lines 42-44']);
+      expect(result.data.waivers).toEqual([{
+        rule: 'WIDTH',
+        file: '*/rtl/fifo/fifo.sv',
+        lines: '42-44',
+        reason: 'Carry bit intentionally dropped',
+        lineNumber: 4,
+        text: 'lint_off -rule WIDTH -file "*/rtl/fifo/fifo.sv" -lines 42-44',
+        match: undefined,
+      }]);
+    });
+
+    it('keeps same-named files in different directories apart', async () => {
+      const diagnostic = (sub: string) => ({ code: 'UNUSED', file: join(dir, 'rtl', sub, 'fifo.sv'), line: 7, message: 'Signal is not used' });
+
+      const result = await tool.run({ operation: 'add', waiverFile, diagnostics: [diagnostic('a')] });
+
+      const [waiver] = parseWaivers(readFileSync(waiverFile, 'utf-8'));
+      expect(result.data.added).toEqual(['lint_off -rule UNUSED -file "*/rtl/a/fifo.sv" -lines 7']);
+      expect(waiverMatches(waiver, { type: 'warning', ...diagnostic('a') })).toBe(true);
+      expect(waiverMatches(waiver, { type: 'warning', ...diagnostic('b') })).toBe(false);
+      // The same tree checked out elsewhere still matches
+      expect(waiverMatches(waiver, { type: 'warning', ...diagnostic('a'), file: '/ci/build/rtl/a/fifo.sv' })).toBe(true);
+    });
+
+    it('uses the bare file name for a source next to the waiver file', async () => {
+      const result = await tool.run({ operation: 'add', waiverFile, rule: 'DECLFILENAME', file: join(dir, 'lint', 'tb.sv') });
+
+      expect(result.data.added).toEqual(['lint_off -rule DECLFILENAME -file "*/tb.sv"']);
+    });
+
+    it('keeps file wildcards as they are', async () => {
+      const result = await tool.run({ operation: 'add', waiverFile, rule: 'UNUSED', file: '*/vendor/*' });
+
+      expect(result.data.added).toEqual(['lint_off -rule UNUSED -file "*/vendor/*"']);
+    });
+
+    it('fails without a rule or diagnostics', async () => {
+      expect(await tool.run({ operation: 'add', waiverFile })).toEqual({
+        success: false,
+        error: 'Nothing to waive; provide rule or diagnostics',
+      });
+    });
+  });
+
+  describe('stale', () => {
+    const VLT = `\`verilator_config
+
+// Carry bit intentionally dropped
+lint_off -rule WIDTH -file "*/rtl/alu.sv" -lines 42
+lint_off -rule UNUSED -file "*/rtl/regs.sv" -lines 10-14
+// Fixed long ago
+lint_off -rule CASEINCOMPLETE -file "*/rtl/fsm.sv"
+`;
+    const diagnostics = [
+      { code: 'UNUSED', file: '/work/rtl/regs.sv', line: 11, message: 'Signal is not used: a' },
+      { code: 'UNUSED', file: '/work/rtl/regs.sv', line: 12, message: 'Signal is not used: b' },
+      { code: 'WIDTH', file: '/work/rtl/alu.sv', line: 42, message: 'Operator ADD expects 8 bits' },
+    ];
+
+    beforeEach(() => {
+      writeFileSync(waiverFile, VLT);
+    });
+
+    it('counts the diagnostics each waiver matches and lists those matching none', async () => {
+      const result = await tool.run({ operation: 'stale', waiverFile, diagnostics });
+
+      expect(result.data.waivers.map((w: any) => [w.rule, w.matchCount])).toEqual([['WIDTH', 1], ['UNUSED', 2], ['CASEINCOMPLETE', 0]]);
+      expect(result.data.stale).toMatchObject([{ rule: 'CASEINCOMPLETE', lineNumber: 7, reason: 'Fixed long ago' }]);
+      expect(result.data.diagnosticsChecked).toBe(3);
+      expect(result.data.removed).toBeUndefined();
+      expect(readFileSync(waiverFile, 'utf-8')).toBe(VLT);
+    });
+
+    it('removes stale waivers with their reason when asked', async () => {
+      const result = await tool.run({ operation: 'stale', waiverFile, diagnostics: diagnostics.slice(2), removeStale: true });
+
+      expect(result.data.removed).toBe(2);
+      expect(readFileSync(waiverFile, 'utf-8')).toBe(`\`verilator_config
+
+// Carry bit intentionally dropped
+lint_off -rule WIDTH -file "*/rtl/alu.sv" -lines 42
+`);
+    });
+
+    it('lints the sources without the waiver file', async () => {
+      const lint = jest.spyOn(LintTool.prototype, 'execute').mockResolvedValue({
+        success: true,
+        data: { warnings: diagnostics.map(d => ({ type: 'warning', ...d })), errors: [] } as any,
+        executionTime: 0,
+      });
+      try {
+        const result = await tool.run({ operation: 'stale', waiverFile, files: ['rtl/alu.sv', 'rtl/regs.sv'], topModule: 'top' });
+
+        expect(lint).toHaveBeenCalledWith({ files: ['rtl/alu.sv', 'rtl/regs.sv'], topModule: 'top', includes: undefined, defines: undefined });
+        expect(result.data.stale.map((w: any) => w.rule)).toEqual(['CASEINCOMPLETE']);
+      } finally {
+        lint.mockRestore();
+      }
+    });
+
+    it('fails without sources or diagnostics to check against', async () => {
+      expect(await tool.run({ operation: 'stale', waiverFile })).toEqual({
+        success: false,
+        error: 'Provide files to lint or diagnostics to check waivers against',
+      });
+    });
+  });
+
+  it('lists the waivers of a file', async () => {
+    expect((await tool.run({ operation: 'list', waiverFile })).data.waivers).toEqual([]);
+
+    await tool.run({ operation: 'add', waiverFile, rule: 'WIDTH', file: join(dir, 'rtl', 'alu.sv'), line: 3, match: 'Operator *' });
+    expect((await tool.run({ operation: 'list', waiverFile })).data.waivers).toEqual([{
+      rule: 'WIDTH',
+      file: '*/rtl/alu.sv',
+      lines: '3',
+      match: 'Operator *',
+      reason: undefined,
+      lineNumber: 3,
+      text: 'lint_off -rule WIDTH -file "*/rtl/alu.sv" -lines 3 -match "Operator *"',
+    }]);
+  });
+});
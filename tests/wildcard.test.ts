@@ -0,0 +1,21 @@
+import { wildcardMatch } from '../src/utils/wildcard';
+
+describe('wildcardMatch', () => {
+  it('matches the whole string', () => {
+    expect(wildcardMatch('*/rtl/alu.sv', '/work/rtl/alu.sv')).toBe(true);
+    expect(wildcardMatch('*/rtl/alu.sv', '/work/rtl/alu.sv.bak')).toBe(false);
+    expect(wildcardMatch('rtl', '/work/rtl/alu.sv')).toBe(false);
+  });
+
+  it('lets * cross directories and ? match one character', () => {
+    expect(wildcardMatch('/work/*.sv', '/work/rtl/sub/alu.sv')).toBe(true);
+    expect(wildcardMatch('alu_?.sv', 'alu_1.sv')).toBe(true);
+    expect(wildcardMatch('alu_?.sv', 'alu_10.sv')).toBe(false);
+  });
+
+  it('takes every other character literally', () => {
+    expect(wildcardMatch('count[3].q (x+1)', 'count[3].q (x+1)')).toBe(true);
+    expect(wildcardMatch('a.b', 'axb')).toBe(false);
+    expect(wildcardMatch('Signal *', 'Signal is\nnot used')).toBe(true);
+  });
+});